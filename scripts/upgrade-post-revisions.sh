@@ -0,0 +1,29 @@
+#!/bin/bash
+set -e
+
+# Adds post edit history to a post service database created before it existed.
+#
+# The post service creates its schema with EnsureCreated, which does nothing once the database
+# exists, so databases created earlier don't get the PostRevisions table. Run this before starting
+# the updated service; it's safe to run more than once. Posts."UpdatedAt" is now checked when an
+# edit is saved, but it's an existing column, so that needs no change here.
+#
+#   PGHOST=localhost PGUSER=webapp ./scripts/upgrade-post-revisions.sh [database]
+#
+# The database defaults to webapp_postservice, the post service's default connection.
+
+psql -v ON_ERROR_STOP=1 --dbname "${1:-webapp_postservice}" <<-EOSQL
+    CREATE TABLE IF NOT EXISTS "PostRevisions" (
+        "Id" uuid NOT NULL,
+        "PostId" uuid NOT NULL,
+        "Content" character varying(2000) NOT NULL,
+        "CreatedAt" timestamp with time zone NOT NULL,
+        "ReplacedAt" timestamp with time zone NOT NULL,
+        CONSTRAINT "PK_PostRevisions" PRIMARY KEY ("Id"),
+        CONSTRAINT "FK_PostRevisions_Posts_PostId" FOREIGN KEY ("PostId") REFERENCES "Posts" ("Id") ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS "IX_PostRevisions_PostId_CreatedAt" ON "PostRevisions" ("PostId", "CreatedAt");
+EOSQL
+
+echo "Post revisions table is in place."
@@ -0,0 +1,55 @@
+using System.ComponentModel.DataAnnotations;
+using System.Text.Json;
+using FluentAssertions;
+using WebApp.Common.DTOs;
+using WebApp.Common.Entities;
+using Xunit;
+
+namespace WebApp.Tests.Application.DTOs;
+
+public class CreateMediaAttachmentRequestTests
+{
+    // The attachments as the web app sends them to POST api/Posts/media, from the media upload service's response
+    private const string MediaAttachmentsJson = """
+        [
+          { "url": "https://cdn.example.com/cat.png", "fileName": "cat.png", "contentType": "image/png", "fileSize": 3 }
+        ]
+        """;
+
+    [Fact]
+    public void Deserialize_WebAppPayload_ShouldAttachToNewPost()
+    {
+        // Arrange - a media post without a caption, as PostService creates it
+        var post = new Post(Guid.NewGuid(), string.Empty, PostType.Image);
+
+        // Act
+        var attachments = JsonSerializer.Deserialize<List<CreateMediaAttachmentRequest>>(
+            MediaAttachmentsJson, new JsonSerializerOptions(JsonSerializerDefaults.Web))!;
+        foreach (var attachment in attachments)
+        {
+            post.AddMediaAttachment(attachment.Url, attachment.FileName, attachment.ContentType, attachment.FileSize);
+        }
+
+        // Assert
+        attachments.Should().ContainSingle();
+        post.MediaAttachments.Should().ContainSingle(m =>
+            m.PostId == post.Id && m.Url == "https://cdn.example.com/cat.png" && m.FileName == "cat.png" &&
+            m.ContentType == "image/png" && m.FileSize == 3);
+        post.Type.Should().Be(PostType.Image);
+    }
+
+    [Fact]
+    public void Validate_WithoutUrl_ShouldFail()
+    {
+        // Arrange
+        var request = new CreateMediaAttachmentRequest { FileName = "cat.png", ContentType = "image/png", FileSize = 3 };
+        var results = new List<ValidationResult>();
+
+        // Act
+        var isValid = Validator.TryValidateObject(request, new ValidationContext(request), results, validateAllProperties: true);
+
+        // Assert
+        isValid.Should().BeFalse();
+        results.Should().ContainSingle(r => r.MemberNames.Contains(nameof(CreateMediaAttachmentRequest.Url)));
+    }
+}
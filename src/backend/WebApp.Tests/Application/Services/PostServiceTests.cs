@@ -1,4 +1,5 @@
 using FluentAssertions;
+using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Logging;
 using Moq;
 using WebApp.Common.Services;
@@ -320,9 +321,11 @@ public class PostServiceTests
         var newContent = "Updated content";
         var post = new Post(authorId, "Original content");
         
+        var originalUpdatedAt = post.UpdatedAt;
+        
         _mockPostRepository.Setup(r => r.GetByIdAsync(postId))
             .ReturnsAsync(post);
-        _mockPostRepository.Setup(r => r.Update(It.IsAny<Post>()));
+        _mockPostRepository.Setup(r => r.Update(It.IsAny<Post>(), It.IsAny<DateTime>()));
         _mockPostRepository.Setup(r => r.SaveChangesAsync())
             .ReturnsAsync(1);
 
@@ -333,7 +336,7 @@ public class PostServiceTests
         result.Should().NotBeNull();
         result.Content.Should().Be(newContent);
         
-        _mockPostRepository.Verify(r => r.Update(It.IsAny<Post>()), Times.Once);
+        _mockPostRepository.Verify(r => r.Update(post, originalUpdatedAt), Times.Once);
         _mockPostRepository.Verify(r => r.SaveChangesAsync(), Times.Once);
     }
 
@@ -408,6 +411,74 @@ public class PostServiceTests
         exception.Message.Should().Contain("User is not authorized to update this post");
     }
 
+    [Fact]
+    public async Task UpdatePostContentAsync_WithCurrentVersion_ShouldKeepPreviousContentAsRevision()
+    {
+        // Arrange
+        var postId = Guid.NewGuid();
+        var authorId = Guid.NewGuid();
+        var post = new Post(authorId, "Original content");
+        var originalUpdatedAt = post.UpdatedAt;
+        
+        _mockPostRepository.Setup(r => r.GetByIdAsync(postId))
+            .ReturnsAsync(post);
+        _mockPostRepository.Setup(r => r.SaveChangesAsync())
+            .ReturnsAsync(1);
+
+        // Act
+        var result = await _postService.UpdatePostContentAsync(postId, authorId, "Updated content", originalUpdatedAt);
+
+        // Assert
+        result.Content.Should().Be("Updated content");
+        result.IsEdited.Should().BeTrue();
+        
+        _mockPostRepository.Verify(r => r.AddRevisionAsync(It.Is<PostRevision>(
+            revision => revision.Content == "Original content" && revision.CreatedAt == originalUpdatedAt)), Times.Once);
+    }
+
+    [Fact]
+    public async Task UpdatePostContentAsync_WithStaleVersion_ShouldThrowConflict()
+    {
+        // Arrange
+        var postId = Guid.NewGuid();
+        var authorId = Guid.NewGuid();
+        var post = new Post(authorId, "Edited in another tab");
+        
+        _mockPostRepository.Setup(r => r.GetByIdAsync(postId))
+            .ReturnsAsync(post);
+
+        // Act & Assert
+        var exception = await Assert.ThrowsAnyAsync<InvalidOperationException>(
+            () => _postService.UpdatePostContentAsync(postId, authorId, "Updated content", post.UpdatedAt.AddMinutes(-5)));
+        
+        exception.Message.Should().Contain("changed since it was loaded");
+        post.Content.Should().Be("Edited in another tab");
+        _mockPostRepository.Verify(r => r.SaveChangesAsync(), Times.Never);
+    }
+
+    [Fact]
+    public async Task UpdatePostContentAsync_WhenChangedWhileSaving_ShouldThrowConflictWithCurrentPost()
+    {
+        // Arrange
+        var postId = Guid.NewGuid();
+        var authorId = Guid.NewGuid();
+        var post = new Post(authorId, "Original content");
+        var currentPost = new Post(authorId, "Edited in another tab");
+        
+        _mockPostRepository.SetupSequence(r => r.GetByIdAsync(It.IsAny<Guid>()))
+            .ReturnsAsync(post)
+            .ReturnsAsync(currentPost);
+        _mockPostRepository.Setup(r => r.SaveChangesAsync())
+            .ThrowsAsync(new DbUpdateConcurrencyException("The post was changed by another request"));
+
+        // Act & Assert
+        var exception = await Assert.ThrowsAnyAsync<InvalidOperationException>(
+            () => _postService.UpdatePostContentAsync(postId, authorId, "Updated content", post.UpdatedAt));
+        
+        exception.Message.Should().Contain("changed since it was loaded");
+        _mockPostRepository.Verify(r => r.GetByIdAsync(postId), Times.Exactly(2));
+    }
+
     #endregion
 
     #region UpdatePostVisibilityAsync Tests
@@ -421,9 +492,11 @@ public class PostServiceTests
         var newVisibility = PostVisibility.Private;
         var post = new Post(authorId, "Content");
         
+        var originalUpdatedAt = post.UpdatedAt;
+        
         _mockPostRepository.Setup(r => r.GetByIdAsync(postId))
             .ReturnsAsync(post);
-        _mockPostRepository.Setup(r => r.Update(It.IsAny<Post>()));
+        _mockPostRepository.Setup(r => r.Update(It.IsAny<Post>(), It.IsAny<DateTime>()));
         _mockPostRepository.Setup(r => r.SaveChangesAsync())
             .ReturnsAsync(1);
 
@@ -434,7 +507,7 @@ public class PostServiceTests
         result.Should().NotBeNull();
         result.Visibility.Should().Be(newVisibility);
         
-        _mockPostRepository.Verify(r => r.Update(It.IsAny<Post>()), Times.Once);
+        _mockPostRepository.Verify(r => r.Update(post, originalUpdatedAt), Times.Once);
         _mockPostRepository.Verify(r => r.SaveChangesAsync(), Times.Once);
     }
 
@@ -197,4 +197,64 @@ public class UserTests
         user.CoverImageUrl.Should().Be(coverUrl);
         user.UpdatedAt.Should().BeAfter(originalUpdatedAt);
     }
+
+    [Fact]
+    public void BeginTwoFactorSetup_ShouldStoreSecretWithoutEnabling()
+    {
+        // Arrange
+        var user = new User("test@example.com", "username", "Display Name", "hashedpassword");
+
+        // Act
+        user.BeginTwoFactorSetup("JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP");
+
+        // Assert
+        user.TwoFactorSecret.Should().Be("JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP");
+        user.IsTwoFactorEnabled.Should().BeFalse();
+    }
+
+    [Fact]
+    public void ConfirmTwoFactorSetup_WithoutSetup_ShouldThrowInvalidOperationException()
+    {
+        // Arrange
+        var user = new User("test@example.com", "username", "Display Name", "hashedpassword");
+
+        // Act & Assert
+        var action = () => user.ConfirmTwoFactorSetup(new[] { "hash" });
+        
+        action.Should().Throw<InvalidOperationException>();
+        user.IsTwoFactorEnabled.Should().BeFalse();
+    }
+
+    [Fact]
+    public void UseTwoFactorRecoveryCode_ShouldAcceptEachCodeOnce()
+    {
+        // Arrange
+        var user = new User("test@example.com", "username", "Display Name", "hashedpassword");
+        user.BeginTwoFactorSetup("JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP");
+        user.ConfirmTwoFactorSetup(new[] { "first", "second" });
+
+        // Act & Assert
+        user.IsTwoFactorEnabled.Should().BeTrue();
+        user.UseTwoFactorRecoveryCode("first").Should().BeTrue();
+        user.UseTwoFactorRecoveryCode("first").Should().BeFalse();
+        user.UseTwoFactorRecoveryCode("unknown").Should().BeFalse();
+        user.UseTwoFactorRecoveryCode("second").Should().BeTrue();
+    }
+
+    [Fact]
+    public void DisableTwoFactor_ShouldClearSecretAndRecoveryCodes()
+    {
+        // Arrange
+        var user = new User("test@example.com", "username", "Display Name", "hashedpassword");
+        user.BeginTwoFactorSetup("JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP");
+        user.ConfirmTwoFactorSetup(new[] { "first" });
+
+        // Act
+        user.DisableTwoFactor();
+
+        // Assert
+        user.IsTwoFactorEnabled.Should().BeFalse();
+        user.TwoFactorSecret.Should().BeNull();
+        user.TwoFactorRecoveryCodes.Should().BeNull();
+    }
 }
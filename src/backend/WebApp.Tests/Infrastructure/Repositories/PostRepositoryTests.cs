@@ -10,16 +10,17 @@ namespace WebApp.Tests.Infrastructure.Repositories;
 
 public class PostRepositoryTests : IDisposable
 {
+    private readonly DbContextOptions<ApplicationDbContext> _options;
     private readonly ApplicationDbContext _context;
     private readonly IPostRepository _postRepository;
 
     public PostRepositoryTests()
     {
-        var options = new DbContextOptionsBuilder<ApplicationDbContext>()
+        _options = new DbContextOptionsBuilder<ApplicationDbContext>()
             .UseInMemoryDatabase(databaseName: Guid.NewGuid().ToString())
             .Options;
 
-        _context = new ApplicationDbContext(options);
+        _context = new ApplicationDbContext(_options);
         _postRepository = new PostRepository(_context);
     }
 
@@ -45,6 +46,27 @@ public class PostRepositoryTests : IDisposable
         result.AuthorId.Should().Be(user.Id);
     }
 
+    [Fact]
+    public async Task GetByIdAsync_ShouldLoadAuthorAndMediaAttachments()
+    {
+        // Arrange
+        var user = new User("author@example.com", "author", "Author", "hashedpassword");
+        var post = new Post(user.Id, "Post with media");
+        post.AddMediaAttachment("https://cdn.example.com/photo.jpg", "photo.jpg", "image/jpeg", 2048);
+        await _context.Users.AddAsync(user);
+        await _context.Posts.AddAsync(post);
+        await _context.SaveChangesAsync();
+        _context.ChangeTracker.Clear();
+
+        // Act
+        var result = await _postRepository.GetByIdAsync(post.Id);
+
+        // Assert
+        result!.Author.Should().NotBeNull();
+        result.Author.Username.Should().Be("author");
+        result.MediaAttachments.Should().ContainSingle(m => m.FileName == "photo.jpg");
+    }
+
     [Fact]
     public async Task GetByIdAsync_WithInvalidId_ShouldReturnNull()
     {
@@ -196,10 +218,11 @@ public class PostRepositoryTests : IDisposable
         await _context.SaveChangesAsync();
 
         // Modify post
+        var loadedUpdatedAt = post.UpdatedAt;
         post.UpdateContent("Updated content");
 
         // Act
-        _postRepository.Update(post);
+        _postRepository.Update(post, loadedUpdatedAt);
         await _postRepository.SaveChangesAsync();
 
         // Assert
@@ -209,6 +232,113 @@ public class PostRepositoryTests : IDisposable
         updatedPost.IsEdited.Should().BeTrue();
     }
 
+    [Fact]
+    public async Task Update_WithPostLoadedByRepository_ShouldSaveChanges()
+    {
+        // Arrange
+        var user = new User("user@example.com", "user", "User", "hashedpassword");
+        var post = new Post(user.Id, "Original content");
+        await _context.Users.AddAsync(user);
+        await _context.Posts.AddAsync(post);
+        await _context.SaveChangesAsync();
+        _context.ChangeTracker.Clear();
+
+        var loadedPost = await _postRepository.GetByIdAsync(post.Id);
+        var loadedUpdatedAt = loadedPost!.UpdatedAt;
+        loadedPost.UpdateContent("Updated content");
+
+        // Act
+        _postRepository.Update(loadedPost, loadedUpdatedAt);
+        await _postRepository.SaveChangesAsync();
+
+        // Assert
+        var updatedPost = await _context.Posts.FirstOrDefaultAsync(p => p.Id == post.Id);
+        updatedPost!.Content.Should().Be("Updated content");
+        updatedPost.UpdatedAt.Should().Be(loadedPost.UpdatedAt);
+    }
+
+    [Fact]
+    public async Task Update_WithPostLoadedByRepository_ShouldNotSaveItsAuthor()
+    {
+        // Arrange
+        var user = new User("user@example.com", "user", "User", "hashedpassword");
+        var post = new Post(user.Id, "Original content");
+        await _context.Users.AddAsync(user);
+        await _context.Posts.AddAsync(post);
+        await _context.SaveChangesAsync();
+        _context.ChangeTracker.Clear();
+
+        var loadedPost = await _postRepository.GetByIdAsync(post.Id);
+        var loadedUpdatedAt = loadedPost!.UpdatedAt;
+        loadedPost.UpdateContent("Updated content");
+
+        // Act
+        _postRepository.Update(loadedPost, loadedUpdatedAt);
+
+        // Assert
+        _context.Entry(loadedPost).State.Should().Be(EntityState.Modified);
+        _context.Entry(loadedPost.Author).State.Should().Be(EntityState.Unchanged);
+    }
+
+    [Fact]
+    public async Task Update_WhenPostWasChangedSinceItWasLoaded_ShouldFailToSave()
+    {
+        // Arrange
+        var user = new User("user@example.com", "user", "User", "hashedpassword");
+        var post = new Post(user.Id, "Original content");
+        await _context.Users.AddAsync(user);
+        await _context.Posts.AddAsync(post);
+        await _context.SaveChangesAsync();
+        _context.ChangeTracker.Clear();
+
+        var loadedPost = await _postRepository.GetByIdAsync(post.Id);
+        var loadedUpdatedAt = loadedPost!.UpdatedAt;
+
+        // Another request saves its edit first
+        using (var otherContext = new ApplicationDbContext(_options))
+        {
+            var otherPost = await otherContext.Posts.AsTracking().FirstAsync(p => p.Id == post.Id);
+            otherPost.UpdateContent("Edited elsewhere");
+            await otherContext.SaveChangesAsync();
+        }
+
+        loadedPost.UpdateContent("Edited here");
+
+        // Act
+        _postRepository.Update(loadedPost, loadedUpdatedAt);
+        var act = () => _postRepository.SaveChangesAsync();
+
+        // Assert
+        await act.Should().ThrowAsync<DbUpdateConcurrencyException>();
+
+        using var freshContext = new ApplicationDbContext(_options);
+        var storedPost = await freshContext.Posts.FirstAsync(p => p.Id == post.Id);
+        storedPost.Content.Should().Be("Edited elsewhere");
+    }
+
+    [Fact]
+    public async Task GetRevisionsAsync_ShouldReturnPostRevisionsOldestFirst()
+    {
+        // Arrange
+        var user = new User("user@example.com", "user", "User", "hashedpassword");
+        await _context.Users.AddAsync(user);
+        await _context.SaveChangesAsync();
+
+        var post = new Post(user.Id, "Third version");
+        var otherPost = new Post(user.Id, "Other post");
+        await _context.Posts.AddRangeAsync(post, otherPost);
+        await _postRepository.AddRevisionAsync(new PostRevision(post.Id, "Second version", DateTime.UtcNow.AddMinutes(-5)));
+        await _postRepository.AddRevisionAsync(new PostRevision(post.Id, "First version", DateTime.UtcNow.AddMinutes(-10)));
+        await _postRepository.AddRevisionAsync(new PostRevision(otherPost.Id, "Other version", DateTime.UtcNow.AddMinutes(-1)));
+        await _postRepository.SaveChangesAsync();
+
+        // Act
+        var revisions = await _postRepository.GetRevisionsAsync(post.Id);
+
+        // Assert
+        revisions.Select(r => r.Content).Should().Equal("First version", "Second version");
+    }
+
     [Fact]
     public async Task DeleteAsync_WithValidId_ShouldRemovePostFromDatabase()
     {
@@ -364,6 +494,31 @@ public class PostRepositoryTests : IDisposable
         result.Should().Be(2);
     }
 
+    [Fact]
+    public async Task GetReplyCountsAsync_ShouldCountDirectRepliesOfEachPost()
+    {
+        // Arrange
+        var user = new User("user@example.com", "user", "User", "hashedpassword");
+        await _context.Users.AddAsync(user);
+        await _context.SaveChangesAsync();
+
+        var post = new Post(user.Id, "Post with replies");
+        var leaf = new Post(user.Id, "Post without replies");
+        var reply = new Post(user.Id, "Reply 1", post.Id);
+        var nestedReply = new Post(user.Id, "Reply to reply 1", reply.Id, post.Id);
+        await _context.Posts.AddRangeAsync(post, leaf, reply, new Post(user.Id, "Reply 2", post.Id), nestedReply);
+        await _context.SaveChangesAsync();
+
+        // Act
+        var result = await _postRepository.GetReplyCountsAsync(new[] { post.Id, leaf.Id, reply.Id });
+
+        // Assert
+        result.Should().HaveCount(2);
+        result[post.Id].Should().Be(2);
+        result[reply.Id].Should().Be(1);
+        result.Should().NotContainKey(leaf.Id);
+    }
+
     public void Dispose()
     {
         _context.Dispose();
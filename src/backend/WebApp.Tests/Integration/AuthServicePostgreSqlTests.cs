@@ -210,6 +210,7 @@ public class TestAuthDbContext : DbContext
             entity.Property(u => u.CoverImageUrl).HasMaxLength(500);
             entity.Property(u => u.EmailConfirmationToken).HasMaxLength(64);
             entity.Property(u => u.TwoFactorSecret).HasMaxLength(32);
+            entity.Property(u => u.TwoFactorRecoveryCodes).HasMaxLength(700);
 
             // Ignore Post navigation property to prevent Post relationship issues
             entity.Ignore(u => u.Posts);
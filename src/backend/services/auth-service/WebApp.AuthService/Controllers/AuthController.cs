@@ -4,6 +4,7 @@ using System.Security.Claims;
 using WebApp.Common.DTOs;
 using WebApp.Common.Entities;
 using WebApp.Common.Interfaces;
+using WebApp.AuthService.Services;
 
 namespace WebApp.AuthService.Controllers;
 
@@ -61,7 +62,8 @@ public class AuthController : ControllerBase
     }
 
     /// <summary>
-    /// Login with email/username and password
+    /// Login with email/username and password. Accounts with 2FA get a TwoFactorChallengeResponse
+    /// instead of tokens, and finish with POST 2fa/login.
     /// </summary>
     [HttpPost("login")]
     [ProducesResponseType(typeof(AuthResponse), StatusCodes.Status200OK)]
@@ -79,6 +81,10 @@ public class AuthController : ControllerBase
             var response = await _authService.LoginAsync(request);
             return Ok(response);
         }
+        catch (TwoFactorRequiredException ex)
+        {
+            return Ok(new TwoFactorChallengeResponse { TwoFactorToken = ex.TwoFactorToken });
+        }
         catch (ArgumentException ex)
         {
             _logger.LogWarning(ex, "Login failed with argument error");
@@ -89,6 +95,20 @@ public class AuthController : ControllerBase
                 StatusCode = StatusCodes.Status400BadRequest
             });
         }
+        catch (LoginFailedException ex)
+        {
+            _logger.LogWarning(ex, "Login failed for an existing account");
+            return Unauthorized(new AuthErrorResponse
+            {
+                Error = ex.IsLockedOut ? "account_locked" : "invalid_grant",
+                ErrorDescription = ex.Message,
+                StatusCode = StatusCodes.Status401Unauthorized,
+                AttemptsRemaining = ex.AttemptsRemaining,
+                RetryAfterSeconds = ex.LockoutEndAt.HasValue
+                    ? (int)Math.Ceiling(Math.Max(0, (ex.LockoutEndAt.Value - DateTime.UtcNow).TotalSeconds))
+                    : null
+            });
+        }
         catch (UnauthorizedAccessException ex)
         {
             _logger.LogWarning(ex, "Login failed with unauthorized error");
@@ -111,6 +131,72 @@ public class AuthController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Finish a 2FA login with an authenticator code or a recovery code
+    /// </summary>
+    [HttpPost("2fa/login")]
+    [AllowAnonymous]
+    [ProducesResponseType(typeof(AuthResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(AuthErrorResponse), StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(typeof(AuthErrorResponse), StatusCodes.Status401Unauthorized)]
+    public async Task<ActionResult<AuthResponse>> TwoFactorLoginAsync([FromBody] TwoFactorLoginRequest request)
+    {
+        try
+        {
+            if (!ModelState.IsValid)
+            {
+                return BadRequest(ModelState);
+            }
+
+            var response = await _authService.CompleteTwoFactorLoginAsync(request);
+            return Ok(response);
+        }
+        catch (ArgumentException ex)
+        {
+            _logger.LogWarning(ex, "Two-factor login failed with argument error");
+            return BadRequest(new AuthErrorResponse
+            {
+                Error = "invalid_request",
+                ErrorDescription = ex.Message,
+                StatusCode = StatusCodes.Status400BadRequest
+            });
+        }
+        catch (LoginFailedException ex)
+        {
+            _logger.LogWarning(ex, "Two-factor login failed with an invalid code");
+            return Unauthorized(new AuthErrorResponse
+            {
+                Error = ex.IsLockedOut ? "account_locked" : "invalid_code",
+                ErrorDescription = ex.Message,
+                StatusCode = StatusCodes.Status401Unauthorized,
+                AttemptsRemaining = ex.AttemptsRemaining,
+                RetryAfterSeconds = ex.LockoutEndAt.HasValue
+                    ? (int)Math.Ceiling(Math.Max(0, (ex.LockoutEndAt.Value - DateTime.UtcNow).TotalSeconds))
+                    : null
+            });
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            _logger.LogWarning(ex, "Two-factor login failed with unauthorized error");
+            return Unauthorized(new AuthErrorResponse
+            {
+                Error = "invalid_grant",
+                ErrorDescription = ex.Message,
+                StatusCode = StatusCodes.Status401Unauthorized
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Two-factor login failed with unexpected error");
+            return StatusCode(StatusCodes.Status500InternalServerError, new AuthErrorResponse
+            {
+                Error = "server_error",
+                ErrorDescription = "An unexpected error occurred during login",
+                StatusCode = StatusCodes.Status500InternalServerError
+            });
+        }
+    }
+
     /// <summary>
     /// Refresh access token using refresh token
     /// </summary>
@@ -425,7 +511,7 @@ public class AuthController : ControllerBase
     }
 
     /// <summary>
-    /// Enable two-factor authentication
+    /// Start two-factor setup; it takes effect once confirmed with POST 2fa/verify
     /// </summary>
     [HttpPost("2fa/enable")]
     [Authorize]
@@ -446,12 +532,55 @@ public class AuthController : ControllerBase
     }
 
     /// <summary>
-    /// Disable two-factor authentication
+    /// Turn two-factor authentication on with a first code from the authenticator app
+    /// </summary>
+    [HttpPost("2fa/verify")]
+    [Authorize]
+    [ProducesResponseType(typeof(TwoFactorRecoveryCodesResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(AuthErrorResponse), StatusCodes.Status400BadRequest)]
+    public async Task<ActionResult<TwoFactorRecoveryCodesResponse>> VerifyTwoFactorAsync([FromBody] TwoFactorCodeRequest request)
+    {
+        try
+        {
+            var userId = GetUserIdFromClaims();
+            var recoveryCodes = await _authService.ConfirmTwoFactorAsync(userId, request.Code);
+            return Ok(new TwoFactorRecoveryCodesResponse { RecoveryCodes = recoveryCodes });
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning(ex, "Verify 2FA failed with invalid state");
+            return BadRequest(new AuthErrorResponse
+            {
+                Error = "invalid_request",
+                ErrorDescription = ex.Message,
+                StatusCode = StatusCodes.Status400BadRequest
+            });
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            // Not a 401: the caller is signed in, and a 401 would send the client to refresh its token
+            _logger.LogWarning(ex, "Verify 2FA failed with an invalid code");
+            return BadRequest(new AuthErrorResponse
+            {
+                Error = "invalid_code",
+                ErrorDescription = ex.Message,
+                StatusCode = StatusCodes.Status400BadRequest
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Verify 2FA failed with unexpected error");
+            return StatusCode(StatusCodes.Status500InternalServerError);
+        }
+    }
+
+    /// <summary>
+    /// Disable two-factor authentication, or cancel a setup that hasn't been verified (no code needed)
     /// </summary>
     [HttpPost("2fa/disable")]
     [Authorize]
     [ProducesResponseType(StatusCodes.Status204NoContent)]
-    [ProducesResponseType(typeof(AuthErrorResponse), StatusCodes.Status401Unauthorized)]
+    [ProducesResponseType(typeof(AuthErrorResponse), StatusCodes.Status400BadRequest)]
     public async Task<IActionResult> DisableTwoFactorAsync([FromBody] TwoFactorCodeRequest request)
     {
         try
@@ -462,12 +591,12 @@ public class AuthController : ControllerBase
         }
         catch (UnauthorizedAccessException ex)
         {
-            _logger.LogWarning(ex, "Disable 2FA failed with unauthorized error");
-            return Unauthorized(new AuthErrorResponse
+            _logger.LogWarning(ex, "Disable 2FA failed with an invalid code");
+            return BadRequest(new AuthErrorResponse
             {
                 Error = "invalid_code",
                 ErrorDescription = ex.Message,
-                StatusCode = StatusCodes.Status401Unauthorized
+                StatusCode = StatusCodes.Status400BadRequest
             });
         }
         catch (Exception ex)
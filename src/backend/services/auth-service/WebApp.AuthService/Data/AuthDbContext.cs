@@ -38,6 +38,7 @@ public class AuthDbContext : DbContext
             entity.Property(u => u.CoverImageUrl).HasMaxLength(500);
             entity.Property(u => u.EmailConfirmationToken).HasMaxLength(64);
             entity.Property(u => u.TwoFactorSecret).HasMaxLength(32);
+            entity.Property(u => u.TwoFactorRecoveryCodes).HasMaxLength(700);
             
             // Ignore Post navigation property to avoid Post relationship validation issues
             entity.Ignore(u => u.Posts);
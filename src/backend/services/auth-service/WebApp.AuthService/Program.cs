@@ -102,6 +102,8 @@ builder.Services.AddEndpointsApiExplorer();
 builder.Services.AddSwaggerGen(c =>
 {
     c.SwaggerDoc("v1", new() { Title = "WebApp Auth Service", Version = "v1" });
+    // Only nullable-annotated members are nullable in the document the frontend client is generated from
+    c.SupportNonNullableReferenceTypes();
     
     // Add JWT authentication to Swagger
     c.AddSecurityDefinition("Bearer", new Microsoft.OpenApi.Models.OpenApiSecurityScheme
@@ -17,6 +17,8 @@ public class AuthService : IAuthService
     private readonly IJwtService _jwtService;
     private readonly IEmailService _emailService;
     private readonly ILogger<AuthService> _logger;
+    
+    private const int RecoveryCodeCount = 10;
 
     public AuthService(
         AuthUserRepository userRepository,
@@ -89,7 +91,7 @@ public class AuthService : IAuthService
         _logger.LogInformation("User {UserId} registered successfully", user.Id);
 
         // Send confirmation email
-        var confirmationLink = $"https://webapp.com/confirm-email?userId={user.Id}&token={user.EmailConfirmationToken}";
+        var confirmationLink = $"https://webapp.com/auth/confirm-email?userId={user.Id}&token={Uri.EscapeDataString(user.EmailConfirmationToken!)}";
         await _emailService.SendEmailConfirmationAsync(user.Email, confirmationLink, user.DisplayName);
 
         // Send welcome email
@@ -154,7 +156,7 @@ public class AuthService : IAuthService
         if (user.IsLockedOut)
         {
             _logger.LogWarning("Login failed: Account locked for user {UserId}", user.Id);
-            throw new UnauthorizedAccessException("Account is temporarily locked due to multiple failed attempts");
+            throw new LoginFailedException("Account is temporarily locked due to multiple failed attempts", 0, user.LockoutEndAt);
         }
 
         // Verify password
@@ -167,7 +169,12 @@ public class AuthService : IAuthService
             _userRepository.Update(user);
             await _userRepository.SaveChangesAsync();
             
-            throw new UnauthorizedAccessException("Invalid email/username or password");
+            if (user.IsLockedOut)
+            {
+                throw new LoginFailedException("Account is temporarily locked due to multiple failed attempts", 0, user.LockoutEndAt);
+            }
+            
+            throw new LoginFailedException("Invalid email/username or password", user.RemainingLoginAttempts);
         }
 
         // Check if email is confirmed
@@ -177,43 +184,57 @@ public class AuthService : IAuthService
             throw new UnauthorizedAccessException("Please confirm your email address before logging in");
         }
 
-        // Successful login - reset failed attempts and update login time
-        user.RecordSuccessfulLogin();
-        _userRepository.Update(user);
-        await _userRepository.SaveChangesAsync();
+        // Accounts with 2FA finish signing in with a code; the password check doesn't count as a login yet
+        if (user.IsTwoFactorEnabled)
+        {
+            _logger.LogInformation("Two-factor code required for user {UserId}", user.Id);
+            throw new TwoFactorRequiredException(_jwtService.GenerateTwoFactorToken(user));
+        }
 
-        // Generate session and tokens
-        var sessionId = Guid.NewGuid().ToString();
-        var accessToken = _jwtService.GenerateAccessToken(user, sessionId);
-        var refreshToken = _jwtService.GenerateRefreshToken(user, sessionId, "0.0.0.0", "Login");
+        return await CompleteLoginAsync(user, request.RememberMe, cancellationToken);
+    }
 
-        // Save refresh token
-        await _refreshTokenRepository.CreateAsync(refreshToken, cancellationToken);
+    public async Task<AuthResponse> CompleteTwoFactorLoginAsync(TwoFactorLoginRequest request, CancellationToken cancellationToken = default)
+    {
+        var userId = _jwtService.ValidateTwoFactorToken(request.TwoFactorToken);
+        if (userId == null)
+            throw new UnauthorizedAccessException("Your sign-in has expired. Please sign in again.");
 
-        // Create user session
-        var sessionExpiration = request.RememberMe 
-            ? DateTime.UtcNow.AddDays(30) 
-            : DateTime.UtcNow.AddDays(1);
-            
-        var userSession = new UserSession(
-            user.Id,
-            sessionId,
-            "0.0.0.0",
-            "Login",
-            sessionExpiration
-        );
-        
-        await _userSessionRepository.CreateAsync(userSession, cancellationToken);
+        if (string.IsNullOrWhiteSpace(request.Code) && string.IsNullOrWhiteSpace(request.RecoveryCode))
+            throw new ArgumentException("A code or recovery code is required", nameof(request.Code));
 
-        _logger.LogInformation("User {UserId} logged in successfully", user.Id);
+        var user = await _userRepository.GetByIdAsync(userId.Value);
+        if (user == null || !user.IsTwoFactorEnabled || string.IsNullOrEmpty(user.TwoFactorSecret))
+            throw new UnauthorizedAccessException("Your sign-in has expired. Please sign in again.");
 
-        return new AuthResponse
+        if (user.IsLockedOut)
         {
-            AccessToken = accessToken,
-            RefreshToken = refreshToken.Token,
-            ExpiresAt = DateTime.UtcNow.AddMinutes(15),
-            User = MapToUserDto(user)
-        };
+            _logger.LogWarning("Two-factor login failed: Account locked for user {UserId}", user.Id);
+            throw new LoginFailedException("Account is temporarily locked due to multiple failed attempts", 0, user.LockoutEndAt);
+        }
+
+        var verified = !string.IsNullOrWhiteSpace(request.Code)
+            ? Totp.VerifyCode(user.TwoFactorSecret, request.Code)
+            : user.UseTwoFactorRecoveryCode(HashRecoveryCode(request.RecoveryCode!));
+
+        if (!verified)
+        {
+            _logger.LogWarning("Two-factor login failed: Invalid code for user {UserId}", user.Id);
+
+            // Wrong codes count towards the same lockout as wrong passwords
+            user.RecordFailedLoginAttempt();
+            _userRepository.Update(user);
+            await _userRepository.SaveChangesAsync();
+
+            if (user.IsLockedOut)
+            {
+                throw new LoginFailedException("Account is temporarily locked due to multiple failed attempts", 0, user.LockoutEndAt);
+            }
+
+            throw new LoginFailedException("Invalid verification code", user.RemainingLoginAttempts);
+        }
+
+        return await CompleteLoginAsync(user, request.RememberMe, cancellationToken);
     }
 
     public async Task<AuthResponse> RefreshTokenAsync(RefreshTokenRequest request, CancellationToken cancellationToken = default)
@@ -348,7 +369,7 @@ public class AuthService : IAuthService
         await _passwordResetTokenRepository.CreateAsync(resetToken, cancellationToken);
 
         // Send reset email
-        var resetLink = $"https://webapp.com/reset-password?token={resetToken.Token}&email={request.Email}";
+        var resetLink = $"https://webapp.com/auth/reset-password?token={Uri.EscapeDataString(resetToken.Token)}&email={Uri.EscapeDataString(request.Email)}";
         await _emailService.SendPasswordResetAsync(user.Email, resetLink, user.DisplayName);
 
         _logger.LogInformation("Password reset email sent for user {UserId}", user.Id);
@@ -442,37 +463,59 @@ public class AuthService : IAuthService
         _userRepository.Update(user);
         await _userRepository.SaveChangesAsync();
 
-        var confirmationLink = $"https://webapp.com/confirm-email?userId={user.Id}&token={user.EmailConfirmationToken}";
+        var confirmationLink = $"https://webapp.com/auth/confirm-email?userId={user.Id}&token={Uri.EscapeDataString(user.EmailConfirmationToken!)}";
         await _emailService.SendEmailConfirmationAsync(user.Email, confirmationLink, user.DisplayName);
 
         _logger.LogInformation("Email confirmation resent for user {UserId}", user.Id);
     }
 
-    // Simplified 2FA methods (can be enhanced with proper TOTP later)
+    // 2FA is set up in two steps: enabling stores a secret for the authenticator app, and it only
+    // takes effect once a code from the app is confirmed
     public async Task<string> EnableTwoFactorAsync(Guid userId, CancellationToken cancellationToken = default)
     {
         var user = await _userRepository.GetByIdAsync(userId);
         if (user == null)
             throw new ArgumentException("User not found", nameof(userId));
 
-        var secret = Convert.ToBase64String(RandomNumberGenerator.GetBytes(32));
-        user.EnableTwoFactorAuthentication(secret);
+        var secret = Totp.GenerateSecret();
+        user.BeginTwoFactorSetup(secret);
         
         _userRepository.Update(user);
         await _userRepository.SaveChangesAsync();
 
-        _logger.LogInformation("2FA enabled for user {UserId}", userId);
+        _logger.LogInformation("2FA setup started for user {UserId}", userId);
         return secret;
     }
 
+    public async Task<IEnumerable<string>> ConfirmTwoFactorAsync(Guid userId, string code, CancellationToken cancellationToken = default)
+    {
+        var user = await _userRepository.GetByIdAsync(userId);
+        if (user == null)
+            throw new ArgumentException("User not found", nameof(userId));
+
+        if (user.IsTwoFactorEnabled || string.IsNullOrEmpty(user.TwoFactorSecret))
+            throw new InvalidOperationException("Two-factor setup has not been started");
+
+        if (!Totp.VerifyCode(user.TwoFactorSecret, code))
+            throw new UnauthorizedAccessException("Invalid 2FA code");
+
+        var recoveryCodes = Enumerable.Range(0, RecoveryCodeCount).Select(_ => GenerateRecoveryCode()).ToList();
+        user.ConfirmTwoFactorSetup(recoveryCodes.Select(HashRecoveryCode));
+        _userRepository.Update(user);
+        await _userRepository.SaveChangesAsync();
+
+        _logger.LogInformation("2FA enabled for user {UserId}", userId);
+        return recoveryCodes;
+    }
+
     public async Task DisableTwoFactorAsync(Guid userId, string code, CancellationToken cancellationToken = default)
     {
         var user = await _userRepository.GetByIdAsync(userId);
         if (user == null)
             throw new ArgumentException("User not found", nameof(userId));
 
-        // Simple validation - in production, use proper TOTP validation
-        if (code != "123456") // Placeholder
+        // A setup that was never confirmed can be cancelled without a code
+        if (user.IsTwoFactorEnabled && !Totp.VerifyCode(user.TwoFactorSecret!, code ?? string.Empty))
             throw new UnauthorizedAccessException("Invalid 2FA code");
 
         user.DisableTwoFactorAuthentication();
@@ -484,8 +527,11 @@ public class AuthService : IAuthService
 
     public async Task<bool> VerifyTwoFactorAsync(Guid userId, string code, CancellationToken cancellationToken = default)
     {
-        // Placeholder implementation - use proper TOTP in production
-        return code == "123456";
+        var user = await _userRepository.GetByIdAsync(userId);
+        if (user == null || !user.IsTwoFactorEnabled || string.IsNullOrEmpty(user.TwoFactorSecret))
+            return false;
+
+        return Totp.VerifyCode(user.TwoFactorSecret, code);
     }
 
     public async Task<IEnumerable<UserSession>> GetActiveSessionsAsync(Guid userId, CancellationToken cancellationToken = default)
@@ -504,6 +550,61 @@ public class AuthService : IAuthService
         _logger.LogInformation("Session {SessionId} revoked for user {UserId}", sessionId, userId);
     }
 
+    // Issues the tokens and session for a user who has passed every login check
+    private async Task<AuthResponse> CompleteLoginAsync(User user, bool rememberMe, CancellationToken cancellationToken)
+    {
+        // Successful login - reset failed attempts and update login time
+        user.RecordSuccessfulLogin();
+        _userRepository.Update(user);
+        await _userRepository.SaveChangesAsync();
+
+        // Generate session and tokens
+        var sessionId = Guid.NewGuid().ToString();
+        var accessToken = _jwtService.GenerateAccessToken(user, sessionId);
+        var refreshToken = _jwtService.GenerateRefreshToken(user, sessionId, "0.0.0.0", "Login");
+
+        // Save refresh token
+        await _refreshTokenRepository.CreateAsync(refreshToken, cancellationToken);
+
+        // Create user session
+        var sessionExpiration = rememberMe 
+            ? DateTime.UtcNow.AddDays(30) 
+            : DateTime.UtcNow.AddDays(1);
+            
+        var userSession = new UserSession(
+            user.Id,
+            sessionId,
+            "0.0.0.0",
+            "Login",
+            sessionExpiration
+        );
+        
+        await _userSessionRepository.CreateAsync(userSession, cancellationToken);
+
+        _logger.LogInformation("User {UserId} logged in successfully", user.Id);
+
+        return new AuthResponse
+        {
+            AccessToken = accessToken,
+            RefreshToken = refreshToken.Token,
+            ExpiresAt = DateTime.UtcNow.AddMinutes(15),
+            User = MapToUserDto(user)
+        };
+    }
+
+    // Recovery codes look like "a1b2c-3d4e5"; only their hashes are stored
+    private static string GenerateRecoveryCode()
+    {
+        var hex = Convert.ToHexString(RandomNumberGenerator.GetBytes(5)).ToLowerInvariant();
+        return $"{hex[..5]}-{hex[5..]}";
+    }
+
+    private static string HashRecoveryCode(string code)
+    {
+        var normalized = code.Trim().Replace("-", string.Empty).ToLowerInvariant();
+        return Convert.ToHexString(SHA256.HashData(System.Text.Encoding.UTF8.GetBytes(normalized)));
+    }
+
     private static UserDto MapToUserDto(User user)
     {
         return new UserDto
@@ -520,6 +621,7 @@ public class AuthService : IAuthService
             BirthDate = user.BirthDate,
             IsPrivate = user.IsPrivate,
             IsVerified = user.IsVerified,
+            IsTwoFactorEnabled = user.IsTwoFactorEnabled,
             CreatedAt = user.CreatedAt,
             UpdatedAt = user.UpdatedAt
         };
@@ -13,6 +13,9 @@ namespace WebApp.AuthService.Services;
 
 public class JwtService : IJwtService
 {
+    private const string TwoFactorTokenType = "two_factor";
+    private const int TwoFactorTokenExpirationMinutes = 5;
+    
     private readonly JwtSettings _jwtSettings;
     private readonly ILogger<JwtService> _logger;
     private readonly TokenValidationParameters _tokenValidationParameters;
@@ -71,6 +74,8 @@ public class JwtService : IJwtService
         return tokenString;
     }
 
+    private string TwoFactorAudience => $"{_jwtSettings.Audience}:2fa";
+
     public RefreshToken GenerateRefreshToken(User user, string sessionId, string ipAddress, string userAgent)
     {
         using var rngCryptoServiceProvider = RandomNumberGenerator.Create();
@@ -92,6 +97,55 @@ public class JwtService : IJwtService
         return refreshToken;
     }
 
+    public string GenerateTwoFactorToken(User user)
+    {
+        var claims = new[]
+        {
+            new Claim(JwtClaims.UserId, user.Id.ToString()),
+            new Claim(JwtClaims.TokenType, TwoFactorTokenType),
+            new Claim(JwtRegisteredClaimNames.Sub, user.Id.ToString()),
+            new Claim(JwtRegisteredClaimNames.Jti, Guid.NewGuid().ToString())
+        };
+
+        var key = new SymmetricSecurityKey(Encoding.UTF8.GetBytes(_jwtSettings.SecretKey));
+        var credentials = new SigningCredentials(key, SecurityAlgorithms.HmacSha256);
+
+        // A separate audience keeps the token from ever passing as an access token
+        var token = new JwtSecurityToken(
+            issuer: _jwtSettings.Issuer,
+            audience: TwoFactorAudience,
+            claims: claims,
+            expires: DateTime.UtcNow.AddMinutes(TwoFactorTokenExpirationMinutes),
+            signingCredentials: credentials
+        );
+
+        return new JwtSecurityTokenHandler().WriteToken(token);
+    }
+
+    public Guid? ValidateTwoFactorToken(string token)
+    {
+        if (string.IsNullOrWhiteSpace(token))
+            return null;
+
+        try
+        {
+            var parameters = _tokenValidationParameters.Clone();
+            parameters.ValidAudience = TwoFactorAudience;
+
+            var principal = new JwtSecurityTokenHandler().ValidateToken(token, parameters, out _);
+            if (principal.Claims.FirstOrDefault(x => x.Type == JwtClaims.TokenType)?.Value != TwoFactorTokenType)
+                return null;
+
+            var userIdClaim = principal.Claims.FirstOrDefault(x => x.Type == JwtClaims.UserId);
+            return userIdClaim != null && Guid.TryParse(userIdClaim.Value, out var userId) ? userId : null;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Two-factor token validation failed");
+            return null;
+        }
+    }
+
     public ClaimsPrincipal? ValidateToken(string token)
     {
         if (string.IsNullOrWhiteSpace(token))
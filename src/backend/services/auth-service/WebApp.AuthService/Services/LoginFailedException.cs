@@ -0,0 +1,20 @@
+namespace WebApp.AuthService.Services;
+
+/// <summary>
+/// Failed login for an existing account, carrying what the client needs to explain lockouts
+/// </summary>
+public class LoginFailedException : UnauthorizedAccessException
+{
+    public int AttemptsRemaining { get; }
+    
+    public DateTime? LockoutEndAt { get; }
+    
+    public bool IsLockedOut => LockoutEndAt.HasValue;
+
+    public LoginFailedException(string message, int attemptsRemaining, DateTime? lockoutEndAt = null)
+        : base(message)
+    {
+        AttemptsRemaining = attemptsRemaining;
+        LockoutEndAt = lockoutEndAt;
+    }
+}
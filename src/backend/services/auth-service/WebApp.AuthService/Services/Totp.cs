@@ -0,0 +1,99 @@
+using System.Security.Cryptography;
+using System.Text;
+
+namespace WebApp.AuthService.Services;
+
+/// <summary>
+/// Time-based one-time passwords (RFC 6238) as shown by authenticator apps: 6 digits, 30 second steps, HMAC-SHA1
+/// </summary>
+public static class Totp
+{
+    private const string Base32Alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+    private const int StepSeconds = 30;
+    private const int Digits = 6;
+
+    /// <summary>
+    /// Generate a 160-bit secret, base32 encoded (32 characters) for authenticator apps
+    /// </summary>
+    public static string GenerateSecret()
+    {
+        var bytes = RandomNumberGenerator.GetBytes(20);
+        var builder = new StringBuilder();
+        for (var i = 0; i < bytes.Length; i += 5)
+        {
+            // Every 5 bytes are exactly 8 base32 characters
+            ulong chunk = 0;
+            for (var j = 0; j < 5; j++)
+                chunk = (chunk << 8) | bytes[i + j];
+            for (var j = 7; j >= 0; j--)
+                builder.Append(Base32Alphabet[(int)((chunk >> (j * 5)) & 31)]);
+        }
+        return builder.ToString();
+    }
+
+    /// <summary>
+    /// Check a code against the secret, allowing one step of clock drift either way
+    /// </summary>
+    public static bool VerifyCode(string secret, string code, DateTime? now = null)
+    {
+        code = code.Trim().Replace(" ", string.Empty);
+        if (code.Length != Digits || !code.All(char.IsAsciiDigit))
+            return false;
+
+        var key = DecodeBase32(secret);
+        var step = (now ?? DateTime.UtcNow).Subtract(DateTime.UnixEpoch).Ticks / TimeSpan.TicksPerSecond / StepSeconds;
+        for (var offset = -1; offset <= 1; offset++)
+        {
+            var expected = Encoding.ASCII.GetBytes(ComputeCode(key, step + offset));
+            if (CryptographicOperations.FixedTimeEquals(expected, Encoding.ASCII.GetBytes(code)))
+                return true;
+        }
+        return false;
+    }
+
+    /// <summary>
+    /// The code for a given time, as an authenticator app would show it
+    /// </summary>
+    public static string GenerateCode(string secret, DateTime? now = null)
+    {
+        var step = (now ?? DateTime.UtcNow).Subtract(DateTime.UnixEpoch).Ticks / TimeSpan.TicksPerSecond / StepSeconds;
+        return ComputeCode(DecodeBase32(secret), step);
+    }
+
+    private static string ComputeCode(byte[] key, long step)
+    {
+        var counter = BitConverter.GetBytes(step);
+        if (BitConverter.IsLittleEndian)
+            Array.Reverse(counter);
+
+        var hash = HMACSHA1.HashData(key, counter);
+        var offset = hash[^1] & 0x0F;
+        var binary = ((hash[offset] & 0x7F) << 24)
+            | (hash[offset + 1] << 16)
+            | (hash[offset + 2] << 8)
+            | hash[offset + 3];
+
+        return (binary % 1_000_000).ToString("D6");
+    }
+
+    private static byte[] DecodeBase32(string secret)
+    {
+        var bytes = new List<byte>();
+        int buffer = 0, bits = 0;
+        foreach (var c in secret.TrimEnd('=').ToUpperInvariant())
+        {
+            var value = Base32Alphabet.IndexOf(c);
+            if (value < 0)
+                throw new FormatException("Two-factor secret is not valid base32");
+
+            buffer = (buffer << 5) | value;
+            bits += 5;
+            if (bits >= 8)
+            {
+                bytes.Add((byte)(buffer >> (bits - 8)));
+                bits -= 8;
+            }
+        }
+        return bytes.ToArray();
+    }
+}
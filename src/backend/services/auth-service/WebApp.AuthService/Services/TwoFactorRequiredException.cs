@@ -0,0 +1,15 @@
+namespace WebApp.AuthService.Services;
+
+/// <summary>
+/// Correct password for an account with 2FA on; the login finishes with a code and this challenge token
+/// </summary>
+public class TwoFactorRequiredException : Exception
+{
+    public string TwoFactorToken { get; }
+
+    public TwoFactorRequiredException(string twoFactorToken)
+        : base("Two-factor authentication code required")
+    {
+        TwoFactorToken = twoFactorToken;
+    }
+}
@@ -3,11 +3,23 @@ var builder = WebApplication.CreateBuilder(args);
 // Add services to the container.
 // Learn more about configuring Swagger/OpenAPI at https://aka.ms/aspnetcore/swashbuckle
 builder.Services.AddEndpointsApiExplorer();
-builder.Services.AddSwaggerGen();
+// Only nullable-annotated members are nullable in the document the frontend client is generated from
+builder.Services.AddSwaggerGen(c => c.SupportNonNullableReferenceTypes());
 
 // Add health checks
 builder.Services.AddHealthChecks();
 
+// Let the frontend call the service directly in development (NEXT_PUBLIC_API_MODE=direct)
+builder.Services.AddCors(options =>
+{
+    options.AddPolicy("DevelopmentCorsPolicy", policy =>
+    {
+        policy.AllowAnyOrigin()
+              .AllowAnyMethod()
+              .AllowAnyHeader();
+    });
+});
+
 var app = builder.Build();
 
 // Configure the HTTP request pipeline.
@@ -15,6 +27,7 @@ if (app.Environment.IsDevelopment())
 {
     app.UseSwagger();
     app.UseSwaggerUI();
+    app.UseCors("DevelopmentCorsPolicy");
 }
 
 app.UseHttpsRedirection();
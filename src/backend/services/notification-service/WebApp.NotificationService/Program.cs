@@ -34,6 +34,17 @@ builder.Services.AddHealthChecks()
 // Logging
 builder.Services.AddLogging();
 
+// Let the frontend call the service directly in development (NEXT_PUBLIC_API_MODE=direct)
+builder.Services.AddCors(options =>
+{
+    options.AddPolicy("DevelopmentCorsPolicy", policy =>
+    {
+        policy.AllowAnyOrigin()
+              .AllowAnyMethod()
+              .AllowAnyHeader();
+    });
+});
+
 var app = builder.Build();
 
 // Configure the HTTP request pipeline.
@@ -41,6 +52,7 @@ if (app.Environment.IsDevelopment())
 {
     app.UseSwagger();
     app.UseSwaggerUI();
+    app.UseCors("DevelopmentCorsPolicy");
 }
 
 app.UseHttpsRedirection();
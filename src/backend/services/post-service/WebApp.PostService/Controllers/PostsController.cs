@@ -1,6 +1,8 @@
 using Microsoft.AspNetCore.Mvc;
+using WebApp.Common.DTOs;
 using WebApp.Common.Entities;
 using WebApp.Common.Interfaces;
+using WebApp.PostService.Services;
 
 namespace WebApp.PostService.Controllers;
 
@@ -18,7 +20,7 @@ public class PostsController : ControllerBase
     }
 
     [HttpGet("{id}")]
-    public async Task<ActionResult<Post>> GetPost(Guid id, [FromQuery] Guid? viewerId = null)
+    public async Task<ActionResult<PostDto>> GetPost(Guid id, [FromQuery] Guid? viewerId = null)
     {
         try
         {
@@ -36,7 +38,7 @@ public class PostsController : ControllerBase
     }
 
     [HttpPost("text")]
-    public async Task<ActionResult<Post>> CreateTextPost([FromBody] CreateTextPostRequest request)
+    public async Task<ActionResult<PostDto>> CreateTextPost([FromBody] CreateTextPostRequest request)
     {
         try
         {
@@ -60,7 +62,7 @@ public class PostsController : ControllerBase
     }
 
     [HttpPost("media")]
-    public async Task<ActionResult<Post>> CreateMediaPost([FromBody] CreateMediaPostRequest request)
+    public async Task<ActionResult<PostDto>> CreateMediaPost([FromBody] CreateMediaPostRequest request)
     {
         try
         {
@@ -85,7 +87,7 @@ public class PostsController : ControllerBase
     }
 
     [HttpPost("reply")]
-    public async Task<ActionResult<Post>> CreateReply([FromBody] CreateReplyRequest request)
+    public async Task<ActionResult<PostDto>> CreateReply([FromBody] CreateReplyRequest request)
     {
         try
         {
@@ -110,13 +112,22 @@ public class PostsController : ControllerBase
     }
 
     [HttpPut("{id}/content")]
-    public async Task<ActionResult<Post>> UpdatePostContent(Guid id, [FromBody] UpdateContentRequest request)
+    public async Task<ActionResult<PostDto>> UpdatePostContent(Guid id, [FromBody] UpdateContentRequest request)
     {
         try
         {
-            var post = await _postService.UpdatePostContentAsync(id, request.AuthorId, request.NewContent);
+            var post = await _postService.UpdatePostContentAsync(
+                id,
+                request.AuthorId,
+                request.NewContent,
+                request.ExpectedUpdatedAt);
             return Ok(post);
         }
+        catch (PostEditConflictException ex)
+        {
+            _logger.LogInformation("Edit of post {PostId} conflicts with a newer version", id);
+            return Conflict(ex.CurrentPost);
+        }
         catch (ArgumentException ex)
         {
             _logger.LogWarning(ex, "Invalid request for updating post content");
@@ -129,6 +140,49 @@ public class PostsController : ControllerBase
         }
     }
 
+    [HttpPut("{id}/visibility")]
+    public async Task<ActionResult<PostDto>> UpdatePostVisibility(Guid id, [FromBody] UpdateVisibilityRequest request)
+    {
+        try
+        {
+            var post = await _postService.UpdatePostVisibilityAsync(id, request.AuthorId, request.Visibility);
+            return Ok(post);
+        }
+        catch (PostEditConflictException ex)
+        {
+            _logger.LogInformation("Visibility change of post {PostId} conflicts with a newer version", id);
+            return Conflict(ex.CurrentPost);
+        }
+        catch (ArgumentException ex)
+        {
+            _logger.LogWarning(ex, "Invalid request for updating post visibility");
+            return BadRequest(ex.Message);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error updating visibility of post {PostId}", id);
+            return StatusCode(500, "Internal server error");
+        }
+    }
+
+    [HttpGet("{id}/revisions")]
+    public async Task<ActionResult<IEnumerable<PostRevision>>> GetPostRevisions(Guid id, [FromQuery] Guid? viewerId = null)
+    {
+        try
+        {
+            var revisions = await _postService.GetPostRevisionsAsync(id, viewerId);
+            if (revisions == null)
+                return NotFound();
+
+            return Ok(revisions);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving revisions of post {PostId}", id);
+            return StatusCode(500, "Internal server error");
+        }
+    }
+
     [HttpDelete("{id}")]
     public async Task<IActionResult> DeletePost(Guid id, [FromQuery] Guid authorId)
     {
@@ -153,7 +207,7 @@ public class PostsController : ControllerBase
     }
 
     [HttpGet("author/{authorId}")]
-    public async Task<ActionResult<IEnumerable<Post>>> GetPostsByAuthor(
+    public async Task<ActionResult<IEnumerable<PostDto>>> GetPostsByAuthor(
         Guid authorId, 
         [FromQuery] Guid? viewerId = null,
         [FromQuery] int limit = 20,
@@ -172,7 +226,7 @@ public class PostsController : ControllerBase
     }
 
     [HttpGet("feed/{userId}")]
-    public async Task<ActionResult<IEnumerable<Post>>> GetUserFeed(
+    public async Task<ActionResult<IEnumerable<PostDto>>> GetUserFeed(
         Guid userId,
         [FromQuery] int limit = 20,
         [FromQuery] int offset = 0)
@@ -190,7 +244,7 @@ public class PostsController : ControllerBase
     }
 
     [HttpGet("public")]
-    public async Task<ActionResult<IEnumerable<Post>>> GetPublicTimeline(
+    public async Task<ActionResult<IEnumerable<PostDto>>> GetPublicTimeline(
         [FromQuery] int limit = 20,
         [FromQuery] int offset = 0)
     {
@@ -207,7 +261,7 @@ public class PostsController : ControllerBase
     }
 
     [HttpGet("search")]
-    public async Task<ActionResult<IEnumerable<Post>>> SearchPosts(
+    public async Task<ActionResult<IEnumerable<PostDto>>> SearchPosts(
         [FromQuery] string searchTerm,
         [FromQuery] Guid? viewerId = null,
         [FromQuery] int limit = 20)
@@ -225,7 +279,7 @@ public class PostsController : ControllerBase
     }
 
     [HttpGet("media")]
-    public async Task<ActionResult<IEnumerable<Post>>> GetMediaPosts(
+    public async Task<ActionResult<IEnumerable<PostDto>>> GetMediaPosts(
         [FromQuery] Guid? viewerId = null,
         [FromQuery] int limit = 20,
         [FromQuery] int offset = 0)
@@ -243,7 +297,7 @@ public class PostsController : ControllerBase
     }
 
     [HttpGet("{parentId}/replies")]
-    public async Task<ActionResult<IEnumerable<Post>>> GetPostReplies(
+    public async Task<ActionResult<IEnumerable<PostDto>>> GetPostReplies(
         Guid parentId,
         [FromQuery] Guid? viewerId = null,
         [FromQuery] int limit = 20,
@@ -264,6 +318,7 @@ public class PostsController : ControllerBase
 
 // DTOs for requests
 public record CreateTextPostRequest(Guid AuthorId, string Content, PostVisibility Visibility = PostVisibility.Public);
-public record CreateMediaPostRequest(Guid AuthorId, string? Content, IEnumerable<MediaAttachment> MediaAttachments, PostVisibility Visibility = PostVisibility.Public);
+public record CreateMediaPostRequest(Guid AuthorId, string? Content, IEnumerable<CreateMediaAttachmentRequest> MediaAttachments, PostVisibility Visibility = PostVisibility.Public);
 public record CreateReplyRequest(Guid AuthorId, Guid ParentPostId, string Content, PostVisibility Visibility = PostVisibility.Public);
-public record UpdateContentRequest(Guid AuthorId, string NewContent);
+public record UpdateContentRequest(Guid AuthorId, string NewContent, DateTime? ExpectedUpdatedAt = null);
+public record UpdateVisibilityRequest(Guid AuthorId, PostVisibility Visibility);
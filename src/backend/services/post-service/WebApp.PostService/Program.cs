@@ -10,7 +10,8 @@ var builder = WebApplication.CreateBuilder(args);
 // Add services to the container.
 builder.Services.AddControllers();
 builder.Services.AddEndpointsApiExplorer();
-builder.Services.AddSwaggerGen();
+// Only nullable-annotated members are nullable in the document the frontend client is generated from
+builder.Services.AddSwaggerGen(c => c.SupportNonNullableReferenceTypes());
 
 // Database configuration
 var connectionString = builder.Configuration.GetConnectionString("DefaultConnection") ?? 
@@ -33,6 +34,17 @@ builder.Services.AddHealthChecks()
 // Logging
 builder.Services.AddLogging();
 
+// Let the frontend call the service directly in development (NEXT_PUBLIC_API_MODE=direct)
+builder.Services.AddCors(options =>
+{
+    options.AddPolicy("DevelopmentCorsPolicy", policy =>
+    {
+        policy.AllowAnyOrigin()
+              .AllowAnyMethod()
+              .AllowAnyHeader();
+    });
+});
+
 var app = builder.Build();
 
 // Configure the HTTP request pipeline.
@@ -40,6 +52,7 @@ if (app.Environment.IsDevelopment())
 {
     app.UseSwagger();
     app.UseSwaggerUI();
+    app.UseCors("DevelopmentCorsPolicy");
 }
 
 app.UseHttpsRedirection();
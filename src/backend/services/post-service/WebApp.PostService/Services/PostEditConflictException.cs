@@ -0,0 +1,17 @@
+using WebApp.Common.DTOs;
+
+namespace WebApp.PostService.Services;
+
+/// <summary>
+/// Edit based on an out-of-date version of a post, carrying the current version so the client can reconcile
+/// </summary>
+public class PostEditConflictException : InvalidOperationException
+{
+    public PostDto CurrentPost { get; }
+
+    public PostEditConflictException(PostDto currentPost)
+        : base("The post was changed since it was loaded")
+    {
+        CurrentPost = currentPost;
+    }
+}
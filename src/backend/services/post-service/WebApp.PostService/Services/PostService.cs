@@ -1,4 +1,6 @@
+using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Logging;
+using WebApp.Common.DTOs;
 using WebApp.Common.Entities;
 using WebApp.Common.Interfaces;
 
@@ -21,7 +23,7 @@ public class PostService : IPostService
         _logger = logger ?? throw new ArgumentNullException(nameof(logger));
     }
 
-    public async Task<Post> CreateTextPostAsync(Guid authorId, string content, PostVisibility visibility = PostVisibility.Public)
+    public async Task<PostDto> CreateTextPostAsync(Guid authorId, string content, PostVisibility visibility = PostVisibility.Public)
     {
         _logger.LogInformation("Creating text post for author {AuthorId} with visibility {Visibility}", authorId, visibility);
 
@@ -45,10 +47,10 @@ public class PostService : IPostService
         await _postRepository.SaveChangesAsync();
 
         _logger.LogInformation("Successfully created text post {PostId} for author {AuthorId}", post.Id, authorId);
-        return post;
+        return MapToPostDto(post, author);
     }
 
-    public async Task<Post> CreateMediaPostAsync(Guid authorId, string? content, IEnumerable<MediaAttachment> mediaAttachments, PostVisibility visibility = PostVisibility.Public)
+    public async Task<PostDto> CreateMediaPostAsync(Guid authorId, string? content, IEnumerable<CreateMediaAttachmentRequest> mediaAttachments, PostVisibility visibility = PostVisibility.Public)
     {
         _logger.LogInformation("Creating media post for author {AuthorId} with visibility {Visibility}", authorId, visibility);
 
@@ -68,8 +70,9 @@ public class PostService : IPostService
         if (author == null)
             throw new ArgumentException("Author not found", nameof(authorId));
 
-        // Create post with media attachments
-        var post = new Post(authorId, content ?? string.Empty, PostType.Text, visibility);
+        // Create post with media attachments. The content may be empty, so it starts out as a media
+        // post; its type is worked out from the attachments as they're added.
+        var post = new Post(authorId, content ?? string.Empty, PostType.Image, visibility);
         
         // Add media attachments and determine post type
         foreach (var attachment in attachmentList)
@@ -83,10 +86,10 @@ public class PostService : IPostService
 
         _logger.LogInformation("Successfully created media post {PostId} for author {AuthorId} with {AttachmentCount} attachments", 
             post.Id, authorId, attachmentList.Count);
-        return post;
+        return MapToPostDto(post, author);
     }
 
-    public async Task<Post> CreateReplyAsync(Guid authorId, Guid parentPostId, string content, PostVisibility visibility = PostVisibility.Public)
+    public async Task<PostDto> CreateReplyAsync(Guid authorId, Guid parentPostId, string content, PostVisibility visibility = PostVisibility.Public)
     {
         _logger.LogInformation("Creating reply for author {AuthorId} to post {ParentPostId}", authorId, parentPostId);
 
@@ -119,10 +122,10 @@ public class PostService : IPostService
 
         _logger.LogInformation("Successfully created reply {PostId} for author {AuthorId} to post {ParentPostId}", 
             reply.Id, authorId, parentPostId);
-        return reply;
+        return MapToPostDto(reply, author);
     }
 
-    public async Task<Post> UpdatePostContentAsync(Guid postId, Guid authorId, string newContent)
+    public async Task<PostDto> UpdatePostContentAsync(Guid postId, Guid authorId, string newContent, DateTime? expectedUpdatedAt = null)
     {
         _logger.LogInformation("Updating content for post {PostId} by author {AuthorId}", postId, authorId);
 
@@ -145,18 +148,40 @@ public class PostService : IPostService
         if (post.AuthorId != authorId)
             throw new ArgumentException("User is not authorized to update this post", nameof(authorId));
 
+        // Concurrency check - the edit must be based on the version being replaced. Compared to the
+        // millisecond since clients round-trip the timestamp through JavaScript dates.
+        if (expectedUpdatedAt.HasValue &&
+            Math.Abs((post.UpdatedAt - expectedUpdatedAt.Value.ToUniversalTime()).TotalMilliseconds) >= 1)
+        {
+            _logger.LogInformation("Rejected stale edit of post {PostId} based on version {ExpectedUpdatedAt}",
+                postId, expectedUpdatedAt);
+            throw new PostEditConflictException(await MapToPostDtoAsync(post));
+        }
+
+        // Keep the version being replaced
+        var loadedUpdatedAt = post.UpdatedAt;
+        await _postRepository.AddRevisionAsync(new PostRevision(post.Id, post.Content, loadedUpdatedAt));
+
         // Update content
         post.UpdateContent(newContent);
 
         // Save changes
-        _postRepository.Update(post);
-        await _postRepository.SaveChangesAsync();
+        await SaveEditAsync(post, loadedUpdatedAt);
 
         _logger.LogInformation("Successfully updated content for post {PostId}", postId);
-        return post;
+        return await MapToPostDtoAsync(post);
+    }
+
+    public async Task<IEnumerable<PostRevision>?> GetPostRevisionsAsync(Guid postId, Guid? viewerId = null)
+    {
+        if (!await CanUserViewPostAsync(postId, viewerId))
+            return null;
+
+        _logger.LogDebug("Retrieving revisions of post {PostId} for viewer {ViewerId}", postId, viewerId);
+        return await _postRepository.GetRevisionsAsync(postId);
     }
 
-    public async Task<Post> UpdatePostVisibilityAsync(Guid postId, Guid authorId, PostVisibility newVisibility)
+    public async Task<PostDto> UpdatePostVisibilityAsync(Guid postId, Guid authorId, PostVisibility newVisibility)
     {
         _logger.LogInformation("Updating visibility for post {PostId} to {NewVisibility} by author {AuthorId}", 
             postId, newVisibility, authorId);
@@ -178,14 +203,38 @@ public class PostService : IPostService
             throw new ArgumentException("User is not authorized to update this post", nameof(authorId));
 
         // Update visibility
+        var loadedUpdatedAt = post.UpdatedAt;
         post.SetVisibility(newVisibility);
 
         // Save changes
-        _postRepository.Update(post);
-        await _postRepository.SaveChangesAsync();
+        await SaveEditAsync(post, loadedUpdatedAt);
 
         _logger.LogInformation("Successfully updated visibility for post {PostId} to {NewVisibility}", postId, newVisibility);
-        return post;
+        return await MapToPostDtoAsync(post);
+    }
+
+    /// <summary>
+    /// Saves an edit to a post, unless another edit was saved after the post was loaded
+    /// </summary>
+    /// <exception cref="PostEditConflictException">The post was changed in the meantime</exception>
+    private async Task SaveEditAsync(Post post, DateTime loadedUpdatedAt)
+    {
+        _postRepository.Update(post, loadedUpdatedAt);
+
+        try
+        {
+            await _postRepository.SaveChangesAsync();
+        }
+        catch (DbUpdateConcurrencyException)
+        {
+            _logger.LogInformation("Post {PostId} was changed while it was being edited", post.Id);
+
+            var currentPost = await _postRepository.GetByIdAsync(post.Id);
+            if (currentPost == null)
+                throw new ArgumentException("Post not found", "postId");
+
+            throw new PostEditConflictException(await MapToPostDtoAsync(currentPost));
+        }
     }
 
     public async Task<bool> DeletePostAsync(Guid postId, Guid authorId)
@@ -216,7 +265,7 @@ public class PostService : IPostService
         return true;
     }
 
-    public async Task<Post?> GetPostByIdAsync(Guid postId, Guid? viewerId = null)
+    public async Task<PostDto?> GetPostByIdAsync(Guid postId, Guid? viewerId = null)
     {
         if (postId == Guid.Empty)
         {
@@ -237,15 +286,15 @@ public class PostService : IPostService
         // For now, return the post directly (basic implementation)
 
         _logger.LogDebug("Successfully retrieved post {PostId}", postId);
-        return post;
+        return await MapToPostDtoAsync(post);
     }
 
-    public async Task<IEnumerable<Post>> GetPostsByAuthorAsync(Guid authorId, Guid? viewerId = null, int limit = 20, int offset = 0)
+    public async Task<IEnumerable<PostDto>> GetPostsByAuthorAsync(Guid authorId, Guid? viewerId = null, int limit = 20, int offset = 0)
     {
         if (authorId == Guid.Empty)
         {
             _logger.LogDebug("Empty author ID provided, returning empty list");
-            return Enumerable.Empty<Post>();
+            return Enumerable.Empty<PostDto>();
         }
 
         // Normalize pagination parameters
@@ -259,15 +308,15 @@ public class PostService : IPostService
         // TODO: Add visibility filtering based on viewerId
         
         _logger.LogDebug("Retrieved {PostCount} posts for author {AuthorId}", posts.Count(), authorId);
-        return posts;
+        return await MapToPostDtosAsync(posts);
     }
 
-    public async Task<IEnumerable<Post>> GetUserFeedAsync(Guid userId, int limit = 20, int offset = 0)
+    public async Task<IEnumerable<PostDto>> GetUserFeedAsync(Guid userId, int limit = 20, int offset = 0)
     {
         if (userId == Guid.Empty)
         {
             _logger.LogDebug("Empty user ID provided, returning empty feed");
-            return Enumerable.Empty<Post>();
+            return Enumerable.Empty<PostDto>();
         }
 
         // Normalize pagination parameters
@@ -279,10 +328,10 @@ public class PostService : IPostService
         var posts = await _postRepository.GetFeedAsync(userId, limit, offset);
 
         _logger.LogDebug("Retrieved {PostCount} posts for user feed {UserId}", posts.Count(), userId);
-        return posts;
+        return await MapToPostDtosAsync(posts);
     }
 
-    public async Task<IEnumerable<Post>> GetPublicTimelineAsync(int limit = 20, int offset = 0)
+    public async Task<IEnumerable<PostDto>> GetPublicTimelineAsync(int limit = 20, int offset = 0)
     {
         // Normalize pagination parameters
         if (limit <= 0) limit = 20;
@@ -293,15 +342,15 @@ public class PostService : IPostService
         var posts = await _postRepository.GetPublicTimelineAsync(limit, offset);
 
         _logger.LogDebug("Retrieved {PostCount} posts for public timeline", posts.Count());
-        return posts;
+        return await MapToPostDtosAsync(posts);
     }
 
-    public async Task<IEnumerable<Post>> SearchPostsAsync(string searchTerm, Guid? viewerId = null, int limit = 20)
+    public async Task<IEnumerable<PostDto>> SearchPostsAsync(string searchTerm, Guid? viewerId = null, int limit = 20)
     {
         if (string.IsNullOrWhiteSpace(searchTerm))
         {
             _logger.LogDebug("Empty or null search term provided, returning empty list");
-            return Enumerable.Empty<Post>();
+            return Enumerable.Empty<PostDto>();
         }
 
         // Normalize pagination parameters
@@ -315,7 +364,7 @@ public class PostService : IPostService
         // TODO: Add visibility filtering based on viewerId
 
         _logger.LogDebug("Found {PostCount} posts matching search term '{SearchTerm}'", posts.Count(), searchTerm);
-        return posts;
+        return await MapToPostDtosAsync(posts);
     }
 
     public async Task<bool> CanUserViewPostAsync(Guid postId, Guid? viewerId)
@@ -349,7 +398,7 @@ public class PostService : IPostService
         return true;
     }
 
-    public async Task<IEnumerable<Post>> GetMediaPostsAsync(Guid? viewerId = null, int limit = 20, int offset = 0)
+    public async Task<IEnumerable<PostDto>> GetMediaPostsAsync(Guid? viewerId = null, int limit = 20, int offset = 0)
     {
         // Normalize pagination parameters
         if (limit <= 0) limit = 20;
@@ -363,15 +412,15 @@ public class PostService : IPostService
         // TODO: Add visibility filtering based on viewerId
 
         _logger.LogDebug("Retrieved {PostCount} media posts", posts.Count());
-        return posts;
+        return await MapToPostDtosAsync(posts);
     }
 
-    public async Task<IEnumerable<Post>> GetPostRepliesAsync(Guid parentPostId, Guid? viewerId = null, int limit = 20, int offset = 0)
+    public async Task<IEnumerable<PostDto>> GetPostRepliesAsync(Guid parentPostId, Guid? viewerId = null, int limit = 20, int offset = 0)
     {
         if (parentPostId == Guid.Empty)
         {
             _logger.LogDebug("Empty parent post ID provided, returning empty list");
-            return Enumerable.Empty<Post>();
+            return Enumerable.Empty<PostDto>();
         }
 
         // Normalize pagination parameters
@@ -386,6 +435,71 @@ public class PostService : IPostService
         // TODO: Add visibility filtering based on viewerId
 
         _logger.LogDebug("Retrieved {ReplyCount} replies for post {ParentPostId}", replies.Count(), parentPostId);
-        return replies;
+        return await MapToPostDtosAsync(replies);
+    }
+
+    private async Task<PostDto> MapToPostDtoAsync(Post post)
+    {
+        var replyCounts = await _postRepository.GetReplyCountsAsync(new[] { post.Id });
+        return MapToPostDto(post, post.Author, replyCounts.GetValueOrDefault(post.Id));
+    }
+
+    // Counts the replies to all of the posts at once
+    private async Task<IEnumerable<PostDto>> MapToPostDtosAsync(IEnumerable<Post> posts)
+    {
+        var postList = posts.ToList();
+        var replyCounts = await _postRepository.GetReplyCountsAsync(postList.Select(p => p.Id));
+        return postList.Select(p => MapToPostDto(p, p.Author, replyCounts.GetValueOrDefault(p.Id))).ToList();
+    }
+
+    // The author is passed separately for new posts, whose Author navigation isn't loaded
+    private static PostDto MapToPostDto(Post post, User author, int repliesCount = 0)
+    {
+        return new PostDto
+        {
+            Id = post.Id,
+            AuthorId = post.AuthorId,
+            Author = new PostAuthorDto
+            {
+                Id = author.Id,
+                Username = author.Username,
+                DisplayName = author.DisplayName,
+                ProfileImageUrl = author.ProfileImageUrl,
+                IsPrivate = author.IsPrivate,
+                IsVerified = author.IsVerified
+            },
+            Content = post.Content,
+            Type = post.Type,
+            Visibility = post.Visibility,
+            IsEdited = post.IsEdited,
+            CreatedAt = post.CreatedAt,
+            UpdatedAt = post.UpdatedAt,
+            ParentPostId = post.ParentPostId,
+            RootPostId = post.RootPostId,
+            RepliesCount = repliesCount,
+            MediaAttachments = post.MediaAttachments.Select(MapToMediaAttachmentDto).ToList()
+        };
+    }
+
+    private static MediaAttachmentDto MapToMediaAttachmentDto(MediaAttachment attachment)
+    {
+        return new MediaAttachmentDto
+        {
+            Id = attachment.Id,
+            PostId = attachment.PostId,
+            Url = attachment.Url,
+            FileName = attachment.FileName,
+            ContentType = attachment.ContentType,
+            FileSize = attachment.FileSize,
+            AltText = attachment.AltText,
+            Width = attachment.Width,
+            Height = attachment.Height,
+            Duration = attachment.Duration,
+            ThumbnailUrl = attachment.ThumbnailUrl,
+            CreatedAt = attachment.CreatedAt,
+            IsImage = attachment.IsImage,
+            IsVideo = attachment.IsVideo,
+            IsAudio = attachment.IsAudio
+        };
     }
 }
@@ -1,4 +1,5 @@
 using System.ComponentModel.DataAnnotations;
+using System.Text.Json.Serialization;
 
 namespace WebApp.Common.DTOs;
 
@@ -54,6 +55,32 @@ public class AuthResponse
     public DateTime ExpiresAt { get; set; }
 }
 
+// Login response for accounts with 2FA: the password was right, and the token lets the client
+// finish signing in with a code from POST 2fa/login
+public class TwoFactorChallengeResponse
+{
+    public bool RequiresTwoFactor { get; set; } = true;
+    public string TwoFactorToken { get; set; } = string.Empty;
+}
+
+public class TwoFactorLoginRequest
+{
+    [Required]
+    public string TwoFactorToken { get; set; } = string.Empty;
+    
+    // An authenticator code, or one of the recovery codes issued when 2FA was turned on
+    public string? Code { get; set; }
+    
+    public string? RecoveryCode { get; set; }
+    
+    public bool RememberMe { get; set; } = false;
+}
+
+public class TwoFactorRecoveryCodesResponse
+{
+    public IEnumerable<string> RecoveryCodes { get; set; } = Array.Empty<string>();
+}
+
 public class RefreshTokenRequest
 {
     [Required]
@@ -134,6 +161,7 @@ public class UserDto
     public DateTime? BirthDate { get; set; }
     public bool IsPrivate { get; set; }
     public bool IsVerified { get; set; }
+    public bool IsTwoFactorEnabled { get; set; }
     public DateTime CreatedAt { get; set; }
     public DateTime UpdatedAt { get; set; }
     public int FollowersCount { get; set; }
@@ -147,6 +175,14 @@ public class AuthErrorResponse
     public string ErrorDescription { get; set; } = string.Empty;
     public int StatusCode { get; set; }
     public DateTime Timestamp { get; set; } = DateTime.UtcNow;
+    
+    // Failed logins only: attempts left before the account is locked
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    public int? AttemptsRemaining { get; set; }
+    
+    // Locked accounts only: seconds until the lockout ends (relative, so client clocks don't matter)
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    public int? RetryAfterSeconds { get; set; }
 }
 
 // JWT Claims constants
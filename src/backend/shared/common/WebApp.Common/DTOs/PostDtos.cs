@@ -0,0 +1,76 @@
+using System.ComponentModel.DataAnnotations;
+using WebApp.Common.Entities;
+
+namespace WebApp.Common.DTOs;
+
+/// <summary>
+/// A post as the post service returns it, with its author's public profile and its attachments
+/// </summary>
+public class PostDto
+{
+    public Guid Id { get; set; }
+    public Guid AuthorId { get; set; }
+    public PostAuthorDto Author { get; set; } = null!;
+    public string Content { get; set; } = string.Empty;
+    public PostType Type { get; set; }
+    public PostVisibility Visibility { get; set; }
+    public bool IsEdited { get; set; }
+    public DateTime CreatedAt { get; set; }
+    public DateTime UpdatedAt { get; set; }
+    public Guid? ParentPostId { get; set; }
+    public Guid? RootPostId { get; set; }
+    public int RepliesCount { get; set; }
+    public List<MediaAttachmentDto> MediaAttachments { get; set; } = new();
+}
+
+/// <summary>
+/// The public part of a post author's profile
+/// </summary>
+public class PostAuthorDto
+{
+    public Guid Id { get; set; }
+    public string Username { get; set; } = string.Empty;
+    public string DisplayName { get; set; } = string.Empty;
+    public string ProfileImageUrl { get; set; } = string.Empty;
+    public bool IsPrivate { get; set; }
+    public bool IsVerified { get; set; }
+}
+
+public class MediaAttachmentDto
+{
+    public Guid Id { get; set; }
+    public Guid PostId { get; set; }
+    public string Url { get; set; } = string.Empty;
+    public string FileName { get; set; } = string.Empty;
+    public string ContentType { get; set; } = string.Empty;
+    public long FileSize { get; set; }
+    public string? AltText { get; set; }
+    public int? Width { get; set; }
+    public int? Height { get; set; }
+    public int? Duration { get; set; }
+    public string? ThumbnailUrl { get; set; }
+    public DateTime CreatedAt { get; set; }
+    public bool IsImage { get; set; }
+    public bool IsVideo { get; set; }
+    public bool IsAudio { get; set; }
+}
+
+/// <summary>
+/// An uploaded file to attach to a new post, as the media upload service described it
+/// </summary>
+public class CreateMediaAttachmentRequest
+{
+    [Required]
+    [MaxLength(500)]
+    public string Url { get; set; } = string.Empty;
+
+    [Required]
+    [MaxLength(255)]
+    public string FileName { get; set; } = string.Empty;
+
+    [Required]
+    [MaxLength(100)]
+    public string ContentType { get; set; } = string.Empty;
+
+    public long FileSize { get; set; }
+}
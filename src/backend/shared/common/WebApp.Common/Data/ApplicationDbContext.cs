@@ -15,6 +15,7 @@ public class ApplicationDbContext : DbContext
     public DbSet<User> Users { get; set; }
     public DbSet<Post> Posts { get; set; }
     public DbSet<MediaAttachment> MediaAttachments { get; set; }
+    public DbSet<PostRevision> PostRevisions { get; set; }
     public DbSet<Follow> Follows { get; set; }
     public DbSet<Like> Likes { get; set; }
     public DbSet<Comment> Comments { get; set; }
@@ -63,6 +64,8 @@ public class ApplicationDbContext : DbContext
             entity.Property(e => e.Content).HasMaxLength(2000); // Twitter-like limit
             entity.Property(e => e.Type).HasConversion<int>();
             entity.Property(e => e.Visibility).HasConversion<int>();
+            // Every edit moves UpdatedAt on, so a save that doesn't match the stored one lost a race
+            entity.Property(e => e.UpdatedAt).IsConcurrencyToken();
             
             // Relationships
             entity.HasOne(p => p.Author)
@@ -108,6 +111,21 @@ public class ApplicationDbContext : DbContext
             entity.HasIndex(e => e.PostId);
         });
 
+        // PostRevision Configuration
+        modelBuilder.Entity<PostRevision>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Content).HasMaxLength(2000);
+
+            // Relationship
+            entity.HasOne<Post>()
+                  .WithMany()
+                  .HasForeignKey(r => r.PostId)
+                  .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasIndex(e => new { e.PostId, e.CreatedAt });
+        });
+
         // Follow Configuration
         modelBuilder.Entity<Follow>(entity =>
         {
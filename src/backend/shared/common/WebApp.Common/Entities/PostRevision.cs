@@ -0,0 +1,32 @@
+namespace WebApp.Common.Entities;
+
+/// <summary>
+/// Earlier content of an edited post, kept so readers can see what changed
+/// </summary>
+public class PostRevision
+{
+    public Guid Id { get; private set; }
+
+    public Guid PostId { get; private set; }
+
+    public string Content { get; private set; } = string.Empty;
+
+    public DateTime CreatedAt { get; private set; } // When this version was written
+
+    public DateTime ReplacedAt { get; private set; }
+
+    // Constructors
+    private PostRevision() { } // For EF Core
+
+    public PostRevision(Guid postId, string content, DateTime createdAt)
+    {
+        if (postId == Guid.Empty)
+            throw new ArgumentException("Post ID is required", nameof(postId));
+
+        Id = Guid.NewGuid();
+        PostId = postId;
+        Content = content ?? string.Empty;
+        CreatedAt = createdAt;
+        ReplacedAt = DateTime.UtcNow;
+    }
+}
@@ -5,6 +5,9 @@ namespace WebApp.Common.Entities;
 
 public class User
 {
+    public const int MaxFailedLoginAttempts = 5;
+    public const int LockoutMinutes = 30;
+    
     public Guid Id { get; private set; }
     
     [Required]
@@ -55,6 +58,9 @@ public class User
     
     public string? TwoFactorSecret { get; private set; }
     
+    // Hashes of the unused recovery codes, separated by ';'
+    public string? TwoFactorRecoveryCodes { get; private set; }
+    
     public DateTime CreatedAt { get; private set; }
     
     public DateTime UpdatedAt { get; private set; }
@@ -169,7 +175,7 @@ public class User
         UpdateTimestamp();
     }
     
-    public void RecordFailedLogin(int maxFailedAttempts = 5, int lockoutMinutes = 30)
+    public void RecordFailedLogin(int maxFailedAttempts = MaxFailedLoginAttempts, int lockoutMinutes = LockoutMinutes)
     {
         FailedLoginAttempts++;
         
@@ -183,6 +189,8 @@ public class User
     
     public bool IsLockedOut => LockoutEndAt.HasValue && LockoutEndAt.Value > DateTime.UtcNow;
     
+    public int RemainingLoginAttempts => Math.Max(0, MaxFailedLoginAttempts - FailedLoginAttempts);
+    
     public void UnlockAccount()
     {
         FailedLoginAttempts = 0;
@@ -220,7 +228,45 @@ public class User
     {
         IsTwoFactorEnabled = false;
         TwoFactorSecret = null;
+        TwoFactorRecoveryCodes = null;
+        UpdateTimestamp();
+    }
+    
+    // Stores a secret that only takes effect once a code from it is confirmed
+    public void BeginTwoFactorSetup(string secret)
+    {
+        if (string.IsNullOrWhiteSpace(secret))
+            throw new ArgumentException("Two-factor secret is required", nameof(secret));
+        if (IsTwoFactorEnabled)
+            throw new InvalidOperationException("Two-factor authentication is already enabled");
+            
+        TwoFactorSecret = secret;
+        TwoFactorRecoveryCodes = null;
+        UpdateTimestamp();
+    }
+    
+    public void ConfirmTwoFactorSetup(IEnumerable<string> recoveryCodeHashes)
+    {
+        if (string.IsNullOrWhiteSpace(TwoFactorSecret))
+            throw new InvalidOperationException("Two-factor setup has not been started");
+            
+        IsTwoFactorEnabled = true;
+        TwoFactorRecoveryCodes = string.Join(';', recoveryCodeHashes);
+        UpdateTimestamp();
+    }
+    
+    // Spends a recovery code; each one works once
+    public bool UseTwoFactorRecoveryCode(string recoveryCodeHash)
+    {
+        var remaining = (TwoFactorRecoveryCodes ?? string.Empty)
+            .Split(';', StringSplitOptions.RemoveEmptyEntries)
+            .ToList();
+        if (!remaining.Remove(recoveryCodeHash))
+            return false;
+            
+        TwoFactorRecoveryCodes = string.Join(';', remaining);
         UpdateTimestamp();
+        return true;
     }
     
     // Methods expected by AuthService
@@ -15,6 +15,11 @@ public interface IAuthService
     /// </summary>
     Task<AuthResponse> LoginAsync(LoginRequest request, CancellationToken cancellationToken = default);
     
+    /// <summary>
+    /// Finish a login that was challenged for a 2FA code
+    /// </summary>
+    Task<AuthResponse> CompleteTwoFactorLoginAsync(TwoFactorLoginRequest request, CancellationToken cancellationToken = default);
+    
     /// <summary>
     /// Refresh access token using refresh token
     /// </summary>
@@ -61,12 +66,17 @@ public interface IAuthService
     Task ResendEmailConfirmationAsync(string email, CancellationToken cancellationToken = default);
     
     /// <summary>
-    /// Enable two-factor authentication
+    /// Start two-factor setup, returning the secret for the authenticator app
     /// </summary>
     Task<string> EnableTwoFactorAsync(Guid userId, CancellationToken cancellationToken = default);
     
     /// <summary>
-    /// Disable two-factor authentication
+    /// Turn two-factor authentication on with a first code from the app, returning one-time recovery codes
+    /// </summary>
+    Task<IEnumerable<string>> ConfirmTwoFactorAsync(Guid userId, string code, CancellationToken cancellationToken = default);
+    
+    /// <summary>
+    /// Disable two-factor authentication, or cancel a setup that hasn't been confirmed
     /// </summary>
     Task DisableTwoFactorAsync(Guid userId, string code, CancellationToken cancellationToken = default);
     
@@ -24,6 +24,20 @@ public interface IJwtService
     /// <returns>Refresh token entity</returns>
     RefreshToken GenerateRefreshToken(User user, string sessionId, string ipAddress, string userAgent);
     
+    /// <summary>
+    /// Generate the short-lived token that lets a user who passed the password check finish a 2FA login
+    /// </summary>
+    /// <param name="user">User entity</param>
+    /// <returns>JWT token string, not accepted as an access token</returns>
+    string GenerateTwoFactorToken(User user);
+    
+    /// <summary>
+    /// Validate a 2FA challenge token
+    /// </summary>
+    /// <param name="token">Token from GenerateTwoFactorToken</param>
+    /// <returns>User ID if valid and unexpired</returns>
+    Guid? ValidateTwoFactorToken(string token);
+    
     /// <summary>
     /// Validate JWT token and extract claims
     /// </summary>
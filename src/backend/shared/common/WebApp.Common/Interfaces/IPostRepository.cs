@@ -89,10 +89,12 @@ public interface IPostRepository
     Task AddAsync(Post post);
 
     /// <summary>
-    /// Updates an existing post
+    /// Updates an existing post. Saving fails with a DbUpdateConcurrencyException if the stored post
+    /// was changed after it was loaded
     /// </summary>
     /// <param name="post">Post entity to update</param>
-    void Update(Post post);
+    /// <param name="loadedUpdatedAt">UpdatedAt of the post as it was loaded, before it was changed</param>
+    void Update(Post post, DateTime loadedUpdatedAt);
 
     /// <summary>
     /// Deletes a post by its ID
@@ -100,6 +102,19 @@ public interface IPostRepository
     /// <param name="id">Post ID to delete</param>
     Task DeleteAsync(Guid id);
 
+    /// <summary>
+    /// Gets the earlier versions of an edited post, oldest first
+    /// </summary>
+    /// <param name="postId">Post ID</param>
+    /// <returns>Revisions of the post's content</returns>
+    Task<IEnumerable<PostRevision>> GetRevisionsAsync(Guid postId);
+
+    /// <summary>
+    /// Adds a revision recording a post's previous content
+    /// </summary>
+    /// <param name="revision">Revision to add</param>
+    Task AddRevisionAsync(PostRevision revision);
+
     /// <summary>
     /// Gets the number of likes for a specific post
     /// </summary>
@@ -114,6 +129,13 @@ public interface IPostRepository
     /// <returns>Number of comments</returns>
     Task<int> GetCommentCountAsync(Guid postId);
 
+    /// <summary>
+    /// Gets the number of direct replies to each of the given posts
+    /// </summary>
+    /// <param name="postIds">Post IDs</param>
+    /// <returns>Number of replies by post ID; posts without replies are left out</returns>
+    Task<IReadOnlyDictionary<Guid, int>> GetReplyCountsAsync(IEnumerable<Guid> postIds);
+
     /// <summary>
     /// Saves all changes to the underlying data store
     /// </summary>
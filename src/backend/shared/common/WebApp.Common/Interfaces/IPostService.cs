@@ -1,3 +1,4 @@
+using WebApp.Common.DTOs;
 using WebApp.Common.Entities;
 
 namespace WebApp.Common.Interfaces;
@@ -17,18 +18,18 @@ public interface IPostService
     /// <param name="visibility">Post visibility level</param>
     /// <returns>The created post</returns>
     /// <exception cref="ArgumentException">Thrown when validation fails</exception>
-    Task<Post> CreateTextPostAsync(Guid authorId, string content, PostVisibility visibility = PostVisibility.Public);
+    Task<PostDto> CreateTextPostAsync(Guid authorId, string content, PostVisibility visibility = PostVisibility.Public);
 
     /// <summary>
     /// Creates a new media post with attachment validation.
     /// </summary>
     /// <param name="authorId">ID of the user creating the post</param>
     /// <param name="content">Optional post content text</param>
-    /// <param name="mediaAttachments">List of media attachments</param>
+    /// <param name="mediaAttachments">The uploaded files to attach</param>
     /// <param name="visibility">Post visibility level</param>
     /// <returns>The created post</returns>
     /// <exception cref="ArgumentException">Thrown when validation fails</exception>
-    Task<Post> CreateMediaPostAsync(Guid authorId, string? content, IEnumerable<MediaAttachment> mediaAttachments, PostVisibility visibility = PostVisibility.Public);
+    Task<PostDto> CreateMediaPostAsync(Guid authorId, string? content, IEnumerable<CreateMediaAttachmentRequest> mediaAttachments, PostVisibility visibility = PostVisibility.Public);
 
     /// <summary>
     /// Creates a reply post to an existing post.
@@ -39,7 +40,7 @@ public interface IPostService
     /// <param name="visibility">Reply visibility level</param>
     /// <returns>The created reply post</returns>
     /// <exception cref="ArgumentException">Thrown when validation fails</exception>
-    Task<Post> CreateReplyAsync(Guid authorId, Guid parentPostId, string content, PostVisibility visibility = PostVisibility.Public);
+    Task<PostDto> CreateReplyAsync(Guid authorId, Guid parentPostId, string content, PostVisibility visibility = PostVisibility.Public);
 
     /// <summary>
     /// Updates an existing post's content with validation and authorization.
@@ -47,9 +48,19 @@ public interface IPostService
     /// <param name="postId">ID of the post to update</param>
     /// <param name="authorId">ID of the user requesting the update</param>
     /// <param name="newContent">New content for the post</param>
+    /// <param name="expectedUpdatedAt">UpdatedAt of the version being edited; when given, the update is refused if the post has changed since</param>
     /// <returns>The updated post</returns>
     /// <exception cref="ArgumentException">Thrown when validation or authorization fails</exception>
-    Task<Post> UpdatePostContentAsync(Guid postId, Guid authorId, string newContent);
+    /// <exception cref="InvalidOperationException">Thrown when the post has changed since expectedUpdatedAt, or while it was being saved</exception>
+    Task<PostDto> UpdatePostContentAsync(Guid postId, Guid authorId, string newContent, DateTime? expectedUpdatedAt = null);
+
+    /// <summary>
+    /// Retrieves the earlier versions of an edited post, oldest first.
+    /// </summary>
+    /// <param name="postId">ID of the post</param>
+    /// <param name="viewerId">ID of the user viewing the post (null for anonymous)</param>
+    /// <returns>The post's revisions, or null if the post is not found or not accessible</returns>
+    Task<IEnumerable<PostRevision>?> GetPostRevisionsAsync(Guid postId, Guid? viewerId = null);
 
     /// <summary>
     /// Updates a post's visibility with authorization check.
@@ -59,7 +70,8 @@ public interface IPostService
     /// <param name="newVisibility">New visibility level</param>
     /// <returns>The updated post</returns>
     /// <exception cref="ArgumentException">Thrown when validation or authorization fails</exception>
-    Task<Post> UpdatePostVisibilityAsync(Guid postId, Guid authorId, PostVisibility newVisibility);
+    /// <exception cref="InvalidOperationException">Thrown when the post was changed while it was being saved</exception>
+    Task<PostDto> UpdatePostVisibilityAsync(Guid postId, Guid authorId, PostVisibility newVisibility);
 
     /// <summary>
     /// Deletes a post with proper authorization and cascade handling.
@@ -76,7 +88,7 @@ public interface IPostService
     /// <param name="postId">ID of the post to retrieve</param>
     /// <param name="viewerId">ID of the user viewing the post (null for anonymous)</param>
     /// <returns>The post if found and accessible, null otherwise</returns>
-    Task<Post?> GetPostByIdAsync(Guid postId, Guid? viewerId = null);
+    Task<PostDto?> GetPostByIdAsync(Guid postId, Guid? viewerId = null);
 
     /// <summary>
     /// Retrieves posts by author with pagination and visibility filtering.
@@ -86,7 +98,7 @@ public interface IPostService
     /// <param name="limit">Maximum number of posts to return</param>
     /// <param name="offset">Number of posts to skip for pagination</param>
     /// <returns>List of accessible posts by the author</returns>
-    Task<IEnumerable<Post>> GetPostsByAuthorAsync(Guid authorId, Guid? viewerId = null, int limit = 20, int offset = 0);
+    Task<IEnumerable<PostDto>> GetPostsByAuthorAsync(Guid authorId, Guid? viewerId = null, int limit = 20, int offset = 0);
 
     /// <summary>
     /// Retrieves posts for a user's feed with proper visibility filtering.
@@ -95,7 +107,7 @@ public interface IPostService
     /// <param name="limit">Maximum number of posts to return</param>
     /// <param name="offset">Number of posts to skip for pagination</param>
     /// <returns>List of posts for the user's feed</returns>
-    Task<IEnumerable<Post>> GetUserFeedAsync(Guid userId, int limit = 20, int offset = 0);
+    Task<IEnumerable<PostDto>> GetUserFeedAsync(Guid userId, int limit = 20, int offset = 0);
 
     /// <summary>
     /// Retrieves public posts for the global timeline.
@@ -103,7 +115,7 @@ public interface IPostService
     /// <param name="limit">Maximum number of posts to return</param>
     /// <param name="offset">Number of posts to skip for pagination</param>
     /// <returns>List of public posts</returns>
-    Task<IEnumerable<Post>> GetPublicTimelineAsync(int limit = 20, int offset = 0);
+    Task<IEnumerable<PostDto>> GetPublicTimelineAsync(int limit = 20, int offset = 0);
 
     /// <summary>
     /// Searches posts with content filtering and visibility checks.
@@ -112,7 +124,7 @@ public interface IPostService
     /// <param name="viewerId">ID of the user performing the search (null for anonymous)</param>
     /// <param name="limit">Maximum number of posts to return</param>
     /// <returns>List of matching accessible posts</returns>
-    Task<IEnumerable<Post>> SearchPostsAsync(string searchTerm, Guid? viewerId = null, int limit = 20);
+    Task<IEnumerable<PostDto>> SearchPostsAsync(string searchTerm, Guid? viewerId = null, int limit = 20);
 
     /// <summary>
     /// Checks if a user can view a specific post based on visibility rules.
@@ -129,7 +141,7 @@ public interface IPostService
     /// <param name="limit">Maximum number of posts to return</param>
     /// <param name="offset">Number of posts to skip for pagination</param>
     /// <returns>List of posts containing media attachments</returns>
-    Task<IEnumerable<Post>> GetMediaPostsAsync(Guid? viewerId = null, int limit = 20, int offset = 0);
+    Task<IEnumerable<PostDto>> GetMediaPostsAsync(Guid? viewerId = null, int limit = 20, int offset = 0);
 
     /// <summary>
     /// Gets reply posts for a specific post.
@@ -139,5 +151,5 @@ public interface IPostService
     /// <param name="limit">Maximum number of replies to return</param>
     /// <param name="offset">Number of replies to skip for pagination</param>
     /// <returns>List of accessible reply posts</returns>
-    Task<IEnumerable<Post>> GetPostRepliesAsync(Guid parentPostId, Guid? viewerId = null, int limit = 20, int offset = 0);
+    Task<IEnumerable<PostDto>> GetPostRepliesAsync(Guid parentPostId, Guid? viewerId = null, int limit = 20, int offset = 0);
 }
@@ -18,15 +18,20 @@ public class PostRepository : IPostRepository
         _context = context ?? throw new ArgumentNullException(nameof(context));
     }
 
+    // Posts with what the post service returns alongside them: the author and the attachments
+    private IQueryable<Post> PostsWithDetails => _context.Posts
+        .Include(p => p.Author)
+        .Include(p => p.MediaAttachments);
+
     public async Task<Post?> GetByIdAsync(Guid id)
     {
-        return await _context.Posts
+        return await PostsWithDetails
             .FirstOrDefaultAsync(p => p.Id == id);
     }
 
     public async Task<IEnumerable<Post>> GetByAuthorAsync(Guid authorId, int limit = 20, int offset = 0)
     {
-        return await _context.Posts
+        return await PostsWithDetails
             .Where(p => p.AuthorId == authorId)
             .OrderByDescending(p => p.CreatedAt)
             .Skip(offset)
@@ -37,7 +42,7 @@ public class PostRepository : IPostRepository
     public async Task<IEnumerable<Post>> GetFeedAsync(Guid userId, int limit = 20, int offset = 0)
     {
         // Get posts from users that the current user follows
-        return await _context.Posts
+        return await PostsWithDetails
             .Where(p => _context.Follows
                 .Where(f => f.FollowerId == userId && f.IsAccepted)
                 .Select(f => f.FolloweeId)
@@ -50,7 +55,7 @@ public class PostRepository : IPostRepository
 
     public async Task<IEnumerable<Post>> GetPublicTimelineAsync(int limit = 20, int offset = 0)
     {
-        return await _context.Posts
+        return await PostsWithDetails
             .Where(p => p.Visibility == PostVisibility.Public)
             .OrderByDescending(p => p.CreatedAt)
             .Skip(offset)
@@ -60,7 +65,7 @@ public class PostRepository : IPostRepository
 
     public async Task<IEnumerable<Post>> GetRepliesAsync(Guid postId, int limit = 20, int offset = 0)
     {
-        return await _context.Posts
+        return await PostsWithDetails
             .Where(p => p.ParentPostId == postId)
             .OrderBy(p => p.CreatedAt)
             .Skip(offset)
@@ -70,15 +75,13 @@ public class PostRepository : IPostRepository
 
     public async Task<Post?> GetWithMediaAsync(Guid postId)
     {
-        return await _context.Posts
-            .Include(p => p.MediaAttachments)
+        return await PostsWithDetails
             .FirstOrDefaultAsync(p => p.Id == postId);
     }
 
     public async Task<IEnumerable<Post>> GetPostsWithMediaAsync(int limit = 20, int offset = 0)
     {
-        return await _context.Posts
-            .Include(p => p.MediaAttachments)
+        return await PostsWithDetails
             .Where(p => p.MediaAttachments.Any())
             .OrderByDescending(p => p.CreatedAt)
             .Skip(offset)
@@ -91,7 +94,7 @@ public class PostRepository : IPostRepository
         if (string.IsNullOrWhiteSpace(searchTerm))
             return Enumerable.Empty<Post>();
 
-        return await _context.Posts
+        return await PostsWithDetails
             .Where(p => p.Content.Contains(searchTerm) && p.Visibility == PostVisibility.Public)
             .OrderByDescending(p => p.CreatedAt)
             .Skip(offset)
@@ -115,6 +118,8 @@ public class PostRepository : IPostRepository
             .Skip(offset)
             .Take(limit)
             .Select(x => x.Post)
+            .Include(p => p.Author)
+            .Include(p => p.MediaAttachments)
             .ToListAsync();
     }
 
@@ -126,12 +131,17 @@ public class PostRepository : IPostRepository
         await _context.Posts.AddAsync(post);
     }
 
-    public void Update(Post post)
+    public void Update(Post post, DateTime loadedUpdatedAt)
     {
         if (post == null)
             throw new ArgumentNullException(nameof(post));
 
-        _context.Posts.Update(post);
+        // Posts are read without tracking, so the version the changes were made to has to be given
+        // for the concurrency check. Only the post itself is saved; the author and attachments
+        // loaded with it are attached unchanged.
+        var entry = _context.Posts.Attach(post);
+        entry.State = EntityState.Modified;
+        entry.Property(p => p.UpdatedAt).OriginalValue = loadedUpdatedAt;
     }
 
     public async Task DeleteAsync(Guid id)
@@ -143,6 +153,22 @@ public class PostRepository : IPostRepository
         }
     }
 
+    public async Task<IEnumerable<PostRevision>> GetRevisionsAsync(Guid postId)
+    {
+        return await _context.PostRevisions
+            .Where(r => r.PostId == postId)
+            .OrderBy(r => r.CreatedAt)
+            .ToListAsync();
+    }
+
+    public async Task AddRevisionAsync(PostRevision revision)
+    {
+        if (revision == null)
+            throw new ArgumentNullException(nameof(revision));
+
+        await _context.PostRevisions.AddAsync(revision);
+    }
+
     public async Task<int> GetLikeCountAsync(Guid postId)
     {
         return await _context.Likes
@@ -155,6 +181,17 @@ public class PostRepository : IPostRepository
             .CountAsync(c => c.PostId == postId);
     }
 
+    public async Task<IReadOnlyDictionary<Guid, int>> GetReplyCountsAsync(IEnumerable<Guid> postIds)
+    {
+        var ids = postIds.ToList();
+
+        return await _context.Posts
+            .Where(p => p.ParentPostId.HasValue && ids.Contains(p.ParentPostId.Value))
+            .GroupBy(p => p.ParentPostId!.Value)
+            .Select(g => new { PostId = g.Key, Count = g.Count() })
+            .ToDictionaryAsync(x => x.PostId, x => x.Count);
+    }
+
     public async Task<int> SaveChangesAsync()
     {
         return await _context.SaveChangesAsync();
@@ -0,0 +1,269 @@
+// Generates typed API clients from the services' OpenAPI documents in openapi/.
+//
+//   npm run api:generate   rewrite src/lib/generated/ from the fixtures
+//   npm run api:check      exit 1 if the checked-in client doesn't match the fixtures
+//   npm run api:fetch      save each running service's document to openapi/, then generate
+//
+// api:fetch expects the services where scripts/run-services-locally.sh starts them, in
+// Development (Swagger is only served there); AUTH_SERVICE_URL etc. point elsewhere.
+const fs = require('fs');
+const path = require('path');
+
+const ROOT_DIR = path.resolve(__dirname, '..');
+const SPEC_DIR = path.join(ROOT_DIR, 'openapi');
+const OUTPUT_DIR = path.join(ROOT_DIR, 'src', 'lib', 'generated');
+
+// `name` is the service's key in src/lib/services.ts, which resolves routes to the gateway or the
+// service itself; `servicePrefix` is the controller route the document's paths start with
+const SERVICES = [
+  {
+    name: 'auth',
+    spec: 'auth-service.json',
+    servicePrefix: '/api/Auth',
+    localUrl: 'http://localhost:7001',
+    urlVariable: 'AUTH_SERVICE_URL',
+  },
+  {
+    name: 'posts',
+    spec: 'post-service.json',
+    servicePrefix: '/api/Posts',
+    localUrl: 'http://localhost:7003',
+    urlVariable: 'POST_SERVICE_URL',
+  },
+  {
+    name: 'media',
+    spec: 'media-upload-service.json',
+    servicePrefix: '/api/MediaUpload',
+    localUrl: 'http://localhost:7007',
+    urlVariable: 'MEDIA_UPLOAD_SERVICE_URL',
+  },
+];
+
+const METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+const pascalCase = (value) =>
+  value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join('');
+
+const refName = (ref) => ref.split('/').pop();
+
+function typeOf(schema) {
+  if (!schema) return 'unknown';
+  if (schema.$ref) return refName(schema.$ref);
+  if (schema.allOf && schema.allOf.length === 1) return typeOf(schema.allOf[0]);
+  if (schema.enum) return schema.enum.map((value) => JSON.stringify(value)).join(' | ');
+
+  switch (schema.type) {
+    case 'string':
+      return schema.format === 'binary' ? 'Blob' : 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array': {
+      const item = typeOf(schema.items);
+      return /[ |]/.test(item) ? `(${item})[]` : `${item}[]`;
+    }
+    case 'object':
+      if (schema.additionalProperties && !schema.properties) {
+        return `Record<string, ${schema.additionalProperties === true ? 'unknown' : typeOf(schema.additionalProperties)}>`;
+      }
+      return schema.properties ? inlineObject(schema) : 'Record<string, unknown>';
+    default:
+      return 'unknown';
+  }
+}
+
+const isNullable = (schema) => !!schema && schema.nullable === true;
+
+const propertyLines = (schema, indent) =>
+  Object.entries(schema.properties || {}).map(([name, property]) => {
+    const key = /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+    const readonly = property.readOnly ? 'readonly ' : '';
+    // Only nullable members may be missing; everything else is always serialized
+    const optional = isNullable(property) ? '?' : '';
+    const nullable = isNullable(property) ? ' | null' : '';
+    return `${indent}${readonly}${key}${optional}: ${typeOf(property)}${nullable};`;
+  });
+
+const inlineObject = (schema) => `{ ${propertyLines(schema, '').join(' ')} }`;
+
+function renderSchema(name, schema) {
+  if (schema.enum || schema.type !== 'object' || !schema.properties) {
+    return `export type ${name} = ${typeOf(schema)};`;
+  }
+  return [`export interface ${name} {`, ...propertyLines(schema, '  '), '}'].join('\n');
+}
+
+// GET /api/Posts/feed/{userId} -> getFeedByUserId
+function operationName(method, route) {
+  const segments = route
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => (segment.startsWith('{') ? `By${pascalCase(segment.slice(1, -1))}` : pascalCase(segment)));
+  return method + segments.join('');
+}
+
+function requestBodyType(requestBody) {
+  if (!requestBody) return undefined;
+  const content = requestBody.content || {};
+  if (content['multipart/form-data']) return 'FormData';
+  const json = content['application/json'] || Object.values(content)[0];
+  return typeOf(json && json.schema);
+}
+
+function responseType(responses) {
+  const success = responses['200'] || responses['201'];
+  const json = success && success.content && success.content['application/json'];
+  return json ? typeOf(json.schema) : 'void';
+}
+
+function renderOperation(service, route, method, operation) {
+  const name = operationName(method, route);
+  const parameters = operation.parameters || [];
+  const pathParams = parameters.filter((parameter) => parameter.in === 'path');
+  const queryParams = parameters.filter((parameter) => parameter.in === 'query');
+  const bodyType = requestBodyType(operation.requestBody);
+  const result = responseType(operation.responses || {});
+
+  const args = pathParams.map((parameter) => `${parameter.name}: ${typeOf(parameter.schema)}`);
+  if (bodyType) args.push(`body: ${bodyType}`);
+  if (queryParams.length) {
+    const fields = queryParams.map(
+      (parameter) => `${parameter.name}${parameter.required ? '' : '?'}: ${typeOf(parameter.schema)}`
+    );
+    args.push(`query${queryParams.some((parameter) => parameter.required) ? '' : '?'}: { ${fields.join('; ')} }`);
+  }
+  args.push(`config?: ApiRequestConfig<T>`);
+
+  const routeParams = pathParams.length ? `, { ${pathParams.map((parameter) => parameter.name).join(', ')} }` : '';
+  const url = `serviceUrl('${service.name}', '${route}'${routeParams})`;
+  const requestConfig = queryParams.length ? '{ ...config, params: query }' : 'config';
+  const data = bodyType ? 'body' : method === 'get' || method === 'delete' ? undefined : 'undefined';
+  const callArgs = [url, data, requestConfig].filter(Boolean).join(', ');
+
+  // The response type is the service's unless a schema in `config` says otherwise
+  return `  ${name}: <T = ${result}>(${args.join(', ')}) =>\n    apiHelpers.${method}<T>(${callArgs}),`;
+}
+
+function generateServiceClient(service, spec) {
+  const operations = [];
+  for (const [specPath, item] of Object.entries(spec.paths || {})) {
+    if (!specPath.startsWith(service.servicePrefix)) {
+      throw new Error(`${service.spec}: ${specPath} is outside ${service.servicePrefix}`);
+    }
+    const route = specPath.slice(service.servicePrefix.length);
+    for (const method of METHODS) {
+      if (item[method]) operations.push(renderOperation(service, route, method, item[method]));
+    }
+  }
+
+  const schemas = Object.entries((spec.components && spec.components.schemas) || {})
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, schema]) => renderSchema(name, schema));
+
+  return [
+    `// Generated from openapi/${service.spec} by scripts/generate-api-client.js.`,
+    '// Do not edit by hand: update the fixture and run `npm run api:generate`.',
+    "import { ApiRequestConfig, apiHelpers } from '@/lib/api';",
+    "import { serviceUrl } from '@/lib/services';",
+    '',
+    schemas.join('\n\n'),
+    '',
+    `export const ${service.name}Api = {`,
+    ...operations,
+    '};',
+    '',
+  ].join('\n');
+}
+
+// Every generated file, keyed by path relative to the frontend root
+function generateClients(services = SERVICES) {
+  const files = new Map();
+  for (const service of services) {
+    const spec = JSON.parse(fs.readFileSync(path.join(SPEC_DIR, service.spec), 'utf8'));
+    files.set(path.join('src', 'lib', 'generated', `${service.name}.ts`), generateServiceClient(service, spec));
+  }
+  return files;
+}
+
+// Generated files that are missing, different, or no longer generated
+function findOutdatedFiles(files = generateClients()) {
+  const outdated = [];
+  for (const [file, contents] of files) {
+    const target = path.join(ROOT_DIR, file);
+    if (!fs.existsSync(target) || fs.readFileSync(target, 'utf8') !== contents) outdated.push(file);
+  }
+  if (fs.existsSync(OUTPUT_DIR)) {
+    for (const entry of fs.readdirSync(OUTPUT_DIR)) {
+      const file = path.join('src', 'lib', 'generated', entry);
+      if (entry.endsWith('.ts') && !files.has(file)) outdated.push(file);
+    }
+  }
+  return outdated;
+}
+
+// Saves each service's Swagger document as its fixture. The text is kept as served, since
+// re-serializing would reorder numeric keys such as response codes.
+async function fetchSpecs(services = SERVICES, env = process.env) {
+  for (const service of services) {
+    const origin = (env[service.urlVariable] || service.localUrl).replace(/\/+$/, '');
+    const url = `${origin}/swagger/v1/swagger.json`;
+    const response = await fetch(url).catch((error) => {
+      throw new Error(`Could not reach ${url}: ${error.message}`);
+    });
+    if (!response.ok) throw new Error(`${url} answered ${response.status}`);
+
+    const text = await response.text();
+    // Throws on anything that isn't a JSON document, e.g. an HTML error page
+    JSON.parse(text);
+    fs.writeFileSync(path.join(SPEC_DIR, service.spec), text.endsWith('\n') ? text : `${text}\n`);
+    console.log(`Saved openapi/${service.spec} from ${url}`);
+  }
+}
+
+async function main(args) {
+  if (args.includes('--fetch')) await fetchSpecs();
+
+  const files = generateClients();
+
+  if (args.includes('--check')) {
+    const outdated = findOutdatedFiles(files);
+    if (outdated.length) {
+      console.error(`The generated API client is out of date:\n  ${outdated.join('\n  ')}`);
+      console.error('Run `npm run api:generate` and commit the result.');
+      return 1;
+    }
+    console.log('The generated API client is up to date.');
+    return 0;
+  }
+
+  fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+  for (const entry of fs.readdirSync(OUTPUT_DIR)) {
+    const file = path.join('src', 'lib', 'generated', entry);
+    if (entry.endsWith('.ts') && !files.has(file)) fs.unlinkSync(path.join(ROOT_DIR, file));
+  }
+  for (const [file, contents] of files) {
+    fs.writeFileSync(path.join(ROOT_DIR, file), contents);
+    console.log(`Wrote ${file}`);
+  }
+  return 0;
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(
+    (code) => {
+      process.exitCode = code;
+    },
+    (error) => {
+      console.error(error.message);
+      process.exitCode = 1;
+    }
+  );
+}
+
+module.exports = { SERVICES, generateServiceClient, generateClients, findOutdatedFiles, fetchSpecs, operationName };
@@ -7,11 +7,8 @@ const mockUser: User = {
   id: 'user-1',
   username: 'testuser',
   email: 'test@example.com',
-  firstName: 'Test',
-  lastName: 'User',
   displayName: 'Test User',
   bio: 'Test user bio',
-  avatarUrl: null,
   isVerified: false,
   createdAt: new Date().toISOString(),
   updatedAt: new Date().toISOString(),
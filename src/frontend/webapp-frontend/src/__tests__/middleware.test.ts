@@ -0,0 +1,67 @@
+import { NextRequest } from 'next/server'
+import { config, middleware } from '../middleware'
+
+// jest.setup's fetch polyfill can't back a real NextRequest, so pass the parts the middleware reads
+const request = (path: string, cookies: Record<string, string> = {}) => {
+  const url = new URL(path, 'http://localhost:3000')
+  return {
+    url: url.toString(),
+    nextUrl: url,
+    cookies: { has: (name: string) => name in cookies },
+  } as unknown as NextRequest
+}
+
+const redirectLocation = (path: string, cookies?: Record<string, string>) =>
+  middleware(request(path, cookies)).headers.get('location')
+
+describe('middleware', () => {
+  it('should send signed-out users from protected routes to login with a returnTo', () => {
+    expect(redirectLocation('/settings/security?tab=sessions')).toBe(
+      'http://localhost:3000/auth/login?returnTo=%2Fsettings%2Fsecurity%3Ftab%3Dsessions'
+    )
+  })
+
+  it('should let requests with a session cookie through to protected routes', () => {
+    expect(redirectLocation('/', { accessToken: 'access' })).toBeNull()
+    expect(redirectLocation('/', { refreshToken: 'refresh' })).toBeNull()
+  })
+
+  it('should send signed-in users away from guest-only routes to their returnTo', () => {
+    expect(redirectLocation('/auth/login?returnTo=%2Fsettings', { refreshToken: 'refresh' })).toBe(
+      'http://localhost:3000/settings'
+    )
+    expect(
+      redirectLocation('/auth/login?returnTo=https%3A%2F%2Fevil.example.com', { refreshToken: 'refresh' })
+    ).toBe('http://localhost:3000/')
+  })
+
+  it('should leave public routes alone', () => {
+    expect(redirectLocation('/auth/reset-password?token=abc')).toBeNull()
+    expect(redirectLocation('/auth/reset-password?token=abc', { accessToken: 'access' })).toBeNull()
+    expect(redirectLocation('/auth/login')).toBeNull()
+  })
+
+  it('should forward old reset-password email links with their query intact', () => {
+    expect(redirectLocation('/reset-password?token=abc&email=a%2Bb%40example.com')).toBe(
+      'http://localhost:3000/auth/reset-password?token=abc&email=a%2Bb%40example.com'
+    )
+    expect(redirectLocation('/reset-password?token=abc', { accessToken: 'access' })).toBe(
+      'http://localhost:3000/auth/reset-password?token=abc'
+    )
+  })
+
+  it('should forward old confirmation email links with their query intact', () => {
+    expect(redirectLocation('/confirm-email?userId=user-1&token=abc')).toBe(
+      'http://localhost:3000/auth/confirm-email?userId=user-1&token=abc'
+    )
+  })
+
+  it('should not run for static assets or the API proxy', () => {
+    const matcher = new RegExp(`^${config.matcher[0]}$`)
+
+    expect(matcher.test('/settings')).toBe(true)
+    expect(matcher.test('/_next/static/chunk.js')).toBe(false)
+    expect(matcher.test('/api/posts')).toBe(false)
+    expect(matcher.test('/favicon.ico')).toBe(false)
+  })
+})
@@ -0,0 +1,46 @@
+import React from 'react'
+import { render, screen } from '@testing-library/react'
+import AdminPage from '../page'
+import { usePermissions } from '@/hooks/usePermissions'
+
+jest.mock('@/hooks/usePermissions', () => ({
+  usePermissions: jest.fn(),
+}))
+
+jest.mock('@/components/layout/Navigation', () => ({
+  Navigation: () => null,
+}))
+
+jest.mock('@/components/admin/ProcessingQueueStatusCard', () => ({
+  ProcessingQueueStatusCard: () => <h2>Media processing</h2>,
+}))
+
+jest.mock('@/components/admin/BulkNotificationForm', () => ({
+  BulkNotificationForm: () => <h2>Notify users</h2>,
+}))
+
+jest.mock('@/components/admin/MaintenanceActions', () => ({
+  MaintenanceActions: () => <h2>Maintenance</h2>,
+}))
+
+const mockUsePermissions = usePermissions as jest.Mock
+
+describe('AdminPage', () => {
+  const setup = (permissions: string[]) => {
+    mockUsePermissions.mockReturnValue({ can: (permission: string) => permissions.includes(permission) })
+    render(<AdminPage />)
+  }
+
+  it('should offer bulk notifications with the permission', () => {
+    setup(['admin:access', 'notifications:bulk'])
+
+    expect(screen.getByRole('heading', { name: 'Notify users' })).toBeInTheDocument()
+  })
+
+  it('should hide bulk notifications without the permission', () => {
+    setup(['admin:access', 'media-processing:view', 'maintenance:cleanup'])
+
+    expect(screen.queryByRole('heading', { name: 'Notify users' })).not.toBeInTheDocument()
+    expect(screen.getByRole('heading', { name: 'Maintenance' })).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,33 @@
+'use client';
+
+import React from 'react';
+import { Navigation } from '@/components/layout/Navigation';
+import { RequirePermission } from '@/components/auth/RequirePermission';
+import { ProcessingQueueStatusCard } from '@/components/admin/ProcessingQueueStatusCard';
+import { MaintenanceActions } from '@/components/admin/MaintenanceActions';
+import { BulkNotificationForm } from '@/components/admin/BulkNotificationForm';
+
+// Reachable only with 'admin:access' (see routePermissions); sections check their own permission
+export default function AdminPage() {
+  return (
+    <>
+      <Navigation />
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Administration</h1>
+          <p className="mt-1 text-sm text-gray-600">Service health, notifications and maintenance tasks.</p>
+        </div>
+
+        <RequirePermission permission="media-processing:view">
+          <ProcessingQueueStatusCard />
+        </RequirePermission>
+        <RequirePermission permission="notifications:bulk">
+          <BulkNotificationForm />
+        </RequirePermission>
+        <RequirePermission permission="maintenance:cleanup">
+          <MaintenanceActions />
+        </RequirePermission>
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,25 @@
+'use client';
+
+import React, { Suspense } from 'react';
+import { ConfirmEmailStatus } from '@/components/auth/ConfirmEmailStatus';
+
+export default function ConfirmEmailPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        {/* Header */}
+        <div className="text-center">
+          <div className="mx-auto w-16 h-16 bg-blue-600 rounded-lg flex items-center justify-center mb-4">
+            <span className="text-white font-bold text-2xl">W</span>
+          </div>
+          <h2 className="text-3xl font-bold text-gray-900">Confirm your email</h2>
+        </div>
+
+        {/* The status reads the user id and token from the query string */}
+        <Suspense fallback={null}>
+          <ConfirmEmailStatus />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
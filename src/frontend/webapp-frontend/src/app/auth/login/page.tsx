@@ -2,7 +2,6 @@
 
 import React, { useState, useEffect } from 'react';
 import Link from 'next/link';
-import { useRouter } from 'next/navigation';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -10,6 +9,9 @@ import { Eye, EyeOff } from 'lucide-react';
 import { useAuthStore } from '@/store/authStore';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
+import { SignInAttemptsNotice } from '@/components/auth/SignInAttemptsNotice';
+import { TwoFactorChallenge } from '@/components/auth/TwoFactorChallenge';
+import { useCountdown } from '@/hooks/useCountdown';
 import { LoginFormData } from '@/types';
 
 const loginSchema = z.object({
@@ -19,9 +21,19 @@ const loginSchema = z.object({
 });
 
 export default function LoginPage() {
-  const router = useRouter();
-  const { login, isAuthenticated, isLoading, error, clearError } = useAuthStore();
+  const {
+    login,
+    isLoading,
+    error,
+    clearError,
+    twoFactorChallenge,
+    sessionNotice,
+    loginAttemptsRemaining,
+    loginLockedUntil,
+  } = useAuthStore();
   const [showPassword, setShowPassword] = useState(false);
+  const lockoutSeconds = useCountdown(loginLockedUntil);
+  const isLockedOut = lockoutSeconds > 0;
 
   const {
     register,
@@ -31,13 +43,6 @@ export default function LoginPage() {
     resolver: zodResolver(loginSchema),
   });
 
-  // Redirect if already authenticated
-  useEffect(() => {
-    if (isAuthenticated) {
-      router.push('/');
-    }
-  }, [isAuthenticated, router]);
-
   // Clear error when component mounts
   useEffect(() => {
     clearError();
@@ -51,11 +56,11 @@ export default function LoginPage() {
         password: data.password,
         rememberMe: data.rememberMe || false,
       };
+      // AuthGuard sends the user on to their returnTo once signed in;
+      // accounts with 2FA stay on this page for the code step
       await login(loginRequest);
-      router.push('/');
-    } catch (error) {
-      // Error is handled by the store
-      console.error('Login failed:', error);
+    } catch {
+      // The store shows the error; lib/api reports failures worth investigating
     }
   };
 
@@ -73,81 +78,97 @@ export default function LoginPage() {
           </p>
         </div>
 
-        {/* Error Alert */}
-        {error && (
-          <div className="bg-red-50 border border-red-200 rounded-md p-4">
-            <div className="text-sm text-red-800">{error}</div>
-          </div>
-        )}
-
-        {/* Login Form */}
-        <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
-          <div className="space-y-4">
-            <Input
-              {...register('email')}
-              type="email"
-              label="Email address"
-              placeholder="Enter your email"
-              error={errors.email?.message}
-              required
-            />
-
-            <div className="relative">
-              <Input
-                {...register('password')}
-                type={showPassword ? 'text' : 'password'}
-                label="Password"
-                placeholder="Enter your password"
-                error={errors.password?.message}
-                required
-              />
-              <button
-                type="button"
-                className="absolute right-3 top-8 text-gray-500 hover:text-gray-700"
-                onClick={() => setShowPassword(!showPassword)}
+        {twoFactorChallenge ? (
+          <TwoFactorChallenge />
+        ) : (
+          <>
+            {/* Signed-out Notice */}
+            {sessionNotice && !error && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+                <div className="text-sm text-yellow-800">{sessionNotice}</div>
+              </div>
+            )}
+
+            {/* Error Alert; a lockout shows its own alert and is gone once it ends */}
+            {error && !loginLockedUntil && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                <div className="text-sm text-red-800">{error}</div>
+              </div>
+            )}
+
+            {/* Lockout Countdown or Remaining Attempts Warning */}
+            <SignInAttemptsNotice lockoutSeconds={lockoutSeconds} attemptsRemaining={loginAttemptsRemaining} />
+
+            {/* Login Form */}
+            <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+              <div className="space-y-4">
+                <Input
+                  {...register('email')}
+                  type="email"
+                  label="Email address"
+                  placeholder="Enter your email"
+                  error={errors.email?.message}
+                  required
+                />
+
+                <div className="relative">
+                  <Input
+                    {...register('password')}
+                    type={showPassword ? 'text' : 'password'}
+                    label="Password"
+                    placeholder="Enter your password"
+                    error={errors.password?.message}
+                    required
+                  />
+                  <button
+                    type="button"
+                    className="absolute right-3 top-8 text-gray-500 hover:text-gray-700"
+                    onClick={() => setShowPassword(!showPassword)}
+                  >
+                    {showPassword ? (
+                      <EyeOff className="w-5 h-5" />
+                    ) : (
+                      <Eye className="w-5 h-5" />
+                    )}
+                  </button>
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="flex items-center">
+                  <input
+                    {...register('rememberMe')}
+                    id="remember-me"
+                    type="checkbox"
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <label htmlFor="remember-me" className="ml-2 block text-sm text-gray-900">
+                    Remember me
+                  </label>
+                </div>
+
+                <div className="text-sm">
+                  <Link
+                    href="/auth/forgot-password"
+                    className="text-blue-600 hover:text-blue-500 font-medium"
+                  >
+                    Forgot your password?
+                  </Link>
+                </div>
+              </div>
+
+              <Button
+                type="submit"
+                size="lg"
+                className="w-full"
+                loading={isLoading}
+                disabled={isLoading || isLockedOut}
               >
-                {showPassword ? (
-                  <EyeOff className="w-5 h-5" />
-                ) : (
-                  <Eye className="w-5 h-5" />
-                )}
-              </button>
-            </div>
-          </div>
-
-          <div className="flex items-center justify-between">
-            <div className="flex items-center">
-              <input
-                {...register('rememberMe')}
-                id="remember-me"
-                type="checkbox"
-                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-              />
-              <label htmlFor="remember-me" className="ml-2 block text-sm text-gray-900">
-                Remember me
-              </label>
-            </div>
-
-            <div className="text-sm">
-              <Link
-                href="/auth/forgot-password"
-                className="text-blue-600 hover:text-blue-500 font-medium"
-              >
-                Forgot your password?
-              </Link>
-            </div>
-          </div>
-
-          <Button
-            type="submit"
-            size="lg"
-            className="w-full"
-            loading={isLoading}
-            disabled={isLoading}
-          >
-            Sign in
-          </Button>
-        </form>
+                Sign in
+              </Button>
+            </form>
+          </>
+        )}
 
         {/* Footer */}
         <div className="text-center">
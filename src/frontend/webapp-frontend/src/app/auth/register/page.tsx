@@ -2,7 +2,6 @@
 
 import React, { useState, useEffect } from 'react';
 import Link from 'next/link';
-import { useRouter } from 'next/navigation';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -11,35 +10,38 @@ import { useAuthStore } from '@/store/authStore';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { RegisterFormData } from '@/types';
-import { validateUsername } from '@/lib/utils';
+import {
+  emailSchema,
+  passwordSchema,
+  passwordStrengthRefinement,
+  setServerFieldErrors,
+  usernameSchema,
+} from '@/lib/validation';
+import { AvailabilityHint } from '@/components/auth/AvailabilityHint';
+import { PasswordStrengthMeter } from '@/components/auth/PasswordStrengthMeter';
+import {
+  checkEmailAvailability,
+  checkUsernameAvailability,
+  useAvailabilityCheck,
+  useUsernameSuggestions,
+} from '@/hooks/useAvailabilityCheck';
 
 const registerSchema = z.object({
-  email: z.string().email('Please enter a valid email address'),
-  username: z
-    .string()
-    .min(3, 'Username must be at least 3 characters')
-    .max(20, 'Username must be no more than 20 characters')
-    .refine(validateUsername, 'Username can only contain letters, numbers, and underscores'),
+  email: emailSchema,
+  username: usernameSchema,
   displayName: z
     .string()
     .min(2, 'Display name must be at least 2 characters')
     .max(50, 'Display name must be no more than 50 characters'),
-  password: z
-    .string()
-    .min(8, 'Password must be at least 8 characters')
-    .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
-    .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
-    .regex(/\d/, 'Password must contain at least one number')
-    .regex(/[!@#$%^&*(),.?":{}|<>]/, 'Password must contain at least one special character'),
+  password: passwordSchema,
   confirmPassword: z.string(),
 }).refine((data) => data.password === data.confirmPassword, {
   message: "Passwords don't match",
   path: ["confirmPassword"],
-});
+}).superRefine(passwordStrengthRefinement((data) => [data.username, data.email, data.displayName]));
 
 export default function RegisterPage() {
-  const router = useRouter();
-  const { register: registerUser, isAuthenticated, isLoading, error, clearError } = useAuthStore();
+  const { register: registerUser, isLoading, error, clearError } = useAuthStore();
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
 
@@ -48,19 +50,31 @@ export default function RegisterPage() {
     handleSubmit,
     formState: { errors },
     watch,
+    setValue,
+    setError,
   } = useForm<RegisterFormData>({
     resolver: zodResolver(registerSchema),
   });
 
-  // Watch password field for real-time validation feedback
+  // Watch password field for the strength meter
   const password = watch('password');
 
-  // Redirect if already authenticated
-  useEffect(() => {
-    if (isAuthenticated) {
-      router.push('/');
-    }
-  }, [isAuthenticated, router]);
+  // Check availability as the user types, once the value is well-formed
+  const [username = '', email = '', displayName = ''] = watch(['username', 'email', 'displayName']);
+  const usernameStatus = useAvailabilityCheck(
+    username,
+    checkUsernameAvailability,
+    usernameSchema.safeParse(username).success
+  );
+  const emailStatus = useAvailabilityCheck(
+    email,
+    checkEmailAvailability,
+    emailSchema.safeParse(email).success
+  );
+  const usernameSuggestions = useUsernameSuggestions(
+    displayName,
+    usernameStatus === 'taken' ? username : null
+  );
 
   // Clear error when component mounts
   useEffect(() => {
@@ -68,40 +82,22 @@ export default function RegisterPage() {
   }, [clearError]);
 
   const onSubmit = async (data: RegisterFormData) => {
+    // The inline errors already explain what to change
+    if (usernameStatus === 'taken' || emailStatus === 'taken') return;
+
     try {
       // Send all data including confirmPassword as expected by backend
+      // AuthGuard moves the new user on to the app once they're signed in
       await registerUser(data);
-      router.push('/');
     } catch (error) {
-      // Error is handled by the store
-      console.error('Registration failed:', error);
+      // Field-level problems go next to their inputs; anything else is shown by the store
+      const fields = ['email', 'username', 'displayName', 'password', 'confirmPassword'] as const;
+      if (setServerFieldErrors(error, setError, fields)) {
+        clearError();
+      }
     }
   };
 
-  const getPasswordStrength = (password: string) => {
-    if (!password) return { strength: 0, label: '', color: '' };
-    
-    let score = 0;
-    if (password.length >= 8) score++;
-    if (/[A-Z]/.test(password)) score++;
-    if (/[a-z]/.test(password)) score++;
-    if (/\d/.test(password)) score++;
-    if (/[!@#$%^&*(),.?":{}|<>]/.test(password)) score++;
-
-    const strengthMap = {
-      0: { label: '', color: '' },
-      1: { label: 'Very Weak', color: 'bg-red-500' },
-      2: { label: 'Weak', color: 'bg-orange-500' },
-      3: { label: 'Fair', color: 'bg-yellow-500' },
-      4: { label: 'Good', color: 'bg-blue-500' },
-      5: { label: 'Strong', color: 'bg-green-500' },
-    };
-
-    return { strength: score, ...strengthMap[score as keyof typeof strengthMap] };
-  };
-
-  const passwordStrength = getPasswordStrength(password || '');
-
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -126,23 +122,59 @@ export default function RegisterPage() {
         {/* Register Form */}
         <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
           <div className="space-y-4">
-            <Input
-              {...register('email')}
-              type="email"
-              label="Email address"
-              placeholder="Enter your email"
-              error={errors.email?.message}
-              required
-            />
+            <div className="space-y-1">
+              <Input
+                {...register('email')}
+                type="email"
+                label="Email address"
+                placeholder="Enter your email"
+                error={
+                  errors.email?.message ??
+                  (emailStatus === 'taken' ? 'An account already exists for this email' : undefined)
+                }
+                required
+              />
+              {emailStatus === 'taken' ? (
+                <Link
+                  href="/auth/login"
+                  className="text-sm text-blue-600 hover:text-blue-500 font-medium"
+                >
+                  Sign in instead
+                </Link>
+              ) : (
+                <AvailabilityHint status={emailStatus} availableText="Email is available" />
+              )}
+            </div>
 
-            <Input
-              {...register('username')}
-              type="text"
-              label="Username"
-              placeholder="Choose a username"
-              error={errors.username?.message}
-              required
-            />
+            <div className="space-y-1">
+              <Input
+                {...register('username')}
+                type="text"
+                label="Username"
+                placeholder="Choose a username"
+                error={
+                  errors.username?.message ??
+                  (usernameStatus === 'taken' ? 'That username is taken' : undefined)
+                }
+                required
+              />
+              <AvailabilityHint status={usernameStatus} availableText={`@${username} is available`} />
+              {usernameStatus === 'taken' && usernameSuggestions.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="text-gray-600">Try:</span>
+                  {usernameSuggestions.map((suggestion) => (
+                    <button
+                      key={suggestion}
+                      type="button"
+                      className="rounded-full border border-blue-200 bg-blue-50 px-2 py-0.5 text-blue-700 hover:bg-blue-100"
+                      onClick={() => setValue('username', suggestion, { shouldValidate: true })}
+                    >
+                      {suggestion}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
 
             <Input
               {...register('displayName')}
@@ -175,26 +207,7 @@ export default function RegisterPage() {
               </button>
             </div>
 
-            {/* Password Strength Indicator */}
-            {password && (
-              <div className="space-y-2">
-                <div className="flex justify-between text-sm">
-                  <span className="text-gray-600">Password strength</span>
-                  <span className={`font-medium ${
-                    passwordStrength.strength >= 4 ? 'text-green-600' : 
-                    passwordStrength.strength >= 3 ? 'text-yellow-600' : 'text-red-600'
-                  }`}>
-                    {passwordStrength.label}
-                  </span>
-                </div>
-                <div className="w-full bg-gray-200 rounded-full h-2">
-                  <div
-                    className={`h-2 rounded-full transition-all duration-300 ${passwordStrength.color}`}
-                    style={{ width: `${(passwordStrength.strength / 5) * 100}%` }}
-                  />
-                </div>
-              </div>
-            )}
+            <PasswordStrengthMeter password={password} userInputs={[username, email, displayName]} />
 
             <div className="relative">
               <Input
@@ -0,0 +1,33 @@
+'use client';
+
+import React, { Suspense } from 'react';
+import Link from 'next/link';
+import { ResetPasswordForm } from '@/components/auth/ResetPasswordForm';
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        {/* Header */}
+        <div className="text-center">
+          <div className="mx-auto w-16 h-16 bg-blue-600 rounded-lg flex items-center justify-center mb-4">
+            <span className="text-white font-bold text-2xl">W</span>
+          </div>
+          <h2 className="text-3xl font-bold text-gray-900">Reset your password</h2>
+        </div>
+
+        {/* The form reads the token from the query string */}
+        <Suspense fallback={null}>
+          <ResetPasswordForm />
+        </Suspense>
+
+        {/* Footer */}
+        <div className="text-center">
+          <Link href="/auth/login" className="text-sm text-blue-600 hover:text-blue-500 font-medium">
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+'use client';
+
+import React from 'react';
+import { useRouter } from 'next/navigation';
+import { Navigation } from '@/components/layout/Navigation';
+import { PostComposerModal } from '@/components/posts/PostComposer';
+
+// Linked from the mobile menu; closing or posting returns to the feed
+export default function CreatePostPage() {
+  const router = useRouter();
+
+  return (
+    <>
+      <Navigation />
+      <PostComposerModal open onClose={() => router.push('/')} />
+    </>
+  );
+}
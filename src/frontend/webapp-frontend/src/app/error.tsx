@@ -0,0 +1,32 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { reportError } from '@/lib/errorReporting';
+
+// Shown in place of a page that threw while rendering
+export default function ErrorPage({
+  error,
+  reset,
+}: {
+  error: Error & { digest?: string };
+  reset: () => void;
+}) {
+  useEffect(() => {
+    reportError(error, { kind: 'render', context: { digest: error.digest } });
+  }, [error]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full bg-white rounded-lg shadow-sm p-6 text-center space-y-3">
+        <AlertTriangle className="mx-auto w-10 h-10 text-red-600" />
+        <h2 className="text-lg font-semibold text-gray-900">Something went wrong</h2>
+        <p className="text-sm text-gray-600">
+          This page couldn&apos;t be displayed. Try again, or reload the page if it keeps happening.
+        </p>
+        <Button onClick={reset}>Try again</Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { reportError } from '@/lib/errorReporting';
+
+// Replaces the root layout when it throws, so it can't rely on the layout's providers or styles
+export default function GlobalError({
+  error,
+  reset,
+}: {
+  error: Error & { digest?: string };
+  reset: () => void;
+}) {
+  useEffect(() => {
+    reportError(error, { kind: 'render', context: { digest: error.digest, boundary: 'root' } });
+  }, [error]);
+
+  return (
+    <html lang="en">
+      <body style={{ fontFamily: 'sans-serif', textAlign: 'center', padding: '4rem 1rem' }}>
+        <h2>Something went wrong</h2>
+        <p>The app couldn&apos;t be displayed. Try again, or reload the page if it keeps happening.</p>
+        <button type="button" onClick={reset}>
+          Try again
+        </button>
+      </body>
+    </html>
+  );
+}
@@ -4,6 +4,8 @@ import "./globals.css";
 import { Providers } from "@/components/providers/Providers";
 import { ClientOnly } from "@/components/hydration/ClientOnly";
 import { Loading } from "@/components/ui/Loading";
+import { AuthGuard } from "@/components/auth/AuthGuard";
+import { IdleSessionManager } from "@/components/auth/IdleSessionManager";
 
 const inter = Inter({ subsets: ["latin"] });
 
@@ -29,9 +31,12 @@ export default function RootLayout({
       <body className={inter.className}>
         <ClientOnly fallback={<Loading />}>
           <Providers>
-            <div className="min-h-screen bg-gray-50">
-              {children}
-            </div>
+            <AuthGuard>
+              <div className="min-h-screen bg-gray-50">
+                {children}
+              </div>
+              <IdleSessionManager />
+            </AuthGuard>
           </Providers>
         </ClientOnly>
       </body>
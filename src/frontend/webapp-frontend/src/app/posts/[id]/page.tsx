@@ -0,0 +1,19 @@
+'use client';
+
+import React, { use } from 'react';
+import { Navigation } from '@/components/layout/Navigation';
+import { PostThread } from '@/components/posts/PostThread';
+
+export default function PostPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+
+  return (
+    <>
+      <Navigation />
+      <main className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Keyed so a permalink to another post starts from a fresh thread */}
+        <PostThread key={id} postId={id} />
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,6 @@
+import { redirect } from 'next/navigation';
+
+// Security is currently the only settings section
+export default function SettingsPage() {
+  redirect('/settings/security');
+}
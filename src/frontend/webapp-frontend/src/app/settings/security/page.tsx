@@ -0,0 +1,29 @@
+'use client';
+
+import React from 'react';
+import { Navigation } from '@/components/layout/Navigation';
+import { TwoFactorSettings } from '@/components/settings/TwoFactorSettings';
+import { ActiveSessions } from '@/components/settings/ActiveSessions';
+import { ChangePasswordForm } from '@/components/settings/ChangePasswordForm';
+import { IdleTimeoutSettings } from '@/components/settings/IdleTimeoutSettings';
+
+export default function SecuritySettingsPage() {
+  return (
+    <>
+      <Navigation />
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Security</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Manage how you sign in and keep your account protected.
+          </p>
+        </div>
+
+        <ChangePasswordForm />
+        <TwoFactorSettings />
+        <IdleTimeoutSettings />
+        <ActiveSessions />
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,119 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { useBulkNotification } from '@/hooks/useAdmin';
+import { getErrorMessage } from '@/lib/api';
+
+const USER_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// User IDs separated by commas, spaces or new lines, without repeats
+const parseUserIds = (recipients: string) => [...new Set(recipients.split(/[\s,]+/).filter(Boolean))];
+
+const bulkNotificationSchema = z.object({
+  recipients: z
+    .string()
+    .refine((value) => parseUserIds(value).length > 0, 'Add at least one user ID')
+    .refine((value) => parseUserIds(value).every((id) => USER_ID_PATTERN.test(id)), 'Some of these are not user IDs'),
+  title: z.string().trim().min(1, 'Give the notification a title').max(200, 'Titles can be up to 200 characters'),
+  message: z.string().trim().min(1, 'Write a message').max(1000, 'Messages can be up to 1000 characters'),
+  actionUrl: z.union([z.literal(''), z.url('Enter a full URL, e.g. https://…').max(500)]),
+});
+
+type BulkNotificationFormData = z.infer<typeof bulkNotificationSchema>;
+
+// Sends a system notification to a list of users
+export const BulkNotificationForm: React.FC = () => {
+  const sendNotification = useBulkNotification();
+  const [result, setResult] = useState<string | undefined>();
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<BulkNotificationFormData>({
+    resolver: zodResolver(bulkNotificationSchema),
+    defaultValues: { recipients: '', title: '', message: '', actionUrl: '' },
+  });
+
+  const onSubmit = async ({ recipients, title, message, actionUrl }: BulkNotificationFormData) => {
+    setResult(undefined);
+    const userIds = parseUserIds(recipients);
+    const sent = await sendNotification
+      .mutateAsync({ userIds, title, message, actionUrl: actionUrl || undefined })
+      .catch(() => undefined);
+
+    if (sent !== undefined) {
+      setResult(`Sent to ${sent} of ${userIds.length} ${userIds.length === 1 ? 'user' : 'users'}.`);
+      reset();
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+      <div>
+        <h2 className="font-semibold text-gray-900">Notify users</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Sends a system notification to each user. IDs that don&apos;t belong to a user are skipped.
+        </p>
+      </div>
+
+      {sendNotification.error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="text-sm text-red-800">
+            {getErrorMessage(sendNotification.error, 'Could not send the notification. Please try again.')}
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4" role="status">
+          <div className="text-sm text-green-800">{result}</div>
+        </div>
+      )}
+
+      <form className="space-y-4" onSubmit={handleSubmit(onSubmit)}>
+        <div className="space-y-1">
+          <textarea
+            {...register('recipients')}
+            aria-label="User IDs"
+            aria-invalid={!!errors.recipients}
+            placeholder="User IDs, one per line"
+            className="w-full rounded-md border border-gray-300 p-2 text-sm font-mono focus:border-blue-500 focus:ring-blue-500"
+            rows={3}
+          />
+          {errors.recipients && <p className="text-sm text-red-600">{errors.recipients.message}</p>}
+        </div>
+        <Input {...register('title')} aria-label="Title" placeholder="Title" error={errors.title?.message} />
+        <div className="space-y-1">
+          <textarea
+            {...register('message')}
+            aria-label="Message"
+            aria-invalid={!!errors.message}
+            placeholder="Message"
+            className="w-full rounded-md border border-gray-300 p-2 text-sm focus:border-blue-500 focus:ring-blue-500"
+            rows={3}
+          />
+          {errors.message && <p className="text-sm text-red-600">{errors.message.message}</p>}
+        </div>
+        <Input
+          {...register('actionUrl')}
+          type="url"
+          aria-label="Link"
+          placeholder="Link (optional)"
+          error={errors.actionUrl?.message}
+        />
+        <div className="flex justify-end">
+          <Button type="submit" size="sm" loading={sendNotification.isPending}>
+            Send
+          </Button>
+        </div>
+      </form>
+    </section>
+  );
+};
@@ -0,0 +1,69 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { CleanupTask, useCleanup } from '@/hooks/useAdmin';
+import { getErrorMessage } from '@/lib/api';
+
+const TASKS: { task: CleanupTask; label: string; description: string }[] = [
+  { task: 'tempMedia', label: 'Temporary uploads', description: 'Files from uploads that were never attached to a post.' },
+  { task: 'processingJobs', label: 'Processing jobs', description: 'Finished media processing jobs past their retention.' },
+  { task: 'expiredNotifications', label: 'Expired notifications', description: 'Notifications past their expiry date.' },
+  { task: 'archivedNotifications', label: 'Archived notifications', description: 'Notifications archived more than 90 days ago.' },
+];
+
+export const MaintenanceActions: React.FC = () => {
+  const cleanup = useCleanup();
+  const [result, setResult] = useState<string | undefined>();
+
+  const handleCleanup = async (task: CleanupTask, label: string) => {
+    setResult(undefined);
+    const removed = await cleanup.mutateAsync(task).catch(() => undefined);
+    if (removed !== undefined) {
+      setResult(`${label}: removed ${removed}.`);
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+      <div>
+        <h2 className="font-semibold text-gray-900">Maintenance</h2>
+        <p className="text-sm text-gray-600 mt-1">Clean-up runs immediately and can&apos;t be undone.</p>
+      </div>
+
+      {cleanup.error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="text-sm text-red-800">
+            {getErrorMessage(cleanup.error, 'Clean-up failed. Please try again.')}
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4" role="status">
+          <div className="text-sm text-green-800">{result}</div>
+        </div>
+      )}
+
+      <ul className="divide-y divide-gray-200">
+        {TASKS.map(({ task, label, description }) => (
+          <li key={task} className="flex items-center justify-between gap-4 py-3">
+            <div>
+              <p className="text-sm font-medium text-gray-900">{label}</p>
+              <p className="text-sm text-gray-600">{description}</p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              loading={cleanup.isPending && cleanup.variables === task}
+              disabled={cleanup.isPending}
+              onClick={() => handleCleanup(task, label)}
+            >
+              Clean up
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
@@ -0,0 +1,55 @@
+'use client';
+
+import React from 'react';
+import { useProcessingQueueStatus } from '@/hooks/useAdmin';
+import { getErrorMessage } from '@/lib/api';
+import { formatRelativeTime } from '@/lib/utils';
+
+export const ProcessingQueueStatusCard: React.FC = () => {
+  const { data: status, isLoading, error } = useProcessingQueueStatus();
+
+  const counts = status
+    ? [
+        { label: 'Queued', value: status.queuedJobs },
+        { label: 'Processing', value: status.processingJobs },
+        { label: 'Completed', value: status.completedJobs },
+        { label: 'Failed', value: status.failedJobs },
+      ]
+    : [];
+
+  return (
+    <section className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+      <div>
+        <h2 className="font-semibold text-gray-900">Media processing</h2>
+        {status?.lastProcessedAt && (
+          <p className="text-sm text-gray-600 mt-1">
+            Last job finished {formatRelativeTime(status.lastProcessedAt)}.
+          </p>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="text-sm text-red-800">
+            {getErrorMessage(error, 'Could not load the processing queue.')}
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <dl className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          {counts.map(({ label, value }) => (
+            <div key={label} className="rounded-md border border-gray-200 p-3">
+              <dt className="text-xs text-gray-500">{label}</dt>
+              <dd className="text-xl font-semibold text-gray-900">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </section>
+  );
+};
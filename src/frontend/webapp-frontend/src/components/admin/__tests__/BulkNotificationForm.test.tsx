@@ -0,0 +1,78 @@
+import React from 'react'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { BulkNotificationForm } from '../BulkNotificationForm'
+import { apiHelpers } from '@/lib/api'
+
+jest.mock('@/lib/api', () => ({
+  apiHelpers: {
+    post: jest.fn(),
+  },
+  endpoints: {
+    notifications: {
+      bulk: '/notifications/bulk',
+    },
+  },
+  getErrorMessage: jest.requireActual('@/lib/api').getErrorMessage,
+}))
+
+const mockApiHelpers = apiHelpers as jest.Mocked<typeof apiHelpers>
+
+const ada = '3f2b8c1e-0d4a-4c2b-9a51-6f0e2d7c8b91'
+const grace = '9c1d7e2f-5b3a-4e8d-a2c6-1b0f9e8d7c6a'
+
+const renderForm = () =>
+  render(
+    <QueryClientProvider client={new QueryClient()}>
+      <BulkNotificationForm />
+    </QueryClientProvider>
+  )
+
+const fillIn = (recipients: string) => {
+  fireEvent.change(screen.getByLabelText('User IDs'), { target: { value: recipients } })
+  fireEvent.change(screen.getByLabelText('Title'), { target: { value: 'Maintenance tonight' } })
+  fireEvent.change(screen.getByLabelText('Message'), { target: { value: 'We will be offline from 2am.' } })
+}
+
+describe('BulkNotificationForm', () => {
+  it('should send a system notification to each listed user', async () => {
+    mockApiHelpers.post.mockResolvedValue([{ id: 'n1' }])
+    renderForm()
+
+    fillIn(`${ada}\n${grace}, ${ada}`)
+    await userEvent.click(screen.getByRole('button', { name: 'Send' }))
+
+    expect(await screen.findByRole('status')).toHaveTextContent('Sent to 1 of 2 users.')
+    expect(mockApiHelpers.post).toHaveBeenCalledWith('/notifications/bulk', {
+      userIds: [ada, grace],
+      type: 6,
+      title: 'Maintenance tonight',
+      message: 'We will be offline from 2am.',
+      actionUrl: undefined,
+    })
+  })
+
+  it('should only accept user IDs', async () => {
+    renderForm()
+
+    fillIn(`${ada} ada`)
+    await userEvent.click(screen.getByRole('button', { name: 'Send' }))
+
+    expect(await screen.findByText('Some of these are not user IDs')).toBeInTheDocument()
+    expect(mockApiHelpers.post).not.toHaveBeenCalled()
+  })
+
+  it('should show why sending failed', async () => {
+    mockApiHelpers.post.mockRejectedValue(new Error('Network Error'))
+    renderForm()
+
+    fillIn(ada)
+    await userEvent.click(screen.getByRole('button', { name: 'Send' }))
+
+    await waitFor(() =>
+      expect(screen.getByText('Could not send the notification. Please try again.')).toBeInTheDocument()
+    )
+    expect(screen.queryByRole('status')).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,61 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { useAuthStore } from '@/store/authStore';
+import { Loading } from '@/components/ui/Loading';
+import { usePermissions } from '@/hooks/usePermissions';
+import { RETURN_TO_PARAM, buildLoginUrl, getRouteAccess, getSafeReturnTo } from '@/lib/routes';
+import { getRequiredPermission } from '@/lib/permissions';
+
+interface AuthGuardProps {
+  children: React.ReactNode;
+}
+
+// Client-side counterpart to middleware.ts: restores the session on startup and
+// redirects when auth state changes while a page is open (sign-in, sign-out, expiry)
+export const AuthGuard: React.FC<AuthGuardProps> = ({ children }) => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { isAuthenticated, sessionNotice, checkAuth } = useAuthStore();
+  const [hasCheckedAuth, setHasCheckedAuth] = useState(false);
+  const { can, isLoaded: hasPermissions } = usePermissions();
+
+  const access = getRouteAccess(pathname);
+  const requiredPermission = getRequiredPermission(pathname);
+
+  useEffect(() => {
+    checkAuth().finally(() => setHasCheckedAuth(true));
+  }, [checkAuth]);
+
+  useEffect(() => {
+    if (!hasCheckedAuth) return;
+
+    if (access === 'protected' && !isAuthenticated) {
+      // Only bring the user back here if they didn't sign out themselves
+      const returnTo = sessionNotice ? `${pathname}${window.location.search}` : undefined;
+      router.replace(buildLoginUrl(returnTo));
+    } else if (access === 'guest' && isAuthenticated) {
+      const returnTo = new URLSearchParams(window.location.search).get(RETURN_TO_PARAM);
+      router.replace(getSafeReturnTo(returnTo));
+    }
+  }, [access, hasCheckedAuth, isAuthenticated, pathname, router, sessionNotice]);
+
+  // The middleware only admits requests with auth cookies; wait for checkAuth to confirm them
+  if (access === 'protected' && !isAuthenticated) {
+    return <Loading />;
+  }
+
+  if (requiredPermission && !can(requiredPermission)) {
+    return hasPermissions ? (
+      <div className="max-w-md mx-auto py-16 text-center">
+        <h1 className="text-xl font-semibold text-gray-900">You don&apos;t have access to this page</h1>
+        <p className="mt-2 text-sm text-gray-600">Ask an administrator if you think you should.</p>
+      </div>
+    ) : (
+      <Loading />
+    );
+  }
+
+  return <>{children}</>;
+};
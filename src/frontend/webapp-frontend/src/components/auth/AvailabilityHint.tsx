@@ -0,0 +1,31 @@
+import React from 'react';
+import { Check, Loader2 } from 'lucide-react';
+import { AvailabilityStatus } from '@/hooks/useAvailabilityCheck';
+
+interface AvailabilityHintProps {
+  status: AvailabilityStatus;
+  availableText: string;
+}
+
+// Progress and success line under a field; "taken" is shown through the field's error instead
+export const AvailabilityHint: React.FC<AvailabilityHintProps> = ({ status, availableText }) => {
+  if (status === 'checking') {
+    return (
+      <p className="flex items-center text-sm text-gray-500">
+        <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+        Checking availability…
+      </p>
+    );
+  }
+
+  if (status === 'available') {
+    return (
+      <p className="flex items-center text-sm text-green-600">
+        <Check className="w-4 h-4 mr-1" />
+        {availableText}
+      </p>
+    );
+  }
+
+  return null;
+};
@@ -0,0 +1,77 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { CheckCircle, Loader2, MailX } from 'lucide-react';
+import { useAuthStore } from '@/store/authStore';
+import { getErrorMessage } from '@/lib/api';
+
+type Status = 'confirming' | 'confirmed' | 'failed';
+
+export const ConfirmEmailStatus: React.FC = () => {
+  const searchParams = useSearchParams();
+  const userId = searchParams.get('userId');
+  const token = searchParams.get('token');
+  const { confirmEmail, isAuthenticated } = useAuthStore();
+
+  const [status, setStatus] = useState<Status>(userId && token ? 'confirming' : 'failed');
+  const [error, setError] = useState<string | undefined>();
+  // Confirmation tokens are single-use, so don't send the request twice in development
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (!userId || !token || requested.current) return;
+    requested.current = true;
+
+    confirmEmail({ userId, token })
+      .then(() => setStatus('confirmed'))
+      .catch((error) => {
+        setError(getErrorMessage(error, 'This confirmation link is invalid or has expired.'));
+        setStatus('failed');
+      });
+  }, [confirmEmail, userId, token]);
+
+  const continueLink = (
+    <Link
+      href={isAuthenticated ? '/' : '/auth/login'}
+      className="inline-block text-sm text-blue-600 hover:text-blue-500 font-medium"
+    >
+      {isAuthenticated ? 'Continue to WebApp' : 'Go to sign in'}
+    </Link>
+  );
+
+  if (status === 'confirming') {
+    return (
+      <div className="bg-white rounded-lg shadow-sm p-6 text-center space-y-3">
+        <Loader2 className="mx-auto w-10 h-10 text-blue-600 animate-spin" />
+        <p className="text-sm text-gray-600">Confirming your email address…</p>
+      </div>
+    );
+  }
+
+  if (status === 'confirmed') {
+    return (
+      <div className="bg-white rounded-lg shadow-sm p-6 text-center space-y-3">
+        <CheckCircle className="mx-auto w-10 h-10 text-green-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Email confirmed</h3>
+        <p className="text-sm text-gray-600">Thanks! Your email address is confirmed.</p>
+        {continueLink}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6 text-center space-y-3">
+      <MailX className="mx-auto w-10 h-10 text-red-600" />
+      <h3 className="text-lg font-semibold text-gray-900">We couldn&apos;t confirm your email</h3>
+      <p className="text-sm text-gray-600">
+        {error ?? 'This confirmation link is incomplete.'}{' '}
+        {isAuthenticated
+          ? 'You can request a new link from the banner at the top of the app.'
+          : 'Sign in to send a new link.'}
+      </p>
+      {continueLink}
+    </div>
+  );
+};
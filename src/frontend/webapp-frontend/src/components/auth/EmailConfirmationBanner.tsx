@@ -0,0 +1,56 @@
+'use client';
+
+import React, { useState } from 'react';
+import { MailWarning } from 'lucide-react';
+import {
+  RESEND_CONFIRMATION_COOLDOWN_MS,
+  needsEmailConfirmation,
+  useAuthStore,
+} from '@/store/authStore';
+import { getErrorMessage } from '@/lib/api';
+import { useCountdown } from '@/hooks/useCountdown';
+
+export const EmailConfirmationBanner: React.FC = () => {
+  const { user, confirmationEmailSentAt, resendConfirmationEmail } = useAuthStore();
+  // Seconds before another confirmation email may be requested
+  const cooldown = useCountdown(
+    confirmationEmailSentAt && confirmationEmailSentAt + RESEND_CONFIRMATION_COOLDOWN_MS
+  );
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | undefined>();
+
+  if (!user || !needsEmailConfirmation(user)) return null;
+
+  const handleResend = async () => {
+    setIsSending(true);
+    setError(undefined);
+    try {
+      await resendConfirmationEmail();
+    } catch (error) {
+      setError(getErrorMessage(error, 'Could not send the email. Please try again.'));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-yellow-50 border-t border-yellow-200" role="status">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-yellow-800">
+        <MailWarning className="w-4 h-4 flex-shrink-0" />
+        <span>
+          Confirm your email address to unlock everything. We sent a link to{' '}
+          <span className="font-medium">{user.email}</span>.
+        </span>
+        <button
+          type="button"
+          className="font-medium underline hover:text-yellow-900 disabled:no-underline disabled:opacity-60"
+          onClick={handleResend}
+          disabled={isSending || cooldown > 0}
+        >
+          {cooldown > 0 ? `Resend email in ${cooldown}s` : isSending ? 'Sending…' : 'Resend email'}
+        </button>
+        {error && <span className="text-red-700">{error}</span>}
+      </div>
+    </div>
+  );
+};
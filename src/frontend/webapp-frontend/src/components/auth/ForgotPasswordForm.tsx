@@ -0,0 +1,95 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { MailCheck } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { getErrorMessage, isCancelledError } from '@/lib/api';
+import { authApi } from '@/lib/generated/auth';
+import { useUnmountSignal } from '@/hooks/useUnmountSignal';
+import { ForgotPasswordFormData, ForgotPasswordRequest } from '@/types';
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Please enter a valid email address'),
+});
+
+export const ForgotPasswordForm: React.FC = () => {
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | undefined>();
+  const getSignal = useUnmountSignal();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+  });
+
+  const onSubmit = async ({ email }: ForgotPasswordFormData) => {
+    setError(undefined);
+    try {
+      const request: ForgotPasswordRequest = { email };
+      await authApi.postForgotPassword(request, { signal: getSignal() });
+      setSentTo(email);
+    } catch (error) {
+      if (isCancelledError(error)) return;
+      setError(getErrorMessage(error, 'Could not send the reset email. Please try again.'));
+    }
+  };
+
+  // The API answers the same way whether or not the account exists
+  if (sentTo) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm p-6 text-center space-y-3">
+        <MailCheck className="mx-auto w-10 h-10 text-green-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Check your email</h3>
+        <p className="text-sm text-gray-600">
+          If an account exists for <span className="font-medium text-gray-900">{sentTo}</span>,
+          we&apos;ve sent a link to reset your password. The link expires after a short time.
+        </p>
+        <button
+          type="button"
+          className="text-sm text-blue-600 hover:text-blue-500 font-medium"
+          onClick={() => setSentTo(null)}
+        >
+          Use a different email
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="text-sm text-red-800">{error}</div>
+        </div>
+      )}
+
+      <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+        <Input
+          {...register('email')}
+          type="email"
+          label="Email address"
+          placeholder="Enter your email"
+          error={errors.email?.message}
+          required
+        />
+
+        <Button
+          type="submit"
+          size="lg"
+          className="w-full"
+          loading={isSubmitting}
+          disabled={isSubmitting}
+        >
+          Send reset link
+        </Button>
+      </form>
+    </>
+  );
+};
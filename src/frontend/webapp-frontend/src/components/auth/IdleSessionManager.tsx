@@ -0,0 +1,38 @@
+'use client';
+
+import React from 'react';
+import { useAuthStore } from '@/store/authStore';
+import { useIdleTimeout } from '@/hooks/useIdleTimeout';
+import { Button } from '@/components/ui/Button';
+import { Modal } from '@/components/ui/Modal';
+import { LockScreen } from '@/components/auth/LockScreen';
+
+// Idle warning and lock screen for the signed-in user
+export const IdleSessionManager: React.FC = () => {
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const isLocked = useAuthStore((state) => state.isLocked);
+  const logout = useAuthStore((state) => state.logout);
+  const { isWarning, secondsRemaining, action, stayActive } = useIdleTimeout();
+
+  if (isAuthenticated && isLocked) {
+    return <LockScreen />;
+  }
+
+  return (
+    <Modal open={isWarning} title="Are you still there?" onClose={stayActive}>
+      <p className="text-sm text-gray-600">
+        {action === 'logout' ? "You'll be signed out" : 'Your session will be locked'} in{' '}
+        <span className="font-medium text-gray-900" aria-live="polite">
+          {secondsRemaining} {secondsRemaining === 1 ? 'second' : 'seconds'}
+        </span>{' '}
+        because of inactivity.
+      </p>
+      <div className="mt-6 flex justify-end space-x-3">
+        <Button variant="ghost" onClick={() => logout()}>
+          Sign out
+        </Button>
+        <Button onClick={stayActive}>Stay signed in</Button>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,103 @@
+'use client';
+
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Lock } from 'lucide-react';
+import { useAuthStore } from '@/store/authStore';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { TwoFactorChallenge } from '@/components/auth/TwoFactorChallenge';
+import { UnlockFormData } from '@/types';
+
+const unlockSchema = z.object({
+  password: z.string().min(1, 'Enter your password'),
+});
+
+// Covers the app while the session is locked for inactivity
+export const LockScreen: React.FC = () => {
+  const { user, unlock, logout, isLoading, error, twoFactorChallenge } = useAuthStore();
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<UnlockFormData>({
+    resolver: zodResolver(unlockSchema),
+  });
+
+  const onSubmit = async ({ password }: UnlockFormData) => {
+    try {
+      await unlock(password);
+    } catch {
+      // Error is handled by the store
+      reset({ password: '' });
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-gray-50 px-4"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Session locked"
+    >
+      <div className="max-w-md w-full bg-white rounded-lg shadow-sm p-6">
+        {twoFactorChallenge ? (
+          <TwoFactorChallenge />
+        ) : (
+          <div className="space-y-6">
+            <div className="text-center">
+              <Lock className="mx-auto w-10 h-10 text-blue-600 mb-2" />
+              <h3 className="text-lg font-semibold text-gray-900">Session locked</h3>
+              <p className="mt-1 text-sm text-gray-600">
+                You were away for a while. Enter the password for{' '}
+                <span className="font-medium text-gray-900">{user?.email}</span> to continue.
+              </p>
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                <div className="text-sm text-red-800">{error}</div>
+              </div>
+            )}
+
+            <form className="space-y-4" onSubmit={handleSubmit(onSubmit)}>
+              <Input
+                {...register('password')}
+                type="password"
+                label="Password"
+                placeholder="Enter your password"
+                autoComplete="current-password"
+                autoFocus
+                error={errors.password?.message}
+                required
+              />
+              <Button
+                type="submit"
+                size="lg"
+                className="w-full"
+                loading={isLoading}
+                disabled={isLoading}
+              >
+                Unlock
+              </Button>
+            </form>
+
+            <div className="text-center text-sm">
+              <button
+                type="button"
+                className="text-gray-600 hover:text-gray-900"
+                onClick={() => logout()}
+              >
+                Not you? Sign out
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React, { useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import {
+  MIN_PASSWORD_SCORE,
+  PASSWORD_SCORE_LABELS,
+  PasswordScore,
+  estimatePasswordStrength,
+} from '@/lib/passwordStrength';
+
+interface PasswordStrengthMeterProps {
+  password?: string;
+  // The user's own details (username, email, name), which make a password easier to guess
+  userInputs?: (string | undefined)[];
+  minScore?: PasswordScore;
+}
+
+const SCORE_STYLES = [
+  { bar: 'bg-red-500', text: 'text-red-600' },
+  { bar: 'bg-orange-500', text: 'text-orange-600' },
+  { bar: 'bg-yellow-500', text: 'text-yellow-600' },
+  { bar: 'bg-blue-500', text: 'text-blue-600' },
+  { bar: 'bg-green-500', text: 'text-green-600' },
+];
+
+export const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({
+  password = '',
+  userInputs = [],
+  minScore = MIN_PASSWORD_SCORE,
+}) => {
+  const inputsKey = userInputs.join('\n');
+  const strength = useMemo(
+    () => estimatePasswordStrength(password, inputsKey.split('\n').filter(Boolean)),
+    [password, inputsKey]
+  );
+
+  if (!password) return null;
+
+  const styles = SCORE_STYLES[strength.score];
+
+  return (
+    <div className="space-y-2" data-testid="password-strength">
+      <div className="flex justify-between text-sm">
+        <span className="text-gray-600">Password strength</span>
+        <span className={cn('font-medium', styles.text)}>{strength.label}</span>
+      </div>
+      <div
+        className="grid grid-cols-5 gap-1"
+        role="meter"
+        aria-label="Password strength"
+        aria-valuemin={0}
+        aria-valuemax={4}
+        aria-valuenow={strength.score}
+        aria-valuetext={strength.label}
+      >
+        {SCORE_STYLES.map((_, index) => (
+          <div
+            key={index}
+            className={cn(
+              'h-2 rounded-full transition-colors duration-300',
+              index <= strength.score ? styles.bar : 'bg-gray-200'
+            )}
+          />
+        ))}
+      </div>
+      {strength.score < minScore && (
+        <p className="text-sm text-gray-600">
+          Needs to be at least &ldquo;{PASSWORD_SCORE_LABELS[minScore]}&rdquo;.
+        </p>
+      )}
+      {(strength.warning || strength.suggestions.length > 0) && (
+        <div className="text-sm">
+          {strength.warning && <p className="font-medium text-gray-800">{strength.warning}</p>}
+          <ul className="list-disc pl-5 text-gray-600">
+            {strength.suggestions.map((suggestion) => (
+              <li key={suggestion}>{suggestion}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
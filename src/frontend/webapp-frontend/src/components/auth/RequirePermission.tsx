@@ -0,0 +1,24 @@
+'use client';
+
+import React from 'react';
+import { usePermissions } from '@/hooks/usePermissions';
+import { Permission } from '@/types';
+
+interface RequirePermissionProps {
+  permission: Permission;
+  children: React.ReactNode;
+  // Shown instead of the children when the user lacks the permission
+  fallback?: React.ReactNode;
+}
+
+// Renders its children only for users whose roles grant the permission.
+// This only hides UI; the services still authorize every request.
+export const RequirePermission: React.FC<RequirePermissionProps> = ({
+  permission,
+  children,
+  fallback = null,
+}) => {
+  const { can } = usePermissions();
+
+  return <>{can(permission) ? children : fallback}</>;
+};
@@ -0,0 +1,172 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { CheckCircle, Eye, EyeOff, LinkIcon } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { getAuthErrorResponse, getErrorMessage, isCancelledError, toApiError } from '@/lib/api';
+import { authApi } from '@/lib/generated/auth';
+import { useUnmountSignal } from '@/hooks/useUnmountSignal';
+import { passwordSchema, passwordStrengthRefinement, setServerFieldErrors } from '@/lib/validation';
+import { PasswordStrengthMeter } from '@/components/auth/PasswordStrengthMeter';
+import { ResetPasswordFormData, ResetPasswordRequest } from '@/types';
+
+// The email comes from the reset link, so the schema is built per form
+const buildResetPasswordSchema = (email?: string) => z.object({
+  password: passwordSchema,
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+}).superRefine(passwordStrengthRefinement(() => [email]));
+
+// The auth service answers invalid, expired and already-used tokens with the same 400
+const isInvalidTokenError = (error: unknown) =>
+  toApiError(error).status === 400 && getAuthErrorResponse(error)?.error === 'invalid_request';
+
+type Status = 'form' | 'invalid-link' | 'success';
+
+export const ResetPasswordForm: React.FC = () => {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  // The email is not URL-encoded in the link, so a "+" arrives as a space
+  const email = searchParams.get('email')?.replace(/ /g, '+');
+
+  const [status, setStatus] = useState<Status>(token && email ? 'form' : 'invalid-link');
+  const [error, setError] = useState<string | undefined>();
+  const [showPassword, setShowPassword] = useState(false);
+  const getSignal = useUnmountSignal();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+    watch,
+    setError: setFieldError,
+  } = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(buildResetPasswordSchema(email)),
+  });
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    if (!token || !email) return;
+
+    setError(undefined);
+    try {
+      const request: ResetPasswordRequest = {
+        token,
+        email,
+        newPassword: data.password,
+        confirmPassword: data.confirmPassword,
+      };
+      await authApi.postResetPassword(request, { signal: getSignal() });
+      setStatus('success');
+    } catch (error) {
+      if (isCancelledError(error)) return;
+      if (isInvalidTokenError(error)) {
+        setStatus('invalid-link');
+      } else if (
+        !setServerFieldErrors(error, setFieldError, ['password', 'confirmPassword'], { newPassword: 'password' })
+      ) {
+        setError(getErrorMessage(error, 'Could not reset your password. Please try again.'));
+      }
+    }
+  };
+
+  if (status === 'invalid-link') {
+    return (
+      <div className="bg-white rounded-lg shadow-sm p-6 text-center space-y-3">
+        <LinkIcon className="mx-auto w-10 h-10 text-red-600" />
+        <h3 className="text-lg font-semibold text-gray-900">This reset link can&apos;t be used</h3>
+        <p className="text-sm text-gray-600">
+          It may have expired or already been used. Request a new link to reset your password.
+        </p>
+        <Link
+          href="/auth/forgot-password"
+          className="inline-block text-sm text-blue-600 hover:text-blue-500 font-medium"
+        >
+          Request a new link
+        </Link>
+      </div>
+    );
+  }
+
+  if (status === 'success') {
+    return (
+      <div className="bg-white rounded-lg shadow-sm p-6 text-center space-y-3">
+        <CheckCircle className="mx-auto w-10 h-10 text-green-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Password updated</h3>
+        <p className="text-sm text-gray-600">
+          You&apos;ve been signed out on all devices. Sign in with your new password.
+        </p>
+        <Link
+          href="/auth/login"
+          className="inline-block text-sm text-blue-600 hover:text-blue-500 font-medium"
+        >
+          Go to sign in
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="text-sm text-red-800">{error}</div>
+        </div>
+      )}
+
+      <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Choose a new password for <span className="font-medium text-gray-900">{email}</span>.
+          </p>
+
+          <div className="relative">
+            <Input
+              {...register('password')}
+              type={showPassword ? 'text' : 'password'}
+              label="New password"
+              placeholder="Create a password"
+              error={errors.password?.message}
+              required
+            />
+            <button
+              type="button"
+              className="absolute right-3 top-8 text-gray-500 hover:text-gray-700"
+              onClick={() => setShowPassword(!showPassword)}
+            >
+              {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+            </button>
+          </div>
+
+          <PasswordStrengthMeter password={watch('password')} userInputs={[email]} />
+
+          <Input
+            {...register('confirmPassword')}
+            type={showPassword ? 'text' : 'password'}
+            label="Confirm new password"
+            placeholder="Confirm your password"
+            error={errors.confirmPassword?.message}
+            required
+          />
+        </div>
+
+        <Button
+          type="submit"
+          size="lg"
+          className="w-full"
+          loading={isSubmitting}
+          disabled={isSubmitting}
+        >
+          Reset password
+        </Button>
+      </form>
+    </>
+  );
+};
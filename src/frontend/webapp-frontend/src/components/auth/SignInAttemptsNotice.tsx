@@ -0,0 +1,36 @@
+'use client';
+
+import React from 'react';
+import { ACCOUNT_LOCKED_MESSAGE } from '@/store/authStore';
+import { formatCountdown } from '@/lib/utils';
+
+interface SignInAttemptsNoticeProps {
+  // Seconds until a lockout ends, 0 when not locked out
+  lockoutSeconds: number;
+  attemptsRemaining?: number;
+}
+
+// Lockout countdown after too many failed sign-in attempts, or a warning while only a few are left
+export const SignInAttemptsNotice: React.FC<SignInAttemptsNoticeProps> = ({ lockoutSeconds, attemptsRemaining }) => {
+  if (lockoutSeconds > 0) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-md p-4" role="alert">
+        <div className="text-sm text-red-800">
+          {ACCOUNT_LOCKED_MESSAGE} Try again in{' '}
+          <span className="font-medium tabular-nums">{formatCountdown(lockoutSeconds)}</span>.
+        </div>
+      </div>
+    );
+  }
+
+  if (attemptsRemaining === undefined || attemptsRemaining <= 0) return null;
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+      <div className="text-sm text-yellow-800">
+        {attemptsRemaining} {attemptsRemaining === 1 ? 'attempt' : 'attempts'} remaining
+        before your account is temporarily locked.
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { ShieldCheck } from 'lucide-react';
+import { useAuthStore } from '@/store/authStore';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { SignInAttemptsNotice } from '@/components/auth/SignInAttemptsNotice';
+import { useCountdown } from '@/hooks/useCountdown';
+import { TwoFactorFormData } from '@/types';
+
+const codeSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .regex(/^\d{6}$/, 'Enter the 6-digit code from your authenticator app'),
+});
+
+const recoveryCodeSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z0-9-]{8,20}$/, 'Enter one of your recovery codes'),
+});
+
+interface TwoFactorChallengeProps {
+  onVerified?: () => void;
+}
+
+export const TwoFactorChallenge: React.FC<TwoFactorChallengeProps> = ({ onVerified }) => {
+  const { verifyTwoFactor, cancelTwoFactor, isLoading, error, loginAttemptsRemaining, loginLockedUntil } =
+    useAuthStore();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const lockoutSeconds = useCountdown(loginLockedUntil);
+  const isLockedOut = lockoutSeconds > 0;
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<TwoFactorFormData>({
+    resolver: zodResolver(useRecoveryCode ? recoveryCodeSchema : codeSchema),
+  });
+
+  const toggleMode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    reset({ code: '' });
+  };
+
+  const onSubmit = async ({ code }: TwoFactorFormData) => {
+    try {
+      await verifyTwoFactor(useRecoveryCode ? { recoveryCode: code.trim() } : { code: code.trim() });
+      onVerified?.();
+    } catch {
+      // The store shows the error; lib/api reports failures worth investigating
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <ShieldCheck className="mx-auto w-10 h-10 text-blue-600 mb-2" />
+        <h3 className="text-lg font-semibold text-gray-900">Two-factor authentication</h3>
+        <p className="mt-1 text-sm text-gray-600">
+          {useRecoveryCode
+            ? 'Enter one of the recovery codes you saved when you set up two-factor authentication.'
+            : 'Open your authenticator app and enter the 6-digit code for this account.'}
+        </p>
+      </div>
+
+      {/* A lockout shows its own alert and is gone once it ends */}
+      {error && !loginLockedUntil && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="text-sm text-red-800">{error}</div>
+        </div>
+      )}
+
+      <SignInAttemptsNotice lockoutSeconds={lockoutSeconds} attemptsRemaining={loginAttemptsRemaining} />
+
+      <form className="space-y-4" onSubmit={handleSubmit(onSubmit)}>
+        <Input
+          {...register('code')}
+          key={useRecoveryCode ? 'recovery' : 'totp'}
+          type="text"
+          label={useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+          placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+          inputMode={useRecoveryCode ? 'text' : 'numeric'}
+          autoComplete="one-time-code"
+          maxLength={useRecoveryCode ? 20 : 6}
+          autoFocus
+          error={errors.code?.message}
+          required
+        />
+
+        <Button
+          type="submit"
+          size="lg"
+          className="w-full"
+          loading={isLoading}
+          disabled={isLoading || isLockedOut}
+        >
+          Verify
+        </Button>
+      </form>
+
+      <div className="flex items-center justify-between text-sm">
+        <button
+          type="button"
+          className="text-blue-600 hover:text-blue-500 font-medium"
+          onClick={toggleMode}
+        >
+          {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+        </button>
+        <button
+          type="button"
+          className="text-gray-600 hover:text-gray-900"
+          onClick={cancelTwoFactor}
+        >
+          Back to sign in
+        </button>
+      </div>
+    </div>
+  );
+};
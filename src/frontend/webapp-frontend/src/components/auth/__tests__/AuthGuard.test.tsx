@@ -0,0 +1,109 @@
+import React from 'react'
+import { render, screen, waitFor } from '@testing-library/react'
+import { AuthGuard } from '../AuthGuard'
+import { useAuthStore } from '@/store/authStore'
+
+const mockReplace = jest.fn()
+let mockPathname = '/'
+
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({ replace: mockReplace }),
+  usePathname: () => mockPathname,
+}))
+
+jest.mock('@/store/authStore', () => ({
+  useAuthStore: jest.fn(),
+}))
+
+let mockPermissions: string[] = []
+
+jest.mock('@/hooks/usePermissions', () => ({
+  usePermissions: () => ({
+    can: (permission: string) => mockPermissions.includes(permission),
+    isLoaded: true,
+  }),
+}))
+
+const mockUseAuthStore = useAuthStore as unknown as jest.Mock
+
+describe('AuthGuard', () => {
+  const checkAuth = jest.fn()
+
+  const setup = (state: { isAuthenticated: boolean; sessionNotice?: string }, search = '') => {
+    window.history.replaceState({}, '', `${mockPathname}${search}`)
+    mockUseAuthStore.mockReturnValue({ checkAuth, ...state })
+    return render(
+      <AuthGuard>
+        <div>Page content</div>
+      </AuthGuard>
+    )
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    checkAuth.mockResolvedValue(undefined)
+    mockPathname = '/'
+    mockPermissions = []
+  })
+
+  it('should keep users without the required permission out of admin pages', async () => {
+    mockPathname = '/admin'
+    setup({ isAuthenticated: true })
+
+    expect(screen.queryByText('Page content')).not.toBeInTheDocument()
+    expect(screen.getByText("You don't have access to this page")).toBeInTheDocument()
+    await waitFor(() => expect(checkAuth).toHaveBeenCalled())
+  })
+
+  it('should render admin pages for users with the permission', async () => {
+    mockPathname = '/admin'
+    mockPermissions = ['admin:access']
+    setup({ isAuthenticated: true })
+
+    expect(screen.getByText('Page content')).toBeInTheDocument()
+    await waitFor(() => expect(checkAuth).toHaveBeenCalled())
+  })
+
+  it('should render protected pages for signed-in users', async () => {
+    setup({ isAuthenticated: true })
+
+    expect(screen.getByText('Page content')).toBeInTheDocument()
+    await waitFor(() => expect(checkAuth).toHaveBeenCalled())
+    expect(mockReplace).not.toHaveBeenCalled()
+  })
+
+  it('should send users to login when they sign out on a protected page', async () => {
+    mockPathname = '/settings/security'
+    setup({ isAuthenticated: false })
+
+    expect(screen.queryByText('Page content')).not.toBeInTheDocument()
+    await waitFor(() => expect(mockReplace).toHaveBeenCalledWith('/auth/login'))
+  })
+
+  it('should bring users back after an involuntary sign-out', async () => {
+    mockPathname = '/settings/security'
+    setup({ isAuthenticated: false, sessionNotice: 'Your session has expired.' }, '?tab=sessions')
+
+    await waitFor(() =>
+      expect(mockReplace).toHaveBeenCalledWith(
+        '/auth/login?returnTo=%2Fsettings%2Fsecurity%3Ftab%3Dsessions'
+      )
+    )
+  })
+
+  it('should forward signed-in users from guest routes to their returnTo', async () => {
+    mockPathname = '/auth/login'
+    setup({ isAuthenticated: true }, '?returnTo=%2Fsettings%2Fsecurity')
+
+    await waitFor(() => expect(mockReplace).toHaveBeenCalledWith('/settings/security'))
+  })
+
+  it('should render guest and public routes for signed-out users', async () => {
+    mockPathname = '/auth/login'
+    setup({ isAuthenticated: false })
+
+    expect(screen.getByText('Page content')).toBeInTheDocument()
+    await waitFor(() => expect(checkAuth).toHaveBeenCalled())
+    expect(mockReplace).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,57 @@
+import React from 'react'
+import { render, screen } from '@testing-library/react'
+import { ConfirmEmailStatus } from '../ConfirmEmailStatus'
+import { useAuthStore } from '@/store/authStore'
+
+let mockSearchParams = new URLSearchParams()
+
+jest.mock('next/navigation', () => ({
+  useSearchParams: () => mockSearchParams,
+}))
+
+jest.mock('@/store/authStore', () => ({
+  useAuthStore: jest.fn(),
+}))
+
+const mockUseAuthStore = useAuthStore as unknown as jest.Mock
+
+describe('ConfirmEmailStatus', () => {
+  const confirmEmail = jest.fn()
+
+  const setup = (isAuthenticated = false) => {
+    mockUseAuthStore.mockReturnValue({ confirmEmail, isAuthenticated })
+    render(<ConfirmEmailStatus />)
+  }
+
+  beforeEach(() => {
+    mockSearchParams = new URLSearchParams('userId=user-1&token=confirm-token')
+  })
+
+  it('should confirm the email with the token from the link', async () => {
+    confirmEmail.mockResolvedValue(undefined)
+    setup(true)
+
+    expect(await screen.findByText('Email confirmed')).toBeInTheDocument()
+    expect(confirmEmail).toHaveBeenCalledTimes(1)
+    expect(confirmEmail).toHaveBeenCalledWith({ userId: 'user-1', token: 'confirm-token' })
+    expect(screen.getByRole('link', { name: 'Continue to WebApp' })).toHaveAttribute('href', '/')
+  })
+
+  it('should explain when the link is invalid', async () => {
+    confirmEmail.mockRejectedValue({
+      response: { status: 400, data: { errorDescription: 'Invalid confirmation token' } },
+    })
+    setup()
+
+    expect(await screen.findByText(/couldn.t confirm your email/i)).toBeInTheDocument()
+    expect(screen.getByRole('link', { name: 'Go to sign in' })).toHaveAttribute('href', '/auth/login')
+  })
+
+  it('should not call the API when the link is incomplete', () => {
+    mockSearchParams = new URLSearchParams('userId=user-1')
+    setup()
+
+    expect(screen.getByText(/this confirmation link is incomplete/i)).toBeInTheDocument()
+    expect(confirmEmail).not.toHaveBeenCalled()
+  })
+})
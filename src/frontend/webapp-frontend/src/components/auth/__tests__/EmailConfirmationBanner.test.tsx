@@ -0,0 +1,72 @@
+import React from 'react'
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react'
+import { EmailConfirmationBanner } from '../EmailConfirmationBanner'
+import { useAuthStore } from '@/store/authStore'
+
+jest.mock('@/store/authStore', () => ({
+  useAuthStore: jest.fn(),
+  needsEmailConfirmation: (user: { isEmailConfirmed?: boolean } | null) =>
+    user?.isEmailConfirmed === false,
+  RESEND_CONFIRMATION_COOLDOWN_MS: 60 * 1000,
+}))
+
+const mockUseAuthStore = useAuthStore as unknown as jest.Mock
+
+describe('EmailConfirmationBanner', () => {
+  const resendConfirmationEmail = jest.fn()
+  const user = { id: 'user-1', email: 'test@example.com', isEmailConfirmed: false }
+
+  const setup = (state: Record<string, unknown> = {}) => {
+    mockUseAuthStore.mockReturnValue({
+      user,
+      confirmationEmailSentAt: undefined,
+      resendConfirmationEmail,
+      ...state,
+    })
+    return render(<EmailConfirmationBanner />)
+  }
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should not render for confirmed accounts', () => {
+    const { container } = setup({ user: { ...user, isEmailConfirmed: true } })
+
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('should resend the confirmation email', async () => {
+    resendConfirmationEmail.mockResolvedValue(undefined)
+    setup()
+
+    expect(screen.getByText('test@example.com')).toBeInTheDocument()
+    fireEvent.click(screen.getByRole('button', { name: 'Resend email' }))
+
+    await waitFor(() => expect(resendConfirmationEmail).toHaveBeenCalled())
+  })
+
+  it('should count down before allowing another resend', () => {
+    jest.useFakeTimers()
+    setup({ confirmationEmailSentAt: Date.now() - 58 * 1000 })
+
+    expect(screen.getByRole('button', { name: 'Resend email in 2s' })).toBeDisabled()
+
+    act(() => {
+      jest.advanceTimersByTime(2000)
+    })
+
+    expect(screen.getByRole('button', { name: 'Resend email' })).toBeEnabled()
+  })
+
+  it('should show an error when resending fails', async () => {
+    resendConfirmationEmail.mockRejectedValue(new Error('Network error'))
+    setup()
+
+    fireEvent.click(screen.getByRole('button', { name: 'Resend email' }))
+
+    expect(
+      await screen.findByText('Could not send the email. Please try again.')
+    ).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,78 @@
+import React from 'react'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { ForgotPasswordForm } from '../ForgotPasswordForm'
+import { apiHelpers } from '@/lib/api'
+
+jest.mock('@/lib/api', () => ({
+  apiHelpers: {
+    post: jest.fn(),
+  },
+  endpoints: {
+    auth: {
+      forgotPassword: '/auth/forgot-password',
+    },
+  },
+  getErrorMessage: (error: { response?: { data?: { message?: string } } }, fallback: string) =>
+    error?.response?.data?.message || fallback,
+  isCancelledError: jest.requireActual('@/lib/api').isCancelledError,
+}))
+
+const mockApiHelpers = apiHelpers as jest.Mocked<typeof apiHelpers>
+
+describe('ForgotPasswordForm', () => {
+  const submitEmail = (email: string) => {
+    fireEvent.change(screen.getByPlaceholderText('Enter your email'), { target: { value: email } })
+    fireEvent.click(screen.getByRole('button', { name: /send reset link/i }))
+  }
+
+  it('should request a reset link and confirm without revealing whether the account exists', async () => {
+    mockApiHelpers.post.mockResolvedValue(undefined)
+    render(<ForgotPasswordForm />)
+
+    submitEmail('test@example.com')
+
+    expect(await screen.findByText('Check your email')).toBeInTheDocument()
+    expect(screen.getByText('test@example.com')).toBeInTheDocument()
+    expect(mockApiHelpers.post).toHaveBeenCalledWith(
+      '/auth/forgot-password',
+      { email: 'test@example.com' },
+      { signal: expect.any(AbortSignal) }
+    )
+  })
+
+  it('should cancel the request when the form unmounts', async () => {
+    mockApiHelpers.post.mockReturnValue(new Promise(() => {}))
+    const { unmount } = render(<ForgotPasswordForm />)
+
+    submitEmail('test@example.com')
+    await waitFor(() => expect(mockApiHelpers.post).toHaveBeenCalled())
+    const [, , config] = mockApiHelpers.post.mock.calls[0]
+    unmount()
+
+    expect(config?.signal?.aborted).toBe(true)
+  })
+
+  it('should validate the email before calling the API', async () => {
+    render(<ForgotPasswordForm />)
+
+    fireEvent.change(screen.getByPlaceholderText('Enter your email'), {
+      target: { value: 'not-an-email' },
+    })
+    // Submit the form directly so the browser's own type="email" check doesn't block it
+    fireEvent.submit(screen.getByRole('button', { name: /send reset link/i }).closest('form')!)
+
+    expect(await screen.findByText('Please enter a valid email address')).toBeInTheDocument()
+    expect(mockApiHelpers.post).not.toHaveBeenCalled()
+  })
+
+  it('should show an error when the request fails', async () => {
+    mockApiHelpers.post.mockRejectedValue(new Error('Network error'))
+    render(<ForgotPasswordForm />)
+
+    submitEmail('test@example.com')
+
+    expect(
+      await screen.findByText('Could not send the reset email. Please try again.')
+    ).toBeInTheDocument()
+  })
+})
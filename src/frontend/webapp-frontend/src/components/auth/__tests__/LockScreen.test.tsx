@@ -0,0 +1,65 @@
+import React from 'react'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { LockScreen } from '../LockScreen'
+import { useAuthStore } from '@/store/authStore'
+
+jest.mock('@/store/authStore', () => ({
+  useAuthStore: jest.fn(),
+}))
+
+const mockUseAuthStore = useAuthStore as unknown as jest.Mock
+
+describe('LockScreen', () => {
+  const unlock = jest.fn()
+  const logout = jest.fn()
+
+  const renderLockScreen = (state: Record<string, unknown> = {}) => {
+    mockUseAuthStore.mockReturnValue({
+      user: { email: 'test@example.com' },
+      unlock,
+      logout,
+      isLoading: false,
+      error: undefined,
+      twoFactorChallenge: null,
+      verifyTwoFactor: jest.fn(),
+      cancelTwoFactor: jest.fn(),
+      ...state,
+    })
+    render(<LockScreen />)
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should unlock with the entered password', async () => {
+    unlock.mockResolvedValue(undefined)
+    renderLockScreen()
+
+    expect(screen.getByText('test@example.com')).toBeInTheDocument()
+    fireEvent.change(screen.getByPlaceholderText('Enter your password'), { target: { value: 'secret' } })
+    fireEvent.click(screen.getByRole('button', { name: /unlock/i }))
+
+    await waitFor(() => expect(unlock).toHaveBeenCalledWith('secret'))
+  })
+
+  it('should show why unlocking failed', () => {
+    renderLockScreen({ error: 'Incorrect password' })
+
+    expect(screen.getByText('Incorrect password')).toBeInTheDocument()
+  })
+
+  it('should let someone else sign out instead', () => {
+    renderLockScreen()
+
+    fireEvent.click(screen.getByRole('button', { name: /not you\? sign out/i }))
+
+    expect(logout).toHaveBeenCalledWith()
+  })
+
+  it('should ask for a code when the account uses two-factor authentication', () => {
+    renderLockScreen({ twoFactorChallenge: { twoFactorToken: 'challenge-token', rememberMe: false } })
+
+    expect(screen.getByText('Two-factor authentication')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,37 @@
+import React from 'react'
+import { render, screen } from '@testing-library/react'
+import { PasswordStrengthMeter } from '../PasswordStrengthMeter'
+
+describe('PasswordStrengthMeter', () => {
+  it('should render nothing before a password is typed', () => {
+    const { container } = render(<PasswordStrengthMeter password="" />)
+
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('should show the score with a warning and suggestions for weak passwords', () => {
+    render(<PasswordStrengthMeter password="Password1!" minScore={2} />)
+
+    expect(screen.getByRole('meter', { name: 'Password strength' })).toHaveAttribute('aria-valuenow', '0')
+    expect(screen.getByText('Very weak')).toBeInTheDocument()
+    expect(screen.getByText('This is similar to a commonly used password.')).toBeInTheDocument()
+    expect(screen.getByText('Avoid common words and passwords.')).toBeInTheDocument()
+    expect(screen.getByText(/needs to be at least/i)).toHaveTextContent('Fair')
+  })
+
+  it("should take the user's own details into account", () => {
+    render(<PasswordStrengthMeter password="Janedoe99!" userInputs={['janedoe', undefined]} />)
+
+    expect(
+      screen.getByText('Passwords containing your name, username or email are easy to guess.')
+    ).toBeInTheDocument()
+  })
+
+  it('should not show feedback for strong passwords', () => {
+    render(<PasswordStrengthMeter password="Tq7#mZp2!xLw" minScore={2} />)
+
+    expect(screen.getByText('Strong')).toBeInTheDocument()
+    expect(screen.queryByText(/needs to be at least/i)).not.toBeInTheDocument()
+    expect(screen.queryByRole('listitem')).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,40 @@
+import React from 'react'
+import { render, screen } from '@testing-library/react'
+import { RequirePermission } from '../RequirePermission'
+import { usePermissions } from '@/hooks/usePermissions'
+
+jest.mock('@/hooks/usePermissions', () => ({
+  usePermissions: jest.fn(),
+}))
+
+const mockUsePermissions = usePermissions as jest.Mock
+
+describe('RequirePermission', () => {
+  const setup = (permissions: string[], fallback?: React.ReactNode) => {
+    mockUsePermissions.mockReturnValue({ can: (permission: string) => permissions.includes(permission) })
+    return render(
+      <RequirePermission permission="maintenance:cleanup" fallback={fallback}>
+        <button>Clean up</button>
+      </RequirePermission>
+    )
+  }
+
+  it('should render the children when the permission is granted', () => {
+    setup(['maintenance:cleanup'])
+
+    expect(screen.getByRole('button', { name: 'Clean up' })).toBeInTheDocument()
+  })
+
+  it('should render nothing without the permission', () => {
+    const { container } = setup(['admin:access'])
+
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('should render the fallback without the permission', () => {
+    setup([], <p>Admins only</p>)
+
+    expect(screen.getByText('Admins only')).toBeInTheDocument()
+    expect(screen.queryByRole('button')).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,141 @@
+import React from 'react'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { ResetPasswordForm } from '../ResetPasswordForm'
+import { apiHelpers } from '@/lib/api'
+
+let mockSearchParams = new URLSearchParams()
+
+jest.mock('next/navigation', () => ({
+  useSearchParams: () => mockSearchParams,
+}))
+
+jest.mock('@/lib/api', () => ({
+  apiHelpers: {
+    post: jest.fn(),
+  },
+  endpoints: {
+    auth: {
+      resetPassword: '/auth/reset-password',
+    },
+  },
+  getErrorMessage: (error: { response?: { data?: { message?: string } } }, fallback: string) =>
+    error?.response?.data?.message || fallback,
+  getAuthErrorResponse: jest.requireActual('@/lib/api').getAuthErrorResponse,
+  isCancelledError: jest.requireActual('@/lib/api').isCancelledError,
+  toApiError: jest.requireActual('@/lib/api').toApiError,
+}))
+
+const mockApiHelpers = apiHelpers as jest.Mocked<typeof apiHelpers>
+
+describe('ResetPasswordForm', () => {
+  beforeEach(() => {
+    mockSearchParams = new URLSearchParams('token=reset-token&email=test@example.com')
+  })
+
+  const submitPasswords = (password: string, confirmPassword = password) => {
+    fireEvent.change(screen.getByPlaceholderText('Create a password'), { target: { value: password } })
+    fireEvent.change(screen.getByPlaceholderText('Confirm your password'), {
+      target: { value: confirmPassword },
+    })
+    fireEvent.click(screen.getByRole('button', { name: /reset password/i }))
+  }
+
+  it('should reset the password with the token from the link', async () => {
+    mockApiHelpers.post.mockResolvedValue(undefined)
+    render(<ResetPasswordForm />)
+
+    submitPasswords('NewPassword1!')
+
+    expect(await screen.findByText('Password updated')).toBeInTheDocument()
+    expect(mockApiHelpers.post).toHaveBeenCalledWith('/auth/reset-password', {
+      token: 'reset-token',
+      email: 'test@example.com',
+      newPassword: 'NewPassword1!',
+      confirmPassword: 'NewPassword1!',
+    }, { signal: expect.any(AbortSignal) })
+  })
+
+  it('should restore a plus sign in the email from the link', async () => {
+    mockSearchParams = new URLSearchParams('token=reset-token&email=test+alias@example.com')
+    mockApiHelpers.post.mockResolvedValue(undefined)
+    render(<ResetPasswordForm />)
+
+    submitPasswords('NewPassword1!')
+
+    await waitFor(() =>
+      expect(mockApiHelpers.post).toHaveBeenCalledWith(
+        '/auth/reset-password',
+        expect.objectContaining({ email: 'test+alias@example.com' }),
+        expect.anything()
+      )
+    )
+  })
+
+  it('should apply the registration password rules', async () => {
+    render(<ResetPasswordForm />)
+
+    submitPasswords('password')
+
+    expect(
+      await screen.findByText('Password must contain at least one uppercase letter')
+    ).toBeInTheDocument()
+    expect(mockApiHelpers.post).not.toHaveBeenCalled()
+  })
+
+  it('should reject passwords that are too easy to guess', async () => {
+    render(<ResetPasswordForm />)
+
+    submitPasswords('Password1!')
+
+    expect(
+      await screen.findByText('Password is too easy to guess. Try a longer or less predictable one.')
+    ).toBeInTheDocument()
+    expect(screen.getByText('This is similar to a commonly used password.')).toBeInTheDocument()
+    expect(mockApiHelpers.post).not.toHaveBeenCalled()
+  })
+
+  it('should require matching passwords', async () => {
+    render(<ResetPasswordForm />)
+
+    submitPasswords('NewPassword1!', 'OtherPassword1!')
+
+    expect(await screen.findByText("Passwords don't match")).toBeInTheDocument()
+  })
+
+  it('should explain that a link without a token cannot be used', () => {
+    mockSearchParams = new URLSearchParams('email=test@example.com')
+    render(<ResetPasswordForm />)
+
+    expect(screen.getByText(/this reset link can.t be used/i)).toBeInTheDocument()
+    expect(screen.getByRole('link', { name: /request a new link/i })).toHaveAttribute(
+      'href',
+      '/auth/forgot-password'
+    )
+  })
+
+  it('should explain when the token has expired or was already used', async () => {
+    mockApiHelpers.post.mockRejectedValue({
+      response: {
+        status: 400,
+        data: { error: 'invalid_request', errorDescription: 'Invalid or expired reset token' },
+      },
+    })
+    render(<ResetPasswordForm />)
+
+    submitPasswords('NewPassword1!')
+
+    expect(await screen.findByText(/this reset link can.t be used/i)).toBeInTheDocument()
+  })
+
+  it('should keep the form open for other errors', async () => {
+    mockApiHelpers.post.mockRejectedValue({ response: { status: 500, data: {} } })
+    render(<ResetPasswordForm />)
+
+    submitPasswords('NewPassword1!')
+
+    expect(
+      await screen.findByText('Could not reset your password. Please try again.')
+    ).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /reset password/i })).toBeInTheDocument()
+  })
+})
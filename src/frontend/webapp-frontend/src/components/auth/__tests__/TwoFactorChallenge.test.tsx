@@ -0,0 +1,100 @@
+import React from 'react'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { TwoFactorChallenge } from '../TwoFactorChallenge'
+import { useAuthStore } from '@/store/authStore'
+
+jest.mock('@/store/authStore', () => ({
+  ACCOUNT_LOCKED_MESSAGE: 'Too many failed sign-in attempts. Your account is temporarily locked.',
+  useAuthStore: jest.fn(),
+}))
+
+const mockUseAuthStore = useAuthStore as unknown as jest.Mock
+
+describe('TwoFactorChallenge', () => {
+  const verifyTwoFactor = jest.fn()
+  const cancelTwoFactor = jest.fn()
+  const onVerified = jest.fn()
+
+  const setup = (
+    state: Partial<{ isLoading: boolean; error: string; loginAttemptsRemaining: number; loginLockedUntil: number }> = {}
+  ) => {
+    mockUseAuthStore.mockReturnValue({
+      verifyTwoFactor,
+      cancelTwoFactor,
+      isLoading: false,
+      error: undefined,
+      ...state,
+    })
+    render(<TwoFactorChallenge onVerified={onVerified} />)
+  }
+
+  const submit = () => fireEvent.click(screen.getByRole('button', { name: /verify/i }))
+
+  it('should verify a 6-digit authenticator code', async () => {
+    verifyTwoFactor.mockResolvedValue(undefined)
+    setup()
+
+    fireEvent.change(screen.getByPlaceholderText('123456'), { target: { value: '123456' } })
+    submit()
+
+    await waitFor(() => expect(onVerified).toHaveBeenCalled())
+    expect(verifyTwoFactor).toHaveBeenCalledWith({ code: '123456' })
+  })
+
+  it('should reject codes that are not 6 digits', async () => {
+    setup()
+
+    fireEvent.change(screen.getByPlaceholderText('123456'), { target: { value: '12ab' } })
+    submit()
+
+    expect(
+      await screen.findByText('Enter the 6-digit code from your authenticator app')
+    ).toBeInTheDocument()
+    expect(verifyTwoFactor).not.toHaveBeenCalled()
+  })
+
+  it('should accept a recovery code instead', async () => {
+    verifyTwoFactor.mockResolvedValue(undefined)
+    setup()
+
+    fireEvent.click(screen.getByRole('button', { name: /use a recovery code/i }))
+    fireEvent.change(screen.getByPlaceholderText('xxxxx-xxxxx'), { target: { value: 'a1b2c-3d4e5' } })
+    submit()
+
+    await waitFor(() => expect(onVerified).toHaveBeenCalled())
+    expect(verifyTwoFactor).toHaveBeenCalledWith({ recoveryCode: 'a1b2c-3d4e5' })
+  })
+
+  it('should stay on the challenge when verification fails', async () => {
+    verifyTwoFactor.mockRejectedValue(new Error('Invalid code'))
+    setup({ error: 'Invalid 2FA code' })
+
+    fireEvent.change(screen.getByPlaceholderText('123456'), { target: { value: '000000' } })
+    submit()
+
+    await waitFor(() => expect(verifyTwoFactor).toHaveBeenCalled())
+    expect(onVerified).not.toHaveBeenCalled()
+    expect(screen.getByText('Invalid 2FA code')).toBeInTheDocument()
+  })
+
+  it('should warn how many attempts are left', () => {
+    setup({ error: 'Invalid 2FA code', loginAttemptsRemaining: 2 })
+
+    expect(screen.getByText(/2 attempts remaining/)).toBeInTheDocument()
+  })
+
+  it('should count down a lockout and hold off verifying until it ends', () => {
+    setup({ error: 'Too many failed sign-in attempts.', loginLockedUntil: Date.now() + 90 * 1000 })
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Try again in 1:30')
+    expect(screen.getByRole('button', { name: /verify/i })).toBeDisabled()
+  })
+
+  it('should go back to the credentials step', () => {
+    setup()
+
+    fireEvent.click(screen.getByRole('button', { name: /back to sign in/i }))
+
+    expect(cancelTwoFactor).toHaveBeenCalled()
+  })
+})
@@ -12,10 +12,14 @@ import {
   LogOut, 
   Plus,
   Menu,
+  Shield,
   X
 } from 'lucide-react';
 import { useAuthStore } from '@/store/authStore';
 import { Button } from '@/components/ui/Button';
+import { EmailConfirmationBanner } from '@/components/auth/EmailConfirmationBanner';
+import { RequirePermission } from '@/components/auth/RequirePermission';
+import { PostComposerModal } from '@/components/posts/PostComposer';
 import { cn } from '@/lib/utils';
 
 export const Navigation: React.FC = () => {
@@ -23,6 +27,7 @@ export const Navigation: React.FC = () => {
   const router = useRouter();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
+  const [isComposerOpen, setIsComposerOpen] = useState(false);
 
   const handleLogout = () => {
     logout();
@@ -73,7 +78,7 @@ export const Navigation: React.FC = () => {
             {isAuthenticated ? (
               <>
                 {/* Create Post Button */}
-                <Button size="sm" className="hidden sm:flex">
+                <Button size="sm" className="hidden sm:flex" onClick={() => setIsComposerOpen(true)}>
                   <Plus className="w-4 h-4 mr-1" />
                   Post
                 </Button>
@@ -119,6 +124,16 @@ export const Navigation: React.FC = () => {
                         <Settings className="w-4 h-4 mr-3" />
                         Settings
                       </Link>
+                      <RequirePermission permission="admin:access">
+                        <Link
+                          href="/admin"
+                          className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                          onClick={() => setIsUserMenuOpen(false)}
+                        >
+                          <Shield className="w-4 h-4 mr-3" />
+                          Admin
+                        </Link>
+                      </RequirePermission>
                       <hr className="my-1" />
                       <button
                         onClick={handleLogout}
@@ -195,6 +210,17 @@ export const Navigation: React.FC = () => {
                 <Settings className="w-5 h-5" />
                 <span className="text-sm font-medium">Settings</span>
               </Link>
+
+              <RequirePermission permission="admin:access">
+                <Link
+                  href="/admin"
+                  className="flex items-center space-x-3 text-gray-600 hover:text-gray-900 transition-colors px-2 py-1"
+                  onClick={() => setIsMobileMenuOpen(false)}
+                >
+                  <Shield className="w-5 h-5" />
+                  <span className="text-sm font-medium">Admin</span>
+                </Link>
+              </RequirePermission>
               
               <button
                 onClick={handleLogout}
@@ -207,6 +233,11 @@ export const Navigation: React.FC = () => {
           </div>
         )}
       </div>
+
+      {/* Email confirmation reminder */}
+      {isAuthenticated && <EmailConfirmationBanner />}
+
+      {isAuthenticated && <PostComposerModal open={isComposerOpen} onClose={() => setIsComposerOpen(false)} />}
     </nav>
   );
 };
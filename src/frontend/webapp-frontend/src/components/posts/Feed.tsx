@@ -0,0 +1,82 @@
+'use client';
+
+import React from 'react';
+import { Newspaper } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { PostCard, PostCardSkeleton } from '@/components/posts/PostCard';
+import { useFeed } from '@/hooks/usePosts';
+import { useIntersectionObserver } from '@/hooks/useIntersectionObserver';
+import { getErrorMessage } from '@/lib/api';
+
+const SKELETON_COUNT = 3;
+
+const Skeletons = () => (
+  <>
+    {Array.from({ length: SKELETON_COUNT }, (_, i) => (
+      <PostCardSkeleton key={i} />
+    ))}
+  </>
+);
+
+export const Feed: React.FC = () => {
+  const { data, error, isPending, isError, hasNextPage, isFetchingNextPage, fetchNextPage, refetch } = useFeed();
+
+  // Load the next page as the end of the list comes into view
+  const sentinelRef = useIntersectionObserver<HTMLDivElement>(() => fetchNextPage(), {
+    enabled: hasNextPage && !isFetchingNextPage && !isError,
+  });
+
+  const posts = data?.pages.flat() ?? [];
+
+  if (isPending) {
+    return (
+      <div className="space-y-6" aria-busy="true">
+        <Skeletons />
+      </div>
+    );
+  }
+
+  if (isError && !posts.length) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm p-6 text-center space-y-3">
+        <p className="text-sm text-red-800">{getErrorMessage(error, 'Could not load your feed.')}</p>
+        <Button variant="outline" size="sm" onClick={() => refetch()}>
+          Try again
+        </Button>
+      </div>
+    );
+  }
+
+  if (!posts.length) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm p-6 text-center space-y-2">
+        <Newspaper className="mx-auto w-10 h-10 text-gray-400" />
+        <h3 className="font-semibold text-gray-900">No posts yet</h3>
+        <p className="text-sm text-gray-600">Follow people or write something to get your feed going.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {posts.map((post) => (
+        <PostCard key={post.id} post={post} />
+      ))}
+
+      {isFetchingNextPage && <Skeletons />}
+
+      {isError && (
+        <div className="text-center space-y-2">
+          <p className="text-sm text-red-800">{getErrorMessage(error, 'Could not load more posts.')}</p>
+          <Button variant="outline" size="sm" onClick={() => fetchNextPage()}>
+            Try again
+          </Button>
+        </div>
+      )}
+
+      {!hasNextPage && <p className="text-center text-sm text-gray-500">You&apos;re all caught up</p>}
+
+      <div ref={sentinelRef} />
+    </div>
+  );
+};
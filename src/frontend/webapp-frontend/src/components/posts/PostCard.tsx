@@ -0,0 +1,166 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { Heart, MessageCircle, Paperclip, Pencil } from 'lucide-react';
+import { Avatar } from '@/components/ui/Avatar';
+import { PostEditor } from '@/components/posts/PostEditor';
+import { PostRevisionHistory } from '@/components/posts/PostRevisionHistory';
+import { PostShareMenu } from '@/components/posts/PostShareMenu';
+import { VisibilityIcon } from '@/components/posts/PostVisibility';
+import { getEffectiveVisibility, getPostPath } from '@/lib/postVisibility';
+import { cn, formatRelativeTime } from '@/lib/utils';
+import { useAuthStore } from '@/store/authStore';
+import { MediaAttachment, Post } from '@/types';
+
+const PostMedia: React.FC<{ attachment: MediaAttachment }> = ({ attachment }) => {
+  if (attachment.isImage) {
+    return (
+      <img
+        src={attachment.url}
+        alt={attachment.altText ?? ''}
+        width={attachment.width ?? undefined}
+        height={attachment.height ?? undefined}
+        loading="lazy"
+        className="w-full h-full max-h-96 object-cover rounded-md bg-gray-100"
+      />
+    );
+  }
+  if (attachment.isVideo) {
+    return (
+      <video
+        src={attachment.url}
+        poster={attachment.thumbnailUrl ?? undefined}
+        controls
+        preload="metadata"
+        className="w-full max-h-96 rounded-md bg-black"
+      />
+    );
+  }
+  if (attachment.isAudio) {
+    return <audio src={attachment.url} controls preload="none" className="w-full" />;
+  }
+  return (
+    <a
+      href={attachment.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex items-center text-sm text-blue-600 hover:underline"
+    >
+      <Paperclip className="w-4 h-4 mr-1" />
+      {attachment.fileName}
+    </a>
+  );
+};
+
+interface PostCardProps {
+  post: Post;
+  // Where the timestamp links to; defaults to the post's own page
+  href?: string;
+  // Extra footer actions, e.g. Reply in a thread
+  actions?: React.ReactNode;
+  className?: string;
+}
+
+export const PostCard: React.FC<PostCardProps> = ({ post, href = getPostPath(post.id), actions, className }) => {
+  const media = post.mediaAttachments ?? [];
+  const isOwn = useAuthStore((state) => state.user?.id === post.authorId);
+  const [editing, setEditing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+
+  return (
+    <article className={cn('bg-white rounded-lg shadow-sm p-6', className)}>
+      <div className="flex items-start space-x-3">
+        <Avatar user={{ displayName: post.author.displayName, avatarUrl: post.author.profileImageUrl }} />
+        <div className="flex-1 min-w-0">
+          <div className="flex flex-wrap items-center gap-x-2 text-sm">
+            <h4 className="font-semibold text-gray-900">{post.author.displayName}</h4>
+            <span className="text-gray-500">@{post.author.username}</span>
+            <span className="text-gray-400">·</span>
+            <Link href={href} className="text-gray-400 hover:underline">
+              <time dateTime={post.createdAt} title={new Date(post.createdAt).toLocaleString()}>
+                {formatRelativeTime(post.createdAt)}
+              </time>
+            </Link>
+            {post.isEdited && (
+              <button
+                type="button"
+                onClick={() => setShowHistory(true)}
+                title="See edit history"
+                className="text-gray-400 hover:underline"
+              >
+                edited{' '}
+                <time dateTime={post.updatedAt} title={new Date(post.updatedAt).toLocaleString()}>
+                  {formatRelativeTime(post.updatedAt)}
+                </time>
+              </button>
+            )}
+            <span className="text-gray-400">·</span>
+            <span className="text-gray-400">
+              <VisibilityIcon visibility={getEffectiveVisibility(post)} />
+            </span>
+          </div>
+
+          {editing ? (
+            <PostEditor post={post} onDone={() => setEditing(false)} />
+          ) : (
+            post.content && <p className="text-gray-800 mt-1 whitespace-pre-wrap break-words">{post.content}</p>
+          )}
+
+          {media.length > 0 && (
+            <div className={cn('mt-3 grid gap-2', media.length > 1 && 'grid-cols-2')}>
+              {media.map((attachment) => (
+                <PostMedia key={attachment.id} attachment={attachment} />
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center space-x-6 mt-4 text-gray-500">
+            {post.commentsCount !== undefined && (
+              <span className="flex items-center space-x-2" aria-label={`${post.commentsCount} comments`}>
+                <MessageCircle className="w-4 h-4" />
+                <span className="text-sm">{post.commentsCount}</span>
+              </span>
+            )}
+            {post.likesCount !== undefined && (
+              <span
+                className={cn('flex items-center space-x-2', post.isLiked && 'text-red-600')}
+                aria-label={`${post.likesCount} likes`}
+              >
+                <Heart className={cn('w-4 h-4', post.isLiked && 'fill-current')} />
+                <span className="text-sm">{post.likesCount}</span>
+              </span>
+            )}
+            {actions}
+            {isOwn && !editing && (
+              <button
+                type="button"
+                onClick={() => setEditing(true)}
+                className="flex items-center space-x-2 hover:text-blue-600"
+              >
+                <Pencil className="w-4 h-4" />
+                <span className="text-sm">Edit</span>
+              </button>
+            )}
+            <PostShareMenu post={post} />
+          </div>
+        </div>
+      </div>
+      {showHistory && <PostRevisionHistory post={post} open onClose={() => setShowHistory(false)} />}
+    </article>
+  );
+};
+
+// Placeholder with the shape of a PostCard while the feed loads
+export const PostCardSkeleton: React.FC = () => (
+  <div className="bg-white rounded-lg shadow-sm p-6 animate-pulse" aria-hidden="true">
+    <div className="flex items-start space-x-3">
+      <div className="w-10 h-10 bg-gray-200 rounded-full" />
+      <div className="flex-1 space-y-3">
+        <div className="h-4 bg-gray-200 rounded w-1/3" />
+        <div className="h-4 bg-gray-200 rounded w-full" />
+        <div className="h-4 bg-gray-200 rounded w-2/3" />
+      </div>
+    </div>
+  </div>
+);
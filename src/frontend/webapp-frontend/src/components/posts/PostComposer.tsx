@@ -0,0 +1,233 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { ImagePlus, Paperclip, RotateCw, X } from 'lucide-react';
+import { Avatar } from '@/components/ui/Avatar';
+import { Button } from '@/components/ui/Button';
+import { Modal } from '@/components/ui/Modal';
+import { VisibilitySelect } from '@/components/posts/PostVisibility';
+import { MAX_MEDIA_FILES, MediaUploadItem, useMediaUpload } from '@/hooks/useMediaUpload';
+import { POST_MAX_LENGTH, useCreatePost } from '@/hooks/usePosts';
+import { getErrorMessage } from '@/lib/api';
+import { getDefaultVisibility } from '@/lib/postVisibility';
+import { cn } from '@/lib/utils';
+import { EMAIL_CONFIRMATION_REQUIRED, useAuthStore } from '@/store/authStore';
+import { Post, PostFormData, PostVisibility } from '@/types';
+
+// The counter turns amber this close to the limit
+const COUNTER_WARNING_THRESHOLD = 20;
+
+const postFormSchema = z
+  .object({
+    content: z.string().max(POST_MAX_LENGTH, `Posts can be up to ${POST_MAX_LENGTH} characters`),
+    media: z.array(z.instanceof(File)).max(MAX_MEDIA_FILES).optional(),
+  })
+  .refine(({ content, media }) => content.trim() || media?.length, {
+    path: ['content'],
+    message: 'Write something or add a photo or video',
+  });
+
+const MediaPreview: React.FC<{ item: MediaUploadItem; onRemove: () => void; onRetry: () => void }> = ({
+  item,
+  onRemove,
+  onRetry,
+}) => (
+  <div className="relative aspect-square rounded-md overflow-hidden bg-gray-100">
+    {item.file.type.startsWith('image/') ? (
+      <img src={item.previewUrl} alt="" className="w-full h-full object-cover" />
+    ) : item.file.type.startsWith('video/') ? (
+      <video src={item.previewUrl} muted className="w-full h-full object-cover" />
+    ) : (
+      <div className="flex flex-col items-center justify-center h-full p-2 text-xs text-gray-600">
+        <Paperclip className="w-5 h-5 mb-1" />
+        <span className="truncate max-w-full">{item.file.name}</span>
+      </div>
+    )}
+
+    {item.status === 'uploading' && (
+      <div className="absolute inset-x-0 bottom-0 bg-black/50 px-2 py-1 text-xs text-white">
+        Uploading {item.progress}%
+      </div>
+    )}
+    {item.status === 'failed' && (
+      <button
+        type="button"
+        onClick={onRetry}
+        title={item.error}
+        className="absolute inset-0 flex flex-col items-center justify-center bg-red-900/60 text-xs text-white"
+      >
+        <RotateCw className="w-4 h-4 mb-1" />
+        Upload failed. Retry
+      </button>
+    )}
+
+    <button
+      type="button"
+      onClick={onRemove}
+      aria-label={`Remove ${item.file.name}`}
+      className="absolute top-1 right-1 rounded-full bg-black/60 p-1 text-white hover:bg-black/80"
+    >
+      <X className="w-3 h-3" />
+    </button>
+  </div>
+);
+
+interface PostComposerProps {
+  onPosted?: (post: Post) => void;
+  autoFocus?: boolean;
+  className?: string;
+}
+
+export const PostComposer: React.FC<PostComposerProps> = ({ onPosted, autoFocus, className }) => {
+  const user = useAuthStore((state) => state.user);
+  const requireConfirmedEmail = useAuthStore((state) => state.requireConfirmedEmail);
+  const createPost = useCreatePost();
+  const uploads = useMediaUpload();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | undefined>();
+  const [visibility, setVisibility] = useState<PostVisibility>(() => getDefaultVisibility(user));
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    setValue,
+    reset,
+    formState: { errors },
+  } = useForm<PostFormData>({
+    resolver: zodResolver(postFormSchema),
+    defaultValues: { content: '', media: [] },
+  });
+
+  // The form validates the picked files; their uploads are tracked by useMediaUpload
+  const { items } = uploads;
+  useEffect(() => {
+    setValue('media', items.map((item) => item.file));
+  }, [items, setValue]);
+
+  const content = watch('content') ?? '';
+  const remaining = POST_MAX_LENGTH - content.length;
+  const canPost =
+    !createPost.isPending &&
+    !uploads.isUploading &&
+    !uploads.hasFailed &&
+    remaining >= 0 &&
+    (!!content.trim() || items.length > 0);
+
+  const onSubmit = async ({ content }: PostFormData) => {
+    setError(undefined);
+    if (!requireConfirmedEmail()) {
+      setError(EMAIL_CONFIRMATION_REQUIRED);
+      return;
+    }
+
+    try {
+      const post = await createPost.mutateAsync({ content: content.trim(), media: uploads.uploaded, visibility });
+      reset();
+      uploads.reset();
+      onPosted?.(post);
+    } catch (error) {
+      setError(getErrorMessage(error, 'Could not publish your post. Please try again.'));
+    }
+  };
+
+  return (
+    <form className={cn('flex items-start space-x-3', className)} onSubmit={handleSubmit(onSubmit)}>
+      <Avatar user={user ?? undefined} />
+      <div className="flex-1 min-w-0">
+        <textarea
+          {...register('content')}
+          aria-label="Post content"
+          aria-invalid={!!errors.content}
+          className="w-full border-0 resize-none focus:ring-0 placeholder-gray-400"
+          placeholder="What's on your mind?"
+          rows={3}
+          autoFocus={autoFocus}
+        />
+        {errors.content && <p className="text-sm text-red-600">{errors.content.message}</p>}
+
+        {items.length > 0 && (
+          <div className="mt-3 grid grid-cols-4 gap-2">
+            {items.map((item) => (
+              <MediaPreview
+                key={item.key}
+                item={item}
+                onRemove={() => uploads.remove(item.key)}
+                onRetry={() => uploads.retry(item.key)}
+              />
+            ))}
+          </div>
+        )}
+        {uploads.error && <p className="mt-2 text-sm text-red-600">{uploads.error}</p>}
+        {error && (
+          <div className="mt-3 bg-red-50 border border-red-200 rounded-md p-3">
+            <div className="text-sm text-red-800">{error}</div>
+          </div>
+        )}
+
+        <div className="flex justify-between items-center mt-4">
+          <div className="flex items-center space-x-4 text-gray-400">
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={items.length >= MAX_MEDIA_FILES}
+              aria-label="Add photos or videos"
+              className="hover:text-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ImagePlus className="w-5 h-5" />
+            </button>
+            <VisibilitySelect value={visibility} onChange={setVisibility} disabled={createPost.isPending} />
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*,video/*,audio/*"
+              multiple
+              hidden
+              data-testid="post-media-input"
+              onChange={(event) => {
+                if (event.target.files) uploads.add(event.target.files);
+                event.target.value = '';
+              }}
+            />
+          </div>
+          <div className="flex items-center space-x-3">
+            <span
+              aria-live="polite"
+              className={cn(
+                'text-xs',
+                remaining < 0 ? 'text-red-600' : remaining <= COUNTER_WARNING_THRESHOLD ? 'text-amber-600' : 'text-gray-400'
+              )}
+            >
+              {remaining}
+            </span>
+            <Button type="submit" size="sm" loading={createPost.isPending} disabled={!canPost}>
+              Post
+            </Button>
+          </div>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+interface PostComposerModalProps {
+  open: boolean;
+  onClose: () => void;
+  onPosted?: (post: Post) => void;
+}
+
+// The composer as a dialog, for the navigation bar, Quick Actions and /create-post
+export const PostComposerModal: React.FC<PostComposerModalProps> = ({ open, onClose, onPosted }) => (
+  <Modal open={open} title="Create post" onClose={onClose} className="max-w-lg">
+    <PostComposer
+      autoFocus
+      onPosted={(post) => {
+        onPosted?.(post);
+        onClose();
+      }}
+    />
+  </Modal>
+);
@@ -0,0 +1,144 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/Button';
+import { TextDiff } from '@/components/posts/PostRevisionHistory';
+import { VisibilitySelect } from '@/components/posts/PostVisibility';
+import { POST_MAX_LENGTH } from '@/hooks/usePosts';
+import { PostEditConflictError, useUpdatePost, useUpdatePostVisibility } from '@/hooks/usePostEditing';
+import { getErrorMessage } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { EMAIL_CONFIRMATION_REQUIRED, useAuthStore } from '@/store/authStore';
+import { Post, PostVisibility } from '@/types';
+
+const editSchema = z.object({
+  content: z
+    .string()
+    .trim()
+    .min(1, 'Posts need some text')
+    .max(POST_MAX_LENGTH, `Posts can be up to ${POST_MAX_LENGTH} characters`),
+});
+
+type EditFormData = z.infer<typeof editSchema>;
+
+interface PostEditorProps {
+  post: Post;
+  // Called once the edit is saved or abandoned
+  onDone: () => void;
+}
+
+// In-place editor for a post's text and who can see it. Text saves are checked against the version
+// the edit started from; if the post changed in the meantime the author sees both versions and
+// picks one.
+export const PostEditor: React.FC<PostEditorProps> = ({ post, onDone }) => {
+  const requireConfirmedEmail = useAuthStore((state) => state.requireConfirmedEmail);
+  const updatePost = useUpdatePost();
+  const updateVisibility = useUpdatePostVisibility();
+  const isSaving = updatePost.isPending || updateVisibility.isPending;
+  // The version being edited, moved on when the author sees a newer one
+  const [base, setBase] = useState(post);
+  const [visibility, setVisibility] = useState<PostVisibility>(post.visibility);
+  const [conflict, setConflict] = useState<Post | undefined>();
+  const [error, setError] = useState<string | undefined>();
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<EditFormData>({
+    resolver: zodResolver(editSchema),
+    defaultValues: { content: post.content },
+  });
+
+  const content = watch('content') ?? '';
+  const remaining = POST_MAX_LENGTH - content.length;
+
+  const save = async (version: Post, content: string) => {
+    setError(undefined);
+    if (!requireConfirmedEmail()) {
+      setError(EMAIL_CONFIRMATION_REQUIRED);
+      return;
+    }
+
+    try {
+      const saved = content === version.content ? version : await updatePost.mutateAsync({ post: version, content });
+      if (visibility !== saved.visibility) await updateVisibility.mutateAsync({ post: saved, visibility });
+      onDone();
+    } catch (error) {
+      if (error instanceof PostEditConflictError) {
+        setConflict(error.current);
+        return;
+      }
+      setError(getErrorMessage(error, 'Could not save your changes. Please try again.'));
+    }
+  };
+
+  const onSubmit = ({ content }: EditFormData) => {
+    if (content === base.content && visibility === base.visibility) {
+      onDone();
+      return;
+    }
+    return save(base, content);
+  };
+
+  if (conflict) {
+    return (
+      <div role="alert" className="mt-2 space-y-3 rounded-md border border-amber-200 bg-amber-50 p-3">
+        <p className="text-sm text-amber-900">
+          This post was changed somewhere else since you started editing. Here is how your version differs from
+          the one that was saved:
+        </p>
+        <TextDiff before={conflict.content} after={content.trim()} />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={onDone} disabled={isSaving}>
+            Discard mine
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isSaving}
+            onClick={() => {
+              setBase(conflict);
+              setConflict(undefined);
+            }}
+          >
+            Keep editing
+          </Button>
+          <Button size="sm" loading={isSaving} onClick={() => save(conflict, content.trim())}>
+            Save mine
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="mt-2 space-y-2">
+      <textarea
+        {...register('content')}
+        aria-label="Edit post"
+        aria-invalid={!!errors.content}
+        className="w-full rounded-md border border-gray-300 p-2 text-sm focus:border-blue-500 focus:ring-blue-500"
+        rows={3}
+        autoFocus
+      />
+      {errors.content && <p className="text-sm text-red-600">{errors.content.message}</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex items-center justify-end space-x-3">
+        <VisibilitySelect value={visibility} onChange={setVisibility} disabled={isSaving} />
+        <span className={cn('text-xs', remaining < 0 ? 'text-red-600' : 'text-gray-400')}>{remaining}</span>
+        <Button variant="ghost" size="sm" onClick={onDone} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" loading={isSaving} disabled={remaining < 0}>
+          Save
+        </Button>
+      </div>
+    </form>
+  );
+};
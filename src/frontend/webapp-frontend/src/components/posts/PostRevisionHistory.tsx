@@ -0,0 +1,85 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/Button';
+import { Modal } from '@/components/ui/Modal';
+import { usePostRevisions } from '@/hooks/usePostEditing';
+import { diffWords } from '@/lib/textDiff';
+import { formatRelativeTime } from '@/lib/utils';
+import { Post } from '@/types';
+
+// The changes from one text to another, with removed words struck through and added ones highlighted
+export const TextDiff: React.FC<{ before: string; after: string }> = ({ before, after }) => (
+  <p className="text-sm text-gray-800 whitespace-pre-wrap break-words">
+    {diffWords(before, after).map((part, index) =>
+      part.type === 'added' ? (
+        <ins key={index} className="bg-green-100 text-green-800 no-underline">
+          {part.text}
+        </ins>
+      ) : part.type === 'removed' ? (
+        <del key={index} className="bg-red-100 text-red-700">
+          {part.text}
+        </del>
+      ) : (
+        <span key={index}>{part.text}</span>
+      )
+    )}
+  </p>
+);
+
+interface PostRevisionHistoryProps {
+  post: Post;
+  open: boolean;
+  onClose: () => void;
+}
+
+// Every version of an edited post, newest first, each shown as the changes from the one before
+export const PostRevisionHistory: React.FC<PostRevisionHistoryProps> = ({ post, open, onClose }) => {
+  const { data: revisions, isPending, isError, refetch } = usePostRevisions(post.id, { enabled: open });
+
+  const versions = [
+    ...(revisions ?? []).map(({ id, content, createdAt }) => ({ key: id, content, writtenAt: createdAt })),
+    { key: 'current', content: post.content, writtenAt: post.updatedAt },
+  ];
+
+  return (
+    <Modal open={open} title="Edit history" onClose={onClose} className="max-w-lg">
+      {isPending ? (
+        <p className="text-sm text-gray-500">Loading earlier versions…</p>
+      ) : isError ? (
+        <div className="space-y-2">
+          <p className="text-sm text-red-600">Could not load the edit history.</p>
+          <Button variant="outline" size="sm" onClick={() => refetch()}>
+            Try again
+          </Button>
+        </div>
+      ) : (
+        <ol className="max-h-96 space-y-4 overflow-y-auto">
+          {versions
+            .map((version, index) => (
+              <li key={version.key} className="border-b border-gray-100 pb-4 last:border-0">
+                <p className="mb-1 text-xs text-gray-500">
+                  {index === versions.length - 1 ? 'Current' : index === 0 ? 'Original' : `Edit ${index}`}
+                  {' · '}
+                  <time dateTime={version.writtenAt} title={new Date(version.writtenAt).toLocaleString()}>
+                    {formatRelativeTime(version.writtenAt)}
+                  </time>
+                </p>
+                {index === 0 ? (
+                  <p className="text-sm text-gray-800 whitespace-pre-wrap break-words">{version.content}</p>
+                ) : (
+                  <TextDiff before={versions[index - 1].content} after={version.content} />
+                )}
+              </li>
+            ))
+            .reverse()}
+        </ol>
+      )}
+      <div className="mt-4 flex justify-end">
+        <Button variant="outline" size="sm" onClick={onClose}>
+          Close
+        </Button>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,65 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Code, Link2, Share2 } from 'lucide-react';
+import { getEmbedCode, getPostUrl, getShareAvailability } from '@/lib/postVisibility';
+import { Post } from '@/types';
+
+// Share actions for a post, limited by who can see it (see getShareAvailability)
+export const PostShareMenu: React.FC<{ post: Post }> = ({ post }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [copied, setCopied] = useState<'link' | 'embed' | null>(null);
+  const { canCopyLink, canEmbed, note } = getShareAvailability(post);
+
+  const copy = async (kind: 'link' | 'embed', text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(kind);
+    } catch {
+      // Clipboard access can be refused; the menu stays open so the user can try again
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => {
+          setIsOpen(!isOpen);
+          setCopied(null);
+        }}
+        aria-expanded={isOpen}
+        className="flex items-center space-x-2 hover:text-blue-600"
+      >
+        <Share2 className="w-4 h-4" />
+        <span className="text-sm">Share</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-64 bg-white rounded-md shadow-lg border border-gray-200 py-1 z-10">
+          {canCopyLink && (
+            <button
+              type="button"
+              onClick={() => copy('link', getPostUrl(post.id))}
+              className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            >
+              <Link2 className="w-4 h-4 mr-3" />
+              {copied === 'link' ? 'Link copied' : 'Copy link'}
+            </button>
+          )}
+          {canEmbed && (
+            <button
+              type="button"
+              onClick={() => copy('embed', getEmbedCode(post))}
+              className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            >
+              <Code className="w-4 h-4 mr-3" />
+              {copied === 'embed' ? 'Embed code copied' : 'Copy embed code'}
+            </button>
+          )}
+          {note && <p className="px-4 py-2 text-xs text-gray-500">{note}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,222 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { MessageCircle } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { PostCard, PostCardSkeleton } from '@/components/posts/PostCard';
+import { ReplyComposer } from '@/components/posts/ReplyComposer';
+import { useHashTarget, useLocationHash } from '@/hooks/useHashTarget';
+import { usePost, usePostAncestors, useReplies } from '@/hooks/usePostThread';
+import { getErrorMessage } from '@/lib/api';
+import { getPostPath } from '@/lib/postVisibility';
+import { cn } from '@/lib/utils';
+import { Post } from '@/types';
+
+// Replies this many levels below the focused post are shown straight away; deeper ones wait for
+// "Show more replies"
+const AUTO_EXPAND_DEPTH = 2;
+
+const REPLY_ELEMENT_PREFIX = 'reply-';
+
+// A reply's permalink opens its parent's page and scrolls to it there. The page keeps loading
+// replies until the linked one turns up.
+export const getReplyElementId = (replyId: string) => `${REPLY_ELEMENT_PREFIX}${replyId}`;
+export const getReplyPermalink = (reply: Post) =>
+  `${getPostPath(reply.parentPostId ?? reply.id)}#${getReplyElementId(reply.id)}`;
+
+// The reply a URL's #fragment points to, if any
+const getTargetReplyId = (hash: string) =>
+  hash.startsWith(`#${REPLY_ELEMENT_PREFIX}`) ? hash.slice(REPLY_ELEMENT_PREFIX.length + 1) : undefined;
+
+interface ReplyListProps {
+  replies: ReturnType<typeof useReplies>;
+  depth: number;
+  // Shown when there are no replies; nothing is shown without it
+  emptyMessage?: string;
+  // A reply to keep loading pages for until it's in the list
+  targetId?: string;
+}
+
+const ReplyList: React.FC<ReplyListProps> = ({ replies, depth, emptyMessage, targetId }) => {
+  const { data, error, isPending, isError, hasNextPage, isFetchingNextPage, fetchNextPage, refetch } = replies;
+  const nested = depth > 0 && 'ml-4 sm:ml-8 pl-4 border-l-2 border-gray-100';
+  const posts = data?.pages.flat() ?? [];
+  const isTargetMissing = !!targetId && !posts.some((reply) => reply.id === targetId);
+
+  useEffect(() => {
+    if (isTargetMissing && hasNextPage && !isFetchingNextPage && !isError) fetchNextPage();
+  }, [isTargetMissing, hasNextPage, isFetchingNextPage, isError, fetchNextPage]);
+
+  if (isPending) {
+    // Branches opened on load appear once they have something to show
+    return emptyMessage ? <p className={cn('text-sm text-gray-500', nested)}>Loading replies…</p> : null;
+  }
+  if (isError && !data) {
+    return (
+      <div className={cn('text-sm space-x-2', nested)}>
+        <span className="text-red-800">{getErrorMessage(error, 'Could not load replies.')}</span>
+        <button type="button" className="text-blue-600 hover:underline" onClick={() => refetch()}>
+          Try again
+        </button>
+      </div>
+    );
+  }
+
+  if (!posts.length) {
+    return emptyMessage ? <p className={cn('text-sm text-gray-500', nested)}>{emptyMessage}</p> : null;
+  }
+
+  return (
+    <ul className={cn('space-y-3', nested)}>
+      {posts.map((reply) => (
+        <li key={reply.id}>
+          <ReplyNode reply={reply} depth={depth} />
+        </li>
+      ))}
+      {hasNextPage && (
+        <li>
+          <button
+            type="button"
+            className="text-sm text-blue-600 hover:underline disabled:opacity-50"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+          >
+            {isFetchingNextPage ? 'Loading…' : 'Show more replies'}
+          </button>
+        </li>
+      )}
+    </ul>
+  );
+};
+
+const ReplyNode: React.FC<{ reply: Post; depth: number }> = ({ reply, depth }) => {
+  const elementId = getReplyElementId(reply.id);
+  const { ref, isTarget } = useHashTarget<HTMLDivElement>(elementId);
+  const [isReplying, setIsReplying] = useState(false);
+  // 'auto' for branches opened on load, 'user' once someone asked for them
+  const [expanded, setExpanded] = useState<'auto' | 'user' | false>(depth + 1 < AUTO_EXPAND_DEPTH ? 'auto' : false);
+  // Loaded once the branch is opened; until then the post's reply count says whether there's
+  // anything to show
+  const replies = useReplies(reply.id, { enabled: expanded !== false });
+  const hasReplies = reply.repliesCount > 0 || !!replies.data?.pages[0]?.length;
+
+  return (
+    <div id={elementId} ref={ref} className="scroll-mt-24">
+      <PostCard
+        post={reply}
+        href={getReplyPermalink(reply)}
+        className={cn('p-4', isTarget && 'ring-2 ring-yellow-300 bg-yellow-50')}
+        actions={
+          <>
+            <button
+              type="button"
+              className="flex items-center space-x-2 hover:text-blue-600"
+              onClick={() => setIsReplying(!isReplying)}
+              aria-expanded={isReplying}
+            >
+              <MessageCircle className="w-4 h-4" />
+              <span className="text-sm">Reply</span>
+            </button>
+            {expanded && hasReplies && (
+              <button type="button" className="text-sm hover:text-blue-600" onClick={() => setExpanded(false)}>
+                Hide replies
+              </button>
+            )}
+          </>
+        }
+      />
+
+      {isReplying && (
+        <div className="mt-2 ml-4 sm:ml-8">
+          <ReplyComposer
+            parentPostId={reply.id}
+            visibility={reply.visibility}
+            autoFocus
+            onReplied={() => {
+              setIsReplying(false);
+              setExpanded((current) => current || 'user');
+            }}
+          />
+        </div>
+      )}
+
+      <div className="mt-3">
+        {expanded ? (
+          <ReplyList replies={replies} depth={depth + 1} emptyMessage={expanded === 'user' ? 'No replies yet.' : undefined} />
+        ) : (
+          hasReplies && (
+            <button
+              type="button"
+              className="ml-4 sm:ml-8 text-sm text-blue-600 hover:underline"
+              onClick={() => setExpanded('user')}
+            >
+              Show more replies
+            </button>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+// A post with the posts it answers above it and the replies to it below
+export const PostThread: React.FC<{ postId: string }> = ({ postId }) => {
+  const { data: post, error, isPending, isError, refetch } = usePost(postId);
+  const ancestors = usePostAncestors(post);
+  const replies = useReplies(postId);
+  const targetReplyId = getTargetReplyId(useLocationHash());
+
+  if (isPending) {
+    return (
+      <div aria-busy="true">
+        <PostCardSkeleton />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm p-6 text-center space-y-3">
+        <p className="text-sm text-red-800">{getErrorMessage(error, 'Could not load this post.')}</p>
+        <Button variant="outline" size="sm" onClick={() => refetch()}>
+          Try again
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {post.parentPostId && (
+        <section aria-label="Earlier in the thread" className="space-y-2">
+          {ancestors.data?.hasMore && post.rootPostId && (
+            <Link href={getPostPath(post.rootPostId)} className="text-sm text-blue-600 hover:underline">
+              Show the start of this thread
+            </Link>
+          )}
+          {ancestors.isPending && <PostCardSkeleton />}
+          {ancestors.isError && <p className="text-sm text-red-800">Could not load the earlier posts.</p>}
+          {ancestors.data?.ancestors.map((ancestor) => (
+            <PostCard key={ancestor.id} post={ancestor} className="p-4 opacity-90" />
+          ))}
+        </section>
+      )}
+
+      <PostCard post={post} className="ring-1 ring-blue-200" />
+
+      <div className="bg-white rounded-lg shadow-sm p-4">
+        <ReplyComposer parentPostId={post.id} visibility={post.visibility} />
+      </div>
+
+      <section aria-label="Replies">
+        <ReplyList
+          replies={replies}
+          depth={0}
+          emptyMessage="No replies yet. Start the conversation."
+          targetId={targetReplyId}
+        />
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Globe, Lock, LucideIcon, Users } from 'lucide-react';
+import { postVisibilityOptions } from '@/lib/postVisibility';
+import { cn } from '@/lib/utils';
+import { POST_VISIBILITY, PostVisibility } from '@/types';
+
+const visibilityIcons: Record<PostVisibility, LucideIcon> = {
+  [POST_VISIBILITY.PUBLIC]: Globe,
+  [POST_VISIBILITY.FOLLOWERS]: Users,
+  [POST_VISIBILITY.PRIVATE]: Lock,
+};
+
+export const VisibilityIcon: React.FC<{ visibility: PostVisibility; className?: string }> = ({
+  visibility,
+  className,
+}) => {
+  const Icon = visibilityIcons[visibility];
+  const { label, description } = postVisibilityOptions[visibility];
+  return (
+    <span title={description} className="inline-flex">
+      <Icon className={cn('w-3.5 h-3.5', className)} aria-label={label} role="img" />
+    </span>
+  );
+};
+
+interface VisibilitySelectProps {
+  value: PostVisibility;
+  onChange: (visibility: PostVisibility) => void;
+  disabled?: boolean;
+}
+
+// Who a post is for, when creating or editing it
+export const VisibilitySelect: React.FC<VisibilitySelectProps> = ({ value, onChange, disabled }) => (
+  <label className="flex items-center space-x-1 text-sm text-gray-600">
+    <VisibilityIcon visibility={value} />
+    <select
+      aria-label="Who can see this post"
+      value={value}
+      disabled={disabled}
+      onChange={(event) => onChange(Number(event.target.value) as PostVisibility)}
+      className="border-0 bg-transparent py-0 pl-1 pr-6 text-sm focus:ring-0"
+    >
+      {Object.entries(postVisibilityOptions).map(([visibility, { label, description }]) => (
+        <option key={visibility} value={visibility} title={description}>
+          {label}
+        </option>
+      ))}
+    </select>
+  </label>
+);
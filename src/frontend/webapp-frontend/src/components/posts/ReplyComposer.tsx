@@ -0,0 +1,88 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/Button';
+import { POST_MAX_LENGTH } from '@/hooks/usePosts';
+import { useCreateReply } from '@/hooks/usePostThread';
+import { getErrorMessage } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { EMAIL_CONFIRMATION_REQUIRED, useAuthStore } from '@/store/authStore';
+import { Post, PostVisibility } from '@/types';
+
+const replySchema = z.object({
+  content: z
+    .string()
+    .trim()
+    .min(1, 'Write a reply first')
+    .max(POST_MAX_LENGTH, `Replies can be up to ${POST_MAX_LENGTH} characters`),
+});
+
+type ReplyFormData = z.infer<typeof replySchema>;
+
+interface ReplyComposerProps {
+  parentPostId: string;
+  // Replies go to the same audience as the post they answer
+  visibility: PostVisibility;
+  onReplied?: (reply: Post) => void;
+  autoFocus?: boolean;
+}
+
+export const ReplyComposer: React.FC<ReplyComposerProps> = ({ parentPostId, visibility, onReplied, autoFocus }) => {
+  const requireConfirmedEmail = useAuthStore((state) => state.requireConfirmedEmail);
+  const createReply = useCreateReply();
+  const [error, setError] = useState<string | undefined>();
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<ReplyFormData>({
+    resolver: zodResolver(replySchema),
+    defaultValues: { content: '' },
+  });
+
+  const remaining = POST_MAX_LENGTH - (watch('content') ?? '').length;
+
+  const onSubmit = async ({ content }: ReplyFormData) => {
+    setError(undefined);
+    if (!requireConfirmedEmail()) {
+      setError(EMAIL_CONFIRMATION_REQUIRED);
+      return;
+    }
+
+    try {
+      const reply = await createReply.mutateAsync({ parentPostId, content, visibility });
+      reset();
+      onReplied?.(reply);
+    } catch (error) {
+      setError(getErrorMessage(error, 'Could not post your reply. Please try again.'));
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-2">
+      <textarea
+        {...register('content')}
+        aria-label="Reply"
+        aria-invalid={!!errors.content}
+        className="w-full rounded-md border border-gray-300 p-2 text-sm focus:border-blue-500 focus:ring-blue-500"
+        placeholder="Write a reply"
+        rows={2}
+        autoFocus={autoFocus}
+      />
+      {errors.content && <p className="text-sm text-red-600">{errors.content.message}</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex items-center justify-end space-x-3">
+        <span className={cn('text-xs', remaining < 0 ? 'text-red-600' : 'text-gray-400')}>{remaining}</span>
+        <Button type="submit" size="sm" loading={isSubmitting} disabled={remaining < 0}>
+          Reply
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,139 @@
+import React from 'react'
+import { render, screen, waitFor, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { Feed } from '../Feed'
+import { FEED_PAGE_SIZE } from '@/hooks/usePosts'
+import { apiHelpers } from '@/lib/api'
+import { useAuthStore } from '@/store/authStore'
+import { Post } from '@/types'
+
+jest.mock('@/lib/api', () => ({
+  apiHelpers: {
+    get: jest.fn(),
+  },
+  endpoints: {
+    posts: {
+      feed: (userId: string) => `/posts/feed/${userId}`,
+    },
+  },
+  getErrorMessage: jest.requireActual('@/lib/api').getErrorMessage,
+}))
+
+jest.mock('@/store/authStore', () => ({
+  useAuthStore: jest.fn(),
+}))
+
+const mockApiHelpers = apiHelpers as jest.Mocked<typeof apiHelpers>
+const mockUseAuthStore = useAuthStore as unknown as jest.Mock
+
+const author = {
+  id: 'user-2',
+  username: 'ada',
+  displayName: 'Ada Lovelace',
+  profileImageUrl: '',
+  isPrivate: false,
+  isVerified: false,
+}
+
+const post = (id: number): Post => ({
+  id: `post-${id}`,
+  content: `Post number ${id}`,
+  authorId: author.id,
+  author,
+  type: 0,
+  visibility: 0,
+  isEdited: false,
+  repliesCount: 0,
+  mediaAttachments: [],
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+})
+
+const page = (from: number, count: number) => Array.from({ length: count }, (_, i) => post(from + i))
+
+// Captures the observer's callback so tests can scroll the sentinel into view
+let intersect: (() => void) | undefined
+const mockIntersectionObserver = global.IntersectionObserver as jest.Mock
+
+const renderFeed = () => {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } })
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <Feed />
+    </QueryClientProvider>
+  )
+}
+
+describe('Feed', () => {
+  beforeEach(() => {
+    intersect = undefined
+    mockUseAuthStore.mockImplementation((selector) => selector({ user: { id: 'user-1' } }))
+    mockIntersectionObserver.mockImplementation((callback) => ({
+      observe: (element: Element) => {
+        intersect = () => callback([{ isIntersecting: true, target: element }])
+      },
+      disconnect: jest.fn(),
+    }))
+  })
+
+  it("should load the signed-in user's feed", async () => {
+    mockApiHelpers.get.mockResolvedValueOnce(page(1, 2))
+
+    renderFeed()
+
+    expect(await screen.findByText('Post number 1')).toBeInTheDocument()
+    expect(screen.getByText('Post number 2')).toBeInTheDocument()
+    expect(screen.getByText("You're all caught up")).toBeInTheDocument()
+    expect(mockApiHelpers.get).toHaveBeenCalledWith(
+      '/posts/feed/user-1',
+      expect.objectContaining({ params: { limit: FEED_PAGE_SIZE, offset: 0 } })
+    )
+  })
+
+  it('should not load a feed until there is a signed-in user', () => {
+    mockUseAuthStore.mockImplementation((selector) => selector({ user: null }))
+
+    renderFeed()
+
+    expect(mockApiHelpers.get).not.toHaveBeenCalled()
+  })
+
+  it('should load the next page when the end of the list comes into view', async () => {
+    mockApiHelpers.get.mockResolvedValueOnce(page(1, FEED_PAGE_SIZE)).mockResolvedValueOnce(page(21, 1))
+
+    renderFeed()
+    await screen.findByText('Post number 1')
+    expect(screen.queryByText("You're all caught up")).not.toBeInTheDocument()
+
+    act(() => intersect?.())
+
+    expect(await screen.findByText('Post number 21')).toBeInTheDocument()
+    expect(mockApiHelpers.get).toHaveBeenLastCalledWith(
+      '/posts/feed/user-1',
+      expect.objectContaining({ params: { limit: FEED_PAGE_SIZE, offset: FEED_PAGE_SIZE } })
+    )
+    expect(screen.getByText("You're all caught up")).toBeInTheDocument()
+  })
+
+  it('should show an empty state', async () => {
+    mockApiHelpers.get.mockResolvedValueOnce([])
+
+    renderFeed()
+
+    expect(await screen.findByText('No posts yet')).toBeInTheDocument()
+  })
+
+  it('should show the error and retry', async () => {
+    const user = userEvent.setup()
+    mockApiHelpers.get.mockRejectedValueOnce(new Error('Service unavailable')).mockResolvedValueOnce(page(1, 1))
+
+    renderFeed()
+
+    expect(await screen.findByText('Could not load your feed.')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'Try again' }))
+
+    await waitFor(() => expect(screen.getByText('Post number 1')).toBeInTheDocument())
+  })
+})
@@ -0,0 +1,272 @@
+import React from 'react'
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { PostCard } from '../PostCard'
+import { postKeys } from '@/hooks/usePosts'
+import { ApiRequestError, apiHelpers } from '@/lib/api'
+import { useAuthStore } from '@/store/authStore'
+import { Post } from '@/types'
+
+jest.mock('@/lib/api', () => ({
+  ApiRequestError: jest.requireActual('@/lib/api').ApiRequestError,
+  apiHelpers: {
+    get: jest.fn(),
+    put: jest.fn(),
+  },
+  endpoints: {
+    posts: {
+      detail: (id: string) => `/posts/${id}`,
+      content: (id: string) => `/posts/${id}/content`,
+      revisions: (id: string) => `/posts/${id}/revisions`,
+    },
+  },
+  getErrorMessage: jest.requireActual('@/lib/api').getErrorMessage,
+  toApiError: jest.requireActual('@/lib/api').toApiError,
+}))
+
+jest.mock('@/store/authStore', () => ({
+  EMAIL_CONFIRMATION_REQUIRED: 'Please confirm your email address to continue.',
+  useAuthStore: jest.fn(),
+}))
+
+const mockApiHelpers = apiHelpers as jest.Mocked<typeof apiHelpers>
+const mockUseAuthStore = useAuthStore as unknown as jest.Mock
+
+const attachment = {
+  postId: 'post-1',
+  contentType: 'image/png',
+  fileSize: 1024,
+  createdAt: '2024-01-01T00:00:00Z',
+  isImage: false,
+  isVideo: false,
+  isAudio: false,
+}
+
+const post: Post = {
+  id: 'post-1',
+  content: 'Hello\nworld',
+  authorId: 'user-1',
+  author: {
+    id: 'user-1',
+    username: 'ada',
+    displayName: 'Ada Lovelace',
+    profileImageUrl: 'https://media.test/ada.png',
+    isPrivate: false,
+    isVerified: false,
+  },
+  type: 0,
+  visibility: 0,
+  isEdited: true,
+  repliesCount: 0,
+  mediaAttachments: [
+    { ...attachment, id: 'm1', url: 'https://media.test/cat.png', fileName: 'cat.png', altText: 'A cat', isImage: true },
+    { ...attachment, id: 'm2', url: 'https://media.test/notes.pdf', fileName: 'notes.pdf' },
+  ],
+  likesCount: 24,
+  commentsCount: 12,
+  isLiked: true,
+  createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+  updatedAt: new Date().toISOString(),
+}
+
+let queryClient: QueryClient
+
+const renderCard = (props: Partial<React.ComponentProps<typeof PostCard>> = {}) =>
+  render(
+    <QueryClientProvider client={queryClient}>
+      <PostCard post={post} {...props} />
+    </QueryClientProvider>
+  )
+
+describe('PostCard', () => {
+  beforeEach(() => {
+    queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } })
+    mockUseAuthStore.mockImplementation((selector) =>
+      selector({ user: post.author, requireConfirmedEmail: () => true })
+    )
+  })
+
+  it('should render the author, content and when it was posted', () => {
+    render(<PostCard post={post} />)
+
+    expect(screen.getByText('Ada Lovelace')).toBeInTheDocument()
+    expect(screen.getByText('@ada')).toBeInTheDocument()
+    expect(screen.getByText(/Hello\s+world/)).toBeInTheDocument()
+    expect(screen.getByText('2 hours ago')).toHaveAttribute('dateTime', post.createdAt)
+    expect(screen.getByRole('button', { name: 'edited just now' })).toBeInTheDocument()
+  })
+
+  it("should show the author's profile image", () => {
+    render(<PostCard post={post} />)
+
+    expect(screen.getByAltText('Ada Lovelace')).toHaveAttribute('src', 'https://media.test/ada.png')
+  })
+
+  it('should render media attachments', () => {
+    render(<PostCard post={post} />)
+
+    expect(screen.getByAltText('A cat')).toHaveAttribute('src', 'https://media.test/cat.png')
+    expect(screen.getByRole('link', { name: 'notes.pdf' })).toHaveAttribute('href', 'https://media.test/notes.pdf')
+  })
+
+  it('should render comment and like counts', () => {
+    render(<PostCard post={post} />)
+
+    expect(screen.getByLabelText('12 comments')).toHaveTextContent('12')
+    expect(screen.getByLabelText('24 likes')).toHaveClass('text-red-600')
+  })
+
+  it('should leave out counts the post service did not send', () => {
+    render(<PostCard post={{ ...post, likesCount: undefined, commentsCount: undefined, isLiked: undefined }} />)
+
+    expect(screen.queryByLabelText(/comments$/)).not.toBeInTheDocument()
+    expect(screen.queryByLabelText(/likes$/)).not.toBeInTheDocument()
+  })
+
+  it('should show who can see the post', () => {
+    render(<PostCard post={{ ...post, visibility: 1 }} />)
+
+    expect(screen.getByRole('img', { name: 'Followers' })).toBeInTheDocument()
+  })
+
+  it('should offer the link and embed code for a public post', async () => {
+    const writeText = jest.fn().mockResolvedValue(undefined)
+    Object.assign(navigator, { clipboard: { writeText } })
+    render(<PostCard post={post} />)
+
+    await userEvent.click(screen.getByRole('button', { name: 'Share' }))
+    await userEvent.click(screen.getByRole('button', { name: 'Copy link' }))
+
+    expect(writeText).toHaveBeenCalledWith(`${window.location.origin}/posts/post-1`)
+    expect(screen.getByRole('button', { name: 'Link copied' })).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Copy embed code' })).toBeInTheDocument()
+  })
+
+  it('should explain why a private post has no link', async () => {
+    render(<PostCard post={{ ...post, visibility: 2 }} />)
+
+    await userEvent.click(screen.getByRole('button', { name: 'Share' }))
+
+    expect(screen.queryByRole('button', { name: 'Copy link' })).not.toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Copy embed code' })).not.toBeInTheDocument()
+    expect(screen.getByText('Only the author can see this post, so it has no link to share.')).toBeInTheDocument()
+  })
+
+  describe('editing', () => {
+    const editedPost = { ...post, content: 'Hello world', updatedAt: '2024-01-02T00:00:00Z' }
+
+    it('should only let the author edit', () => {
+      mockUseAuthStore.mockImplementation((selector) => selector({ user: { ...post.author, id: 'user-2' } }))
+      renderCard()
+
+      expect(screen.queryByRole('button', { name: 'Edit' })).not.toBeInTheDocument()
+    })
+
+    it('should save the new text against the version being edited', async () => {
+      mockApiHelpers.put.mockResolvedValue({
+        content: 'Hello there',
+        isEdited: true,
+        updatedAt: '2024-01-03T00:00:00Z',
+      })
+      queryClient.setQueryData(postKeys.detail(post.id), editedPost)
+      renderCard({ post: editedPost })
+
+      await userEvent.click(screen.getByRole('button', { name: 'Edit' }))
+      fireEvent.change(screen.getByLabelText('Edit post'), { target: { value: 'Hello there' } })
+      await userEvent.click(screen.getByRole('button', { name: 'Save' }))
+
+      await waitFor(() => expect(screen.queryByLabelText('Edit post')).not.toBeInTheDocument())
+      expect(mockApiHelpers.put).toHaveBeenCalledWith(
+        '/posts/post-1/content',
+        { authorId: 'user-1', newContent: 'Hello there', expectedUpdatedAt: '2024-01-02T00:00:00Z' },
+        expect.anything()
+      )
+      expect(queryClient.getQueryData<Post>(postKeys.detail(post.id))).toMatchObject({
+        content: 'Hello there',
+        updatedAt: '2024-01-03T00:00:00Z',
+        author: post.author,
+      })
+    })
+
+    it('should change who can see the post without resending its text', async () => {
+      mockApiHelpers.put.mockResolvedValue({ visibility: 1, updatedAt: '2024-01-03T00:00:00Z' })
+      queryClient.setQueryData(postKeys.detail(post.id), editedPost)
+      renderCard({ post: editedPost })
+
+      await userEvent.click(screen.getByRole('button', { name: 'Edit' }))
+      await userEvent.selectOptions(screen.getByLabelText('Who can see this post'), '1')
+      await userEvent.click(screen.getByRole('button', { name: 'Save' }))
+
+      await waitFor(() => expect(screen.queryByLabelText('Edit post')).not.toBeInTheDocument())
+      expect(mockApiHelpers.put).toHaveBeenCalledTimes(1)
+      expect(mockApiHelpers.put).toHaveBeenCalledWith(
+        '/posts/post-1/visibility',
+        { authorId: 'user-1', visibility: 1 },
+        expect.anything()
+      )
+      expect(queryClient.getQueryData<Post>(postKeys.detail(post.id))).toMatchObject({
+        content: 'Hello world',
+        visibility: 1,
+        updatedAt: '2024-01-03T00:00:00Z',
+      })
+    })
+
+    it('should show both versions when the post was changed elsewhere, and save over it on request', async () => {
+      mockApiHelpers.put.mockRejectedValueOnce(
+        new ApiRequestError({
+          message: 'Request failed with status 409',
+          code: 'conflict',
+          status: 409,
+          body: { ...editedPost, content: 'Hello big world', updatedAt: '2024-01-04T00:00:00Z' },
+        })
+      )
+      renderCard({ post: editedPost })
+
+      await userEvent.click(screen.getByRole('button', { name: 'Edit' }))
+      fireEvent.change(screen.getByLabelText('Edit post'), { target: { value: 'Hello small world' } })
+      await userEvent.click(screen.getByRole('button', { name: 'Save' }))
+
+      const alert = await screen.findByRole('alert')
+      expect(within(alert).getByText('big', { selector: 'del' })).toBeInTheDocument()
+      expect(within(alert).getByText('small', { selector: 'ins' })).toBeInTheDocument()
+
+      mockApiHelpers.put.mockResolvedValueOnce({
+        content: 'Hello small world',
+        isEdited: true,
+        updatedAt: '2024-01-05T00:00:00Z',
+      })
+      await userEvent.click(within(alert).getByRole('button', { name: 'Save mine' }))
+
+      await waitFor(() => expect(screen.queryByRole('alert')).not.toBeInTheDocument())
+      expect(mockApiHelpers.put).toHaveBeenLastCalledWith(
+        '/posts/post-1/content',
+        expect.objectContaining({ newContent: 'Hello small world', expectedUpdatedAt: '2024-01-04T00:00:00Z' }),
+        expect.anything()
+      )
+    })
+
+    it('should show the changes made by each edit', async () => {
+      mockApiHelpers.get.mockResolvedValue([
+        {
+          id: 'r1',
+          postId: post.id,
+          content: 'Hello',
+          createdAt: '2024-01-01T00:00:00Z',
+          replacedAt: '2024-01-02T00:00:00Z',
+        },
+      ])
+      renderCard({ post: editedPost })
+
+      await userEvent.click(screen.getByRole('button', { name: /^edited/ }))
+
+      const dialog = screen.getByRole('dialog', { name: 'Edit history' })
+      expect(await within(dialog).findByText('world', { selector: 'ins' })).toBeInTheDocument()
+      expect(within(dialog).getByText(/^Original/)).toBeInTheDocument()
+      expect(mockApiHelpers.get).toHaveBeenCalledWith(
+        '/posts/post-1/revisions',
+        expect.objectContaining({ params: { viewerId: 'user-1' } })
+      )
+    })
+  })
+})
@@ -0,0 +1,238 @@
+import React from 'react'
+import { render, screen, waitFor, fireEvent } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { PostComposer } from '../PostComposer'
+import { POST_MAX_LENGTH, postKeys } from '@/hooks/usePosts'
+import { apiHelpers } from '@/lib/api'
+import { EMAIL_CONFIRMATION_REQUIRED, useAuthStore } from '@/store/authStore'
+
+jest.mock('@/lib/api', () => ({
+  apiHelpers: {
+    post: jest.fn(),
+  },
+  endpoints: {
+    posts: {
+      text: '/posts/text',
+      media: '/posts/media',
+    },
+    media: {
+      upload: '/media/upload',
+    },
+  },
+  getErrorMessage: jest.requireActual('@/lib/api').getErrorMessage,
+  isCancelledError: jest.requireActual('@/lib/api').isCancelledError,
+}))
+
+jest.mock('@/store/authStore', () => ({
+  EMAIL_CONFIRMATION_REQUIRED: 'Please confirm your email address to continue.',
+  useAuthStore: jest.fn(),
+}))
+
+const mockApiHelpers = apiHelpers as jest.Mocked<typeof apiHelpers>
+const mockUseAuthStore = useAuthStore as unknown as jest.Mock
+
+const user = {
+  id: 'user-1',
+  email: 'ada@example.com',
+  username: 'ada',
+  displayName: 'Ada Lovelace',
+  isVerified: false,
+  followersCount: 0,
+  followingCount: 0,
+  postsCount: 0,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+}
+
+// The author's public profile, as the post service sends it with each post
+const author = {
+  id: user.id,
+  username: 'ada',
+  displayName: 'Ada Lovelace',
+  profileImageUrl: '',
+  isPrivate: false,
+  isVerified: false,
+}
+
+const savedPost = (content: string) => ({
+  id: 'post-1',
+  content,
+  authorId: user.id,
+  author,
+  type: 0,
+  visibility: 0,
+  isEdited: false,
+  repliesCount: 0,
+  mediaAttachments: [],
+  createdAt: '2024-01-02T00:00:00Z',
+  updatedAt: '2024-01-02T00:00:00Z',
+})
+
+const uploadedImage = {
+  id: 'media-1',
+  url: 'https://media.test/cat.png',
+  fileName: 'cat.png',
+  contentType: 'image/png',
+  fileSize: 3,
+  fileSizeFormatted: '3 B',
+  isImage: true,
+  isVideo: false,
+  isAudio: false,
+  uploadedAt: '2024-01-02T00:00:00Z',
+  processingStatus: 0,
+}
+
+let queryClient: QueryClient
+let requireConfirmedEmail: jest.Mock
+
+const renderComposer = (props: React.ComponentProps<typeof PostComposer> = {}) =>
+  render(
+    <QueryClientProvider client={queryClient}>
+      <PostComposer {...props} />
+    </QueryClientProvider>
+  )
+
+describe('PostComposer', () => {
+  beforeEach(() => {
+    queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } })
+    requireConfirmedEmail = jest.fn(() => true)
+    mockUseAuthStore.mockImplementation((selector) => selector({ user, requireConfirmedEmail }))
+  })
+
+  it('should count down the characters left and block posts over the limit', async () => {
+    renderComposer()
+    const textarea = screen.getByLabelText('Post content')
+
+    expect(screen.getByRole('button', { name: 'Post' })).toBeDisabled()
+
+    fireEvent.change(textarea, { target: { value: 'Hello' } })
+    expect(screen.getByText(String(POST_MAX_LENGTH - 5))).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Post' })).toBeEnabled()
+
+    fireEvent.change(textarea, { target: { value: 'x'.repeat(POST_MAX_LENGTH + 1) } })
+    expect(screen.getByText('-1')).toHaveClass('text-red-600')
+    expect(screen.getByRole('button', { name: 'Post' })).toBeDisabled()
+  })
+
+  it('should create a text post and put it at the top of the feed', async () => {
+    const onPosted = jest.fn()
+    const earlier = { ...savedPost('Earlier'), id: 'post-0' }
+    queryClient.setQueryData(postKeys.feed(user.id), { pages: [[earlier]], pageParams: [0] })
+    let respond: (value: unknown) => void = () => {}
+    mockApiHelpers.post.mockReturnValueOnce(new Promise((resolve) => (respond = resolve)))
+
+    renderComposer({ onPosted })
+    await userEvent.type(screen.getByLabelText('Post content'), '  Hello world  ')
+    await userEvent.click(screen.getByRole('button', { name: 'Post' }))
+
+    expect(mockApiHelpers.post).toHaveBeenCalledWith(
+      '/posts/text',
+      { content: 'Hello world', visibility: 0, authorId: user.id },
+      expect.anything()
+    )
+    // Shown before the service answers
+    await waitFor(() =>
+      expect(queryClient.getQueryData<{ pages: { content: string }[][] }>(postKeys.feed(user.id))?.pages[0]).toEqual([
+        expect.objectContaining({ content: 'Hello world', author }),
+        earlier,
+      ])
+    )
+
+    respond(savedPost('Hello world'))
+
+    await waitFor(() => expect(onPosted).toHaveBeenCalledWith(savedPost('Hello world')))
+    expect(queryClient.getQueryData<{ pages: unknown[][] }>(postKeys.feed(user.id))?.pages[0]).toEqual([
+      savedPost('Hello world'),
+      earlier,
+    ])
+    expect(screen.getByLabelText('Post content')).toHaveValue('')
+  })
+
+  it("should upload picked media and create a media post with the uploaded files' details", async () => {
+    mockApiHelpers.post.mockResolvedValueOnce(uploadedImage).mockResolvedValueOnce(savedPost(''))
+
+    renderComposer()
+    const file = new File(['cat'], 'cat.png', { type: 'image/png' })
+    await userEvent.upload(screen.getByTestId('post-media-input'), file)
+
+    expect(mockApiHelpers.post).toHaveBeenCalledWith('/media/upload', expect.any(FormData), expect.anything())
+    expect(screen.getByRole('button', { name: 'Remove cat.png' })).toBeInTheDocument()
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Post' })).toBeEnabled())
+
+    await userEvent.click(screen.getByRole('button', { name: 'Post' }))
+
+    await waitFor(() =>
+      expect(mockApiHelpers.post).toHaveBeenLastCalledWith(
+        '/posts/media',
+        {
+          content: '',
+          visibility: 0,
+          authorId: user.id,
+          mediaAttachments: [
+            { url: uploadedImage.url, fileName: 'cat.png', contentType: 'image/png', fileSize: 3 },
+          ],
+        },
+        expect.anything()
+      )
+    )
+  })
+
+  it('should post with the chosen visibility, defaulting to followers for a private account', async () => {
+    mockUseAuthStore.mockImplementation((selector) =>
+      selector({ user: { ...user, isPrivate: true }, requireConfirmedEmail })
+    )
+    mockApiHelpers.post.mockResolvedValueOnce(savedPost('Hello'))
+
+    renderComposer()
+    const select = screen.getByLabelText('Who can see this post')
+    expect(select).toHaveValue('1')
+
+    await userEvent.selectOptions(select, 'Only me')
+    await userEvent.type(screen.getByLabelText('Post content'), 'Hello')
+    await userEvent.click(screen.getByRole('button', { name: 'Post' }))
+
+    expect(mockApiHelpers.post).toHaveBeenCalledWith(
+      '/posts/text',
+      expect.objectContaining({ visibility: 2 }),
+      expect.anything()
+    )
+  })
+
+  it('should reject files that are not images, video or audio', async () => {
+    renderComposer()
+
+    await userEvent.upload(
+      screen.getByTestId('post-media-input'),
+      new File(['%PDF'], 'notes.pdf', { type: 'application/pdf' }),
+      { applyAccept: false }
+    )
+
+    expect(screen.getByText("notes.pdf isn't an image, video or audio file.")).toBeInTheDocument()
+    expect(mockApiHelpers.post).not.toHaveBeenCalled()
+  })
+
+  it('should take the post back out of the feed when it fails', async () => {
+    queryClient.setQueryData(postKeys.feed(user.id), { pages: [[]], pageParams: [0] })
+    mockApiHelpers.post.mockRejectedValueOnce(new Error('Service unavailable'))
+
+    renderComposer()
+    await userEvent.type(screen.getByLabelText('Post content'), 'Hello')
+    await userEvent.click(screen.getByRole('button', { name: 'Post' }))
+
+    expect(await screen.findByText('Could not publish your post. Please try again.')).toBeInTheDocument()
+    expect(queryClient.getQueryData<{ pages: unknown[][] }>(postKeys.feed(user.id))?.pages[0]).toEqual([])
+    expect(screen.getByLabelText('Post content')).toHaveValue('Hello')
+  })
+
+  it('should ask for a confirmed email before posting', async () => {
+    requireConfirmedEmail.mockReturnValue(false)
+
+    renderComposer()
+    await userEvent.type(screen.getByLabelText('Post content'), 'Hello')
+    await userEvent.click(screen.getByRole('button', { name: 'Post' }))
+
+    expect(screen.getByText(EMAIL_CONFIRMATION_REQUIRED)).toBeInTheDocument()
+    expect(mockApiHelpers.post).not.toHaveBeenCalled()
+  })
+})
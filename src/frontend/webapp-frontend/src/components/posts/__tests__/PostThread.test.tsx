@@ -0,0 +1,215 @@
+import React from 'react'
+import { act, render, screen, waitFor, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { PostThread, getReplyPermalink } from '../PostThread'
+import { REPLIES_PAGE_SIZE } from '@/hooks/usePostThread'
+import { apiHelpers } from '@/lib/api'
+import { useAuthStore } from '@/store/authStore'
+import { Post } from '@/types'
+
+jest.mock('@/lib/api', () => ({
+  apiHelpers: {
+    get: jest.fn(),
+    post: jest.fn(),
+  },
+  endpoints: {
+    posts: {
+      detail: (id: string) => `/posts/${id}`,
+      replies: (parentId: string) => `/posts/${parentId}/replies`,
+      reply: '/posts/reply',
+    },
+  },
+  getErrorMessage: jest.requireActual('@/lib/api').getErrorMessage,
+}))
+
+jest.mock('@/store/authStore', () => ({
+  EMAIL_CONFIRMATION_REQUIRED: 'Please confirm your email address to continue.',
+  useAuthStore: jest.fn(),
+}))
+
+const mockApiHelpers = apiHelpers as jest.Mocked<typeof apiHelpers>
+const mockUseAuthStore = useAuthStore as unknown as jest.Mock
+
+const user = {
+  id: 'user-1',
+  email: 'ada@example.com',
+  username: 'ada',
+  displayName: 'Ada Lovelace',
+  isVerified: false,
+  followersCount: 0,
+  followingCount: 0,
+  postsCount: 0,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+}
+
+// The author's public profile, as the post service sends it with each post
+const author = {
+  id: user.id,
+  username: 'ada',
+  displayName: 'Ada Lovelace',
+  profileImageUrl: '',
+  isPrivate: false,
+  isVerified: false,
+}
+
+const post = (id: string, parentPostId: string | null = null): Post => ({
+  id,
+  content: `Post ${id}`,
+  authorId: user.id,
+  author,
+  type: 0,
+  visibility: 0,
+  isEdited: false,
+  repliesCount: 0,
+  mediaAttachments: [],
+  parentPostId,
+  rootPostId: parentPostId && 'root',
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+})
+
+// root <- focus <- a <- a1 <- a1x, with a2 beside a1 and nothing under it; busy has pages of replies
+const posts: Record<string, Post> = {
+  root: post('root'),
+  focus: post('focus', 'root'),
+  busy: post('busy'),
+}
+const replies: Record<string, Post[]> = {
+  focus: [post('a', 'focus'), post('b', 'focus')],
+  a: [post('a1', 'a'), post('a2', 'a')],
+  a1: [post('a1x', 'a1')],
+  busy: Array.from({ length: REPLIES_PAGE_SIZE * 2 + 1 }, (_, i) => post(`busy${i}`, 'busy')),
+}
+// Counted by the service
+for (const each of [...Object.values(posts), ...Object.values(replies).flat()]) {
+  each.repliesCount = replies[each.id]?.length ?? 0
+}
+
+const renderThread = (postId = 'focus') => {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } })
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <PostThread postId={postId} />
+    </QueryClientProvider>
+  )
+}
+
+describe('PostThread', () => {
+  beforeEach(() => {
+    window.location.hash = ''
+    mockUseAuthStore.mockImplementation((selector) => selector({ user, requireConfirmedEmail: () => true }))
+    mockApiHelpers.get.mockImplementation(async (url: string, config?: { params?: { offset?: number } }) => {
+      const [, , id, kind] = url.split('/')
+      const offset = config?.params?.offset ?? 0
+      if (kind === 'replies') return (replies[id] ?? []).slice(offset, offset + REPLIES_PAGE_SIZE)
+      if (posts[id]) return posts[id]
+      throw new Error('Not found')
+    })
+  })
+
+  it('should show the posts above the focused one and its replies below', async () => {
+    renderThread()
+
+    expect(await screen.findByText('Post focus')).toBeInTheDocument()
+    const earlier = await screen.findByRole('region', { name: 'Earlier in the thread' })
+    expect(within(earlier).getByText('Post root')).toBeInTheDocument()
+    const thread = screen.getByRole('region', { name: 'Replies' })
+    expect(await within(thread).findByText('Post a')).toBeInTheDocument()
+    expect(within(thread).getByText('Post b')).toBeInTheDocument()
+    // One level down loads with the page
+    expect(await within(thread).findByText('Post a1')).toBeInTheDocument()
+  })
+
+  it('should load deeper branches on request and collapse them again', async () => {
+    renderThread()
+    await screen.findByText('Post a1')
+    expect(screen.queryByText('Post a1x')).not.toBeInTheDocument()
+
+    const a1 = screen.getByText('Post a1').closest('li') as HTMLElement
+    await userEvent.click(within(a1).getByRole('button', { name: 'Show more replies' }))
+
+    expect(await screen.findByText('Post a1x')).toBeInTheDocument()
+    expect(mockApiHelpers.get).toHaveBeenCalledWith('/posts/a1/replies', expect.anything())
+
+    await userEvent.click(within(a1).getByRole('button', { name: 'Hide replies' }))
+    expect(screen.queryByText('Post a1x')).not.toBeInTheDocument()
+  })
+
+  it('should only offer more replies under replies that have some, without loading them', async () => {
+    renderThread()
+    await screen.findByText('Post a2')
+
+    const a2 = screen.getByText('Post a2').closest('li') as HTMLElement
+    expect(within(a2).queryByRole('button', { name: 'Show more replies' })).not.toBeInTheDocument()
+    const a1 = screen.getByText('Post a1').closest('li') as HTMLElement
+    expect(within(a1).getByRole('button', { name: 'Show more replies' })).toBeInTheDocument()
+    // Collapsed branches wait until they're opened
+    expect(mockApiHelpers.get).not.toHaveBeenCalledWith('/posts/a1/replies', expect.anything())
+    expect(mockApiHelpers.get).not.toHaveBeenCalledWith('/posts/a2/replies', expect.anything())
+  })
+
+  it('should add a reply from the inline composer to the branch', async () => {
+    mockApiHelpers.post.mockResolvedValueOnce(post('b1', 'b'))
+    renderThread()
+    await screen.findByText('Post b')
+
+    const b = screen.getByText('Post b').closest('li') as HTMLElement
+    await userEvent.click(within(b).getByRole('button', { name: 'Reply' }))
+    const form = within(b).getByLabelText('Reply').closest('form') as HTMLElement
+    await userEvent.type(within(form).getByLabelText('Reply'), 'Post b1')
+    await userEvent.click(within(form).getByRole('button', { name: 'Reply' }))
+
+    expect(mockApiHelpers.post).toHaveBeenCalledWith(
+      '/posts/reply',
+      { parentPostId: 'b', content: 'Post b1', visibility: 0, authorId: user.id },
+      expect.anything()
+    )
+    expect(await within(b).findByText('Post b1')).toBeInTheDocument()
+  })
+
+  it('should scroll to and highlight the reply a permalink points to', async () => {
+    const reply = replies.focus[1]
+    expect(getReplyPermalink(reply)).toBe('/posts/focus#reply-b')
+    window.location.hash = '#reply-b'
+
+    renderThread()
+
+    await waitFor(() => expect(document.getElementById('reply-b')?.firstElementChild).toHaveClass('ring-yellow-300'))
+    expect(document.getElementById('reply-a')?.firstElementChild).not.toHaveClass('ring-yellow-300')
+  })
+
+  it('should load more replies until the one a permalink points to turns up', async () => {
+    window.location.hash = `#reply-busy${REPLIES_PAGE_SIZE * 2}`
+
+    renderThread('busy')
+
+    await waitFor(() =>
+      expect(document.getElementById(`reply-busy${REPLIES_PAGE_SIZE * 2}`)?.firstElementChild).toHaveClass(
+        'ring-yellow-300'
+      )
+    )
+    expect(mockApiHelpers.get).toHaveBeenCalledWith(
+      '/posts/busy/replies',
+      expect.objectContaining({
+        params: { viewerId: user.id, limit: REPLIES_PAGE_SIZE, offset: REPLIES_PAGE_SIZE * 2 },
+      })
+    )
+  })
+
+  it('should follow links to another reply on the same page', async () => {
+    renderThread()
+    await screen.findByText('Post b')
+
+    // As a <Link> does: the router takes the click over and pushes the URL without a hashchange
+    const link = document.createElement('a')
+    link.href = `${window.location.origin}${window.location.pathname}#reply-b`
+    link.addEventListener('click', (event) => event.preventDefault())
+    document.body.appendChild(link)
+    act(() => link.click())
+
+    await waitFor(() => expect(document.getElementById('reply-b')?.firstElementChild).toHaveClass('ring-yellow-300'))
+    link.remove()
+  })
+})
@@ -3,6 +3,10 @@
 import React, { useState } from 'react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools';
+import { useSessionMonitor } from '@/hooks/useSessionMonitor';
+import { useNavigationTracing } from '@/hooks/useNavigationTracing';
+import { useErrorReporting } from '@/hooks/useErrorReporting';
+import { toApiError } from '@/lib/api';
 
 // Function to create a new QueryClient
 const createQueryClient = () => new QueryClient({
@@ -13,9 +17,11 @@ const createQueryClient = () => new QueryClient({
       // Time before inactive queries are garbage collected
       gcTime: 10 * 60 * 1000, // 10 minutes (formerly cacheTime)
       // Retry failed requests
-      retry: (failureCount, error: any) => {
-        // Don't retry on 4xx errors except 401 (handled by interceptor)
-        if (error?.response?.status >= 400 && error?.response?.status < 500 && error?.response?.status !== 401) {
+      retry: (failureCount, error) => {
+        // Don't retry cancelled requests or 4xx errors except 401 (handled by interceptor)
+        const { status, code } = toApiError(error);
+        if (code === 'cancelled') return false;
+        if (status !== undefined && status >= 400 && status < 500 && status !== 401) {
           return false;
         }
         // Retry up to 3 times for other errors
@@ -39,6 +45,13 @@ export const Providers: React.FC<ProvidersProps> = ({ children }) => {
   // Create QueryClient only once per component lifecycle to prevent hydration issues
   const [queryClient] = useState(() => createQueryClient());
 
+  // Sign out promptly if this session is revoked from another device
+  useSessionMonitor();
+  // Trace page loads and route changes, and the API calls made from them
+  useNavigationTracing();
+  // Report unhandled errors, with breadcrumbs of what led up to them
+  useErrorReporting();
+
   return (
     <QueryClientProvider client={queryClient}>
       {children}
@@ -0,0 +1,124 @@
+'use client';
+
+import React from 'react';
+import { useRouter } from 'next/navigation';
+import { Monitor, Smartphone, MapPin } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import {
+  SessionListItem,
+  useLogoutEverywhere,
+  useRevokeOtherSessions,
+  useRevokeSession,
+  useSessions,
+} from '@/hooks/useSessions';
+import { getErrorMessage } from '@/lib/api';
+import { describeUserAgent, formatRelativeTime } from '@/lib/utils';
+
+const isMobile = (session: SessionListItem) =>
+  /Mobile|Android|iPhone|iPad/.test(session.userAgent ?? session.deviceInfo ?? '');
+
+export const ActiveSessions: React.FC = () => {
+  const router = useRouter();
+  const { data: sessions, isLoading, error } = useSessions();
+  const revokeSession = useRevokeSession();
+  const revokeOtherSessions = useRevokeOtherSessions();
+  const logoutEverywhere = useLogoutEverywhere();
+
+  const otherSessions = sessions?.filter((session) => !session.isCurrent) ?? [];
+  const mutationError = revokeSession.error || revokeOtherSessions.error || logoutEverywhere.error;
+
+  const handleLogoutEverywhere = () => {
+    logoutEverywhere.mutate(undefined, { onSuccess: () => router.push('/auth/login') });
+  };
+
+  return (
+    <section className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+      <div>
+        <h2 className="font-semibold text-gray-900">Where you&apos;re signed in</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Sign out of sessions you don&apos;t recognise. Signed-out devices will need your password
+          to get back in.
+        </p>
+      </div>
+
+      {(error || mutationError) && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="text-sm text-red-800">
+            {getErrorMessage(error || mutationError, 'Could not update your sessions. Please try again.')}
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {sessions?.map((session) => {
+            const DeviceIcon = isMobile(session) ? Smartphone : Monitor;
+
+            return (
+              <li key={session.sessionId} className="flex items-center justify-between py-4">
+                <div className="flex items-start space-x-3">
+                  <DeviceIcon className="w-6 h-6 text-gray-500 mt-0.5" />
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm font-medium text-gray-900">
+                        {session.deviceInfo || describeUserAgent(session.userAgent)}
+                      </span>
+                      {session.isCurrent && (
+                        <span className="text-xs font-medium rounded-full px-2 py-0.5 bg-green-100 text-green-800">
+                          This device
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center text-xs text-gray-500 mt-1 space-x-2">
+                      {session.ipAddress && <span>{session.ipAddress}</span>}
+                      {session.location && (
+                        <span className="flex items-center">
+                          <MapPin className="w-3 h-3 mr-0.5" />
+                          {session.location}
+                        </span>
+                      )}
+                      <span>
+                        {session.isCurrent
+                          ? 'Active now'
+                          : `Last active ${formatRelativeTime(session.lastActivityAt)}`}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+
+                {!session.isCurrent && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    loading={revokeSession.isPending && revokeSession.variables === session.sessionId}
+                    onClick={() => revokeSession.mutate(session.sessionId)}
+                  >
+                    Sign out
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap gap-3 pt-2">
+        <Button
+          variant="outline"
+          disabled={otherSessions.length === 0}
+          loading={revokeOtherSessions.isPending}
+          onClick={() => sessions && revokeOtherSessions.mutate(sessions)}
+        >
+          Sign out all other sessions
+        </Button>
+        <Button variant="danger" loading={logoutEverywhere.isPending} onClick={handleLogoutEverywhere}>
+          Sign out everywhere
+        </Button>
+      </div>
+    </section>
+  );
+};
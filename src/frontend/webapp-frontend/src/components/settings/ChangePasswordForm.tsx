@@ -0,0 +1,128 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Eye, EyeOff } from 'lucide-react';
+import { useAuthStore } from '@/store/authStore';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { PasswordStrengthMeter } from '@/components/auth/PasswordStrengthMeter';
+import { getErrorMessage } from '@/lib/api';
+import { passwordSchema, passwordStrengthRefinement, setServerFieldErrors } from '@/lib/validation';
+import { ChangePasswordFormData, User } from '@/types';
+
+const buildChangePasswordSchema = (user: User | null) => z.object({
+  currentPassword: z.string().min(1, 'Enter your current password'),
+  password: passwordSchema,
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+}).refine((data) => data.password !== data.currentPassword, {
+  message: 'Choose a password different from your current one',
+  path: ["password"],
+}).superRefine(passwordStrengthRefinement(() => [user?.username, user?.email, user?.displayName]));
+
+export const ChangePasswordForm: React.FC = () => {
+  const { user, changePassword } = useAuthStore();
+  const [showPassword, setShowPassword] = useState(false);
+  const [error, setError] = useState<string | undefined>();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+    watch,
+    setError: setFieldError,
+  } = useForm<ChangePasswordFormData>({
+    resolver: zodResolver(buildChangePasswordSchema(user)),
+  });
+
+  const onSubmit = async (data: ChangePasswordFormData) => {
+    setError(undefined);
+    try {
+      // Success signs this device out; AuthGuard then shows the sign-in page with a notice
+      await changePassword({
+        currentPassword: data.currentPassword,
+        newPassword: data.password,
+        confirmPassword: data.confirmPassword,
+      });
+    } catch (error) {
+      const hasFieldErrors = setServerFieldErrors(
+        error,
+        setFieldError,
+        ['currentPassword', 'password', 'confirmPassword'],
+        { newPassword: 'password' }
+      );
+      if (!hasFieldErrors) {
+        setError(getErrorMessage(error, 'Could not change your password. Please try again.'));
+      }
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+      <div>
+        <h2 className="font-semibold text-gray-900">Password</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Changing your password signs you out on all devices, including this one.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="text-sm text-red-800">{error}</div>
+        </div>
+      )}
+
+      <form className="space-y-4" onSubmit={handleSubmit(onSubmit)}>
+        <Input
+          {...register('currentPassword')}
+          type="password"
+          label="Current password"
+          autoComplete="current-password"
+          error={errors.currentPassword?.message}
+          required
+        />
+
+        <div className="relative">
+          <Input
+            {...register('password')}
+            type={showPassword ? 'text' : 'password'}
+            label="New password"
+            autoComplete="new-password"
+            error={errors.password?.message}
+            required
+          />
+          <button
+            type="button"
+            className="absolute right-3 top-8 text-gray-500 hover:text-gray-700"
+            onClick={() => setShowPassword(!showPassword)}
+          >
+            {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+          </button>
+        </div>
+
+        <PasswordStrengthMeter
+          password={watch('password')}
+          userInputs={[user?.username, user?.email, user?.displayName]}
+        />
+
+        <Input
+          {...register('confirmPassword')}
+          type={showPassword ? 'text' : 'password'}
+          label="Confirm new password"
+          autoComplete="new-password"
+          error={errors.confirmPassword?.message}
+          required
+        />
+
+        <Button type="submit" loading={isSubmitting} disabled={isSubmitting}>
+          Change password
+        </Button>
+      </form>
+    </section>
+  );
+};
@@ -0,0 +1,79 @@
+'use client';
+
+import React from 'react';
+import { useAuthStore } from '@/store/authStore';
+import { selectIdlePreferences, usePreferencesStore } from '@/store/preferencesStore';
+import { TokenManager } from '@/lib/api';
+import { IDLE_TIMEOUT_OPTIONS_MINUTES, SESSION_ONLY_IDLE_TIMEOUT_MINUTES } from '@/lib/idleActivity';
+import { IdleAction } from '@/types';
+
+const formatMinutes = (minutes: number) =>
+  minutes % 60 === 0 ? `${minutes / 60} hour${minutes === 60 ? '' : 's'}` : `${minutes} minutes`;
+
+export const IdleTimeoutSettings: React.FC = () => {
+  const user = useAuthStore((state) => state.user);
+  const preferences = usePreferencesStore(selectIdlePreferences(user?.id));
+  const setIdlePreferences = usePreferencesStore((state) => state.setIdlePreferences);
+
+  if (!user) return null;
+
+  const isCapped =
+    !TokenManager.isPersistent() && preferences.timeoutMinutes > SESSION_ONLY_IDLE_TIMEOUT_MINUTES;
+
+  return (
+    <section className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+      <div>
+        <h2 className="font-semibold text-gray-900">Inactivity timeout</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Protect your account on shared computers when you step away. Applies to this browser.
+        </p>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-1">
+          <label htmlFor="idle-timeout" className="block text-sm font-medium text-gray-700">
+            After
+          </label>
+          <select
+            id="idle-timeout"
+            className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            value={preferences.timeoutMinutes}
+            onChange={(event) =>
+              setIdlePreferences(user.id, { timeoutMinutes: Number(event.target.value) })
+            }
+          >
+            {IDLE_TIMEOUT_OPTIONS_MINUTES.map((minutes) => (
+              <option key={minutes} value={minutes}>
+                {formatMinutes(minutes)} of inactivity
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-1">
+          <label htmlFor="idle-action" className="block text-sm font-medium text-gray-700">
+            Then
+          </label>
+          <select
+            id="idle-action"
+            className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            value={preferences.action}
+            onChange={(event) =>
+              setIdlePreferences(user.id, { action: event.target.value as IdleAction })
+            }
+          >
+            <option value="lock">Lock the screen</option>
+            <option value="logout">Sign out</option>
+          </select>
+        </div>
+      </div>
+
+      {isCapped && (
+        <p className="text-sm text-gray-600">
+          You didn&apos;t choose &ldquo;Remember me&rdquo; when signing in, so this session times out
+          after {SESSION_ONLY_IDLE_TIMEOUT_MINUTES} minutes.
+        </p>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,241 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import QRCode from 'qrcode';
+import { ShieldCheck, ShieldOff } from 'lucide-react';
+import { useAuthStore } from '@/store/authStore';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { getErrorMessage } from '@/lib/api';
+import { buildOtpAuthUri, formatSecretForDisplay } from '@/lib/totp';
+import { TwoFactorFormData } from '@/types';
+
+const ISSUER = 'WebApp';
+
+const codeSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .regex(/^\d{6}$/, 'Enter the 6-digit code from your authenticator app'),
+});
+
+type Step = 'idle' | 'setup' | 'recovery' | 'disable';
+
+export const TwoFactorSettings: React.FC = () => {
+  const { user, enableTwoFactor, confirmTwoFactor, disableTwoFactor } = useAuthStore();
+  const [step, setStep] = useState<Step>('idle');
+  const [secret, setSecret] = useState<string | null>(null);
+  const [qrCodeUrl, setQrCodeUrl] = useState<string | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | undefined>();
+
+  const isEnabled = !!user?.isTwoFactorEnabled;
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<TwoFactorFormData>({
+    resolver: zodResolver(codeSchema),
+  });
+
+  // Render the enrollment secret as a QR code for authenticator apps
+  useEffect(() => {
+    if (!secret || !user) return;
+
+    let cancelled = false;
+    const uri = buildOtpAuthUri({ secret, accountName: user.email, issuer: ISSUER });
+
+    QRCode.toDataURL(uri, { width: 192, margin: 1 })
+      .then((url) => {
+        if (!cancelled) setQrCodeUrl(url);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Could not generate the QR code. Enter the key manually instead.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [secret, user]);
+
+  const goToStep = (next: Step) => {
+    setStep(next);
+    setError(undefined);
+    reset({ code: '' });
+  };
+
+  const startSetup = async () => {
+    setIsWorking(true);
+    setError(undefined);
+    try {
+      setSecret(await enableTwoFactor());
+      goToStep('setup');
+    } catch (error) {
+      setError(getErrorMessage(error, 'Could not start two-factor setup'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Drops the unconfirmed secret so the account stays without 2FA
+  const cancelSetup = async () => {
+    setIsWorking(true);
+    setError(undefined);
+    try {
+      await disableTwoFactor();
+      setSecret(null);
+      setQrCodeUrl(null);
+      goToStep('idle');
+    } catch (error) {
+      setError(getErrorMessage(error, 'Could not cancel two-factor setup'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const onSubmit = async ({ code }: TwoFactorFormData) => {
+    setIsWorking(true);
+    setError(undefined);
+    try {
+      if (step === 'setup') {
+        setRecoveryCodes(await confirmTwoFactor(code.trim()));
+        setSecret(null);
+        setQrCodeUrl(null);
+        goToStep('recovery');
+      } else {
+        await disableTwoFactor(code.trim());
+        goToStep('idle');
+      }
+    } catch (error) {
+      setError(
+        getErrorMessage(error, 'That code was not accepted. Check the time on your device and try again.')
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="font-semibold text-gray-900">Two-factor authentication</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Require a code from an authenticator app in addition to your password when signing in.
+          </p>
+        </div>
+        <span
+          className={`inline-flex items-center text-xs font-medium rounded-full px-2 py-1 ${
+            isEnabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+          }`}
+        >
+          {isEnabled ? (
+            <ShieldCheck className="w-3 h-3 mr-1" />
+          ) : (
+            <ShieldOff className="w-3 h-3 mr-1" />
+          )}
+          {isEnabled ? 'On' : 'Off'}
+        </span>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="text-sm text-red-800">{error}</div>
+        </div>
+      )}
+
+      {step === 'idle' &&
+        (isEnabled ? (
+          <Button variant="outline" onClick={() => goToStep('disable')}>
+            Turn off two-factor authentication
+          </Button>
+        ) : (
+          <Button onClick={startSetup} loading={isWorking}>
+            Set up two-factor authentication
+          </Button>
+        ))}
+
+      {step === 'setup' && secret && (
+        <div className="space-y-4">
+          <ol className="list-decimal list-inside text-sm text-gray-700 space-y-1">
+            <li>Scan this QR code with your authenticator app.</li>
+            <li>Enter the 6-digit code the app shows to finish setup.</li>
+          </ol>
+          <div className="flex flex-col items-center space-y-2">
+            {qrCodeUrl && (
+              <img src={qrCodeUrl} alt="QR code for your authenticator app" width={192} height={192} />
+            )}
+            <p className="text-xs text-gray-500">Can&apos;t scan it? Enter this key instead:</p>
+            <code className="text-sm font-mono text-gray-900 break-all">
+              {formatSecretForDisplay(secret)}
+            </code>
+          </div>
+        </div>
+      )}
+
+      {step === 'recovery' && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700">
+            Two-factor authentication is on. Save these recovery codes somewhere safe: each one signs you in
+            once if you lose your authenticator app, and they won&apos;t be shown again.
+          </p>
+          <ul aria-label="Recovery codes" className="grid grid-cols-2 gap-2 rounded-md bg-gray-50 p-4">
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode} className="font-mono text-sm text-gray-900">
+                {recoveryCode}
+              </li>
+            ))}
+          </ul>
+          <Button
+            onClick={() => {
+              setRecoveryCodes([]);
+              goToStep('idle');
+            }}
+          >
+            Done
+          </Button>
+        </div>
+      )}
+
+      {(step === 'setup' || step === 'disable') && (
+        <form className="space-y-4" onSubmit={handleSubmit(onSubmit)}>
+          <Input
+            {...register('code')}
+            type="text"
+            label="Authentication code"
+            placeholder="123456"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={6}
+            error={errors.code?.message}
+            required
+          />
+          <div className="flex space-x-3">
+            <Button
+              type="submit"
+              variant={step === 'disable' ? 'danger' : 'primary'}
+              loading={isWorking}
+            >
+              {step === 'disable' ? 'Turn off' : 'Verify and enable'}
+            </Button>
+            {step === 'disable' ? (
+              <Button variant="ghost" onClick={() => goToStep('idle')}>
+                Cancel
+              </Button>
+            ) : (
+              <Button variant="ghost" onClick={cancelSetup} disabled={isWorking}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+      )}
+    </section>
+  );
+};
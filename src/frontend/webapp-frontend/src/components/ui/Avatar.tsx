@@ -0,0 +1,32 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { User } from '@/types';
+
+const avatarSizes = {
+  sm: 'w-8 h-8 text-xs',
+  md: 'w-10 h-10 text-sm',
+  lg: 'w-12 h-12 text-lg',
+};
+
+interface AvatarProps {
+  user?: Pick<User, 'displayName' | 'avatarUrl'>;
+  size?: keyof typeof avatarSizes;
+  className?: string;
+}
+
+// The user's picture, or the first letter of their name
+export const Avatar: React.FC<AvatarProps> = ({ user, size = 'md', className }) => (
+  <div
+    className={cn(
+      'flex-shrink-0 bg-gray-300 rounded-full flex items-center justify-center overflow-hidden',
+      avatarSizes[size],
+      className
+    )}
+  >
+    {user?.avatarUrl ? (
+      <img src={user.avatarUrl} alt={user.displayName} className="w-full h-full object-cover" />
+    ) : (
+      <span className="font-semibold text-gray-600">{user?.displayName?.[0]?.toUpperCase()}</span>
+    )}
+  </div>
+);
@@ -0,0 +1,47 @@
+'use client';
+
+import React, { useEffect, useId } from 'react';
+import { cn } from '@/lib/utils';
+
+interface ModalProps {
+  open: boolean;
+  title: string;
+  children: React.ReactNode;
+  // Called on Escape or a click on the backdrop; omit to make the dialog dismissable only from inside
+  onClose?: () => void;
+  className?: string;
+}
+
+export const Modal: React.FC<ModalProps> = ({ open, title, children, onClose, className }) => {
+  const titleId = useId();
+
+  useEffect(() => {
+    if (!open || !onClose) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [open, onClose]);
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/50" aria-hidden="true" onClick={onClose} />
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        className={cn('relative w-full max-w-md rounded-lg bg-white p-6 shadow-xl', className)}
+      >
+        <h2 id={titleId} className="text-lg font-semibold text-gray-900">
+          {title}
+        </h2>
+        <div className="mt-4">{children}</div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,151 @@
+import { renderHook, act } from '@testing-library/react'
+import {
+  AVAILABILITY_CHECK_DELAY_MS,
+  checkUsernameAvailability,
+  useAvailabilityCheck,
+  useUsernameSuggestions,
+} from '../useAvailabilityCheck'
+import { apiHelpers } from '@/lib/api'
+import { availabilityResponseSchema } from '@/lib/schemas'
+
+jest.mock('@/lib/api', () => ({
+  apiHelpers: {
+    get: jest.fn(),
+  },
+  endpoints: {
+    users: {
+      checkUsername: (username: string) => `/users/check-username/${username}`,
+      checkEmail: (email: string) => `/users/check-email/${email}`,
+    },
+  },
+}))
+
+const mockApiHelpers = apiHelpers as jest.Mocked<typeof apiHelpers>
+
+// Let the debounce elapse and the mocked request resolve
+const flush = async () => {
+  await act(async () => {
+    jest.advanceTimersByTime(AVAILABILITY_CHECK_DELAY_MS)
+  })
+}
+
+describe('useAvailabilityCheck', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+    jest.clearAllMocks()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should report an available value after the debounce', async () => {
+    mockApiHelpers.get.mockResolvedValue({ available: true })
+    const { result } = renderHook(() => useAvailabilityCheck('testuser', checkUsernameAvailability, true))
+
+    expect(result.current).toBe('checking')
+    expect(mockApiHelpers.get).not.toHaveBeenCalled()
+
+    await flush()
+
+    expect(result.current).toBe('available')
+    expect(mockApiHelpers.get).toHaveBeenCalledWith('/users/check-username/testuser', {
+      signal: expect.any(AbortSignal),
+      schema: availabilityResponseSchema,
+    })
+  })
+
+  it('should report a taken value', async () => {
+    mockApiHelpers.get.mockResolvedValue({ available: false })
+    const { result } = renderHook(() => useAvailabilityCheck('testuser', checkUsernameAvailability, true))
+
+    await flush()
+
+    expect(result.current).toBe('taken')
+  })
+
+  it('should only check the latest value while the user is typing', async () => {
+    mockApiHelpers.get.mockResolvedValue({ available: true })
+    const { rerender } = renderHook(
+      ({ value }) => useAvailabilityCheck(value, checkUsernameAvailability, true),
+      { initialProps: { value: 'tes' } }
+    )
+
+    act(() => {
+      jest.advanceTimersByTime(AVAILABILITY_CHECK_DELAY_MS / 2)
+    })
+    rerender({ value: 'testuser' })
+    await flush()
+
+    expect(mockApiHelpers.get).toHaveBeenCalledTimes(1)
+    expect(mockApiHelpers.get).toHaveBeenCalledWith('/users/check-username/testuser', expect.anything())
+  })
+
+  it('should cancel an in-flight check when the value changes', async () => {
+    let firstSignal: AbortSignal | undefined
+    mockApiHelpers.get.mockImplementationOnce((_url, config) => {
+      firstSignal = config?.signal as AbortSignal
+      return new Promise(() => {})
+    })
+    mockApiHelpers.get.mockResolvedValue({ available: false })
+    const { result, rerender } = renderHook(
+      ({ value }) => useAvailabilityCheck(value, checkUsernameAvailability, true),
+      { initialProps: { value: 'first' } }
+    )
+
+    await flush()
+    rerender({ value: 'second' })
+    await flush()
+
+    expect(firstSignal?.aborted).toBe(true)
+    expect(result.current).toBe('taken')
+  })
+
+  it('should stay idle while disabled', async () => {
+    const { result } = renderHook(() => useAvailabilityCheck('ab', checkUsernameAvailability, false))
+
+    await flush()
+
+    expect(result.current).toBe('idle')
+    expect(mockApiHelpers.get).not.toHaveBeenCalled()
+  })
+
+  it('should report errors without blocking the form', async () => {
+    mockApiHelpers.get.mockRejectedValue(new Error('Network error'))
+    const { result } = renderHook(() => useAvailabilityCheck('testuser', checkUsernameAvailability, true))
+
+    await flush()
+
+    expect(result.current).toBe('error')
+  })
+})
+
+describe('useUsernameSuggestions', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+    jest.clearAllMocks()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should suggest available alternatives built from the display name', async () => {
+    const takenCandidates = ['/users/check-username/janedoe', '/users/check-username/jdoe']
+    mockApiHelpers.get.mockImplementation(async (url) => ({ available: !takenCandidates.includes(url) }))
+    const { result } = renderHook(() => useUsernameSuggestions('Jane Doe', 'jane'))
+
+    await flush()
+
+    expect(result.current).toEqual(['jane_doe', 'jane_d', 'janedoe1'])
+  })
+
+  it('should not suggest anything while the username is available', async () => {
+    const { result } = renderHook(() => useUsernameSuggestions('Jane Doe', null))
+
+    await flush()
+
+    expect(result.current).toEqual([])
+    expect(mockApiHelpers.get).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,52 @@
+import { renderHook, act } from '@testing-library/react'
+import { useCountdown } from '../useCountdown'
+
+describe('useCountdown', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 1_000_000 })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should be 0 without an end time', () => {
+    const { result } = renderHook(() => useCountdown(undefined))
+
+    expect(result.current).toBe(0)
+  })
+
+  it('should be 0 once the end time has passed', () => {
+    const { result } = renderHook(() => useCountdown(Date.now() - 5000))
+
+    expect(result.current).toBe(0)
+  })
+
+  it('should tick down once a second and stop at 0', () => {
+    const endsAt = Date.now() + 3000
+    const { result } = renderHook(() => useCountdown(endsAt))
+
+    expect(result.current).toBe(3)
+
+    act(() => {
+      jest.advanceTimersByTime(1000)
+    })
+    expect(result.current).toBe(2)
+
+    act(() => {
+      jest.advanceTimersByTime(5000)
+    })
+    expect(result.current).toBe(0)
+    expect(jest.getTimerCount()).toBe(0)
+  })
+
+  it('should restart when the end time changes', () => {
+    const { result, rerender } = renderHook(({ endsAt }) => useCountdown(endsAt), {
+      initialProps: { endsAt: Date.now() + 2000 },
+    })
+
+    rerender({ endsAt: Date.now() + 60_000 })
+
+    expect(result.current).toBe(60)
+  })
+})
@@ -0,0 +1,137 @@
+import { renderHook, act } from '@testing-library/react'
+import { useIdleTimeout } from '../useIdleTimeout'
+import { IDLE_SIGN_OUT_NOTICE, useAuthStore } from '@/store/authStore'
+import { usePreferencesStore } from '@/store/preferencesStore'
+import { TokenManager } from '@/lib/api'
+import { IDLE_WARNING_MS, getLastActivityAt } from '@/lib/idleActivity'
+
+jest.mock('@/store/authStore', () => ({
+  IDLE_SIGN_OUT_NOTICE: 'Signed out for inactivity',
+  useAuthStore: jest.fn(),
+}))
+
+jest.mock('@/lib/api', () => ({
+  TokenManager: {
+    isPersistent: jest.fn(),
+  },
+}))
+
+jest.mock('@/lib/authSync', () => ({
+  broadcastAuthEvent: jest.fn(),
+  subscribeToAuthEvents: jest.fn(),
+}))
+
+const mockUseAuthStore = useAuthStore as unknown as jest.Mock
+const mockTokenManager = TokenManager as jest.Mocked<typeof TokenManager>
+
+const minutes = (count: number) => count * 60 * 1000
+
+describe('useIdleTimeout', () => {
+  const lock = jest.fn()
+  const logout = jest.fn()
+  let authState: Record<string, unknown>
+
+  const advance = (ms: number) => {
+    act(() => {
+      jest.advanceTimersByTime(ms)
+    })
+  }
+
+  beforeEach(() => {
+    // Activity is tracked module-wide, so carry on from where the previous test's clock stopped
+    jest.useFakeTimers({ now: getLastActivityAt() })
+    jest.clearAllMocks()
+    authState = { user: { id: 'user-1' }, isAuthenticated: true, isLocked: false, lock, logout }
+    mockUseAuthStore.mockImplementation((selector: (state: typeof authState) => unknown) =>
+      selector(authState)
+    )
+    mockTokenManager.isPersistent.mockReturnValue(true)
+    usePreferencesStore.setState({ idle: { 'user-1': { timeoutMinutes: 5, action: 'lock' } } })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should warn with a countdown before the timeout', () => {
+    const { result } = renderHook(() => useIdleTimeout())
+
+    advance(minutes(5) - IDLE_WARNING_MS - 1000)
+    expect(result.current.isWarning).toBe(false)
+
+    advance(2000)
+    expect(result.current.isWarning).toBe(true)
+    expect(result.current.secondsRemaining).toBe(59)
+  })
+
+  it('should lock the screen once the timeout passes', () => {
+    renderHook(() => useIdleTimeout())
+
+    advance(minutes(5))
+
+    expect(lock).toHaveBeenCalledTimes(1)
+    expect(logout).not.toHaveBeenCalled()
+  })
+
+  it('should sign out instead when the user prefers it', () => {
+    usePreferencesStore.setState({ idle: { 'user-1': { timeoutMinutes: 5, action: 'logout' } } })
+    renderHook(() => useIdleTimeout())
+
+    advance(minutes(5))
+
+    expect(logout).toHaveBeenCalledWith(IDLE_SIGN_OUT_NOTICE)
+    expect(lock).not.toHaveBeenCalled()
+  })
+
+  it('should restart the countdown on user input', () => {
+    const { result } = renderHook(() => useIdleTimeout())
+
+    advance(minutes(3))
+    act(() => {
+      window.dispatchEvent(new Event('keydown'))
+    })
+    advance(minutes(3))
+
+    expect(result.current.isWarning).toBe(false)
+    expect(lock).not.toHaveBeenCalled()
+  })
+
+  it('should only dismiss the warning when the user chooses to stay', () => {
+    const { result } = renderHook(() => useIdleTimeout())
+
+    advance(minutes(4) + 30 * 1000)
+    act(() => {
+      window.dispatchEvent(new Event('mousemove'))
+    })
+    advance(1000)
+    expect(result.current.isWarning).toBe(true)
+
+    act(() => {
+      result.current.stayActive()
+    })
+    expect(result.current.isWarning).toBe(false)
+
+    advance(minutes(4))
+    expect(lock).not.toHaveBeenCalled()
+  })
+
+  it('should use a shorter timeout for sessions without remember-me', () => {
+    mockTokenManager.isPersistent.mockReturnValue(false)
+    usePreferencesStore.setState({ idle: { 'user-1': { timeoutMinutes: 120, action: 'lock' } } })
+    renderHook(() => useIdleTimeout())
+
+    advance(minutes(10))
+
+    expect(lock).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not run while signed out or locked', () => {
+    authState = { ...authState, isLocked: true }
+    renderHook(() => useIdleTimeout())
+
+    advance(minutes(60))
+
+    expect(lock).not.toHaveBeenCalled()
+    expect(logout).not.toHaveBeenCalled()
+  })
+})
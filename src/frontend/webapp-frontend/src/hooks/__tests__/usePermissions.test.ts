@@ -0,0 +1,79 @@
+import { renderHook, waitFor } from '@testing-library/react'
+import { usePermissions } from '../usePermissions'
+import { useAuthStore } from '@/store/authStore'
+import { TokenManager, isAccessTokenExpired, refreshAccessToken } from '@/lib/api'
+
+jest.mock('@/store/authStore', () => ({
+  useAuthStore: jest.fn(),
+}))
+
+jest.mock('@/lib/api', () => ({
+  TokenManager: {
+    getClaims: jest.fn(),
+  },
+  isAccessTokenExpired: jest.fn(),
+  refreshAccessToken: jest.fn(),
+}))
+
+const mockUseAuthStore = useAuthStore as unknown as jest.Mock
+const mockGetClaims = TokenManager.getClaims as jest.Mock
+const mockIsAccessTokenExpired = isAccessTokenExpired as jest.Mock
+const mockRefreshAccessToken = refreshAccessToken as jest.Mock
+
+const claims = (roles: string[]) => ({ userId: 'user-1', roles, isVerified: true })
+
+describe('usePermissions', () => {
+  const setAuthenticated = (isAuthenticated: boolean) => {
+    const state = { isAuthenticated, user: isAuthenticated ? { id: 'user-1' } : null }
+    mockUseAuthStore.mockImplementation((selector: (s: typeof state) => unknown) => selector(state))
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockIsAccessTokenExpired.mockReturnValue(false)
+    mockRefreshAccessToken.mockResolvedValue('fresh')
+  })
+
+  it('should grant the permissions of the token roles', () => {
+    setAuthenticated(true)
+    mockGetClaims.mockReturnValue(claims(['Admin']))
+
+    const { result } = renderHook(() => usePermissions())
+
+    expect(result.current.hasRole('Admin')).toBe(true)
+    expect(result.current.can('maintenance:cleanup')).toBe(true)
+    expect(mockRefreshAccessToken).not.toHaveBeenCalled()
+  })
+
+  it('should grant nothing to users without roles', () => {
+    setAuthenticated(true)
+    mockGetClaims.mockReturnValue(claims([]))
+
+    const { result } = renderHook(() => usePermissions())
+
+    expect(result.current.permissions).toEqual([])
+    expect(result.current.can('admin:access')).toBe(false)
+  })
+
+  it('should grant nothing when signed out', () => {
+    setAuthenticated(false)
+    mockGetClaims.mockReturnValue(claims(['Admin']))
+
+    const { result } = renderHook(() => usePermissions())
+
+    expect(result.current.can('admin:access')).toBe(false)
+    expect(mockRefreshAccessToken).not.toHaveBeenCalled()
+  })
+
+  it('should refresh an expired access token and use the new claims', async () => {
+    setAuthenticated(true)
+    mockGetClaims.mockReturnValueOnce(claims([])).mockReturnValueOnce(claims([]))
+    mockGetClaims.mockReturnValue(claims(['Admin']))
+    mockIsAccessTokenExpired.mockReturnValue(true)
+
+    const { result } = renderHook(() => usePermissions())
+
+    await waitFor(() => expect(result.current.can('admin:access')).toBe(true))
+    expect(mockRefreshAccessToken).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,122 @@
+import React from 'react'
+import { renderHook, waitFor, act } from '@testing-library/react'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { useLogoutEverywhere, useRevokeOtherSessions, useRevokeSession, useSessions } from '../useSessions'
+import { TokenManager, apiHelpers } from '@/lib/api'
+import { useAuthStore } from '@/store/authStore'
+
+jest.mock('@/lib/api', () => ({
+  TokenManager: {
+    getSessionId: jest.fn(),
+  },
+  apiHelpers: {
+    get: jest.fn(),
+    delete: jest.fn(),
+  },
+  endpoints: {
+    auth: {
+      sessions: '/auth/sessions',
+      session: (sessionId: string) => `/auth/sessions/${sessionId}`,
+    },
+  },
+}))
+
+jest.mock('@/store/authStore', () => ({
+  EMAIL_CONFIRMATION_REQUIRED: 'Please confirm your email address first.',
+  useAuthStore: jest.fn(),
+}))
+
+const mockApiHelpers = apiHelpers as jest.Mocked<typeof apiHelpers>
+const mockTokenManager = TokenManager as jest.Mocked<typeof TokenManager>
+const mockUseAuthStore = useAuthStore as unknown as jest.Mock
+const mockLogoutAllDevices = jest.fn()
+
+const session = (sessionId: string, lastActivityAt: string, isActive = true) => ({
+  id: `id-${sessionId}`,
+  sessionId,
+  createdAt: '2024-01-01T00:00:00Z',
+  lastActivityAt,
+  expiresAt: '2024-02-01T00:00:00Z',
+  isActive,
+})
+
+const createWrapper = () => {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } })
+  const Wrapper = ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  )
+  return Wrapper
+}
+
+describe('useSessions', () => {
+  beforeEach(() => {
+    mockTokenManager.getSessionId.mockReturnValue('current')
+    mockApiHelpers.get.mockResolvedValue([
+      session('old', '2024-01-02T00:00:00Z'),
+      session('current', '2024-01-03T00:00:00Z'),
+      session('recent', '2024-01-04T00:00:00Z'),
+      session('ended', '2024-01-05T00:00:00Z', false),
+    ])
+  })
+
+  it('should list active sessions with the current one first', async () => {
+    const { result } = renderHook(() => useSessions(), { wrapper: createWrapper() })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+
+    expect(result.current.data?.map((s) => [s.sessionId, s.isCurrent])).toEqual([
+      ['current', true],
+      ['recent', false],
+      ['old', false],
+    ])
+  })
+
+  it('should revoke a single session and drop it from the list', async () => {
+    mockApiHelpers.delete.mockResolvedValue(undefined)
+    const wrapper = createWrapper()
+    const { result } = renderHook(() => ({ sessions: useSessions(), revoke: useRevokeSession() }), {
+      wrapper,
+    })
+    await waitFor(() => expect(result.current.sessions.isSuccess).toBe(true))
+
+    await act(async () => {
+      await result.current.revoke.mutateAsync('old')
+    })
+
+    expect(mockApiHelpers.delete).toHaveBeenCalledWith('/auth/sessions/old', undefined)
+    await waitFor(() =>
+      expect(result.current.sessions.data?.map((s) => s.sessionId)).toEqual(['current', 'recent'])
+    )
+  })
+
+  it('should revoke every session except the current one', async () => {
+    mockApiHelpers.delete.mockResolvedValue(undefined)
+    const { result } = renderHook(
+      () => ({ sessions: useSessions(), revokeOthers: useRevokeOtherSessions() }),
+      { wrapper: createWrapper() }
+    )
+    await waitFor(() => expect(result.current.sessions.isSuccess).toBe(true))
+
+    await act(async () => {
+      await result.current.revokeOthers.mutateAsync(result.current.sessions.data!)
+    })
+
+    expect(mockApiHelpers.delete).toHaveBeenCalledTimes(2)
+    expect(mockApiHelpers.delete).toHaveBeenCalledWith('/auth/sessions/recent', undefined)
+    expect(mockApiHelpers.delete).toHaveBeenCalledWith('/auth/sessions/old', undefined)
+    expect(mockApiHelpers.delete).not.toHaveBeenCalledWith('/auth/sessions/current', undefined)
+  })
+
+  it('should report a failed sign out everywhere instead of throwing', async () => {
+    mockUseAuthStore.mockImplementation((selector) => selector({ logoutAllDevices: mockLogoutAllDevices }))
+    mockLogoutAllDevices.mockRejectedValueOnce(new Error('Network Error'))
+    const { result } = renderHook(() => useLogoutEverywhere(), { wrapper: createWrapper() })
+
+    act(() => {
+      result.current.mutate()
+    })
+
+    await waitFor(() => expect(result.current.isError).toBe(true))
+    expect(result.current.error).toEqual(new Error('Network Error'))
+  })
+})
@@ -0,0 +1,20 @@
+import { renderHook } from '@testing-library/react'
+import { useUnmountSignal } from '../useUnmountSignal'
+
+describe('useUnmountSignal', () => {
+  it('should hand out the same signal while mounted', () => {
+    const { result } = renderHook(() => useUnmountSignal())
+
+    expect(result.current()).toBe(result.current())
+    expect(result.current().aborted).toBe(false)
+  })
+
+  it('should abort the signal on unmount', () => {
+    const { result, unmount } = renderHook(() => useUnmountSignal())
+    const signal = result.current()
+
+    unmount()
+
+    expect(signal.aborted).toBe(true)
+  })
+})
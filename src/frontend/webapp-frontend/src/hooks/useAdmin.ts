@@ -0,0 +1,51 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { apiHelpers, endpoints } from '@/lib/api';
+import { processingQueueStatusSchema } from '@/lib/schemas';
+import { BulkNotificationRequest } from '@/types';
+
+export const adminKeys = {
+  processingQueue: ['admin', 'media-processing', 'queue'] as const,
+};
+
+export type CleanupTask = 'tempMedia' | 'processingJobs' | 'expiredNotifications' | 'archivedNotifications';
+
+// Admin-only cleanup endpoints; each resolves to the number of items removed
+const cleanupRequests: Record<CleanupTask, () => Promise<number>> = {
+  tempMedia: async () =>
+    (await apiHelpers.post<{ deletedFilesCount: number }>(endpoints.media.cleanup, {})).deletedFilesCount,
+  processingJobs: async () =>
+    (await apiHelpers.post<{ deletedJobsCount: number }>(endpoints.mediaProcessing.cleanup, {})).deletedJobsCount,
+  expiredNotifications: () => apiHelpers.delete<number>(endpoints.notifications.expired),
+  archivedNotifications: () => apiHelpers.delete<number>(endpoints.notifications.archived),
+};
+
+export function useProcessingQueueStatus() {
+  return useQuery({
+    queryKey: adminKeys.processingQueue,
+    queryFn: ({ signal }) =>
+      apiHelpers.get(endpoints.mediaProcessing.queueStatus, { signal, schema: processingQueueStatusSchema }),
+    refetchInterval: 15 * 1000,
+  });
+}
+
+export function useCleanup() {
+  return useMutation({
+    mutationFn: (task: CleanupTask) => cleanupRequests[task](),
+  });
+}
+
+// The notification service's NotificationType.System
+export const SYSTEM_NOTIFICATION_TYPE = 6;
+
+// Sends the same notification to each user; resolves to how many were sent, as unknown users are skipped
+export function useBulkNotification() {
+  return useMutation({
+    mutationFn: async (request: Omit<BulkNotificationRequest, 'type'>) =>
+      (
+        await apiHelpers.post<unknown[]>(endpoints.notifications.bulk, {
+          ...request,
+          type: SYSTEM_NOTIFICATION_TYPE,
+        })
+      ).length,
+  });
+}
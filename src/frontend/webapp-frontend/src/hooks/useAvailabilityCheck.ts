@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react';
+import { apiHelpers, endpoints } from '@/lib/api';
+import { availabilityResponseSchema } from '@/lib/schemas';
+import { buildUsernameCandidates } from '@/lib/utils';
+
+export type AvailabilityStatus = 'idle' | 'checking' | 'available' | 'taken' | 'error';
+
+type AvailabilityCheck = (value: string, signal: AbortSignal) => Promise<boolean>;
+
+// Wait for typing to pause before asking the server
+export const AVAILABILITY_CHECK_DELAY_MS = 400;
+const MAX_USERNAME_SUGGESTIONS = 3;
+
+export const checkUsernameAvailability: AvailabilityCheck = async (username, signal) => {
+  const { available } = await apiHelpers.get(endpoints.users.checkUsername(username), {
+    signal,
+    schema: availabilityResponseSchema,
+  });
+  return available;
+};
+
+export const checkEmailAvailability: AvailabilityCheck = async (email, signal) => {
+  const { available } = await apiHelpers.get(endpoints.users.checkEmail(email), {
+    signal,
+    schema: availabilityResponseSchema,
+  });
+  return available;
+};
+
+// Debounced availability check; a newer value cancels the request for the previous one
+export function useAvailabilityCheck(
+  value: string,
+  check: AvailabilityCheck,
+  enabled: boolean
+): AvailabilityStatus {
+  const [status, setStatus] = useState<AvailabilityStatus>('idle');
+
+  useEffect(() => {
+    if (!enabled || !value) {
+      setStatus('idle');
+      return;
+    }
+
+    const controller = new AbortController();
+    setStatus('checking');
+
+    const timer = setTimeout(() => {
+      check(value, controller.signal)
+        .then((available) => {
+          if (!controller.signal.aborted) setStatus(available ? 'available' : 'taken');
+        })
+        .catch(() => {
+          // Registration still validates on the server, so a failed check just stays quiet
+          if (!controller.signal.aborted) setStatus('error');
+        });
+    }, AVAILABILITY_CHECK_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [value, check, enabled]);
+
+  return status;
+}
+
+// Available alternatives for a taken username, built from the display name
+export function useUsernameSuggestions(displayName: string, takenUsername: string | null): string[] {
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+
+  useEffect(() => {
+    setSuggestions([]);
+    if (!takenUsername) return;
+
+    const controller = new AbortController();
+    const candidates = buildUsernameCandidates(displayName, takenUsername);
+
+    const timer = setTimeout(() => {
+      Promise.all(
+        candidates.map((candidate) =>
+          checkUsernameAvailability(candidate, controller.signal)
+            .then((available) => (available ? candidate : null))
+            .catch(() => null)
+        )
+      ).then((results) => {
+        if (controller.signal.aborted) return;
+        setSuggestions(
+          results.filter((candidate): candidate is string => !!candidate).slice(0, MAX_USERNAME_SUGGESTIONS)
+        );
+      });
+    }, AVAILABILITY_CHECK_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [displayName, takenUsername]);
+
+  return suggestions;
+}
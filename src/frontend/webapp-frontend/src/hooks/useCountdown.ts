@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+
+// Seconds left until the given time (epoch ms), or 0 once it has passed
+const getSecondsLeft = (endsAt?: number) =>
+  endsAt ? Math.max(0, Math.ceil((endsAt - Date.now()) / 1000)) : 0;
+
+// Live seconds remaining until `endsAt`, ticking once a second and stopping at 0
+export function useCountdown(endsAt?: number) {
+  const [secondsLeft, setSecondsLeft] = useState(() => getSecondsLeft(endsAt));
+
+  useEffect(() => {
+    setSecondsLeft(getSecondsLeft(endsAt));
+    if (!getSecondsLeft(endsAt)) return;
+
+    const timer = setInterval(() => {
+      const remaining = getSecondsLeft(endsAt);
+      setSecondsLeft(remaining);
+      if (!remaining) clearInterval(timer);
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [endsAt]);
+
+  return secondsLeft;
+}
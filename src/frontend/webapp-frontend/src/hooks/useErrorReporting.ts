@@ -0,0 +1,14 @@
+import { useEffect } from 'react';
+import { usePathname } from 'next/navigation';
+import { addBreadcrumb, installErrorReporting } from '@/lib/errorReporting';
+
+// Captures unhandled errors for the life of the app, with a breadcrumb for each route
+export function useErrorReporting() {
+  const pathname = usePathname();
+
+  useEffect(() => installErrorReporting(), []);
+
+  useEffect(() => {
+    addBreadcrumb('navigation', pathname);
+  }, [pathname]);
+}
@@ -0,0 +1,45 @@
+import { useEffect, useRef, useState } from 'react';
+import { usePathname } from 'next/navigation';
+
+// The URL's #fragment, including the '#'. Next's <Link> changes the URL with history.pushState,
+// which fires no hashchange, so it's read again on every route change, and a followed link to
+// another fragment on the same page is read from the link itself.
+export function useLocationHash() {
+  const [hash, setHash] = useState('');
+  const pathname = usePathname();
+
+  useEffect(() => {
+    const check = () => setHash(window.location.hash);
+    const onClick = (event: MouseEvent) => {
+      // Only links the router took over; plain ones end in a hashchange
+      const link = event.target instanceof Element ? event.target.closest('a') : null;
+      if (!event.defaultPrevented || !link) return;
+      if (link.origin === window.location.origin && link.pathname === window.location.pathname) setHash(link.hash);
+    };
+
+    check();
+    window.addEventListener('hashchange', check);
+    window.addEventListener('popstate', check);
+    document.addEventListener('click', onClick);
+    return () => {
+      window.removeEventListener('hashchange', check);
+      window.removeEventListener('popstate', check);
+      document.removeEventListener('click', onClick);
+    };
+  }, [pathname]);
+
+  return hash;
+}
+
+// Whether the URL's #fragment names this element. It's scrolled into view when it becomes the
+// target, including after content above it loads in.
+export function useHashTarget<T extends HTMLElement>(elementId: string) {
+  const ref = useRef<T>(null);
+  const isTarget = useLocationHash() === `#${elementId}`;
+
+  useEffect(() => {
+    if (isTarget) ref.current?.scrollIntoView?.({ behavior: 'smooth', block: 'center' });
+  }, [isTarget]);
+
+  return { ref, isTarget };
+}
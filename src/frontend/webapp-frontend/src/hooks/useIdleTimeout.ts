@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { IDLE_SIGN_OUT_NOTICE, useAuthStore } from '@/store/authStore';
+import { selectIdlePreferences, usePreferencesStore } from '@/store/preferencesStore';
+import { TokenManager } from '@/lib/api';
+import {
+  IDLE_WARNING_MS,
+  getIdleTimeoutMs,
+  getLastActivityAt,
+  recordActivity,
+} from '@/lib/idleActivity';
+
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'scroll', 'touchstart', 'wheel'] as const;
+const TICK_MS = 1000;
+
+// Locks the screen or signs out after the user's idle timeout, with a countdown warning first.
+// Input in any tab of the app counts as activity.
+export function useIdleTimeout() {
+  const user = useAuthStore((state) => state.user);
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const isLocked = useAuthStore((state) => state.isLocked);
+  const lock = useAuthStore((state) => state.lock);
+  const logout = useAuthStore((state) => state.logout);
+  const { timeoutMinutes, action } = usePreferencesStore(selectIdlePreferences(user?.id));
+
+  const [secondsRemaining, setSecondsRemaining] = useState<number | null>(null);
+  // Once the warning is up, only an explicit "stay signed in" (or input in another tab) dismisses it
+  const isWarningRef = useRef(false);
+
+  const isActive = isAuthenticated && !isLocked;
+  const timeoutMs = getIdleTimeoutMs(timeoutMinutes, TokenManager.isPersistent());
+
+  useEffect(() => {
+    isWarningRef.current = false;
+    setSecondsRemaining(null);
+    if (!isActive) return;
+
+    // Signing in or unlocking counts as activity
+    recordActivity();
+
+    const handleActivity = () => {
+      if (!isWarningRef.current) recordActivity();
+    };
+
+    const tick = () => {
+      const remaining = getLastActivityAt() + timeoutMs - Date.now();
+
+      if (remaining <= 0) {
+        isWarningRef.current = false;
+        setSecondsRemaining(null);
+        if (action === 'logout') {
+          logout(IDLE_SIGN_OUT_NOTICE);
+        } else {
+          lock();
+        }
+        return;
+      }
+
+      isWarningRef.current = remaining <= IDLE_WARNING_MS;
+      setSecondsRemaining(isWarningRef.current ? Math.ceil(remaining / 1000) : null);
+    };
+
+    const interval = window.setInterval(tick, TICK_MS);
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, handleActivity, { passive: true })
+    );
+
+    return () => {
+      window.clearInterval(interval);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+    };
+  }, [isActive, timeoutMs, action, lock, logout]);
+
+  const stayActive = useCallback(() => {
+    isWarningRef.current = false;
+    recordActivity();
+    setSecondsRemaining(null);
+  }, []);
+
+  return {
+    isWarning: secondsRemaining !== null,
+    secondsRemaining: secondsRemaining ?? 0,
+    action,
+    stayActive,
+  };
+}
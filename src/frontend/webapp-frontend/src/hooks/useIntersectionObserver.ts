@@ -0,0 +1,31 @@
+import { useEffect, useRef } from 'react';
+
+// Calls onIntersect when the returned ref's element scrolls into view (within rootMargin).
+// Toggling `enabled` re-observes, so an element that is still in view fires again.
+export function useIntersectionObserver<T extends Element>(
+  onIntersect: () => void,
+  { enabled = true, rootMargin = '400px' }: { enabled?: boolean; rootMargin?: string } = {}
+) {
+  const ref = useRef<T>(null);
+  const onIntersectRef = useRef(onIntersect);
+
+  useEffect(() => {
+    onIntersectRef.current = onIntersect;
+  });
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!enabled || !element) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) onIntersectRef.current();
+      },
+      { rootMargin }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [enabled, rootMargin]);
+
+  return ref;
+}
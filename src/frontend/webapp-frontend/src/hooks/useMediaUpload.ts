@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { apiHelpers, endpoints, getErrorMessage, isCancelledError } from '@/lib/api';
+import { uploadMediaResponseSchema } from '@/lib/schemas';
+import { UploadMediaResponse } from '@/types';
+
+export const MAX_MEDIA_FILES = 4;
+// The media-upload service's request size limit
+export const MAX_MEDIA_FILE_SIZE = 100 * 1024 * 1024;
+export const ACCEPTED_MEDIA_TYPES = ['image/', 'video/', 'audio/'];
+
+export type MediaUploadStatus = 'uploading' | 'uploaded' | 'failed';
+
+export interface MediaUploadItem {
+  key: string;
+  file: File;
+  previewUrl: string;
+  status: MediaUploadStatus;
+  // 0-100
+  progress: number;
+  media?: UploadMediaResponse;
+  error?: string;
+}
+
+// Reason a file can't be attached, if any
+export const validateMediaFile = (file: File): string | undefined => {
+  if (!ACCEPTED_MEDIA_TYPES.some((type) => file.type.startsWith(type))) {
+    return `${file.name} isn't an image, video or audio file.`;
+  }
+  if (file.size > MAX_MEDIA_FILE_SIZE) return `${file.name} is larger than 100 MB.`;
+  return undefined;
+};
+
+export const uploadMedia = (
+  file: File,
+  { signal, onProgress }: { signal?: AbortSignal; onProgress?: (progress: number) => void } = {}
+) => {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  return apiHelpers.post(endpoints.media.upload, formData, {
+    // axios sends FormData as JSON while the client's JSON content type is set
+    headers: { 'Content-Type': 'multipart/form-data' },
+    signal,
+    onUploadProgress: ({ progress }) => onProgress?.(Math.round((progress ?? 0) * 100)),
+    schema: uploadMediaResponseSchema,
+  });
+};
+
+// Files picked for a post, each uploaded to the media-upload service as soon as it's added.
+// Removing a file (or unmounting) cancels its upload.
+export function useMediaUpload() {
+  const [items, setItems] = useState<MediaUploadItem[]>([]);
+  const [error, setError] = useState<string | undefined>();
+  const controllers = useRef(new Map<string, AbortController>());
+  const itemsRef = useRef(items);
+
+  useEffect(() => {
+    itemsRef.current = items;
+  });
+
+  const update = (key: string, changes: Partial<MediaUploadItem>) =>
+    setItems((current) => current.map((item) => (item.key === key ? { ...item, ...changes } : item)));
+
+  const start = (item: MediaUploadItem) => {
+    const controller = new AbortController();
+    controllers.current.set(item.key, controller);
+
+    uploadMedia(item.file, {
+      signal: controller.signal,
+      onProgress: (progress) => update(item.key, { progress }),
+    })
+      .then((media) => update(item.key, { status: 'uploaded', progress: 100, media }))
+      .catch((error) => {
+        if (isCancelledError(error)) return;
+        update(item.key, { status: 'failed', error: getErrorMessage(error, `Could not upload ${item.file.name}.`) });
+      })
+      .finally(() => controllers.current.delete(item.key));
+  };
+
+  const add = (files: Iterable<File>) => {
+    const picked = Array.from(files);
+    const room = MAX_MEDIA_FILES - itemsRef.current.length;
+    const problems = picked.map(validateMediaFile).filter((problem): problem is string => !!problem);
+    if (picked.length > room) problems.push(`You can attach up to ${MAX_MEDIA_FILES} files.`);
+    setError(problems[0]);
+
+    const added = picked
+      .filter((file) => !validateMediaFile(file))
+      .slice(0, Math.max(0, room))
+      .map(
+        (file): MediaUploadItem => ({
+          key: crypto.randomUUID(),
+          file,
+          previewUrl: URL.createObjectURL(file),
+          status: 'uploading',
+          progress: 0,
+        })
+      );
+
+    setItems((current) => [...current, ...added]);
+    added.forEach(start);
+  };
+
+  const remove = useCallback((key: string) => {
+    controllers.current.get(key)?.abort();
+    const item = itemsRef.current.find((candidate) => candidate.key === key);
+    if (item) URL.revokeObjectURL(item.previewUrl);
+    setItems((current) => current.filter((candidate) => candidate.key !== key));
+    setError(undefined);
+  }, []);
+
+  const retry = (key: string) => {
+    const item = itemsRef.current.find((candidate) => candidate.key === key);
+    if (!item) return;
+    update(key, { status: 'uploading', progress: 0, error: undefined });
+    start(item);
+  };
+
+  const reset = useCallback(() => {
+    itemsRef.current.forEach((item) => remove(item.key));
+  }, [remove]);
+
+  useEffect(() => {
+    const pending = controllers.current;
+    return () => {
+      pending.forEach((controller) => controller.abort());
+      itemsRef.current.forEach((item) => URL.revokeObjectURL(item.previewUrl));
+    };
+  }, []);
+
+  return {
+    items,
+    error,
+    add,
+    remove,
+    retry,
+    reset,
+    isUploading: items.some((item) => item.status === 'uploading'),
+    hasFailed: items.some((item) => item.status === 'failed'),
+    uploaded: items.flatMap((item) => (item.media ? [item.media] : [])),
+  };
+}
@@ -0,0 +1,25 @@
+import { useEffect, useRef } from 'react';
+import { usePathname } from 'next/navigation';
+import { exportSpansOnPageHide, startNavigation } from '@/lib/tracing';
+
+// A navigation span per route: from the start of the page load, or from when a route change
+// commits, until the next frame. API calls made on the page join the navigation's trace.
+export function useNavigationTracing() {
+  const pathname = usePathname();
+  const isInitialLoad = useRef(true);
+
+  useEffect(() => exportSpansOnPageHide(), []);
+
+  useEffect(() => {
+    const startTime = isInitialLoad.current ? Math.round(performance.timeOrigin) : undefined;
+    const span = startNavigation(pathname, startTime);
+    span.setAttributes({ 'webapp.navigation.type': isInitialLoad.current ? 'load' : 'route-change' });
+    isInitialLoad.current = false;
+
+    const frame = requestAnimationFrame(() => span.end('ok'));
+    return () => {
+      cancelAnimationFrame(frame);
+      span.end();
+    };
+  }, [pathname]);
+}
@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAuthStore } from '@/store/authStore';
+import { TokenManager, isAccessTokenExpired, refreshAccessToken } from '@/lib/api';
+import { getPermissions } from '@/lib/permissions';
+import { Permission, Role } from '@/types';
+
+// Roles and permissions of the signed-in user, read from the access token's claims.
+// A missing or expired access token is refreshed straight away rather than on the next 401.
+export function usePermissions() {
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const userId = useAuthStore((state) => state.user?.id);
+  const [claims, setClaims] = useState(() => TokenManager.getClaims());
+
+  useEffect(() => {
+    const current = isAuthenticated ? TokenManager.getClaims() : null;
+    setClaims(current);
+    if (!isAuthenticated || (current && !isAccessTokenExpired(current))) return;
+
+    let isCancelled = false;
+    refreshAccessToken()
+      .then(() => {
+        if (!isCancelled) setClaims(TokenManager.getClaims());
+      })
+      .catch(() => {
+        // A rejected refresh token ends the session through the auth store
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [isAuthenticated, userId]);
+
+  const roles = useMemo(() => claims?.roles ?? [], [claims]);
+  const permissions = useMemo(() => getPermissions(roles), [roles]);
+
+  const hasRole = useCallback((role: Role) => roles.includes(role), [roles]);
+  const can = useCallback((permission: Permission) => permissions.includes(permission), [permissions]);
+
+  return { roles, permissions, hasRole, can, isLoaded: claims !== null };
+}
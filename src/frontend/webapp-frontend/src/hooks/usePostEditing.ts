@@ -0,0 +1,117 @@
+import { QueryClient, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { PostPages, postKeys } from '@/hooks/usePosts';
+import { toApiError } from '@/lib/api';
+import { postsApi } from '@/lib/generated/posts';
+import { postEditSchema, postRevisionListSchema, postSchema, postVisibilityEditSchema } from '@/lib/schemas';
+import { useAuthStore } from '@/store/authStore';
+import { Post, PostVisibility, UpdatePostContentPayload } from '@/types';
+
+// An edit refused because the post changed after the version being edited was loaded, e.g. in
+// another tab. Carries the post as it is now.
+export class PostEditConflictError extends Error {
+  constructor(readonly current: Post) {
+    super('This post was changed somewhere else since you started editing.');
+    this.name = 'PostEditConflictError';
+  }
+}
+
+export interface UpdatePostVariables {
+  // The version being edited; its updatedAt is what the service checks against
+  post: Post;
+  content: string;
+}
+
+const replacePost = (posts: Post[], post: Post) => posts.map((item) => (item.id === post.id ? post : item));
+
+const replaceInPages = (data: PostPages | undefined, post: Post): PostPages | undefined =>
+  data && { ...data, pages: data.pages.map((page) => replacePost(page, post)) };
+
+// Shows a post's new version wherever it's cached: its page, feeds, reply lists and threads
+const updateCachedPost = (queryClient: QueryClient, post: Post) => {
+  queryClient.setQueryData<Post>(postKeys.detail(post.id), (data) => data && post);
+  queryClient.setQueriesData<PostPages>({ queryKey: ['posts', 'feed'] }, (data) => replaceInPages(data, post));
+  queryClient.setQueriesData<PostPages>({ queryKey: ['posts', 'replies'] }, (data) => replaceInPages(data, post));
+  queryClient.setQueriesData<{ ancestors: Post[]; hasMore: boolean }>(
+    { queryKey: ['posts', 'ancestors'] },
+    (data) => data && { ...data, ancestors: replacePost(data.ancestors, post) }
+  );
+  queryClient.invalidateQueries({ queryKey: postKeys.revisions(post.id) });
+};
+
+// The post as it is now, from a 409's body when it has one
+const getCurrentPost = async (post: Post, error: unknown, viewerId: string): Promise<Post> => {
+  const sent = postEditSchema.safeParse(toApiError(error).body);
+  if (sent.success) return { ...post, ...sent.data };
+
+  return postsApi.getById(post.id, { viewerId }, { dedupe: false, schema: postSchema });
+};
+
+// Edits a post's text as its author. The service refuses the edit if the post has changed since
+// the version being edited, which rejects with a PostEditConflictError holding the current post.
+export function useUpdatePost() {
+  const queryClient = useQueryClient();
+  const user = useAuthStore((state) => state.user);
+
+  return useMutation({
+    mutationFn: async ({ post, content }: UpdatePostVariables): Promise<Post> => {
+      if (!user) throw new Error('You need to be signed in to edit posts.');
+
+      const payload: UpdatePostContentPayload = {
+        authorId: user.id,
+        newContent: content,
+        expectedUpdatedAt: post.updatedAt,
+      };
+      try {
+        const edit = await postsApi.putByIdContent(post.id, payload, { schema: postEditSchema });
+        return { ...post, ...edit };
+      } catch (error) {
+        if (toApiError(error).code !== 'conflict') throw error;
+
+        const current = await getCurrentPost(post, error, user.id);
+        updateCachedPost(queryClient, current);
+        throw new PostEditConflictError(current);
+      }
+    },
+    onSuccess: (post) => updateCachedPost(queryClient, post),
+  });
+}
+
+export interface UpdatePostVisibilityVariables {
+  post: Post;
+  visibility: PostVisibility;
+}
+
+// Changes who can see a post, as its author
+export function useUpdatePostVisibility() {
+  const queryClient = useQueryClient();
+  const user = useAuthStore((state) => state.user);
+
+  return useMutation({
+    mutationFn: async ({ post, visibility }: UpdatePostVisibilityVariables): Promise<Post> => {
+      if (!user) throw new Error('You need to be signed in to edit posts.');
+
+      const edit = await postsApi.putByIdVisibility(
+        post.id,
+        { authorId: user.id, visibility },
+        { schema: postVisibilityEditSchema }
+      );
+      return { ...post, ...edit };
+    },
+    onSuccess: (post) => updateCachedPost(queryClient, post),
+  });
+}
+
+// What a post said before each edit, oldest first
+export function usePostRevisions(postId: string, { enabled = true }: { enabled?: boolean } = {}) {
+  const viewerId = useAuthStore((state) => state.user?.id);
+
+  return useQuery({
+    queryKey: postKeys.revisions(postId),
+    queryFn: ({ signal }) =>
+      postsApi.getByIdRevisions(postId, viewerId ? { viewerId } : undefined, {
+        signal,
+        schema: postRevisionListSchema,
+      }),
+    enabled,
+  });
+}
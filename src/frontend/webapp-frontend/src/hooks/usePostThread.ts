@@ -0,0 +1,100 @@
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { PostPages, postKeys } from '@/hooks/usePosts';
+import { postsApi } from '@/lib/generated/posts';
+import { postListSchema, postSchema } from '@/lib/schemas';
+import { useAuthStore } from '@/store/authStore';
+import { CreateReplyRequest, POST_VISIBILITY, Post } from '@/types';
+
+export const REPLIES_PAGE_SIZE = 10;
+// Ancestors shown above a post; anything older is reached through the thread's first post
+export const MAX_ANCESTORS = 10;
+
+// The services filter by who's asking
+const useViewerParams = () => {
+  const viewerId = useAuthStore((state) => state.user?.id);
+  return viewerId ? { viewerId } : undefined;
+};
+
+const fetchPost = (id: string, params?: { viewerId: string }, signal?: AbortSignal) =>
+  postsApi.getById(id, params, { signal, schema: postSchema });
+
+export function usePost(id: string) {
+  const params = useViewerParams();
+
+  return useQuery({
+    queryKey: postKeys.detail(id),
+    queryFn: ({ signal }) => fetchPost(id, params, signal),
+  });
+}
+
+// The posts a reply answers, oldest first, following parentPostId up to MAX_ANCESTORS
+export function usePostAncestors(post: Post | undefined) {
+  const queryClient = useQueryClient();
+  const params = useViewerParams();
+
+  return useQuery({
+    queryKey: postKeys.ancestors(post?.id ?? ''),
+    queryFn: async ({ signal }) => {
+      const ancestors: Post[] = [];
+      let parentId = post?.parentPostId;
+
+      while (parentId && ancestors.length < MAX_ANCESTORS) {
+        const id = parentId;
+        const parent = await queryClient.fetchQuery({
+          queryKey: postKeys.detail(id),
+          queryFn: () => fetchPost(id, params, signal),
+        });
+        ancestors.unshift(parent);
+        parentId = parent.parentPostId;
+      }
+      return { ancestors, hasMore: !!parentId };
+    },
+    enabled: !!post?.parentPostId,
+  });
+}
+
+// Direct replies to a post, paged like the feed
+export function useReplies(parentId: string, { enabled = true }: { enabled?: boolean } = {}) {
+  const params = useViewerParams();
+
+  return useInfiniteQuery({
+    queryKey: postKeys.replies(parentId),
+    queryFn: ({ pageParam, signal }) =>
+      postsApi.getByParentIdReplies(
+        parentId,
+        { ...params, limit: REPLIES_PAGE_SIZE, offset: pageParam },
+        { signal, schema: postListSchema }
+      ),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, allPages) =>
+      lastPage.length < REPLIES_PAGE_SIZE ? undefined : allPages.length * REPLIES_PAGE_SIZE,
+    enabled,
+  });
+}
+
+// Replies as the signed-in user. The saved reply is added to its parent's loaded replies when
+// they're all loaded; otherwise it turns up with the remaining pages.
+export function useCreateReply() {
+  const queryClient = useQueryClient();
+  const user = useAuthStore((state) => state.user);
+
+  return useMutation({
+    mutationFn: (request: CreateReplyRequest) => {
+      if (!user) throw new Error('You need to be signed in to reply.');
+      return postsApi.postReply(
+        { ...request, authorId: user.id, visibility: request.visibility ?? POST_VISIBILITY.PUBLIC },
+        { schema: postSchema }
+      );
+    },
+    onSuccess: (reply, { parentPostId }) => {
+      const repliesKey = postKeys.replies(parentPostId);
+      const loaded = queryClient.getQueryData<PostPages>(repliesKey);
+      if (!loaded || (loaded.pages.at(-1)?.length ?? 0) >= REPLIES_PAGE_SIZE) return;
+
+      queryClient.setQueryData<PostPages>(repliesKey, {
+        ...loaded,
+        pages: loaded.pages.map((page, index) => (index === loaded.pages.length - 1 ? [...page, reply] : page)),
+      });
+    },
+  });
+}
@@ -0,0 +1,139 @@
+import { InfiniteData, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { postsApi } from '@/lib/generated/posts';
+import { postListSchema, postSchema } from '@/lib/schemas';
+import { useAuthStore } from '@/store/authStore';
+import { CreatePostPayload, POST_VISIBILITY, Post, PostVisibility, UploadMediaResponse, User } from '@/types';
+
+export const FEED_PAGE_SIZE = 20;
+export const POST_MAX_LENGTH = 500;
+
+export const postKeys = {
+  all: ['posts'] as const,
+  // The signed-in user's feed
+  feed: (userId: string) => ['posts', 'feed', userId] as const,
+  detail: (id: string) => ['posts', 'detail', id] as const,
+  ancestors: (id: string) => ['posts', 'ancestors', id] as const,
+  replies: (parentId: string) => ['posts', 'replies', parentId] as const,
+  revisions: (id: string) => ['posts', 'revisions', id] as const,
+};
+
+export type PostPages = InfiniteData<Post[], number>;
+
+// The post service pages by offset and returns a bare array, so a short page is the last one.
+// The home page is only reachable signed in (see middleware), so there is always a user to ask for.
+export function useFeed() {
+  const userId = useAuthStore((state) => state.user?.id) ?? '';
+
+  return useInfiniteQuery({
+    queryKey: postKeys.feed(userId),
+    queryFn: ({ pageParam, signal }) =>
+      postsApi.getFeedByUserId(
+        userId,
+        { limit: FEED_PAGE_SIZE, offset: pageParam },
+        { signal, schema: postListSchema }
+      ),
+    enabled: !!userId,
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, allPages) =>
+      lastPage.length < FEED_PAGE_SIZE ? undefined : allPages.length * FEED_PAGE_SIZE,
+  });
+}
+
+export interface CreatePostVariables {
+  content: string;
+  media: UploadMediaResponse[];
+  visibility?: PostVisibility;
+}
+
+// Stand-in shown at the top of the feed until the post service answers
+const toOptimisticPost = (
+  author: User,
+  { content, media, visibility = POST_VISIBILITY.PUBLIC }: CreatePostVariables
+): Post => {
+  const now = new Date().toISOString();
+  return {
+    id: `optimistic-${crypto.randomUUID()}`,
+    content,
+    authorId: author.id,
+    author: {
+      id: author.id,
+      username: author.username,
+      displayName: author.displayName,
+      profileImageUrl: author.avatarUrl ?? '',
+      isPrivate: author.isPrivate ?? false,
+      isVerified: author.isVerified,
+    },
+    type: 0,
+    visibility,
+    isEdited: false,
+    repliesCount: 0,
+    mediaAttachments: media.map((item) => ({
+      id: item.id,
+      postId: '',
+      url: item.url,
+      fileName: item.fileName,
+      contentType: item.contentType,
+      fileSize: item.fileSize,
+      width: item.width,
+      height: item.height,
+      duration: item.duration,
+      thumbnailUrl: item.thumbnailUrl,
+      createdAt: item.uploadedAt,
+      isImage: item.isImage,
+      isVideo: item.isVideo,
+      isAudio: item.isAudio,
+    })),
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+const updateFirstPage = (data: PostPages | undefined, update: (posts: Post[]) => Post[]): PostPages | undefined =>
+  data && { ...data, pages: data.pages.map((page, index) => (index === 0 ? update(page) : page)) };
+
+// Posts as the signed-in user, through /text or /media depending on whether anything is attached.
+// The post goes into the cached feed straight away and is swapped for the saved one on success.
+export function useCreatePost() {
+  const queryClient = useQueryClient();
+  const user = useAuthStore((state) => state.user);
+  const feedKey = postKeys.feed(user?.id ?? '');
+
+  return useMutation({
+    mutationFn: ({ content, media, visibility }: CreatePostVariables) => {
+      if (!user) throw new Error('You need to be signed in to post.');
+
+      const payload = { content, visibility: visibility ?? POST_VISIBILITY.PUBLIC, authorId: user.id };
+      if (!media.length) return postsApi.postText(payload, { schema: postSchema });
+
+      return postsApi.postMedia(
+        {
+          ...payload,
+          mediaAttachments: media.map(({ url, fileName, contentType, fileSize }) => ({
+            url,
+            fileName,
+            contentType,
+            fileSize,
+          })),
+        } satisfies CreatePostPayload,
+        { schema: postSchema }
+      );
+    },
+    onMutate: async (variables) => {
+      if (!user) return undefined;
+
+      await queryClient.cancelQueries({ queryKey: feedKey });
+      const previous = queryClient.getQueryData<PostPages>(feedKey);
+      const optimistic = toOptimisticPost(user, variables);
+      queryClient.setQueryData<PostPages>(feedKey, (data) => updateFirstPage(data, (posts) => [optimistic, ...posts]));
+      return { previous, optimisticId: optimistic.id };
+    },
+    onSuccess: (post, _, context) => {
+      queryClient.setQueryData<PostPages>(feedKey, (data) =>
+        updateFirstPage(data, (posts) => posts.map((item) => (item.id === context?.optimisticId ? post : item)))
+      );
+    },
+    onError: (_, __, context) => {
+      if (context) queryClient.setQueryData(feedKey, context.previous);
+    },
+  });
+}
@@ -0,0 +1,29 @@
+import { useEffect } from 'react';
+import { useAuthStore } from '@/store/authStore';
+
+const SESSION_CHECK_INTERVAL = 60 * 1000;
+
+// Re-checks the current session when the tab becomes visible and once a minute,
+// so a session revoked from another device signs this one out promptly
+export function useSessionMonitor() {
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const verifySession = useAuthStore((state) => state.verifySession);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        verifySession();
+      }
+    };
+
+    const interval = window.setInterval(handleVisibilityChange, SESSION_CHECK_INTERVAL);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      window.clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [isAuthenticated, verifySession]);
+}
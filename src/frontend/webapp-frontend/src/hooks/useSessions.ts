@@ -0,0 +1,73 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { TokenManager } from '@/lib/api';
+import { authApi } from '@/lib/generated/auth';
+import { userSessionListSchema } from '@/lib/schemas';
+import { useAuthStore } from '@/store/authStore';
+import { UserSession } from '@/types';
+
+export const sessionKeys = {
+  all: ['auth', 'sessions'] as const,
+};
+
+export interface SessionListItem extends UserSession {
+  isCurrent: boolean;
+}
+
+// Active sessions for the signed-in user, current session first
+export function useSessions() {
+  return useQuery({
+    queryKey: sessionKeys.all,
+    queryFn: async ({ signal }): Promise<SessionListItem[]> => {
+      const sessions = await authApi.getSessions({ signal, schema: userSessionListSchema });
+      const currentSessionId = TokenManager.getSessionId();
+
+      return sessions
+        .filter((session) => session.isActive)
+        .map((session) => ({ ...session, isCurrent: session.sessionId === currentSessionId }))
+        .sort(
+          (a, b) =>
+            Number(b.isCurrent) - Number(a.isCurrent) ||
+            new Date(b.lastActivityAt).getTime() - new Date(a.lastActivityAt).getTime()
+        );
+    },
+    staleTime: 30 * 1000,
+  });
+}
+
+export function useRevokeSession() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (sessionId: string) => authApi.deleteSessionsBySessionId(sessionId),
+    onSuccess: (_, sessionId) => {
+      queryClient.setQueryData<SessionListItem[]>(sessionKeys.all, (sessions) =>
+        sessions?.filter((session) => session.sessionId !== sessionId)
+      );
+    },
+  });
+}
+
+// Revokes every session except the one this browser is using
+export function useRevokeOtherSessions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (sessions: SessionListItem[]) => {
+      await Promise.all(
+        sessions
+          .filter((session) => !session.isCurrent)
+          .map((session) => authApi.deleteSessionsBySessionId(session.sessionId))
+      );
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: sessionKeys.all }),
+  });
+}
+
+// Revokes every session including this one, which signs this browser out too
+export function useLogoutEverywhere() {
+  const logoutAllDevices = useAuthStore((state) => state.logoutAllDevices);
+
+  return useMutation({
+    mutationFn: () => logoutAllDevices(),
+  });
+}
@@ -0,0 +1,22 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+// Returns a getter for an AbortSignal that aborts when the component unmounts, so requests made
+// outside react-query (form submits and the like) are cancelled along with it:
+//   await apiHelpers.post(url, body, { signal: getSignal() });
+export function useUnmountSignal(): () => AbortSignal {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(
+    () => () => {
+      controllerRef.current?.abort();
+      // Strict mode mounts again after this cleanup, so later requests get a fresh controller
+      controllerRef.current = null;
+    },
+    []
+  );
+
+  return useCallback(() => {
+    controllerRef.current ??= new AbortController();
+    return controllerRef.current.signal;
+  }, []);
+}
@@ -0,0 +1,738 @@
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios'
+import Cookies from 'js-cookie'
+import { z } from 'zod'
+import {
+  ResponseValidationError,
+  TokenManager,
+  apiClient,
+  apiHelpers,
+  decodeAccessToken,
+  endpoints,
+  getErrorMessage,
+  isAccessTokenExpired,
+  isCancelledError,
+  onSessionExpired,
+  refreshAccessToken,
+} from '../api'
+import { TokenStorage, TokenWriteOptions, cookieTokenStorage } from '../tokenStorage'
+import { CORRELATION_ID_HEADER, getCorrelationId, startNavigation } from '../tracing'
+import { addBreadcrumb, reportError } from '../errorReporting'
+
+jest.mock('../errorReporting', () => ({
+  addBreadcrumb: jest.fn(),
+  reportError: jest.fn(),
+}))
+
+type Handler = (config: InternalAxiosRequestConfig) => Promise<AxiosResponse>
+
+const respond = (config: InternalAxiosRequestConfig, status: number, data: unknown = {}) => {
+  const response = { data, status, statusText: '', headers: {}, config } as AxiosResponse
+
+  if (status >= 400) {
+    return Promise.reject(
+      new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', config, null, response)
+    )
+  }
+  return Promise.resolve(response)
+}
+
+const createToken = (claims: Record<string, unknown>) =>
+  `header.${btoa(JSON.stringify(claims)).replace(/=+$/, '')}.signature`
+
+const authHeader = (config: InternalAxiosRequestConfig) => config.headers.Authorization as string | undefined
+
+describe('api', () => {
+  let handler: jest.Mock<ReturnType<Handler>, Parameters<Handler>>
+
+  beforeEach(() => {
+    handler = jest.fn()
+    apiClient.defaults.adapter = handler
+    TokenManager.removeTokens()
+  })
+
+  describe('TokenManager', () => {
+    it('should store and read tokens', () => {
+      TokenManager.setTokens('access', 'refresh')
+
+      expect(TokenManager.getAccessToken()).toBe('access')
+      expect(TokenManager.getRefreshToken()).toBe('refresh')
+    })
+
+    it('should return null when no tokens are stored', () => {
+      expect(TokenManager.getAccessToken()).toBeNull()
+      expect(TokenManager.getRefreshToken()).toBeNull()
+    })
+
+    it('should only give cookies an expiry when the session is remembered', () => {
+      const setCookie = jest.spyOn(Cookies, 'set')
+
+      TokenManager.setTokens('access', 'refresh')
+      expect(setCookie).toHaveBeenCalledWith('refreshToken', 'refresh', { secure: false, sameSite: 'strict' })
+
+      TokenManager.setTokens('access', 'refresh', { persistent: true })
+      expect(setCookie).toHaveBeenCalledWith('refreshToken', 'refresh', {
+        secure: false,
+        sameSite: 'strict',
+        expires: 7,
+      })
+      expect(TokenManager.isPersistent()).toBe(true)
+
+      setCookie.mockRestore()
+    })
+
+    it('should read the session id from the access token', () => {
+      const payload = btoa(JSON.stringify({ user_id: 'user-1', session_id: 'session-1' }))
+      TokenManager.setTokens(`header.${payload}.signature`, 'refresh')
+
+      expect(TokenManager.getSessionId()).toBe('session-1')
+    })
+
+    it('should return no session id for a missing or malformed token', () => {
+      expect(TokenManager.getSessionId()).toBeNull()
+
+      TokenManager.setTokens('not-a-jwt', 'refresh')
+      expect(TokenManager.getSessionId()).toBeNull()
+    })
+
+    it('should remove tokens', () => {
+      TokenManager.setTokens('access', 'refresh')
+      TokenManager.removeTokens()
+
+      expect(TokenManager.getAccessToken()).toBeNull()
+      expect(TokenManager.getRefreshToken()).toBeNull()
+    })
+  })
+
+  describe('access token claims', () => {
+    it('should map the auth service claims', () => {
+      const token = createToken({
+        user_id: 'user-1',
+        username: 'jane',
+        email: 'jane@example.com',
+        display_name: 'Jane',
+        is_verified: 'True',
+        session_id: 'session-1',
+        role: 'Admin',
+        iat: 1700000000,
+        exp: 1700003600,
+      })
+
+      expect(decodeAccessToken(token)).toEqual({
+        userId: 'user-1',
+        username: 'jane',
+        email: 'jane@example.com',
+        displayName: 'Jane',
+        roles: ['Admin'],
+        isVerified: true,
+        sessionId: 'session-1',
+        issuedAt: 1700000000000,
+        expiresAt: 1700003600000,
+      })
+    })
+
+    it('should collect roles from role arrays and the .NET role claim type', () => {
+      const token = createToken({
+        sub: 'user-1',
+        role: ['Admin', 'Moderator'],
+        'http://schemas.microsoft.com/ws/2008/06/identity/claims/role': 'Support',
+      })
+
+      expect(decodeAccessToken(token)?.roles).toEqual(['Admin', 'Moderator', 'Support'])
+      expect(decodeAccessToken(token)?.userId).toBe('user-1')
+    })
+
+    it('should decode non-ASCII claims', () => {
+      // UTF-8 bytes as a binary string, the way a JWT library encodes them
+      const utf8 = encodeURIComponent(JSON.stringify({ user_id: 'u', display_name: 'Zoë' })).replace(
+        /%([0-9A-F]{2})/g,
+        (_, hex) => String.fromCharCode(parseInt(hex, 16))
+      )
+      const payload = btoa(utf8)
+
+      expect(decodeAccessToken(`header.${payload}.signature`)?.displayName).toBe('Zoë')
+    })
+
+    it('should reject tokens without a user', () => {
+      expect(decodeAccessToken('not-a-jwt')).toBeNull()
+      expect(decodeAccessToken(createToken({ role: 'Admin' }))).toBeNull()
+    })
+
+    it('should treat tokens about to expire as expired', () => {
+      const now = 1_000_000
+      const claims = (expiresAt?: number) => ({ userId: 'user-1', roles: [], isVerified: false, expiresAt })
+
+      expect(isAccessTokenExpired(claims(now - 1), now)).toBe(true)
+      expect(isAccessTokenExpired(claims(now + 10 * 1000), now)).toBe(true)
+      expect(isAccessTokenExpired(claims(now + 5 * 60 * 1000), now)).toBe(false)
+      expect(isAccessTokenExpired(claims(undefined), now)).toBe(false)
+      expect(isAccessTokenExpired(null, now)).toBe(false)
+    })
+  })
+
+  describe('token storage', () => {
+    let entries: Map<string, { value: string } & TokenWriteOptions>
+
+    beforeEach(() => {
+      entries = new Map()
+      const memoryStorage: TokenStorage = {
+        get: (name) => entries.get(name)?.value ?? null,
+        set: (name, value, options) => {
+          entries.set(name, { value, ...options })
+        },
+        remove: (name) => {
+          entries.delete(name)
+        },
+      }
+      TokenManager.setStorage(memoryStorage)
+    })
+
+    afterEach(() => {
+      TokenManager.setStorage(cookieTokenStorage)
+    })
+
+    it('should keep tokens for the browser session only by default', () => {
+      TokenManager.setTokens('access', 'refresh')
+
+      expect(entries.get('refreshToken')).toEqual({ value: 'refresh', persistent: false, expiresInDays: 7 })
+      expect(TokenManager.isPersistent()).toBe(false)
+    })
+
+    it('should keep the refresh token across restarts when remembered', () => {
+      TokenManager.setTokens('access', 'refresh', { persistent: true })
+
+      expect(entries.get('accessToken')).toEqual({ value: 'access', persistent: false })
+      expect(entries.get('refreshToken')).toEqual({ value: 'refresh', persistent: true, expiresInDays: 7 })
+      expect(TokenManager.isPersistent()).toBe(true)
+    })
+
+    it('should store refreshed tokens the same way as the ones they replace', async () => {
+      TokenManager.setTokens('expired', 'refresh', { persistent: true })
+      handler.mockImplementation((config) =>
+        config.url === endpoints.auth.refresh
+          ? respond(config, 200, { accessToken: 'fresh', refreshToken: 'refresh-2' })
+          : respond(config, 200, {})
+      )
+
+      await refreshAccessToken()
+
+      expect(entries.get('refreshToken')).toMatchObject({ value: 'refresh-2', persistent: true })
+    })
+
+    it('should switch to session storage when signing in without remembering', () => {
+      TokenManager.setTokens('access', 'refresh', { persistent: true })
+      TokenManager.setTokens('access-2', 'refresh-2', { persistent: false })
+
+      expect(TokenManager.isPersistent()).toBe(false)
+      expect(entries.get('refreshToken')).toMatchObject({ persistent: false })
+    })
+
+    it('should forget the choice when tokens are removed', () => {
+      TokenManager.setTokens('access', 'refresh', { persistent: true })
+      TokenManager.removeTokens()
+
+      expect(entries.size).toBe(0)
+    })
+  })
+
+  describe('apiHelpers', () => {
+    it('should attach the access token and return the response body', async () => {
+      TokenManager.setTokens('access', 'refresh')
+      handler.mockImplementation((config) => respond(config, 200, { ok: true }))
+
+      await expect(apiHelpers.get('/users/profile')).resolves.toEqual({ ok: true })
+      expect(authHeader(handler.mock.calls[0][0])).toBe('Bearer access')
+    })
+
+    it('should send requests without a token when signed out', async () => {
+      handler.mockImplementation((config) => respond(config, 200, {}))
+
+      await apiHelpers.post('/posts', { content: 'hi' })
+
+      expect(authHeader(handler.mock.calls[0][0])).toBeUndefined()
+    })
+
+    it.each(['put', 'patch'] as const)('should support %s requests', async (method) => {
+      handler.mockImplementation((config) => respond(config, 200, { method: config.method }))
+
+      await expect(apiHelpers[method]('/posts/1', {})).resolves.toEqual({ method })
+    })
+
+    it('should support delete requests', async () => {
+      handler.mockImplementation((config) => respond(config, 200, { method: config.method }))
+
+      await expect(apiHelpers.delete('/posts/1')).resolves.toEqual({ method: 'delete' })
+    })
+
+    it('should send trace context and the correlation ID, with a new span for each attempt', async () => {
+      const navigation = startNavigation('/settings')
+      TokenManager.setTokens('expired', 'refresh')
+      handler.mockImplementation((config) => {
+        if (config.url === endpoints.auth.refresh) {
+          return respond(config, 200, { accessToken: 'fresh', refreshToken: 'refresh-2' })
+        }
+        return authHeader(config) === 'Bearer fresh' ? respond(config, 200, {}) : respond(config, 401)
+      })
+
+      await apiHelpers.get(endpoints.auth.profile)
+
+      const headers = handler.mock.calls.map(([config]) => config.headers)
+      headers.forEach((sent) => {
+        expect(sent.traceparent).toMatch(new RegExp(`^00-${navigation.traceId}-[0-9a-f]{16}-01$`))
+        expect(sent.tracestate).toBe(`webapp=${getCorrelationId()}`)
+        expect(sent[CORRELATION_ID_HEADER]).toBe(getCorrelationId())
+      })
+      expect(new Set(headers.map((sent) => sent.traceparent)).size).toBe(headers.length)
+    })
+
+    it('should use the timeout of the service being called unless one is given', async () => {
+      handler.mockImplementation((config) => respond(config, 200, {}))
+
+      await apiHelpers.post(endpoints.media.upload, new FormData())
+      await apiHelpers.get(endpoints.posts.list, { timeout: 1000 })
+
+      expect(handler.mock.calls.map(([config]) => config.timeout)).toEqual([2 * 60 * 1000, 1000])
+    })
+ 
+    describe('cancellation and deduplication', () => {
+      // A response that arrives when the test says so
+      const deferResponses = () => {
+        const pending: Array<() => void> = []
+        handler.mockImplementation(
+          (config) => new Promise((resolve) => pending.push(() => resolve(respond(config, 200, { url: config.url }))))
+        )
+        return () => pending.forEach((send) => send())
+      }
+
+      it('should share identical GETs that are in flight at the same time', async () => {
+        const send = deferResponses()
+
+        const first = apiHelpers.get('/posts', { params: { page: 1 } })
+        const second = apiHelpers.get('/posts', { params: { page: 1 } })
+        const otherPage = apiHelpers.get('/posts', { params: { page: 2 } })
+        await new Promise((resolve) => setTimeout(resolve, 0))
+        send()
+
+        await expect(Promise.all([first, second, otherPage])).resolves.toEqual([
+          { url: '/posts' },
+          { url: '/posts' },
+          { url: '/posts' },
+        ])
+        expect(handler).toHaveBeenCalledTimes(2)
+      })
+
+      it('should send a new request once the shared one has settled', async () => {
+        handler.mockImplementation((config) => respond(config, 200, {}))
+
+        await apiHelpers.get('/posts')
+        await apiHelpers.get('/posts')
+
+        expect(handler).toHaveBeenCalledTimes(2)
+      })
+
+      it('should not share a GET when dedupe is off', async () => {
+        const send = deferResponses()
+
+        const requests = [apiHelpers.get('/posts'), apiHelpers.get('/posts', { dedupe: false })]
+        await new Promise((resolve) => setTimeout(resolve, 0))
+        send()
+        await Promise.all(requests)
+
+        expect(handler).toHaveBeenCalledTimes(2)
+      })
+
+      it('should reject a cancelled caller without aborting the request for the others', async () => {
+        const send = deferResponses()
+        const controller = new AbortController()
+
+        const cancelled = apiHelpers.get('/posts', { signal: controller.signal }).catch((error) => error)
+        const kept = apiHelpers.get('/posts')
+        controller.abort()
+        await new Promise((resolve) => setTimeout(resolve, 0))
+        send()
+
+        expect(await cancelled).toMatchObject({ code: 'cancelled' })
+        await expect(kept).resolves.toEqual({ url: '/posts' })
+        expect(handler.mock.calls[0][0].signal?.aborted).toBe(false)
+      })
+
+      it('should abort the request once every caller has cancelled', async () => {
+        deferResponses()
+        const controllers = [new AbortController(), new AbortController()]
+
+        const requests = controllers.map((controller) => apiHelpers.get('/posts', { signal: controller.signal }))
+        await new Promise((resolve) => setTimeout(resolve, 0))
+        controllers.forEach((controller) => controller.abort())
+
+        await expect(Promise.all(requests)).rejects.toMatchObject({ code: 'cancelled' })
+        expect(handler.mock.calls[0][0].signal?.aborted).toBe(true)
+      })
+
+      it('should reject with a cancelled error when any request is aborted', async () => {
+        const controller = new AbortController()
+        controller.abort()
+
+        await expect(apiHelpers.post('/posts', {}, { signal: controller.signal })).rejects.toMatchObject({
+          code: 'cancelled',
+        })
+        expect(isCancelledError(await apiHelpers.get('/posts', { signal: controller.signal }).catch((e) => e))).toBe(
+          true
+        )
+        expect(handler).not.toHaveBeenCalled()
+      })
+    })
+
+    describe('response validation', () => {
+      const schema = z.object({ id: z.string(), count: z.number() })
+
+      it('should return the body as sent when it matches the schema', async () => {
+        handler.mockImplementation((config) => respond(config, 200, { id: 'a', count: 1, extra: true }))
+
+        await expect(apiHelpers.get('/things/a', { schema })).resolves.toEqual({ id: 'a', count: 1, extra: true })
+        expect(handler.mock.calls[0][0]).not.toHaveProperty('schema')
+      })
+
+      it('should reject a mismatched body outside production', async () => {
+        handler.mockImplementation((config) => respond(config, 200, { id: 'a', count: null }))
+
+        const request = apiHelpers.post('/things', {}, { schema })
+
+        await expect(request).rejects.toBeInstanceOf(ResponseValidationError)
+        await expect(request).rejects.toMatchObject({
+          url: '/things',
+          issues: [expect.objectContaining({ path: ['count'] })],
+        })
+      })
+
+      it('should log a mismatched body and return it in production', async () => {
+        const env = jest.replaceProperty(process, 'env', { ...process.env, NODE_ENV: 'production' })
+        handler.mockImplementation((config) => respond(config, 200, { id: 'a' }))
+
+        await expect(apiHelpers.get('/things/a', { schema })).resolves.toEqual({ id: 'a' })
+        expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Unexpected response from /things/a'))
+        expect(reportError).toHaveBeenCalledWith(expect.any(ResponseValidationError), {
+          kind: 'api',
+          context: { request: '/things/a', errorCode: 'invalid_response' },
+        })
+
+        env.restore()
+      })
+    })
+  })
+
+  describe('envelopes and errors', () => {
+    it('should unwrap { data, success } envelopes', async () => {
+      handler.mockImplementation((config) => respond(config, 200, { data: { id: 'post-1' }, success: true }))
+
+      await expect(apiHelpers.get('/posts/post-1')).resolves.toEqual({ id: 'post-1' })
+    })
+
+    it('should reject an unsuccessful envelope with its message', async () => {
+      handler.mockImplementation((config) =>
+        respond(config, 200, { data: null, success: false, message: 'Post not found' })
+      )
+
+      await expect(apiHelpers.get('/posts/post-1')).rejects.toMatchObject({
+        message: 'Post not found',
+        code: 'bad_request',
+        status: 200,
+      })
+    })
+
+    it('should read field errors from ASP.NET validation problems', async () => {
+      handler.mockImplementation((config) =>
+        respond(config, 400, {
+          title: 'One or more validation errors occurred.',
+          status: 400,
+          errors: { Email: ['The Email field is required.'], '$.username': 'Invalid JSON' },
+        })
+      )
+
+      await expect(apiHelpers.post('/users', {})).rejects.toMatchObject({
+        code: 'validation',
+        status: 400,
+        details: { email: ['The Email field is required.'], username: ['Invalid JSON'] },
+      })
+    })
+
+    it('should report timeouts and unreachable servers', async () => {
+      handler.mockImplementationOnce((config) =>
+        Promise.reject(new AxiosError('timeout of 10000ms exceeded', AxiosError.ECONNABORTED, config))
+      )
+      handler.mockImplementationOnce((config) =>
+        Promise.reject(new AxiosError('Network Error', AxiosError.ERR_NETWORK, config))
+      )
+
+      await expect(apiHelpers.get('/posts')).rejects.toMatchObject({ code: 'timeout' })
+      await expect(apiHelpers.get('/posts')).rejects.toMatchObject({ code: 'network' })
+    })
+
+    it.each([
+      [403, 'forbidden'],
+      [404, 'not_found'],
+      [409, 'conflict'],
+      [429, 'rate_limited'],
+    ])('should classify a %s response as %s', async (status, code) => {
+      handler.mockImplementation((config) => respond(config, status))
+
+      await expect(apiHelpers.get('/posts')).rejects.toMatchObject({ status, code })
+    })
+
+    it('should record a breadcrumb per call and report server and connection failures', async () => {
+      handler.mockImplementationOnce((config) => respond(config, 200, {}))
+      handler.mockImplementationOnce((config) => respond(config, 404))
+      handler.mockImplementationOnce((config) => respond(config, 503, { message: 'Down for maintenance' }))
+
+      await apiHelpers.get('/posts')
+      await apiHelpers.get('/posts/missing').catch(() => undefined)
+      await apiHelpers.post('/posts', {}).catch(() => undefined)
+
+      expect(jest.mocked(addBreadcrumb).mock.calls).toEqual([
+        ['api', 'GET /posts 200'],
+        ['api', 'GET /posts/missing 404'],
+        ['api', 'POST /posts 503'],
+      ])
+      expect(reportError).toHaveBeenCalledTimes(1)
+      expect(reportError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Down for maintenance' }), {
+        kind: 'api',
+        context: { request: 'POST /posts', status: 503, errorCode: 'server' },
+      })
+    })
+
+    it('should record a refreshed and replayed request once', async () => {
+      TokenManager.setTokens('expired', 'refresh')
+      handler.mockImplementation((config) => {
+        if (config.url === endpoints.auth.refresh) {
+          return respond(config, 200, { accessToken: 'fresh', refreshToken: 'refresh-2' })
+        }
+        return authHeader(config) === 'Bearer fresh' ? respond(config, 200, {}) : respond(config, 401)
+      })
+
+      await apiHelpers.get(endpoints.auth.profile)
+
+      expect(jest.mocked(addBreadcrumb).mock.calls.map(([, message]) => message)).toEqual([
+        `POST ${endpoints.auth.refresh} 200`,
+        `GET ${endpoints.auth.profile} 200`,
+      ])
+    })
+
+    it('should prefer the server message, then the fallback, for display', async () => {
+      handler.mockImplementationOnce((config) => respond(config, 400, { errorDescription: 'Token expired' }))
+      handler.mockImplementationOnce((config) => respond(config, 500))
+      handler.mockImplementationOnce((config) => Promise.reject(new AxiosError('Network Error', 'ERR_NETWORK', config)))
+
+      const messages = []
+      for (let i = 0; i < 3; i++) {
+        messages.push(await apiHelpers.get('/posts').catch((error) => getErrorMessage(error, 'Fallback')))
+      }
+
+      expect(messages).toEqual([
+        'Token expired',
+        'Fallback',
+        "Can't reach the server. Check your connection and try again.",
+      ])
+    })
+  })
+
+  describe('token refresh', () => {
+    it('should refresh the access token on 401 and replay the request', async () => {
+      TokenManager.setTokens('expired', 'refresh')
+      handler.mockImplementation((config) => {
+        if (config.url === endpoints.auth.refresh) {
+          return respond(config, 200, { accessToken: 'fresh', refreshToken: 'refresh-2' })
+        }
+        return authHeader(config) === 'Bearer fresh'
+          ? respond(config, 200, { id: 'user-1' })
+          : respond(config, 401)
+      })
+
+      await expect(apiHelpers.get(endpoints.auth.profile)).resolves.toEqual({ id: 'user-1' })
+      expect(TokenManager.getAccessToken()).toBe('fresh')
+      expect(TokenManager.getRefreshToken()).toBe('refresh-2')
+    })
+
+    it('should refresh an expired access token before sending the request', async () => {
+      const expired = createToken({ user_id: 'user-1', exp: Math.floor(Date.now() / 1000) - 60 })
+      TokenManager.setTokens(expired, 'refresh')
+      handler.mockImplementation((config) => {
+        if (config.url === endpoints.auth.refresh) {
+          return respond(config, 200, { accessToken: 'fresh', refreshToken: 'refresh-2' })
+        }
+        return authHeader(config) === 'Bearer fresh'
+          ? respond(config, 200, { id: 'user-1' })
+          : respond(config, 401)
+      })
+
+      await expect(apiHelpers.get(endpoints.auth.profile)).resolves.toEqual({ id: 'user-1' })
+      // No round trip with the expired token
+      expect(handler.mock.calls.map(([config]) => config.url)).toEqual([
+        endpoints.auth.refresh,
+        endpoints.auth.profile,
+      ])
+    })
+
+    it('should share a single refresh call between concurrent 401s', async () => {
+      TokenManager.setTokens('expired', 'refresh')
+      handler.mockImplementation((config) => {
+        if (config.url === endpoints.auth.refresh) {
+          return respond(config, 200, { accessToken: 'fresh', refreshToken: 'refresh-2' })
+        }
+        return authHeader(config) === 'Bearer fresh'
+          ? respond(config, 200, config.url)
+          : respond(config, 401)
+      })
+
+      const results = await Promise.all([
+        apiHelpers.get('/posts'),
+        apiHelpers.get('/notifications'),
+        apiHelpers.get('/notifications/count'),
+      ])
+
+      expect(results).toEqual(['/posts', '/notifications', '/notifications/count'])
+      const refreshCalls = handler.mock.calls.filter(([config]) => config.url === endpoints.auth.refresh)
+      expect(refreshCalls).toHaveLength(1)
+      expect(JSON.parse(refreshCalls[0][0].data)).toEqual({ refreshToken: 'refresh' })
+    })
+
+    it('should hold requests started during a refresh until it completes', async () => {
+      TokenManager.setTokens('expired', 'refresh')
+      let completeRefresh: () => void = () => {}
+      handler.mockImplementation((config) => {
+        if (config.url === endpoints.auth.refresh) {
+          return new Promise((resolve) => {
+            completeRefresh = () =>
+              resolve(respond(config, 200, { accessToken: 'fresh', refreshToken: 'refresh-2' }))
+          })
+        }
+        return authHeader(config) === 'Bearer fresh'
+          ? respond(config, 200, config.url)
+          : respond(config, 401)
+      })
+
+      const first = apiHelpers.get('/posts')
+      // Wait until the refresh call has been issued
+      await new Promise((resolve) => setTimeout(resolve, 0))
+      const second = apiHelpers.get('/notifications')
+      await new Promise((resolve) => setTimeout(resolve, 0))
+
+      expect(handler.mock.calls.map(([config]) => config.url)).not.toContain('/notifications')
+
+      completeRefresh()
+
+      await expect(Promise.all([first, second])).resolves.toEqual(['/posts', '/notifications'])
+      expect(authHeader(handler.mock.calls.find(([config]) => config.url === '/notifications')![0])).toBe(
+        'Bearer fresh'
+      )
+    })
+
+    it('should expire the session when the refresh token is rejected', async () => {
+      const listener = jest.fn()
+      const unsubscribe = onSessionExpired(listener)
+      TokenManager.setTokens('expired', 'revoked')
+      handler.mockImplementation((config) => respond(config, 401))
+
+      await expect(apiHelpers.get(endpoints.auth.profile)).rejects.toMatchObject({
+        status: 401,
+        code: 'unauthorized',
+      })
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(TokenManager.getAccessToken()).toBeNull()
+      expect(TokenManager.getRefreshToken()).toBeNull()
+
+      unsubscribe()
+    })
+
+    it('should expire the session when there is no refresh token', async () => {
+      const listener = jest.fn()
+      const unsubscribe = onSessionExpired(listener)
+      handler.mockImplementation((config) => respond(config, 401))
+
+      await expect(apiHelpers.get(endpoints.auth.profile)).rejects.toMatchObject({ status: 401 })
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(handler).toHaveBeenCalledTimes(1)
+
+      unsubscribe()
+    })
+
+    it('should use tokens rotated by another tab instead of expiring the session', async () => {
+      const listener = jest.fn()
+      const unsubscribe = onSessionExpired(listener)
+      TokenManager.setTokens('expired', 'refresh')
+      handler.mockImplementation((config) => {
+        if (config.url === endpoints.auth.refresh) {
+          // Another tab refreshed first, so the token sent here has already been rotated
+          TokenManager.setTokens('fresh', 'refresh-2')
+          return respond(config, 401)
+        }
+        return authHeader(config) === 'Bearer fresh'
+          ? respond(config, 200, { id: 'user-1' })
+          : respond(config, 401)
+      })
+
+      await expect(apiHelpers.get(endpoints.auth.profile)).resolves.toEqual({ id: 'user-1' })
+      expect(listener).not.toHaveBeenCalled()
+      expect(TokenManager.getRefreshToken()).toBe('refresh-2')
+
+      unsubscribe()
+    })
+
+    it('should keep the session when the refresh fails for network reasons', async () => {
+      const listener = jest.fn()
+      const unsubscribe = onSessionExpired(listener)
+      TokenManager.setTokens('expired', 'refresh')
+      handler.mockImplementation((config) =>
+        config.url === endpoints.auth.refresh
+          ? Promise.reject(new AxiosError('Network Error', 'ERR_NETWORK', config))
+          : respond(config, 401)
+      )
+
+      await expect(refreshAccessToken()).rejects.toMatchObject({ code: 'network' })
+      expect(listener).not.toHaveBeenCalled()
+      expect(TokenManager.getRefreshToken()).toBe('refresh')
+
+      unsubscribe()
+    })
+
+    it('should not retry a replayed request more than once', async () => {
+      TokenManager.setTokens('expired', 'refresh')
+      handler.mockImplementation((config) =>
+        config.url === endpoints.auth.refresh
+          ? respond(config, 200, { accessToken: 'fresh', refreshToken: 'refresh-2' })
+          : respond(config, 401)
+      )
+
+      await expect(apiHelpers.get('/posts')).rejects.toMatchObject({ status: 401 })
+      expect(handler.mock.calls.map(([config]) => config.url)).toEqual([
+        '/posts',
+        endpoints.auth.refresh,
+        '/posts',
+      ])
+    })
+
+    it('should not refresh when login itself returns 401', async () => {
+      handler.mockImplementation((config) => respond(config, 401))
+
+      await expect(apiHelpers.post(endpoints.auth.login, {})).rejects.toMatchObject({ status: 401 })
+      expect(handler).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not refresh when a two-factor code is wrong', async () => {
+      TokenManager.setTokens('access', 'refresh')
+      handler.mockImplementation((config) =>
+        respond(config, 400, { error: 'invalid_code', errorDescription: 'Invalid verification code' })
+      )
+
+      await expect(apiHelpers.post(endpoints.auth.twoFactor.verify, { code: '000000' })).rejects.toMatchObject({
+        status: 400,
+      })
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(TokenManager.getRefreshToken()).toBe('refresh')
+    })
+
+    it('should pass through non-401 errors', async () => {
+      handler.mockImplementation((config) => respond(config, 500))
+
+      await expect(apiHelpers.get('/posts')).rejects.toMatchObject({ status: 500, code: 'server' })
+      expect(handler).toHaveBeenCalledTimes(1)
+    })
+  })
+})
@@ -0,0 +1,123 @@
+import type { AuthSyncMessage } from '../authSync'
+
+type AuthSyncModule = typeof import('../authSync')
+
+// Each test gets a fresh module so the transport is chosen against that test's globals
+const loadAuthSync = async () => {
+  let authSync!: AuthSyncModule
+  await jest.isolateModulesAsync(async () => {
+    authSync = await import('../authSync')
+  })
+  return authSync
+}
+
+const user = {
+  id: 'user-1',
+  email: 'test@example.com',
+  username: 'testuser',
+  displayName: 'Test User',
+  isVerified: false,
+  followersCount: 0,
+  followingCount: 0,
+  postsCount: 0,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+}
+
+describe('authSync', () => {
+  const originalBroadcastChannel = (global as { BroadcastChannel?: unknown }).BroadcastChannel
+
+  afterEach(() => {
+    ;(global as { BroadcastChannel?: unknown }).BroadcastChannel = originalBroadcastChannel
+  })
+
+  describe('with BroadcastChannel', () => {
+    const channels: FakeBroadcastChannel[] = []
+
+    class FakeBroadcastChannel {
+      onmessage: ((event: MessageEvent) => void) | null = null
+      postMessage = jest.fn()
+
+      constructor(public name: string) {
+        channels.push(this)
+      }
+    }
+
+    beforeEach(() => {
+      channels.length = 0
+      ;(global as { BroadcastChannel?: unknown }).BroadcastChannel = FakeBroadcastChannel
+    })
+
+    it('should post messages on the auth-sync channel', async () => {
+      const { broadcastAuthEvent } = await loadAuthSync()
+
+      broadcastAuthEvent({ type: 'logout' })
+
+      expect(channels).toHaveLength(1)
+      expect(channels[0].name).toBe('auth-sync')
+      expect(channels[0].postMessage).toHaveBeenCalledWith({ type: 'logout' })
+    })
+
+    it('should deliver messages from other tabs to subscribers', async () => {
+      const { subscribeToAuthEvents } = await loadAuthSync()
+      const listener = jest.fn()
+      const unsubscribe = subscribeToAuthEvents(listener)
+
+      const message: AuthSyncMessage = { type: 'login', user }
+      channels[0].onmessage?.({ data: message } as MessageEvent)
+      expect(listener).toHaveBeenCalledWith(message)
+
+      unsubscribe()
+      channels[0].onmessage?.({ data: message } as MessageEvent)
+      expect(listener).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('with the storage event fallback', () => {
+    let setItem: jest.SpyInstance
+    let removeItem: jest.SpyInstance
+
+    beforeEach(() => {
+      delete (global as { BroadcastChannel?: unknown }).BroadcastChannel
+      setItem = jest.spyOn(Storage.prototype, 'setItem')
+      removeItem = jest.spyOn(Storage.prototype, 'removeItem')
+    })
+
+    afterEach(() => {
+      setItem.mockRestore()
+      removeItem.mockRestore()
+    })
+
+    it('should write the message to localStorage and remove it again', async () => {
+      const { broadcastAuthEvent } = await loadAuthSync()
+
+      broadcastAuthEvent({ type: 'token-refreshed' })
+
+      const [key, value] = setItem.mock.calls[0]
+      expect(key).toBe('auth-sync')
+      expect(JSON.parse(value).message).toEqual({ type: 'token-refreshed' })
+      expect(removeItem).toHaveBeenCalledWith('auth-sync')
+    })
+
+    it('should deliver storage events from other tabs to subscribers', async () => {
+      const { subscribeToAuthEvents } = await loadAuthSync()
+      const listener = jest.fn()
+      const unsubscribe = subscribeToAuthEvents(listener)
+
+      window.dispatchEvent(
+        new StorageEvent('storage', {
+          key: 'auth-sync',
+          newValue: JSON.stringify({ message: { type: 'logout' }, sentAt: 1 }),
+        })
+      )
+      // The follow-up removal and unrelated keys are ignored
+      window.dispatchEvent(new StorageEvent('storage', { key: 'auth-sync', newValue: null }))
+      window.dispatchEvent(new StorageEvent('storage', { key: 'auth-store', newValue: '{}' }))
+
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledWith({ type: 'logout' })
+
+      unsubscribe()
+    })
+  })
+})
@@ -0,0 +1,177 @@
+import type { ErrorReport } from '../errorReporting'
+
+const ENDPOINT = 'http://errors.test/reports'
+
+// Stands in for the ingestion service
+const received: ErrorReport[][] = []
+let ingestionStatus = 200
+const receiveReports = async (url: RequestInfo | URL, init?: RequestInit) => {
+  expect(url).toBe(ENDPOINT)
+  received.push(JSON.parse(init?.body as string).reports)
+  return new Response(null, { status: ingestionStatus })
+}
+
+describe('errorReporting', () => {
+  let reporting: typeof import('../errorReporting')
+  let env: jest.ReplaceProperty<typeof process.env>
+  let uninstall: (() => void) | undefined
+
+  beforeEach(() => {
+    // Each test starts with an empty queue and no breadcrumbs
+    localStorage.clear()
+    jest.isolateModules(() => {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      reporting = require('../errorReporting')
+    })
+    env = jest.replaceProperty(process, 'env', { ...process.env, NEXT_PUBLIC_ERROR_REPORTING_ENDPOINT: ENDPOINT })
+    jest.spyOn(global, 'fetch').mockImplementation(receiveReports)
+    ingestionStatus = 200
+    received.length = 0
+  })
+
+  afterEach(() => {
+    uninstall?.()
+    uninstall = undefined
+    env.restore()
+    jest.restoreAllMocks()
+  })
+
+  describe('scrub', () => {
+    it('should redact credentials by key and inside strings', () => {
+      expect(
+        reporting.scrub({
+          password: 'hunter2',
+          nested: { refreshToken: 'r', twoFactorToken: 't', code: '123456', email: 'a@b.c' },
+          header: 'Bearer abc.def-123',
+          url: '/auth/confirm-email?userId=1&token=secret-token&x=2',
+          message: 'Bad token eyJhbGciOi.eyJzdWIiOi.c2lnbmF0dXJl',
+        })
+      ).toEqual({
+        password: '[redacted]',
+        nested: { refreshToken: '[redacted]', twoFactorToken: '[redacted]', code: '[redacted]', email: 'a@b.c' },
+        header: 'Bearer [redacted]',
+        url: '/auth/confirm-email?userId=1&token=[redacted]&x=2',
+        message: 'Bad token [redacted]',
+      })
+    })
+  })
+
+  it('should send reports with the breadcrumbs that led up to them', async () => {
+    reporting.addBreadcrumb('navigation', '/settings')
+    reporting.addBreadcrumb('api', 'POST /auth/change-password 500')
+
+    const report = reporting.reportError(new Error('Boom'), {
+      kind: 'api',
+      context: { request: 'POST /auth/change-password', currentPassword: 'old' },
+    })
+    await reporting.flushErrorReports()
+
+    expect(report).toBeDefined()
+    expect(received).toEqual([
+      [
+        expect.objectContaining({
+          kind: 'api',
+          name: 'Error',
+          message: 'Boom',
+          context: { request: 'POST /auth/change-password', currentPassword: '[redacted]' },
+          breadcrumbs: [
+            expect.objectContaining({ category: 'navigation', message: '/settings' }),
+            expect.objectContaining({ category: 'api', message: 'POST /auth/change-password 500' }),
+          ],
+        }),
+      ],
+    ])
+  })
+
+  it('should only queue the sampled share of reports', () => {
+    jest.replaceProperty(process, 'env', {
+      ...process.env,
+      NEXT_PUBLIC_ERROR_REPORTING_ENDPOINT: ENDPOINT,
+      NEXT_PUBLIC_ERROR_REPORTING_SAMPLE_RATE: '0.25',
+    })
+    jest.spyOn(Math, 'random').mockReturnValueOnce(0.1).mockReturnValueOnce(0.6)
+
+    expect(reporting.reportError(new Error('kept'))).toBeDefined()
+    expect(reporting.reportError(new Error('dropped'))).toBeUndefined()
+  })
+
+  it('should not queue anything without an endpoint', () => {
+    jest.replaceProperty(process, 'env', { ...process.env, NEXT_PUBLIC_ERROR_REPORTING_ENDPOINT: undefined })
+
+    expect(reporting.reportError(new Error('Boom'))).toBeUndefined()
+  })
+
+  it('should send a full batch straight away', async () => {
+    for (let i = 0; i < 10; i++) reporting.reportError(new Error(`Error ${i}`))
+    await reporting.flushErrorReports()
+
+    expect(received).toHaveLength(1)
+    expect(received[0]).toHaveLength(10)
+  })
+
+  it('should keep reports while offline and send them when the connection is back', async () => {
+    const onLine = jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(false)
+    uninstall = reporting.installErrorReporting()
+
+    reporting.reportError(new Error('Offline'))
+    await reporting.flushErrorReports()
+    expect(received).toHaveLength(0)
+    expect(localStorage.getItem('error-reports')).toContain('Offline')
+
+    onLine.mockReturnValue(true)
+    window.dispatchEvent(new Event('online'))
+    await reporting.flushErrorReports()
+
+    expect(received.flat().map((report) => report.message)).toEqual(['Offline'])
+    expect(localStorage.getItem('error-reports')).toBeNull()
+  })
+
+  it('should send reports stored by an earlier visit', async () => {
+    const stored = [{ id: '1', kind: 'error', name: 'Error', message: 'Earlier', breadcrumbs: [] }]
+    localStorage.setItem('error-reports', JSON.stringify(stored))
+
+    await reporting.flushErrorReports()
+
+    expect(received).toEqual([stored])
+  })
+
+  it('should keep a batch the endpoint rejected', async () => {
+    reporting.reportError(new Error('Retry me'))
+    ingestionStatus = 503
+    await reporting.flushErrorReports()
+    ingestionStatus = 200
+    await reporting.flushErrorReports()
+
+    expect(received.map((batch) => batch[0].message)).toEqual(['Retry me', 'Retry me'])
+  })
+
+  describe('installErrorReporting', () => {
+    it('should report unhandled errors and rejections', async () => {
+      uninstall = reporting.installErrorReporting()
+
+      window.dispatchEvent(new ErrorEvent('error', { error: new TypeError('x is undefined'), lineno: 3 }))
+      window.dispatchEvent(Object.assign(new Event('unhandledrejection'), { reason: 'Request aborted' }))
+      await reporting.flushErrorReports()
+
+      expect(received.flat()).toEqual([
+        expect.objectContaining({ kind: 'error', name: 'TypeError', message: 'x is undefined' }),
+        expect.objectContaining({ kind: 'unhandledrejection', message: 'Request aborted' }),
+      ])
+    })
+
+    it('should record clicks without input values', async () => {
+      uninstall = reporting.installErrorReporting()
+      document.body.innerHTML = '<button><span>Sign in</span></button><input value="secret" />'
+
+      document.querySelector('span')!.click()
+      document.querySelector('input')!.click()
+      reporting.reportError(new Error('Boom'))
+      await reporting.flushErrorReports()
+
+      expect(received[0][0].breadcrumbs.map((breadcrumb) => breadcrumb.message)).toEqual([
+        'button "Sign in"',
+        'input',
+      ])
+    })
+  })
+})
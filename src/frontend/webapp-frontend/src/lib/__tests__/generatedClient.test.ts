@@ -0,0 +1,168 @@
+import fs from 'fs'
+import { apiHelpers } from '@/lib/api'
+import { postsApi } from '@/lib/generated/posts'
+import { mediaApi } from '@/lib/generated/media'
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const generator = require('../../../scripts/generate-api-client')
+
+jest.mock('@/lib/api', () => ({
+  apiHelpers: {
+    get: jest.fn(),
+    post: jest.fn(),
+    put: jest.fn(),
+    patch: jest.fn(),
+    delete: jest.fn(),
+  },
+}))
+
+const mockApiHelpers = apiHelpers as jest.Mocked<typeof apiHelpers>
+
+const service = { name: 'widgets', spec: 'widgets.json', servicePrefix: '/api/Widgets' }
+
+const spec = {
+  paths: {
+    '/api/Widgets/{id}': {
+      get: {
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } },
+          { name: 'expand', in: 'query', schema: { type: 'boolean' } },
+        ],
+        responses: {
+          '200': { content: { 'application/json': { schema: { $ref: '#/components/schemas/Widget' } } } },
+        },
+      },
+      delete: {
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: { '204': { description: 'No Content' } },
+      },
+    },
+    '/api/Widgets/upload': {
+      post: {
+        requestBody: { content: { 'multipart/form-data': { schema: { type: 'object' } } } },
+        responses: {
+          '200': { content: { 'application/json': { schema: { $ref: '#/components/schemas/Widget' } } } },
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      WidgetKind: { enum: [0, 1, 2], type: 'integer', format: 'int32' },
+      Widget: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          kind: { $ref: '#/components/schemas/WidgetKind' },
+          label: { type: 'string', nullable: true },
+          tags: { type: 'array', items: { type: 'string' } },
+          isLarge: { type: 'boolean', readOnly: true },
+        },
+        additionalProperties: false,
+      },
+    },
+  },
+}
+
+describe('generated API client', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should match the OpenAPI fixtures (run `npm run api:generate` if this fails)', () => {
+    expect(generator.findOutdatedFiles()).toEqual([])
+  })
+
+  describe('generator', () => {
+    const output = generator.generateServiceClient(service, spec)
+
+    it('should render enums as unions of their values', () => {
+      expect(output).toContain('export type WidgetKind = 0 | 1 | 2;')
+    })
+
+    it('should make only nullable members optional', () => {
+      expect(output).toContain('  id: string;')
+      expect(output).toContain('  kind: WidgetKind;')
+      expect(output).toContain('  label?: string | null;')
+      expect(output).toContain('  tags: string[];')
+      expect(output).toContain('  readonly isLarge: boolean;')
+    })
+
+    it('should name operations after the method and route', () => {
+      expect(generator.operationName('get', '/feed/{userId}')).toBe('getFeedByUserId')
+      expect(output).toContain('getById: <T = Widget>(id: string, query?: { expand?: boolean }, config?: ApiRequestConfig<T>) =>')
+      expect(output).toContain('deleteById: <T = void>(id: string, config?: ApiRequestConfig<T>) =>')
+    })
+
+    it('should resolve routes through the service registry with typed responses', () => {
+      expect(output).toContain(
+        "apiHelpers.get<T>(serviceUrl('widgets', '/{id}', { id }), { ...config, params: query })"
+      )
+      expect(output).toContain("apiHelpers.delete<T>(serviceUrl('widgets', '/{id}', { id }), config)")
+    })
+
+    it('should take FormData for multipart uploads', () => {
+      expect(output).toContain('postUpload: <T = Widget>(body: FormData, config?: ApiRequestConfig<T>) =>')
+      expect(output).toContain("apiHelpers.post<T>(serviceUrl('widgets', '/upload'), body, config)")
+    })
+
+    it('should reject paths outside the service prefix', () => {
+      expect(() =>
+        generator.generateServiceClient(service, { paths: { '/api/Other': { get: { responses: {} } } } })
+      ).toThrow('/api/Other is outside /api/Widgets')
+    })
+  })
+
+  describe('fetchSpecs', () => {
+    const originalFetch = global.fetch
+    let writeFileSync: jest.SpyInstance
+
+    beforeEach(() => {
+      writeFileSync = jest.spyOn(fs, 'writeFileSync').mockImplementation(() => undefined)
+      jest.spyOn(console, 'log').mockImplementation(() => undefined)
+    })
+
+    afterEach(() => {
+      global.fetch = originalFetch
+      jest.restoreAllMocks()
+    })
+
+    const respond = (body: string, status = 200) =>
+      ({ ok: status < 400, status, text: () => Promise.resolve(body) }) as Response
+
+    it('should save each Swagger document as served, from the configured service URL', async () => {
+      global.fetch = jest.fn().mockResolvedValue(respond('{"paths":{}}'))
+
+      await generator.fetchSpecs([{ ...service, localUrl: 'http://localhost:7009', urlVariable: 'WIDGETS_URL' }], {
+        WIDGETS_URL: 'http://widgets:8080/',
+      })
+
+      expect(global.fetch).toHaveBeenCalledWith('http://widgets:8080/swagger/v1/swagger.json')
+      expect(writeFileSync).toHaveBeenCalledWith(expect.stringMatching(/openapi[\\/]widgets\.json$/), '{"paths":{}}\n')
+    })
+
+    it('should fail without writing when a service does not serve its document', async () => {
+      global.fetch = jest.fn().mockResolvedValue(respond('Not Found', 404))
+
+      await expect(
+        generator.fetchSpecs([{ ...service, localUrl: 'http://localhost:7009', urlVariable: 'WIDGETS_URL' }], {})
+      ).rejects.toThrow('http://localhost:7009/swagger/v1/swagger.json answered 404')
+      expect(writeFileSync).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('checked-in client', () => {
+    it('should call the gateway with encoded path parameters and query params', () => {
+      postsApi.getFeedByUserId('user 1', { limit: 20 })
+
+      expect(mockApiHelpers.get).toHaveBeenCalledWith('/posts/feed/user%201', { params: { limit: 20 } })
+    })
+
+    it('should post multipart uploads as FormData', () => {
+      const body = new FormData()
+      mediaApi.postUpload(body)
+
+      expect(mockApiHelpers.post).toHaveBeenCalledWith('/media/upload', body, undefined)
+    })
+  })
+})
@@ -0,0 +1,66 @@
+import type { AuthSyncMessage } from '../authSync'
+import { broadcastAuthEvent, subscribeToAuthEvents } from '../authSync'
+import {
+  SESSION_ONLY_IDLE_TIMEOUT_MINUTES,
+  getIdleTimeoutMs,
+  getLastActivityAt,
+  recordActivity,
+} from '../idleActivity'
+
+jest.mock('../authSync', () => ({
+  broadcastAuthEvent: jest.fn(),
+  subscribeToAuthEvents: jest.fn(),
+}))
+
+const mockBroadcastAuthEvent = broadcastAuthEvent as jest.Mock
+// Captured before any test clears the mock's calls
+const authSyncHandler = (subscribeToAuthEvents as jest.Mock).mock.calls[0][0] as (
+  message: AuthSyncMessage
+) => void
+
+describe('idleActivity', () => {
+  describe('getIdleTimeoutMs', () => {
+    it('should use the preferred timeout for remembered sessions', () => {
+      expect(getIdleTimeoutMs(60, true)).toBe(60 * 60 * 1000)
+    })
+
+    it('should shorten the timeout for sessions without remember-me', () => {
+      expect(getIdleTimeoutMs(60, false)).toBe(SESSION_ONLY_IDLE_TIMEOUT_MINUTES * 60 * 1000)
+      expect(getIdleTimeoutMs(5, false)).toBe(5 * 60 * 1000)
+    })
+  })
+
+  describe('activity tracking', () => {
+    const start = getLastActivityAt() + 60 * 1000
+
+    beforeEach(() => {
+      mockBroadcastAuthEvent.mockClear()
+    })
+
+    it('should share activity with other tabs at most every few seconds', () => {
+      recordActivity(start)
+      recordActivity(start + 1000)
+      recordActivity(start + 6000)
+
+      expect(getLastActivityAt()).toBe(start + 6000)
+      expect(mockBroadcastAuthEvent.mock.calls).toEqual([
+        [{ type: 'activity', at: start }],
+        [{ type: 'activity', at: start + 6000 }],
+      ])
+    })
+
+    it('should count activity in other tabs', () => {
+      authSyncHandler({ type: 'activity', at: start + 60 * 1000 })
+
+      expect(getLastActivityAt()).toBe(start + 60 * 1000)
+    })
+
+    it('should never move the last activity backwards', () => {
+      const latest = getLastActivityAt()
+
+      authSyncHandler({ type: 'activity', at: latest - 1000 })
+
+      expect(getLastActivityAt()).toBe(latest)
+    })
+  })
+})
@@ -0,0 +1,64 @@
+import { PASSWORD_SCORE_LABELS, estimatePasswordStrength } from '../passwordStrength'
+
+describe('passwordStrength', () => {
+  describe('estimatePasswordStrength', () => {
+    it('should score an empty password as very weak without feedback', () => {
+      expect(estimatePasswordStrength('')).toEqual({
+        score: 0,
+        label: 'Very weak',
+        suggestions: [],
+      })
+    })
+
+    it('should score passwords that only satisfy the character rules as weak', () => {
+      const strength = estimatePasswordStrength('Password1!')
+
+      expect(strength.score).toBe(0)
+      expect(strength.warning).toBe('This is similar to a commonly used password.')
+      expect(strength.suggestions).toContain('Avoid common words and passwords.')
+    })
+
+    it('should see through look-alike substitutions', () => {
+      const strength = estimatePasswordStrength('P@ssw0rd!')
+
+      expect(strength.score).toBe(0)
+      expect(strength.suggestions).toContain(
+        'Swapping letters for look-alike symbols, like "@" for "a", doesn\'t help much.'
+      )
+    })
+
+    it.each([
+      ['keyboard patterns', 'Qwerty123!', 'Rows of neighbouring keys like "qwerty" are easy to guess.'],
+      ['sequences', 'Abcdefgh1!', 'Sequences like "abc" or "6543" are easy to guess.'],
+      ['repeats', 'Aaaaaaaa1!', 'Repeats like "aaa" or "abcabc" are easy to guess.'],
+    ])('should penalize %s', (_, password, warning) => {
+      const strength = estimatePasswordStrength(password)
+
+      expect(strength.score).toBeLessThanOrEqual(1)
+      expect(strength.warning).toBe(warning)
+    })
+
+    it("should penalize the user's own username, email or name", () => {
+      expect(estimatePasswordStrength('Janedoe99!').score).toBeGreaterThanOrEqual(3)
+
+      const strength = estimatePasswordStrength('Janedoe99!', ['janedoe', 'jane.doe@example.com', 'Jane Doe'])
+      expect(strength.score).toBe(0)
+      expect(strength.warning).toBe('Passwords containing your name, username or email are easy to guess.')
+    })
+
+    it('should match parts of the email and display name', () => {
+      expect(estimatePasswordStrength('Doe&Jane#77', ['jane.doe@example.com']).score).toBeLessThan(
+        estimatePasswordStrength('Doe&Jane#77').score
+      )
+    })
+
+    it('should score long unpredictable passwords as strong without suggestions', () => {
+      expect(estimatePasswordStrength('Tq7#mZp2!xLw')).toEqual({
+        score: 4,
+        label: PASSWORD_SCORE_LABELS[4],
+        suggestions: [],
+      })
+      expect(estimatePasswordStrength('correct-Horse-battery-9').score).toBe(4)
+    })
+  })
+})
@@ -0,0 +1,36 @@
+import { getPermissions, getRequiredPermission } from '../permissions'
+
+describe('permissions', () => {
+  describe('getPermissions', () => {
+    it('should grant admins every admin permission', () => {
+      expect(getPermissions(['Admin'])).toEqual([
+        'admin:access',
+        'media-processing:view',
+        'notifications:bulk',
+        'maintenance:cleanup',
+      ])
+    })
+
+    it('should ignore unknown roles', () => {
+      expect(getPermissions([])).toEqual([])
+      expect(getPermissions(['admin', 'Moderator'])).toEqual([])
+    })
+
+    it('should not repeat permissions', () => {
+      expect(getPermissions(['Admin', 'Admin'])).toHaveLength(4)
+    })
+  })
+
+  describe('getRequiredPermission', () => {
+    it('should require a permission for admin routes and everything below them', () => {
+      expect(getRequiredPermission('/admin')).toBe('admin:access')
+      expect(getRequiredPermission('/admin/media')).toBe('admin:access')
+    })
+
+    it('should not require a permission for other routes', () => {
+      expect(getRequiredPermission('/')).toBeUndefined()
+      expect(getRequiredPermission('/administrators')).toBeUndefined()
+      expect(getRequiredPermission('/settings/security')).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,48 @@
+import { getDefaultVisibility, getEffectiveVisibility, getEmbedCode, getShareAvailability } from '../postVisibility'
+import { POST_VISIBILITY } from '@/types'
+
+const author = { id: 'user-1', username: 'ada', displayName: 'Ada <Lovelace>' } as const
+
+describe('postVisibility', () => {
+  describe('getDefaultVisibility', () => {
+    it('should default to public, or followers for a private account', () => {
+      expect(getDefaultVisibility(undefined)).toBe(POST_VISIBILITY.PUBLIC)
+      expect(getDefaultVisibility({ isPrivate: false })).toBe(POST_VISIBILITY.PUBLIC)
+      expect(getDefaultVisibility({ isPrivate: true })).toBe(POST_VISIBILITY.FOLLOWERS)
+    })
+  })
+
+  describe('getEffectiveVisibility', () => {
+    it("should limit a private account's public posts to its followers", () => {
+      const post = { visibility: POST_VISIBILITY.PUBLIC, author: { ...author, isPrivate: true } }
+
+      expect(getEffectiveVisibility(post as never)).toBe(POST_VISIBILITY.FOLLOWERS)
+      expect(getEffectiveVisibility({ ...post, visibility: POST_VISIBILITY.PRIVATE } as never)).toBe(
+        POST_VISIBILITY.PRIVATE
+      )
+    })
+  })
+
+  describe('getShareAvailability', () => {
+    it('should allow linking and embedding only as far as the audience reaches', () => {
+      const share = (visibility: number, isPrivate = false) =>
+        getShareAvailability({ visibility, author: { ...author, isPrivate } } as never)
+
+      expect(share(POST_VISIBILITY.PUBLIC)).toEqual({ canCopyLink: true, canEmbed: true })
+      expect(share(POST_VISIBILITY.FOLLOWERS)).toMatchObject({ canCopyLink: true, canEmbed: false })
+      expect(share(POST_VISIBILITY.PUBLIC, true)).toMatchObject({ canCopyLink: true, canEmbed: false })
+      expect(share(POST_VISIBILITY.PRIVATE)).toMatchObject({ canCopyLink: false, canEmbed: false })
+      expect(share(POST_VISIBILITY.FOLLOWERS).note).toContain('@ada')
+    })
+  })
+
+  describe('getEmbedCode', () => {
+    it('should escape the post and link to it', () => {
+      const code = getEmbedCode({ id: 'post-1', content: '<script>alert(1)</script>', author } as never, 'https://app.test')
+
+      expect(code).toContain('&lt;script&gt;alert(1)&lt;/script&gt;')
+      expect(code).toContain('Ada &lt;Lovelace&gt; (@ada)')
+      expect(code).toContain('href="https://app.test/posts/post-1"')
+    })
+  })
+})
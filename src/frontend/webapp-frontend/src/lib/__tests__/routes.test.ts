@@ -0,0 +1,45 @@
+import { buildLoginUrl, getRouteAccess, getSafeReturnTo } from '../routes'
+
+describe('routes', () => {
+  describe('getRouteAccess', () => {
+    it.each([
+      ['/auth/login', 'guest'],
+      ['/auth/register', 'guest'],
+      ['/auth/forgot-password', 'guest'],
+      ['/auth/reset-password', 'public'],
+      ['/auth/confirm-email', 'public'],
+      ['/terms', 'public'],
+      ['/', 'protected'],
+      ['/settings/security', 'protected'],
+      ['/auth/login-help', 'protected'],
+    ])('should treat %s as %s', (pathname, access) => {
+      expect(getRouteAccess(pathname)).toBe(access)
+    })
+  })
+
+  describe('getSafeReturnTo', () => {
+    it('should accept same-origin paths', () => {
+      expect(getSafeReturnTo('/settings/security?tab=sessions')).toBe('/settings/security?tab=sessions')
+    })
+
+    it.each([null, '', 'https://evil.example.com', '//evil.example.com', '/\\evil.example.com', '/auth/login'])(
+      'should fall back to the home page for %p',
+      (returnTo) => {
+        expect(getSafeReturnTo(returnTo)).toBe('/')
+      }
+    )
+  })
+
+  describe('buildLoginUrl', () => {
+    it('should carry the return path', () => {
+      expect(buildLoginUrl('/settings/security?tab=sessions')).toBe(
+        '/auth/login?returnTo=%2Fsettings%2Fsecurity%3Ftab%3Dsessions'
+      )
+    })
+
+    it('should omit the default route', () => {
+      expect(buildLoginUrl('/')).toBe('/auth/login')
+      expect(buildLoginUrl()).toBe('/auth/login')
+    })
+  })
+})
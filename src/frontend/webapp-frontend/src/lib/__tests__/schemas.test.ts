@@ -0,0 +1,128 @@
+import {
+  loginResponseSchema,
+  notificationSchema,
+  paginatedResponseSchema,
+  postSchema,
+  userSchema,
+  userSessionSchema,
+} from '../schemas'
+import { NotificationStatus, NotificationType } from '@/types'
+
+const user = {
+  id: 'user-1',
+  email: 'test@example.com',
+  username: 'testuser',
+  displayName: 'Test User',
+  isVerified: false,
+  followersCount: 10,
+  followingCount: 5,
+  postsCount: 3,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+}
+
+// As the post service sends it: the post with its author's public profile
+const post = {
+  id: 'post-1',
+  content: 'Hello',
+  authorId: 'user-1',
+  author: {
+    id: 'user-1',
+    username: 'testuser',
+    displayName: 'Test User',
+    profileImageUrl: '',
+    isPrivate: false,
+    isVerified: false,
+  },
+  type: 0,
+  visibility: 0,
+  isEdited: false,
+  repliesCount: 0,
+  parentPostId: null,
+  rootPostId: null,
+  mediaAttachments: [],
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+}
+
+describe('schemas', () => {
+  describe('userSchema', () => {
+    it('should accept a user with extra fields from the service', () => {
+      expect(userSchema.safeParse({ ...user, profileImageUrl: '' }).success).toBe(true)
+    })
+
+    it('should reject a null avatar and missing counts', () => {
+      const result = userSchema.safeParse({ ...user, avatarUrl: null, followersCount: undefined })
+
+      expect(result.success).toBe(false)
+      expect(result.error?.issues.map((issue) => issue.path[0])).toEqual(['avatarUrl', 'followersCount'])
+    })
+  })
+
+  describe('loginResponseSchema', () => {
+    it('should accept tokens or a two-factor challenge', () => {
+      expect(loginResponseSchema.safeParse({ user, accessToken: 'a', refreshToken: 'r' }).success).toBe(true)
+      expect(
+        loginResponseSchema.safeParse({ requiresTwoFactor: true, twoFactorToken: 'challenge' }).success
+      ).toBe(true)
+    })
+
+    it('should reject a response without tokens', () => {
+      expect(loginResponseSchema.safeParse({ user }).success).toBe(false)
+    })
+  })
+
+  it('should accept sessions with null device details', () => {
+    const session = {
+      id: 's-1',
+      sessionId: 'session-1',
+      createdAt: '2024-01-01T00:00:00Z',
+      lastActivityAt: '2024-01-01T00:00:00Z',
+      expiresAt: '2024-01-08T00:00:00Z',
+      isActive: true,
+      ipAddress: null,
+      userAgent: null,
+    }
+
+    expect(userSessionSchema.safeParse(session).success).toBe(true)
+  })
+
+  it('should accept posts without like and comment counts', () => {
+    expect(postSchema.safeParse(post).success).toBe(true)
+    expect(postSchema.safeParse({ ...post, likesCount: 2, commentsCount: 1, isLiked: true }).success).toBe(true)
+  })
+
+  it("should need the author's profile image field", () => {
+    expect(postSchema.safeParse({ ...post, author: { ...post.author, profileImageUrl: undefined } }).success).toBe(
+      false
+    )
+  })
+
+  it('should only accept known post types', () => {
+    expect(postSchema.safeParse(post).success).toBe(true)
+    expect(postSchema.safeParse({ ...post, type: 9 }).success).toBe(false)
+  })
+
+  it('should validate notifications against the enums', () => {
+    const notification = {
+      id: 'n-1',
+      type: NotificationType.LIKE,
+      status: NotificationStatus.UNREAD,
+      title: 'New like',
+      message: 'Someone liked your post',
+      relatedPost: post,
+      createdAt: '2024-01-01T00:00:00Z',
+    }
+
+    expect(notificationSchema.safeParse(notification).success).toBe(true)
+    expect(notificationSchema.safeParse({ ...notification, status: 'deleted' }).success).toBe(false)
+  })
+
+  it('should validate each item of a paginated response', () => {
+    const pagination = { page: 1, limit: 20, total: 1, pages: 1, hasNext: false, hasPrev: false }
+    const schema = paginatedResponseSchema(postSchema)
+
+    expect(schema.safeParse({ data: [post], pagination }).success).toBe(true)
+    expect(schema.safeParse({ data: [{ ...post, author: undefined }], pagination }).success).toBe(false)
+  })
+})
@@ -0,0 +1,64 @@
+import {
+  DEFAULT_TIMEOUT_MS,
+  ServiceConfig,
+  getServiceBaseUrl,
+  getServiceForUrl,
+  getServiceTimeout,
+  serviceUrl,
+} from '../services'
+
+const gateway: ServiceConfig = { mode: 'gateway', gatewayUrl: 'http://localhost:7009', serviceUrls: {} }
+
+describe('services', () => {
+  describe('getServiceBaseUrl', () => {
+    it('should route through the gateway by default', () => {
+      expect(getServiceBaseUrl('posts', gateway)).toBe('/posts')
+      expect(getServiceBaseUrl('mediaProcessing', gateway)).toBe('/media-processing')
+    })
+
+    it('should call each service where the local script starts it in direct mode', () => {
+      const direct: ServiceConfig = { ...gateway, mode: 'direct' }
+
+      expect(getServiceBaseUrl('auth', direct)).toBe('http://localhost:7001/api/Auth')
+      expect(getServiceBaseUrl('media', direct)).toBe('http://localhost:7007/api/MediaUpload')
+    })
+
+    it('should prefer a per-service override in either mode', () => {
+      const config: ServiceConfig = { ...gateway, serviceUrls: { posts: 'https://posts.example.com/' } }
+
+      expect(getServiceBaseUrl('posts', config)).toBe('https://posts.example.com/api/Posts')
+      expect(getServiceBaseUrl('likes', config)).toBe('/likes')
+    })
+  })
+
+  describe('serviceUrl', () => {
+    it('should fill in and encode path parameters', () => {
+      expect(serviceUrl('posts', '/feed/{userId}', { userId: 'user 1' })).toBe('/posts/feed/user%201')
+      expect(serviceUrl('comments', '/{id}/replies/{page}', { id: 'c/1', page: 2 })).toBe(
+        '/comments/c%2F1/replies/2'
+      )
+    })
+
+    it('should return the service base for an empty route', () => {
+      expect(serviceUrl('notifications', '')).toBe('/notifications')
+    })
+  })
+
+  describe('getServiceForUrl', () => {
+    it('should match on whole path segments', () => {
+      expect(getServiceForUrl('/media/upload')).toBe('media')
+      expect(getServiceForUrl('/media-processing/queue/status')).toBe('mediaProcessing')
+      expect(getServiceForUrl('/posts?page=2')).toBe('posts')
+      expect(getServiceForUrl('/postscript')).toBeUndefined()
+    })
+  })
+
+  describe('getServiceTimeout', () => {
+    it('should use the service timeout or fall back to the default', () => {
+      expect(getServiceTimeout('/media/upload')).toBe(2 * 60 * 1000)
+      expect(getServiceTimeout('/likes/post-1')).toBe(5 * 1000)
+      expect(getServiceTimeout('/health')).toBe(DEFAULT_TIMEOUT_MS)
+      expect(getServiceTimeout()).toBe(DEFAULT_TIMEOUT_MS)
+    })
+  })
+})
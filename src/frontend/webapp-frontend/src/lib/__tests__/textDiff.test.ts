@@ -0,0 +1,37 @@
+import { diffWords } from '../textDiff'
+
+const side = (parts: ReturnType<typeof diffWords>, skip: 'added' | 'removed') =>
+  parts
+    .filter((part) => part.type !== skip)
+    .map((part) => part.text)
+    .join('')
+
+describe('diffWords', () => {
+  it('should mark the words that were added and removed', () => {
+    expect(diffWords('The quick brown fox', 'The slow brown fox jumps')).toEqual([
+      { type: 'same', text: 'The ' },
+      { type: 'removed', text: 'quick' },
+      { type: 'added', text: 'slow' },
+      { type: 'same', text: ' brown fox' },
+      { type: 'added', text: ' jumps' },
+    ])
+  })
+
+  it('should return the text unchanged when nothing was edited', () => {
+    expect(diffWords('Hello\nworld', 'Hello\nworld')).toEqual([{ type: 'same', text: 'Hello\nworld' }])
+  })
+
+  it('should handle an empty side', () => {
+    expect(diffWords('', 'New post')).toEqual([{ type: 'added', text: 'New post' }])
+    expect(diffWords('Old post', '')).toEqual([{ type: 'removed', text: 'Old post' }])
+  })
+
+  it('should give back both versions from the parts', () => {
+    const before = 'One two  three\nfour five'
+    const after = 'One 2 three\nfour five six'
+    const parts = diffWords(before, after)
+
+    expect(side(parts, 'added')).toBe(before)
+    expect(side(parts, 'removed')).toBe(after)
+  })
+})
@@ -0,0 +1,42 @@
+import { buildOtpAuthUri, formatSecretForDisplay, toBase32Secret } from '../totp'
+
+describe('totp', () => {
+  describe('toBase32Secret', () => {
+    it('should keep secrets that are already base32', () => {
+      expect(toBase32Secret('JBSWY3DPEHPK3PXP')).toBe('JBSWY3DPEHPK3PXP')
+    })
+
+    it('should strip whitespace and padding from base32 secrets', () => {
+      expect(toBase32Secret('JBSW Y3DP EHPK 3PXP====')).toBe('JBSWY3DPEHPK3PXP')
+    })
+
+    it('should convert base64 secrets to base32', () => {
+      // "Hello!" in base64 and base32
+      expect(toBase32Secret('SGVsbG8h')).toBe('JBSWY3DPEE')
+    })
+  })
+
+  describe('buildOtpAuthUri', () => {
+    it('should build an otpauth key URI', () => {
+      const uri = buildOtpAuthUri({
+        secret: 'JBSWY3DPEHPK3PXP',
+        accountName: 'test@example.com',
+        issuer: 'WebApp',
+      })
+
+      const url = new URL(uri)
+      expect(url.protocol).toBe('otpauth:')
+      expect(uri.startsWith('otpauth://totp/WebApp%3Atest%40example.com?')).toBe(true)
+      expect(url.searchParams.get('secret')).toBe('JBSWY3DPEHPK3PXP')
+      expect(url.searchParams.get('issuer')).toBe('WebApp')
+      expect(url.searchParams.get('digits')).toBe('6')
+      expect(url.searchParams.get('period')).toBe('30')
+    })
+  })
+
+  describe('formatSecretForDisplay', () => {
+    it('should group the secret in blocks of four', () => {
+      expect(formatSecretForDisplay('JBSWY3DPEHPK3PXP')).toBe('JBSW Y3DP EHPK 3PXP')
+    })
+  })
+})
@@ -0,0 +1,125 @@
+import {
+  CORRELATION_ID_HEADER,
+  flushSpans,
+  getCorrelationId,
+  getTraceHeaders,
+  startNavigation,
+  startSpan,
+  toOtlpJson,
+} from '../tracing'
+
+const COLLECTOR_URL = 'http://collector.test/v1/traces'
+
+// Stands in for an OpenTelemetry collector's OTLP/HTTP receiver
+const received: ReturnType<typeof toOtlpJson>[] = []
+let collectorStatus = 200
+const receiveAtCollector = async (url: RequestInfo | URL, init?: RequestInit) => {
+  expect(url).toBe(COLLECTOR_URL)
+  expect(init?.method).toBe('POST')
+  received.push(JSON.parse(init?.body as string))
+  return new Response(null, { status: collectorStatus })
+}
+
+const exportedSpans = () => received.flatMap((request) => request.resourceSpans[0].scopeSpans[0].spans)
+
+describe('tracing', () => {
+  beforeEach(async () => {
+    jest.spyOn(global, 'fetch').mockImplementation(receiveAtCollector)
+    collectorStatus = 200
+    // Drain spans left by earlier tests
+    await flushSpans(COLLECTOR_URL)
+    received.length = 0
+  })
+
+  describe('getTraceHeaders', () => {
+    it('should send a W3C traceparent and the session correlation ID', () => {
+      const span = startSpan('GET posts', { kind: 'client' }, null)
+      const headers = getTraceHeaders(span)
+
+      expect(headers.traceparent).toBe(`00-${span.traceId}-${span.spanId}-01`)
+      expect(headers.traceparent).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/)
+      expect(headers.tracestate).toBe(`webapp=${getCorrelationId()}`)
+      expect(headers[CORRELATION_ID_HEADER]).toMatch(/^[0-9a-f]{32}$/)
+    })
+
+    it('should keep one correlation ID for the session', () => {
+      const [first, second] = [startSpan('a', {}, null), startSpan('b', {}, null)].map(getTraceHeaders)
+
+      expect(first[CORRELATION_ID_HEADER]).toBe(second[CORRELATION_ID_HEADER])
+      expect(first.traceparent).not.toBe(second.traceparent)
+    })
+  })
+
+  it('should put spans started on a page in its navigation trace', () => {
+    const navigation = startNavigation('/settings')
+    const request = startSpan('GET auth', { kind: 'client' })
+
+    expect(request.traceId).toBe(navigation.traceId)
+    expect(getTraceHeaders(request).traceparent).toContain(navigation.traceId)
+  })
+
+  it('should export ended spans to the collector as OTLP/JSON', async () => {
+    const navigation = startNavigation('/', 1_700_000_000_000)
+    const request = startSpan('GET posts', { kind: 'client', attributes: { 'http.request.method': 'GET' } })
+    request.setAttributes({ 'http.response.status_code': 500, 'error.type': undefined })
+    request.end('error', 'Request failed with status code 500')
+    navigation.end('ok')
+
+    await flushSpans(COLLECTOR_URL)
+
+    expect(received).toHaveLength(1)
+    expect(received[0].resourceSpans[0].resource.attributes).toContainEqual({
+      key: 'service.name',
+      value: { stringValue: 'webapp-frontend' },
+    })
+    const [exportedRequest, exportedNavigation] = exportedSpans()
+    expect(exportedRequest).toMatchObject({
+      traceId: navigation.traceId,
+      spanId: request.spanId,
+      parentSpanId: navigation.spanId,
+      name: 'GET posts',
+      kind: 3,
+      attributes: [
+        { key: 'http.request.method', value: { stringValue: 'GET' } },
+        { key: 'http.response.status_code', value: { intValue: 500 } },
+      ],
+      status: { code: 2, message: 'Request failed with status code 500' },
+    })
+    expect(exportedNavigation).toMatchObject({
+      name: 'navigation',
+      kind: 1,
+      startTimeUnixNano: '1700000000000000000',
+      status: { code: 1 },
+    })
+    expect(exportedNavigation.parentSpanId).toBeUndefined()
+  })
+
+  it('should record a span only once', async () => {
+    const span = startSpan('once', {}, null)
+    span.end()
+    span.end('error')
+
+    await flushSpans(COLLECTOR_URL)
+
+    expect(exportedSpans()).toHaveLength(1)
+  })
+
+  it('should keep spans for the next export when the collector fails', async () => {
+    startSpan('kept', {}, null).end()
+    collectorStatus = 503
+
+    await flushSpans(COLLECTOR_URL)
+    collectorStatus = 200
+    await flushSpans(COLLECTOR_URL)
+
+    expect(exportedSpans().map((span) => span.name)).toEqual(['kept', 'kept'])
+  })
+
+  it('should not export without a collector endpoint', async () => {
+    startSpan('unsent', {}, null).end()
+
+    await flushSpans(undefined)
+
+    expect(received).toHaveLength(0)
+  })
+})
@@ -0,0 +1,111 @@
+import {
+  buildUsernameCandidates,
+  cn,
+  describeUserAgent,
+  formatCountdown,
+  formatRelativeTime,
+  validateUsername,
+} from '../utils'
+
+describe('utils', () => {
+  describe('cn', () => {
+    it('should merge conflicting Tailwind classes', () => {
+      expect(cn('px-2 py-1', false && 'hidden', 'px-4')).toBe('py-1 px-4')
+    })
+  })
+
+  describe('validateUsername', () => {
+    it('should accept letters, numbers and underscores', () => {
+      expect(validateUsername('test_user42')).toBe(true)
+    })
+
+    it('should reject other characters', () => {
+      expect(validateUsername('test-user')).toBe(false)
+      expect(validateUsername('test user')).toBe(false)
+    })
+  })
+
+  describe('buildUsernameCandidates', () => {
+    it('should derive usernames from the display name', () => {
+      expect(buildUsernameCandidates('Jane Doe', 'jane')).toEqual([
+        'janedoe',
+        'jane_doe',
+        'jdoe',
+        'jane_d',
+        'janedoe1',
+        'janedoe_1',
+        'janedoe123',
+        'the_janedoe',
+      ])
+    })
+
+    it('should strip accents and symbols and skip the taken username', () => {
+      const candidates = buildUsernameCandidates('Zoë!', 'zoe')
+
+      expect(candidates).not.toContain('zoe')
+      expect(candidates).toContain('zoe1')
+      expect(candidates.every(validateUsername)).toBe(true)
+    })
+
+    it('should fall back to the taken username without a display name', () => {
+      expect(buildUsernameCandidates('', 'jane')).toEqual(['jane1', 'jane_1', 'jane123', 'the_jane'])
+    })
+
+    it('should keep candidates within the username length limit', () => {
+      const candidates = buildUsernameCandidates('Maximiliana Wolfeschlegelstein', 'max')
+
+      expect(candidates.length).toBeGreaterThan(0)
+      expect(candidates.every((candidate) => candidate.length <= 20)).toBe(true)
+    })
+  })
+
+  describe('formatCountdown', () => {
+    it('should show minutes and zero-padded seconds', () => {
+      expect(formatCountdown(1800)).toBe('30:00')
+      expect(formatCountdown(65)).toBe('1:05')
+      expect(formatCountdown(9)).toBe('0:09')
+    })
+
+    it('should round partial seconds up and never go below zero', () => {
+      expect(formatCountdown(4.2)).toBe('0:05')
+      expect(formatCountdown(-3)).toBe('0:00')
+    })
+  })
+
+  describe('formatRelativeTime', () => {
+    const now = new Date('2024-06-15T12:00:00Z')
+
+    it('should describe very recent times as just now', () => {
+      expect(formatRelativeTime('2024-06-15T11:59:30Z', now)).toBe('just now')
+    })
+
+    it('should use the largest fitting unit', () => {
+      expect(formatRelativeTime('2024-06-15T11:55:00Z', now)).toBe('5 minutes ago')
+      expect(formatRelativeTime('2024-06-15T09:00:00Z', now)).toBe('3 hours ago')
+      expect(formatRelativeTime('2024-06-14T12:00:00Z', now)).toBe('yesterday')
+      expect(formatRelativeTime('2024-05-15T12:00:00Z', now)).toBe('last month')
+    })
+  })
+
+  describe('describeUserAgent', () => {
+    it('should describe common browsers and platforms', () => {
+      expect(
+        describeUserAgent(
+          'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36'
+        )
+      ).toBe('Chrome on macOS')
+      expect(
+        describeUserAgent(
+          'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1'
+        )
+      ).toBe('Safari on iOS')
+      expect(
+        describeUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:127.0) Gecko/20100101 Firefox/127.0')
+      ).toBe('Firefox on Windows')
+    })
+
+    it('should handle a missing user agent', () => {
+      expect(describeUserAgent(undefined)).toBe('Unknown device')
+    })
+  })
+})
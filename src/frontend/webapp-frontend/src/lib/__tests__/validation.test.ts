@@ -0,0 +1,38 @@
+import { setServerFieldErrors } from '../validation'
+import { ApiRequestError } from '../api'
+
+type Form = { email: string; password: string }
+
+describe('setServerFieldErrors', () => {
+  const validationError = new ApiRequestError({
+    message: 'One or more validation errors occurred.',
+    code: 'validation',
+    status: 400,
+    details: {
+      email: ['Email is already registered.'],
+      newPassword: ['Too short.', 'Needs a digit.'],
+      unknownField: ['Ignored.'],
+    },
+  })
+
+  it('should set errors on matching and renamed fields', () => {
+    const setError = jest.fn()
+
+    const applied = setServerFieldErrors<Form>(validationError, setError, ['email', 'password'], {
+      newPassword: 'password',
+    })
+
+    expect(applied).toBe(true)
+    expect(setError).toHaveBeenCalledTimes(2)
+    expect(setError).toHaveBeenCalledWith('email', { type: 'server', message: 'Email is already registered.' })
+    expect(setError).toHaveBeenCalledWith('password', { type: 'server', message: 'Too short. Needs a digit.' })
+  })
+
+  it('should report when no field matched', () => {
+    const setError = jest.fn()
+
+    expect(setServerFieldErrors<Form>(new Error('boom'), setError, ['email'])).toBe(false)
+    expect(setServerFieldErrors<Form>(validationError, setError, ['password'])).toBe(false)
+    expect(setError).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,658 @@
+import axios, { AxiosError, AxiosRequestConfig, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { z } from 'zod';
+import {
+  AccessTokenClaims,
+  ApiEnvelope,
+  ApiError,
+  ApiErrorCode,
+  AuthErrorResponse,
+  AuthResponse,
+  FieldErrors,
+} from '@/types';
+import { broadcastAuthEvent } from '@/lib/authSync';
+import { ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE, REMEMBER_ME_COOKIE } from '@/lib/tokenCookies';
+import { TokenStorage, cookieTokenStorage } from '@/lib/tokenStorage';
+import { getServiceForUrl, getServiceTimeout, serviceConfig, serviceUrl } from '@/lib/services';
+import { Span, getTraceHeaders, startSpan } from '@/lib/tracing';
+import { addBreadcrumb, reportError } from '@/lib/errorReporting';
+
+export const API_BASE_URL = serviceConfig.gatewayUrl;
+
+// Refresh tokens are issued for 7 days by the auth service
+const REFRESH_TOKEN_EXPIRY_DAYS = 7;
+
+// Refresh this long before the access token expires, so requests don't race its expiry
+const ACCESS_TOKEN_EXPIRY_LEEWAY_MS = 30 * 1000;
+
+// ClaimTypes.Role, which ASP.NET writes when a token is built from a ClaimsIdentity
+const MS_ROLE_CLAIM = 'http://schemas.microsoft.com/ws/2008/06/identity/claims/role';
+
+let tokenStorage: TokenStorage = cookieTokenStorage;
+
+// Whether the current session was started with "Remember me". Read from storage rather than
+// kept in memory, so a refresh in any tab keeps the choice made at sign-in.
+const isRememberedSession = () => tokenStorage.get(REMEMBER_ME_COOKIE) !== null;
+
+// Token storage
+export const TokenManager = {
+  // Swap where tokens are kept (cookies by default)
+  setStorage: (storage: TokenStorage) => {
+    tokenStorage = storage;
+  },
+
+  getAccessToken: (): string | null => tokenStorage.get(ACCESS_TOKEN_COOKIE),
+
+  getRefreshToken: (): string | null => tokenStorage.get(REFRESH_TOKEN_COOKIE),
+
+  isPersistent: (): boolean => isRememberedSession(),
+
+  // Without `persistent`, tokens are stored the same way as the ones they replace
+  setTokens: (
+    accessToken: string,
+    refreshToken: string,
+    { persistent = isRememberedSession() }: { persistent?: boolean } = {}
+  ) => {
+    const options = { persistent, expiresInDays: REFRESH_TOKEN_EXPIRY_DAYS };
+
+    // The access token is short-lived either way; a restart recovers it with the refresh token
+    tokenStorage.set(ACCESS_TOKEN_COOKIE, accessToken, { persistent: false });
+    tokenStorage.set(REFRESH_TOKEN_COOKIE, refreshToken, options);
+    if (persistent) {
+      tokenStorage.set(REMEMBER_ME_COOKIE, 'true', options);
+    } else {
+      tokenStorage.remove(REMEMBER_ME_COOKIE);
+    }
+  },
+
+  removeTokens: () => {
+    tokenStorage.remove(ACCESS_TOKEN_COOKIE);
+    tokenStorage.remove(REFRESH_TOKEN_COOKIE);
+    tokenStorage.remove(REMEMBER_ME_COOKIE);
+  },
+
+  getClaims: (): AccessTokenClaims | null => {
+    const token = TokenManager.getAccessToken();
+    return token ? decodeAccessToken(token) : null;
+  },
+
+  // Session the current access token belongs to (the `session_id` claim)
+  getSessionId: (): string | null => TokenManager.getClaims()?.sessionId ?? null,
+};
+
+const decodeBase64Url = (value: string) => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  // atob yields bytes; decode them as UTF-8 so non-ASCII display names survive
+  return decodeURIComponent(
+    Array.from(binary, (char) => `%${char.charCodeAt(0).toString(16).padStart(2, '0')}`).join('')
+  );
+};
+
+const toArray = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : [value]).filter((item): item is string => typeof item === 'string');
+
+const toMillis = (seconds: unknown) => (typeof seconds === 'number' ? seconds * 1000 : undefined);
+
+// Reads the claims of an access token (see JwtClaims in WebApp.Common). The signature is not
+// checked: claims only drive the UI, and every API call is authorized by the services.
+export const decodeAccessToken = (token: string): AccessTokenClaims | null => {
+  try {
+    const payload = JSON.parse(decodeBase64Url(token.split('.')[1]));
+    const userId = payload.user_id ?? payload.sub;
+    if (typeof userId !== 'string') return null;
+
+    return {
+      userId,
+      username: payload.username,
+      email: payload.email,
+      displayName: payload.display_name,
+      roles: [...toArray(payload.role), ...toArray(payload[MS_ROLE_CLAIM])],
+      // .NET writes booleans as "True"/"False"
+      isVerified: String(payload.is_verified).toLowerCase() === 'true',
+      sessionId: payload.session_id,
+      issuedAt: toMillis(payload.iat),
+      expiresAt: toMillis(payload.exp),
+    };
+  } catch {
+    return null;
+  }
+};
+
+// Expired, or about to: the next request should refresh first instead of collecting a 401
+export const isAccessTokenExpired = (
+  claims: AccessTokenClaims | null,
+  now: number = Date.now()
+): boolean => !!claims?.expiresAt && claims.expiresAt - ACCESS_TOKEN_EXPIRY_LEEWAY_MS <= now;
+
+// API endpoints, resolved through the service registry (see lib/services)
+export const endpoints = {
+  auth: {
+    login: serviceUrl('auth', '/login'),
+    register: serviceUrl('auth', '/register'),
+    logout: serviceUrl('auth', '/logout'),
+    refresh: serviceUrl('auth', '/refresh'),
+    profile: serviceUrl('auth', '/profile'),
+    forgotPassword: serviceUrl('auth', '/forgot-password'),
+    resetPassword: serviceUrl('auth', '/reset-password'),
+    changePassword: serviceUrl('auth', '/change-password'),
+    confirmEmail: serviceUrl('auth', '/confirm-email'),
+    resendConfirmation: serviceUrl('auth', '/resend-confirmation'),
+    logoutAll: serviceUrl('auth', '/logout-all'),
+    sessions: serviceUrl('auth', '/sessions'),
+    session: (sessionId: string) => serviceUrl('auth', '/sessions/{sessionId}', { sessionId }),
+    twoFactor: {
+      login: serviceUrl('auth', '/2fa/login'),
+      enable: serviceUrl('auth', '/2fa/enable'),
+      verify: serviceUrl('auth', '/2fa/verify'),
+      disable: serviceUrl('auth', '/2fa/disable'),
+    },
+  },
+  users: {
+    profile: serviceUrl('users', '/profile'),
+    checkUsername: (username: string) => serviceUrl('users', '/check-username/{username}', { username }),
+    checkEmail: (email: string) => serviceUrl('users', '/check-email/{email}', { email }),
+  },
+  posts: {
+    list: serviceUrl('posts', ''),
+    detail: (id: string) => serviceUrl('posts', '/{id}', { id }),
+    replies: (parentId: string) => serviceUrl('posts', '/{parentId}/replies', { parentId }),
+    reply: serviceUrl('posts', '/reply'),
+    // Edit a post's text; /revisions lists what it said before each edit
+    content: (id: string) => serviceUrl('posts', '/{id}/content', { id }),
+    revisions: (id: string) => serviceUrl('posts', '/{id}/revisions', { id }),
+    feed: (userId: string) => serviceUrl('posts', '/feed/{userId}', { userId }),
+    public: serviceUrl('posts', '/public'),
+    // Create: /text for text only, /media once there are attachments
+    text: serviceUrl('posts', '/text'),
+    media: serviceUrl('posts', '/media'),
+    comments: (postId: string) => serviceUrl('posts', '/{postId}/comments', { postId }),
+  },
+  notifications: {
+    list: serviceUrl('notifications', ''),
+    count: serviceUrl('notifications', '/count'),
+    bulk: serviceUrl('notifications', '/bulk'),
+    // Admin cleanup
+    expired: serviceUrl('notifications', '/expired'),
+    archived: serviceUrl('notifications', '/archived'),
+  },
+  media: {
+    upload: serviceUrl('media', '/upload'),
+    cleanup: serviceUrl('media', '/cleanup'),
+  },
+  mediaProcessing: {
+    queueStatus: serviceUrl('mediaProcessing', '/queue/status'),
+    stats: serviceUrl('mediaProcessing', '/stats'),
+    cleanup: serviceUrl('mediaProcessing', '/cleanup'),
+  },
+};
+
+// Requests to these endpoints never trigger a token refresh: a 401 from them is final
+const NO_REFRESH_ENDPOINTS = [
+  endpoints.auth.login,
+  endpoints.auth.twoFactor.login,
+  endpoints.auth.register,
+  endpoints.auth.refresh,
+  endpoints.auth.logout,
+];
+
+const isNoRefreshEndpoint = (url?: string) => !!url && NO_REFRESH_ENDPOINTS.includes(url);
+
+// Timeouts are per service (see the request interceptor below)
+export const apiClient = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+// Session expiry notification, so the auth store can clear its state without a circular import
+type SessionExpiredListener = () => void;
+
+const sessionExpiredListeners = new Set<SessionExpiredListener>();
+
+export const onSessionExpired = (listener: SessionExpiredListener) => {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+};
+
+const expireSession = () => {
+  TokenManager.removeTokens();
+  sessionExpiredListeners.forEach((listener) => listener());
+};
+
+// Single-flight token refresh: concurrent 401s all wait on the same refresh call
+let refreshPromise: Promise<string> | null = null;
+
+const performRefresh = async (): Promise<string> => {
+  const refreshToken = TokenManager.getRefreshToken();
+
+  if (!refreshToken) {
+    expireSession();
+    throw new Error('No refresh token available');
+  }
+
+  try {
+    const response = await apiClient.post<AuthResponse>(endpoints.auth.refresh, { refreshToken });
+    const { accessToken, refreshToken: newRefreshToken } = response.data;
+
+    TokenManager.setTokens(accessToken, newRefreshToken);
+    broadcastAuthEvent({ type: 'token-refreshed' });
+    return accessToken;
+  } catch (error) {
+    // Only end the session when the server rejected the refresh token;
+    // a network failure should not log the user out
+    const { status } = toApiError(error);
+    if (status === 400 || status === 401) {
+      // Another tab may have rotated the shared refresh token while this request was in flight
+      const currentAccessToken = TokenManager.getAccessToken();
+      if (currentAccessToken && TokenManager.getRefreshToken() !== refreshToken) {
+        return currentAccessToken;
+      }
+      expireSession();
+    }
+    throw error;
+  }
+};
+
+export const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    refreshPromise = performRefresh().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+  _retry?: boolean;
+}
+
+interface TracedRequestConfig extends InternalAxiosRequestConfig {
+  _span?: Span;
+}
+
+// Attach the access token, holding new requests while a refresh is in flight.
+// An expired access token is refreshed up front rather than after a round trip for a 401.
+apiClient.interceptors.request.use(async (config) => {
+  // Unless the caller chose a timeout, use the one for the service being called
+  config.timeout ||= getServiceTimeout(config.url);
+
+  if (!isNoRefreshEndpoint(config.url)) {
+    const isExpired =
+      !refreshPromise && !!TokenManager.getRefreshToken() && isAccessTokenExpired(TokenManager.getClaims());
+    const pendingRefresh = isExpired ? refreshAccessToken() : refreshPromise;
+    await pendingRefresh?.catch(() => undefined);
+  }
+
+  const token = TokenManager.getAccessToken();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+// A client span per request, with its trace context in the headers. A replay after a 401 gets a
+// span of its own, since this runs again for it.
+apiClient.interceptors.request.use((config: TracedRequestConfig) => {
+  const method = (config.method ?? 'get').toUpperCase();
+  const service = getServiceForUrl(config.url);
+  const span = startSpan(service ? `${method} ${service}` : method, {
+    kind: 'client',
+    attributes: {
+      'http.request.method': method,
+      'url.full': apiClient.getUri(config),
+      'webapp.service': service,
+    },
+  });
+
+  config._span = span;
+  Object.entries(getTraceHeaders(span)).forEach(([name, value]) => config.headers.set(name, value));
+  return config;
+});
+
+// Registered ahead of the 401 handling, so the span records what the server actually answered
+apiClient.interceptors.response.use(
+  (response) => {
+    const span = (response.config as TracedRequestConfig)._span;
+    span?.setAttributes({ 'http.response.status_code': response.status });
+    span?.end('ok');
+    return response;
+  },
+  (error: AxiosError) => {
+    const span = (error.config as TracedRequestConfig | undefined)?._span;
+    span?.setAttributes({ 'http.response.status_code': error.response?.status, 'error.type': error.code });
+    span?.end('error', error.message);
+    return Promise.reject(error);
+  }
+);
+
+// On 401, refresh once and replay the original request with the new access token
+apiClient.interceptors.response.use(
+  (response) => response,
+  async (error: AxiosError) => {
+    const originalRequest = error.config as RetryableRequestConfig | undefined;
+
+    if (
+      error.response?.status !== 401 ||
+      !originalRequest ||
+      originalRequest._retry ||
+      isNoRefreshEndpoint(originalRequest.url)
+    ) {
+      return Promise.reject(error);
+    }
+
+    originalRequest._retry = true;
+
+    try {
+      const accessToken = await refreshAccessToken();
+      originalRequest.headers.Authorization = `Bearer ${accessToken}`;
+      return apiClient(originalRequest);
+    } catch {
+      // Surface the original 401 so callers see why the request failed
+      return Promise.reject(error);
+    }
+  }
+);
+
+// Failed requests reject with an ApiRequestError rather than the AxiosError, with the server's
+// message, a code for the kind of failure and any per-field validation messages
+export class ApiRequestError extends Error implements ApiError {
+  readonly code: ApiErrorCode;
+  readonly status?: number;
+  readonly details?: FieldErrors;
+  // The response body as sent, for callers that understand a service's own error format
+  readonly body?: unknown;
+
+  constructor({ message, code, status, details, body }: ApiError & { body?: unknown }) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.code = code;
+    this.status = status;
+    this.details = details;
+    this.body = body;
+  }
+}
+
+type ErrorBody = {
+  message?: unknown;
+  errorDescription?: unknown;
+  // ValidationProblemDetails from ASP.NET model validation, or an envelope's field errors
+  errors?: unknown;
+  details?: unknown;
+};
+
+const NETWORK_ERROR_MESSAGE = "Can't reach the server. Check your connection and try again.";
+const TIMEOUT_ERROR_MESSAGE = 'The server took too long to respond. Please try again.';
+const CANCELLED_ERROR_MESSAGE = 'The request was cancelled.';
+
+const getServerMessage = (body: unknown): string | undefined => {
+  const { message, errorDescription } = (body ?? {}) as ErrorBody;
+  if (typeof message === 'string' && message) return message;
+  if (typeof errorDescription === 'string' && errorDescription) return errorDescription;
+  return undefined;
+};
+
+// "Email" and "$.email" (ASP.NET's names for model and JSON errors) both become "email"
+const toFieldName = (key: string) => {
+  const name = key.replace(/^\$\./, '');
+  return name.charAt(0).toLowerCase() + name.slice(1);
+};
+
+const getFieldErrors = (body: unknown): FieldErrors | undefined => {
+  const { errors, details } = (body ?? {}) as ErrorBody;
+  const source = [errors, details].find((value) => value && typeof value === 'object' && !Array.isArray(value));
+  if (!source) return undefined;
+
+  const fieldErrors: FieldErrors = {};
+  for (const [key, value] of Object.entries(source)) {
+    const messages = (Array.isArray(value) ? value : [value]).filter(
+      (message): message is string => typeof message === 'string'
+    );
+    if (messages.length) fieldErrors[toFieldName(key)] = messages;
+  }
+  return Object.keys(fieldErrors).length ? fieldErrors : undefined;
+};
+
+const getErrorCode = (status: number, details?: FieldErrors): ApiErrorCode => {
+  if (details) return 'validation';
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not_found';
+  if (status === 409) return 'conflict';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server';
+  return 'bad_request';
+};
+
+const fromResponse = (status: number, body: unknown) => {
+  const details = getFieldErrors(body);
+  return new ApiRequestError({
+    message: getServerMessage(body) ?? `Request failed with status ${status}`,
+    code: getErrorCode(status, details),
+    status,
+    details,
+    body,
+  });
+};
+
+const cancelledError = () => new ApiRequestError({ message: CANCELLED_ERROR_MESSAGE, code: 'cancelled' });
+
+// True when the caller's signal aborted the request; there's nothing to show for these
+export const isCancelledError = (error: unknown): boolean => toApiError(error).code === 'cancelled';
+
+// Normalises anything a request can fail with. Also accepts response-shaped objects, so errors
+// that didn't come through apiClient are read the same way.
+export const toApiError = (error: unknown): ApiRequestError => {
+  if (error instanceof ApiRequestError) return error;
+
+  const { response, code } = (error ?? {}) as Partial<AxiosError>;
+  if (response) return fromResponse(response.status, response.data);
+
+  if (axios.isCancel(error)) return cancelledError();
+
+  if (axios.isAxiosError(error)) {
+    const isTimeout = code === AxiosError.ECONNABORTED || code === AxiosError.ETIMEDOUT;
+    return new ApiRequestError({
+      message: isTimeout ? TIMEOUT_ERROR_MESSAGE : NETWORK_ERROR_MESSAGE,
+      code: isTimeout ? 'timeout' : 'network',
+    });
+  }
+
+  return new ApiRequestError({
+    message: error instanceof Error ? error.message : 'Something went wrong',
+    code: 'unknown',
+  });
+};
+
+// Failures worth a report; 4xx answers and cancellations are part of normal use
+const REPORTED_ERROR_CODES: ApiErrorCode[] = ['network', 'timeout', 'server', 'unknown'];
+
+const describeRequest = (config?: AxiosRequestConfig) =>
+  `${(config?.method ?? 'get').toUpperCase()} ${config?.url ?? ''}`;
+
+// A replayed request (see the 401 handling above) comes back through the response interceptors
+// below twice: once from the replay and once from the original request's chain. The second time,
+// a failure is already an ApiRequestError.
+const recordedResponses = new WeakSet<AxiosResponse>();
+
+// A breadcrumb for every call, and an error report for the failures above
+apiClient.interceptors.response.use(
+  (response) => {
+    if (!recordedResponses.has(response)) {
+      recordedResponses.add(response);
+      addBreadcrumb('api', `${describeRequest(response.config)} ${response.status}`);
+    }
+    return response;
+  },
+  (error: AxiosError | ApiRequestError) => {
+    if (error instanceof ApiRequestError) return Promise.reject(error);
+
+    const apiError = toApiError(error);
+    const request = describeRequest(error.config);
+    addBreadcrumb('api', `${request} ${apiError.status ?? apiError.code}`);
+    if (REPORTED_ERROR_CODES.includes(apiError.code)) {
+      reportError(apiError, { kind: 'api', context: { request, status: apiError.status, errorCode: apiError.code } });
+    }
+    return Promise.reject(error);
+  }
+);
+
+const isEnvelope = (data: unknown): data is ApiEnvelope<unknown> =>
+  !!data &&
+  typeof data === 'object' &&
+  typeof (data as Partial<ApiEnvelope<unknown>>).success === 'boolean' &&
+  'data' in data;
+
+// A replayed request (see the 401 handling above) comes back through this interceptor twice
+const unwrappedResponses = new WeakSet<AxiosResponse>();
+
+// Unwrap { data, success, message } envelopes and turn every failure into an ApiRequestError.
+// Registered after the 401 handling, so that still sees the original AxiosError.
+apiClient.interceptors.response.use(
+  (response) => {
+    if (unwrappedResponses.has(response) || !isEnvelope(response.data)) return response;
+
+    unwrappedResponses.add(response);
+    if (!response.data.success) {
+      return Promise.reject(fromResponse(response.status, response.data));
+    }
+    response.data = response.data.data;
+    return response;
+  },
+  (error) => Promise.reject(toApiError(error))
+);
+
+// What happens when a response doesn't match its schema: fail loudly in development and tests,
+// log and carry on in production so a backend change doesn't take the page down with it
+export type ResponseValidationMode = 'strict' | 'warn';
+
+export const getResponseValidationMode = (): ResponseValidationMode =>
+  process.env.NODE_ENV === 'production' ? 'warn' : 'strict';
+
+export class ResponseValidationError extends ApiRequestError {
+  readonly issues: z.ZodError['issues'];
+
+  constructor(
+    public readonly url: string,
+    error: z.ZodError
+  ) {
+    super({ message: `Unexpected response from ${url}:\n${z.prettifyError(error)}`, code: 'invalid_response' });
+    this.name = 'ResponseValidationError';
+    this.issues = error.issues;
+  }
+}
+
+// Checks a response body against its schema. The body is returned as sent rather than as
+// parsed, so fields the frontend doesn't model yet are kept.
+export const validateResponse = <T>(schema: z.ZodType<T>, data: unknown, url: string): T => {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const error = new ResponseValidationError(url, result.error);
+    reportError(error, { kind: 'api', context: { request: url, errorCode: error.code } });
+    if (getResponseValidationMode() === 'strict') throw error;
+    console.warn(error.message);
+  }
+  return data as T;
+};
+
+// Request options for apiHelpers; with a schema, the response body is validated before it's returned.
+// Pass a `signal` to cancel: the promise rejects with a 'cancelled' ApiRequestError.
+export interface ApiRequestConfig<T = unknown> extends AxiosRequestConfig {
+  schema?: z.ZodType<T>;
+  // GETs are shared with an identical one already in flight unless this is false
+  dedupe?: boolean;
+}
+
+const toResponseBody = <T>(url: string, data: T, schema?: z.ZodType<T>): T =>
+  schema ? validateResponse(schema, data, url) : data;
+
+interface InFlightGet {
+  data: Promise<unknown>;
+  controller: AbortController;
+  // Callers still waiting; the request is aborted once every one of them has cancelled
+  waiting: number;
+}
+
+// Identical GETs in flight at the same time share one request, keyed by URL and query params
+const inFlightGets = new Map<string, InFlightGet>();
+
+const sharedGet = (url: string, { signal, ...config }: AxiosRequestConfig): Promise<unknown> => {
+  if (signal?.aborted) return Promise.reject(cancelledError());
+
+  const key = apiClient.getUri({ url, params: config.params });
+  let request = inFlightGets.get(key);
+  if (!request) {
+    const controller = new AbortController();
+    const data = apiClient
+      .get(url, { ...config, signal: controller.signal })
+      .then((response) => response.data)
+      .finally(() => {
+        if (inFlightGets.get(key)?.data === data) inFlightGets.delete(key);
+      });
+    request = { data, controller, waiting: 0 };
+    inFlightGets.set(key, request);
+  }
+
+  const shared = request;
+  shared.waiting += 1;
+  // Without a signal the caller can't cancel, so the request always has someone waiting on it
+  if (!signal?.addEventListener) return shared.data;
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      reject(cancelledError());
+      shared.waiting -= 1;
+      if (shared.waiting === 0) {
+        inFlightGets.delete(key);
+        shared.controller.abort();
+      }
+    };
+    signal.addEventListener?.('abort', onAbort);
+    shared.data
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener?.('abort', onAbort));
+  });
+};
+
+// Typed request helpers returning the response body
+export const apiHelpers = {
+  get: async <T>(url: string, { schema, dedupe = true, ...config }: ApiRequestConfig<T> = {}): Promise<T> => {
+    const data = dedupe ? await sharedGet(url, config) : (await apiClient.get<T>(url, config)).data;
+    return toResponseBody(url, data as T, schema);
+  },
+
+  post: async <T>(url: string, data?: unknown, { schema, ...config }: ApiRequestConfig<T> = {}): Promise<T> => {
+    const response = await apiClient.post<T>(url, data, config);
+    return toResponseBody(url, response.data, schema);
+  },
+
+  put: async <T>(url: string, data?: unknown, { schema, ...config }: ApiRequestConfig<T> = {}): Promise<T> => {
+    const response = await apiClient.put<T>(url, data, config);
+    return toResponseBody(url, response.data, schema);
+  },
+
+  patch: async <T>(url: string, data?: unknown, { schema, ...config }: ApiRequestConfig<T> = {}): Promise<T> => {
+    const response = await apiClient.patch<T>(url, data, config);
+    return toResponseBody(url, response.data, schema);
+  },
+
+  delete: async <T>(url: string, { schema, ...config }: ApiRequestConfig<T> = {}): Promise<T> => {
+    const response = await apiClient.delete<T>(url, config);
+    return toResponseBody(url, response.data, schema);
+  },
+};
+
+// Message to show for a failed request: what went wrong with the connection, else the server's
+// message (or auth service errorDescription), else the caller's fallback
+export const getErrorMessage = (error: unknown, fallback: string): string => {
+  const apiError = toApiError(error);
+  if (apiError.code === 'network' || apiError.code === 'timeout') return apiError.message;
+  return getServerMessage(apiError.body) || fallback;
+};
+
+// The auth service's structured error body, when the failure came with one
+export const getAuthErrorResponse = (error: unknown): AuthErrorResponse | undefined => {
+  const body = toApiError(error).body as Partial<AuthErrorResponse> | undefined;
+  return typeof body?.error === 'string' ? (body as AuthErrorResponse) : undefined;
+};
@@ -0,0 +1,74 @@
+import { User } from '@/types';
+
+// Auth changes shared between open tabs of the app
+export type AuthSyncMessage =
+  | { type: 'login'; user: User }
+  | { type: 'logout'; notice?: string }
+  | { type: 'user-updated'; user: User }
+  | { type: 'token-refreshed' }
+  | { type: 'locked' }
+  | { type: 'unlocked' }
+  | { type: 'activity'; at: number };
+
+type AuthSyncListener = (message: AuthSyncMessage) => void;
+
+const CHANNEL_NAME = 'auth-sync';
+// localStorage key used when BroadcastChannel is unavailable (older Safari)
+const STORAGE_KEY = 'auth-sync';
+
+const listeners = new Set<AuthSyncListener>();
+let channel: BroadcastChannel | null = null;
+let isListening = false;
+
+const notify = (message: AuthSyncMessage) => {
+  listeners.forEach((listener) => listener(message));
+};
+
+const handleStorage = (event: StorageEvent) => {
+  if (event.key !== STORAGE_KEY || !event.newValue) return;
+
+  try {
+    notify(JSON.parse(event.newValue).message);
+  } catch {
+    // Ignore values written by something else
+  }
+};
+
+// Neither transport delivers a tab's own messages back to it
+const startListening = () => {
+  if (isListening || typeof window === 'undefined') return;
+  isListening = true;
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<AuthSyncMessage>) => notify(event.data);
+  } else {
+    window.addEventListener('storage', handleStorage);
+  }
+};
+
+export const broadcastAuthEvent = (message: AuthSyncMessage) => {
+  if (typeof window === 'undefined') return;
+  startListening();
+
+  if (channel) {
+    channel.postMessage(message);
+    return;
+  }
+
+  try {
+    // The timestamp makes repeated identical messages still count as a change
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ message, sentAt: Date.now() }));
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Storage can be unavailable (private mode, quota); other tabs catch up on their next request
+  }
+};
+
+export const subscribeToAuthEvents = (listener: AuthSyncListener) => {
+  startListening();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,247 @@
+import { getCorrelationId } from '@/lib/tracing';
+
+// Client error reporting. Unhandled errors, promise rejections, render errors (app/error.tsx)
+// and failed API calls (lib/api) are captured with the breadcrumbs leading up to them, scrubbed
+// of credentials, and sent in batches to NEXT_PUBLIC_ERROR_REPORTING_ENDPOINT. Reports are kept
+// in localStorage until they're delivered, so a spell offline doesn't lose them.
+// NEXT_PUBLIC_ERROR_REPORTING_SAMPLE_RATE (0-1, default 1) sends only a share of them.
+
+export type ErrorReportKind = 'error' | 'unhandledrejection' | 'render' | 'api' | 'manual';
+
+export type BreadcrumbCategory = 'navigation' | 'click' | 'api';
+
+export interface Breadcrumb {
+  category: BreadcrumbCategory;
+  message: string;
+  timestamp: number;
+  data?: Record<string, unknown>;
+}
+
+export interface ErrorReport {
+  id: string;
+  kind: ErrorReportKind;
+  name: string;
+  message: string;
+  stack?: string;
+  timestamp: number;
+  path?: string;
+  correlationId: string;
+  context?: Record<string, unknown>;
+  breadcrumbs: Breadcrumb[];
+}
+
+export interface ErrorReportingConfig {
+  endpoint?: string;
+  sampleRate: number;
+}
+
+// NEXT_PUBLIC_ variables are inlined at build time, so each one is read by its full name
+export const getErrorReportingConfig = (): ErrorReportingConfig => {
+  const sampleRate = Number(process.env.NEXT_PUBLIC_ERROR_REPORTING_SAMPLE_RATE ?? 1);
+  return {
+    endpoint: process.env.NEXT_PUBLIC_ERROR_REPORTING_ENDPOINT,
+    sampleRate: Number.isFinite(sampleRate) ? Math.min(1, Math.max(0, sampleRate)) : 1,
+  };
+};
+
+const MAX_BREADCRUMBS = 30;
+const MAX_QUEUED_REPORTS = 50;
+const BATCH_SIZE = 10;
+const FLUSH_DELAY_MS = 5 * 1000;
+const QUEUE_STORAGE_KEY = 'error-reports';
+
+const REDACTED = '[redacted]';
+// Keys whose values never leave the browser: passwords, tokens, 2FA secrets and codes, cookies
+const SENSITIVE_KEY = /pass(word)?|token|secret|authorization|cookie|recoverycode|^code$/i;
+
+// Credentials that can turn up inside messages, URLs and stack traces
+const scrubString = (value: string) =>
+  value
+    .replace(/Bearer\s+[\w.~+/-]+=*/gi, `Bearer ${REDACTED}`)
+    .replace(/eyJ[\w-]+\.[\w-]+\.[\w-]+/g, REDACTED)
+    .replace(/([?&](?:[\w-]*token|code|password|secret)=)[^&#\s]*/gi, `$1${REDACTED}`);
+
+export const scrub = (value: unknown, depth = 0): unknown => {
+  if (typeof value === 'string') return scrubString(value);
+  if (!value || typeof value !== 'object') return value;
+  if (depth > 5) return '[truncated]';
+  if (Array.isArray(value)) return value.map((item) => scrub(item, depth + 1));
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, SENSITIVE_KEY.test(key) ? REDACTED : scrub(item, depth + 1)])
+  );
+};
+
+const breadcrumbs: Breadcrumb[] = [];
+
+export const addBreadcrumb = (category: BreadcrumbCategory, message: string, data?: Record<string, unknown>) => {
+  breadcrumbs.push({ category, message: scrubString(message), timestamp: Date.now(), data });
+  if (breadcrumbs.length > MAX_BREADCRUMBS) breadcrumbs.shift();
+};
+
+const readStoredReports = (): ErrorReport[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(QUEUE_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+let queue: ErrorReport[] | null = null;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+const getQueue = () => (queue ??= readStoredReports());
+
+const saveQueue = (reports: ErrorReport[]) => {
+  queue = reports.slice(-MAX_QUEUED_REPORTS);
+  try {
+    if (queue.length) {
+      localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue));
+    } else {
+      localStorage.removeItem(QUEUE_STORAGE_KEY);
+    }
+  } catch {
+    // Storage full or unavailable; the reports still go out if this page stays open
+  }
+};
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+const sendQueuedReports = async (endpoint: string, beacon: boolean) => {
+  while (getQueue().length) {
+    const batch = getQueue().slice(0, BATCH_SIZE);
+    const body = JSON.stringify({ reports: batch });
+
+    if (beacon && navigator.sendBeacon) {
+      if (!navigator.sendBeacon(endpoint, new Blob([body], { type: 'application/json' }))) return;
+    } else {
+      try {
+        const response = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body,
+          keepalive: true,
+        });
+        if (!response.ok) return;
+      } catch {
+        return;
+      }
+    }
+    saveQueue(getQueue().filter((report) => !batch.includes(report)));
+  }
+};
+
+// Single-flight, so a batch is never sent twice
+let flushPromise: Promise<void> | null = null;
+
+// Sends queued reports in batches. Reports stay queued while offline or when a batch fails.
+export const flushErrorReports = (
+  { endpoint }: Pick<ErrorReportingConfig, 'endpoint'> = getErrorReportingConfig(),
+  { beacon = false } = {}
+): Promise<void> => {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  if (!endpoint || isOffline()) return Promise.resolve();
+
+  flushPromise ??= sendQueuedReports(endpoint, beacon).finally(() => {
+    flushPromise = null;
+  });
+  return flushPromise;
+};
+
+const scheduleFlush = () => {
+  if (flushTimer) return;
+  flushTimer = setTimeout(() => flushErrorReports(), FLUSH_DELAY_MS);
+};
+
+const toError = (error: unknown): Error => {
+  if (error instanceof Error) return error;
+  if (typeof error === 'string') return new Error(error);
+  return new Error(`Non-error value thrown: ${JSON.stringify(scrub(error)) ?? String(error)}`);
+};
+
+// Queues a report for the error, subject to sampling and only with an endpoint configured.
+// Safe to call anywhere: reporting never throws.
+export const reportError = (
+  error: unknown,
+  { kind = 'manual', context }: { kind?: ErrorReportKind; context?: Record<string, unknown> } = {}
+): ErrorReport | undefined => {
+  const { endpoint, sampleRate } = getErrorReportingConfig();
+  if (!endpoint || Math.random() >= sampleRate) return undefined;
+
+  try {
+    const { name, message, stack } = toError(error);
+    const report: ErrorReport = {
+      id: crypto.randomUUID(),
+      kind,
+      name,
+      message: scrubString(message),
+      stack: stack && scrubString(stack),
+      timestamp: Date.now(),
+      path: typeof window !== 'undefined' ? window.location.pathname : undefined,
+      correlationId: getCorrelationId(),
+      context: context && (scrub(context) as Record<string, unknown>),
+      breadcrumbs: scrub(breadcrumbs) as Breadcrumb[],
+    };
+
+    saveQueue([...getQueue(), report]);
+    if (getQueue().length >= BATCH_SIZE) {
+      flushErrorReports();
+    } else {
+      scheduleFlush();
+    }
+    return report;
+  } catch {
+    return undefined;
+  }
+};
+
+// What a click was on, e.g. 'button "Sign in"'; input values are never recorded
+const describeClickTarget = (target: EventTarget | null) => {
+  if (!(target instanceof Element)) return undefined;
+  const element = target.closest('button, a, [role="button"], input, select, textarea, label') ?? target;
+  const label = (element.getAttribute('aria-label') || element.textContent || '').trim();
+  const tag = element.tagName.toLowerCase();
+  return label && !['input', 'select', 'textarea'].includes(tag) ? `${tag} "${label.slice(0, 50)}"` : tag;
+};
+
+// Starts capturing unhandled errors and click breadcrumbs, and sends queued reports when the
+// connection comes back or the tab is hidden. Returns a function that stops it all.
+export const installErrorReporting = () => {
+  const handleError = (event: ErrorEvent) => {
+    reportError(event.error ?? event.message, {
+      kind: 'error',
+      context: { source: event.filename, line: event.lineno, column: event.colno },
+    });
+  };
+  const handleRejection = (event: PromiseRejectionEvent) => {
+    reportError(event.reason, { kind: 'unhandledrejection' });
+  };
+  const handleClick = (event: MouseEvent) => {
+    const description = describeClickTarget(event.target);
+    if (description) addBreadcrumb('click', description);
+  };
+  const handleOnline = () => flushErrorReports();
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') flushErrorReports(getErrorReportingConfig(), { beacon: true });
+  };
+
+  window.addEventListener('error', handleError);
+  window.addEventListener('unhandledrejection', handleRejection);
+  window.addEventListener('online', handleOnline);
+  document.addEventListener('click', handleClick, true);
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  // Reports left over from an earlier visit
+  if (getQueue().length) scheduleFlush();
+
+  return () => {
+    window.removeEventListener('error', handleError);
+    window.removeEventListener('unhandledrejection', handleRejection);
+    window.removeEventListener('online', handleOnline);
+    document.removeEventListener('click', handleClick, true);
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+  };
+};
@@ -0,0 +1,252 @@
+// Generated from openapi/auth-service.json by scripts/generate-api-client.js.
+// Do not edit by hand: update the fixture and run `npm run api:generate`.
+import { ApiRequestConfig, apiHelpers } from '@/lib/api';
+import { serviceUrl } from '@/lib/services';
+
+export interface AuthErrorResponse {
+  error: string;
+  errorDescription: string;
+  statusCode: number;
+  timestamp: string;
+  attemptsRemaining?: number | null;
+  retryAfterSeconds?: number | null;
+}
+
+export interface AuthResponse {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: string;
+  expiresIn: number;
+  user: UserDto;
+  issuedAt: string;
+  expiresAt: string;
+}
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+  confirmPassword: string;
+}
+
+export interface Follow {
+  id: string;
+  followerId: string;
+  followeeId: string;
+  isAccepted: boolean;
+  createdAt: string;
+  acceptedAt?: string | null;
+  follower: User;
+  followee: User;
+  readonly isPending: boolean;
+}
+
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+export interface LoginRequest {
+  emailOrUsername: string;
+  password: string;
+  rememberMe: boolean;
+}
+
+export interface MediaAttachment {
+  id: string;
+  postId: string;
+  url: string;
+  fileName: string;
+  contentType: string;
+  fileSize: number;
+  altText?: string | null;
+  width?: number | null;
+  height?: number | null;
+  duration?: number | null;
+  thumbnailUrl?: string | null;
+  createdAt: string;
+  post: Post;
+  readonly isImage: boolean;
+  readonly isVideo: boolean;
+  readonly isAudio: boolean;
+}
+
+export interface Post {
+  id: string;
+  authorId: string;
+  content: string;
+  type: PostType;
+  visibility: PostVisibility;
+  isEdited: boolean;
+  createdAt: string;
+  updatedAt: string;
+  parentPostId?: string | null;
+  rootPostId?: string | null;
+  mediaAttachments: MediaAttachment[];
+  author: User;
+  parentPost?: Post | null;
+  rootPost?: Post | null;
+  readonly isReply: boolean;
+}
+
+export type PostType = 0 | 1 | 2 | 3 | 4;
+
+export type PostVisibility = 0 | 1 | 2;
+
+export interface RefreshTokenRequest {
+  refreshToken: string;
+}
+
+export interface RegisterRequest {
+  email: string;
+  username: string;
+  displayName: string;
+  password: string;
+  confirmPassword: string;
+  birthDate?: string | null;
+  bio?: string | null;
+  website?: string | null;
+  location?: string | null;
+}
+
+export interface ResetPasswordRequest {
+  token: string;
+  email: string;
+  newPassword: string;
+  confirmPassword: string;
+}
+
+export interface TokenValidationResponse {
+  isValid: boolean;
+  userId?: string | null;
+  username?: string | null;
+  email?: string | null;
+  expiresAt?: string | null;
+  roles: string[];
+  errorMessage?: string | null;
+}
+
+export interface TwoFactorCodeRequest {
+  code: string;
+}
+
+export interface TwoFactorLoginRequest {
+  twoFactorToken: string;
+  code?: string | null;
+  recoveryCode?: string | null;
+  rememberMe: boolean;
+}
+
+export interface TwoFactorRecoveryCodesResponse {
+  recoveryCodes: string[];
+}
+
+export interface User {
+  id: string;
+  email: string;
+  username: string;
+  displayName: string;
+  bio: string;
+  profileImageUrl: string;
+  coverImageUrl: string;
+  website: string;
+  location: string;
+  birthDate: string;
+  isPrivate: boolean;
+  isVerified: boolean;
+  passwordHash: string;
+  passwordSalt?: string | null;
+  lastLoginAt?: string | null;
+  passwordChangedAt?: string | null;
+  failedLoginAttempts: number;
+  lockoutEndAt?: string | null;
+  isEmailConfirmed: boolean;
+  emailConfirmationToken?: string | null;
+  isTwoFactorEnabled: boolean;
+  twoFactorSecret?: string | null;
+  twoFactorRecoveryCodes?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  posts: Post[];
+  followers: Follow[];
+  following: Follow[];
+  readonly isLockedOut: boolean;
+  readonly remainingLoginAttempts: number;
+}
+
+export interface UserDto {
+  id: string;
+  email: string;
+  username: string;
+  displayName: string;
+  bio: string;
+  profileImageUrl: string;
+  coverImageUrl: string;
+  website: string;
+  location: string;
+  birthDate?: string | null;
+  isPrivate: boolean;
+  isVerified: boolean;
+  isTwoFactorEnabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  followersCount: number;
+  followingCount: number;
+  postsCount: number;
+}
+
+export interface UserSession {
+  id: string;
+  userId: string;
+  sessionId: string;
+  createdAt: string;
+  lastActivityAt: string;
+  expiresAt: string;
+  isActive: boolean;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  deviceInfo?: string | null;
+  location?: string | null;
+  user: User;
+}
+
+export interface ValidateTokenRequest {
+  token: string;
+}
+
+export const authApi = {
+  postRegister: <T = AuthResponse>(body: RegisterRequest, config?: ApiRequestConfig<T>) =>
+    apiHelpers.post<T>(serviceUrl('auth', '/register'), body, config),
+  postLogin: <T = AuthResponse>(body: LoginRequest, config?: ApiRequestConfig<T>) =>
+    apiHelpers.post<T>(serviceUrl('auth', '/login'), body, config),
+  post2faLogin: <T = AuthResponse>(body: TwoFactorLoginRequest, config?: ApiRequestConfig<T>) =>
+    apiHelpers.post<T>(serviceUrl('auth', '/2fa/login'), body, config),
+  postRefresh: <T = AuthResponse>(body: RefreshTokenRequest, config?: ApiRequestConfig<T>) =>
+    apiHelpers.post<T>(serviceUrl('auth', '/refresh'), body, config),
+  postLogout: <T = void>(body: RefreshTokenRequest, config?: ApiRequestConfig<T>) =>
+    apiHelpers.post<T>(serviceUrl('auth', '/logout'), body, config),
+  postLogoutAll: <T = void>(config?: ApiRequestConfig<T>) =>
+    apiHelpers.post<T>(serviceUrl('auth', '/logout-all'), undefined, config),
+  postChangePassword: <T = void>(body: ChangePasswordRequest, config?: ApiRequestConfig<T>) =>
+    apiHelpers.post<T>(serviceUrl('auth', '/change-password'), body, config),
+  postForgotPassword: <T = void>(body: ForgotPasswordRequest, config?: ApiRequestConfig<T>) =>
+    apiHelpers.post<T>(serviceUrl('auth', '/forgot-password'), body, config),
+  postResetPassword: <T = void>(body: ResetPasswordRequest, config?: ApiRequestConfig<T>) =>
+    apiHelpers.post<T>(serviceUrl('auth', '/reset-password'), body, config),
+  postValidateToken: <T = TokenValidationResponse>(body: ValidateTokenRequest, config?: ApiRequestConfig<T>) =>
+    apiHelpers.post<T>(serviceUrl('auth', '/validate-token'), body, config),
+  postConfirmEmail: <T = void>(query?: { userId?: string; token?: string }, config?: ApiRequestConfig<T>) =>
+    apiHelpers.post<T>(serviceUrl('auth', '/confirm-email'), undefined, { ...config, params: query }),
+  postResendConfirmation: <T = void>(body: ForgotPasswordRequest, config?: ApiRequestConfig<T>) =>
+    apiHelpers.post<T>(serviceUrl('auth', '/resend-confirmation'), body, config),
+  getProfile: <T = UserDto>(config?: ApiRequestConfig<T>) =>
+    apiHelpers.get<T>(serviceUrl('auth', '/profile'), config),
+  post2faEnable: <T = string>(config?: ApiRequestConfig<T>) =>
+    apiHelpers.post<T>(serviceUrl('auth', '/2fa/enable'), undefined, config),
+  post2faVerify: <T = TwoFactorRecoveryCodesResponse>(body: TwoFactorCodeRequest, config?: ApiRequestConfig<T>) =>
+    apiHelpers.post<T>(serviceUrl('auth', '/2fa/verify'), body, config),
+  post2faDisable: <T = void>(body: TwoFactorCodeRequest, config?: ApiRequestConfig<T>) =>
+    apiHelpers.post<T>(serviceUrl('auth', '/2fa/disable'), body, config),
+  getSessions: <T = UserSession[]>(config?: ApiRequestConfig<T>) =>
+    apiHelpers.get<T>(serviceUrl('auth', '/sessions'), config),
+  deleteSessionsBySessionId: <T = void>(sessionId: string, config?: ApiRequestConfig<T>) =>
+    apiHelpers.delete<T>(serviceUrl('auth', '/sessions/{sessionId}', { sessionId }), config),
+};
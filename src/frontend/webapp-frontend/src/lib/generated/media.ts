@@ -0,0 +1,145 @@
+// Generated from openapi/media-upload-service.json by scripts/generate-api-client.js.
+// Do not edit by hand: update the fixture and run `npm run api:generate`.
+import { ApiRequestConfig, apiHelpers } from '@/lib/api';
+import { serviceUrl } from '@/lib/services';
+
+export interface AssociateMediaRequest {
+  postId: string;
+}
+
+export interface BulkMediaUploadResponse {
+  successfulUploads: MediaUploadResponse[];
+  failedUploads: MediaUploadError[];
+  totalFiles: number;
+  successCount: number;
+  failureCount: number;
+}
+
+export interface CleanupRequest {
+  maxAgeHours?: number | null;
+}
+
+export interface CleanupResult {
+  deletedFilesCount: number;
+  maxAge: string;
+  completedAt: string;
+}
+
+export interface MediaFileMetadata {
+  altText?: string | null;
+  description?: string | null;
+  tags?: string | null;
+}
+
+export type MediaProcessingStatus = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface MediaSearchRequest {
+  searchTerm?: string | null;
+  contentTypes: string[];
+  minFileSize?: number | null;
+  maxFileSize?: number | null;
+  uploadedAfter?: string | null;
+  uploadedBefore?: string | null;
+  tags: string[];
+  postId?: string | null;
+  userId?: string | null;
+  page: number;
+  pageSize: number;
+  sortBy: string;
+  sortDirection: string;
+}
+
+export interface MediaSearchResponse {
+  media: MediaUploadResponse[];
+  totalCount: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
+
+export interface MediaStorageStats {
+  totalFiles: number;
+  totalSizeBytes: number;
+  totalSizeFormatted: string;
+  imageCount: number;
+  videoCount: number;
+  audioCount: number;
+  otherCount: number;
+  imageSizeBytes: number;
+  videoSizeBytes: number;
+  audioSizeBytes: number;
+  otherSizeBytes: number;
+  contentTypeCounts: Record<string, number>;
+  contentTypeSizes: Record<string, number>;
+}
+
+export interface MediaUploadError {
+  fileName: string;
+  errorCode: string;
+  errorMessage: string;
+  fileIndex: number;
+}
+
+export interface MediaUploadResponse {
+  id: string;
+  url: string;
+  fileName: string;
+  contentType: string;
+  fileSize: number;
+  fileSizeFormatted: string;
+  width?: number | null;
+  height?: number | null;
+  duration?: number | null;
+  thumbnailUrl?: string | null;
+  isImage: boolean;
+  isVideo: boolean;
+  isAudio: boolean;
+  uploadedAt: string;
+  processingStatus: MediaProcessingStatus;
+}
+
+export interface ProblemDetails {
+  type?: string | null;
+  title?: string | null;
+  status?: number | null;
+  detail?: string | null;
+  instance?: string | null;
+}
+
+export interface UpdateMediaRequest {
+  altText?: string | null;
+  description?: string | null;
+  tags?: string | null;
+  isActive?: boolean | null;
+}
+
+export interface ValidationResult {
+  isValid: boolean;
+  errors: string[];
+  metadata: Record<string, unknown>;
+}
+
+export const mediaApi = {
+  postUpload: <T = MediaUploadResponse>(body: FormData, config?: ApiRequestConfig<T>) =>
+    apiHelpers.post<T>(serviceUrl('media', '/upload'), body, config),
+  postUploadBulk: <T = BulkMediaUploadResponse>(body: FormData, config?: ApiRequestConfig<T>) =>
+    apiHelpers.post<T>(serviceUrl('media', '/upload/bulk'), body, config),
+  getById: <T = MediaUploadResponse>(id: string, config?: ApiRequestConfig<T>) =>
+    apiHelpers.get<T>(serviceUrl('media', '/{id}', { id }), config),
+  putById: <T = MediaUploadResponse>(id: string, body: UpdateMediaRequest, config?: ApiRequestConfig<T>) =>
+    apiHelpers.put<T>(serviceUrl('media', '/{id}', { id }), body, config),
+  deleteById: <T = void>(id: string, config?: ApiRequestConfig<T>) =>
+    apiHelpers.delete<T>(serviceUrl('media', '/{id}', { id }), config),
+  postSearch: <T = MediaSearchResponse>(body: MediaSearchRequest, config?: ApiRequestConfig<T>) =>
+    apiHelpers.post<T>(serviceUrl('media', '/search'), body, config),
+  postByIdAssociate: <T = void>(id: string, body: AssociateMediaRequest, config?: ApiRequestConfig<T>) =>
+    apiHelpers.post<T>(serviceUrl('media', '/{id}/associate', { id }), body, config),
+  getStats: <T = MediaStorageStats>(query?: { includeGlobal?: boolean }, config?: ApiRequestConfig<T>) =>
+    apiHelpers.get<T>(serviceUrl('media', '/stats'), { ...config, params: query }),
+  postValidate: <T = ValidationResult>(body: FormData, config?: ApiRequestConfig<T>) =>
+    apiHelpers.post<T>(serviceUrl('media', '/validate'), body, config),
+  postCleanup: <T = CleanupResult>(body: CleanupRequest, config?: ApiRequestConfig<T>) =>
+    apiHelpers.post<T>(serviceUrl('media', '/cleanup'), body, config),
+};
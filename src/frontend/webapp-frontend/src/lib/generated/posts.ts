@@ -0,0 +1,128 @@
+// Generated from openapi/post-service.json by scripts/generate-api-client.js.
+// Do not edit by hand: update the fixture and run `npm run api:generate`.
+import { ApiRequestConfig, apiHelpers } from '@/lib/api';
+import { serviceUrl } from '@/lib/services';
+
+export interface CreateMediaAttachmentRequest {
+  url: string;
+  fileName: string;
+  contentType: string;
+  fileSize: number;
+}
+
+export interface CreateMediaPostRequest {
+  authorId: string;
+  content?: string | null;
+  mediaAttachments?: CreateMediaAttachmentRequest[] | null;
+  visibility: PostVisibility;
+}
+
+export interface CreateReplyRequest {
+  authorId: string;
+  parentPostId: string;
+  content?: string | null;
+  visibility: PostVisibility;
+}
+
+export interface CreateTextPostRequest {
+  authorId: string;
+  content?: string | null;
+  visibility: PostVisibility;
+}
+
+export interface MediaAttachmentDto {
+  id: string;
+  postId: string;
+  url: string;
+  fileName: string;
+  contentType: string;
+  fileSize: number;
+  altText?: string | null;
+  width?: number | null;
+  height?: number | null;
+  duration?: number | null;
+  thumbnailUrl?: string | null;
+  createdAt: string;
+  isImage: boolean;
+  isVideo: boolean;
+  isAudio: boolean;
+}
+
+export interface PostAuthorDto {
+  id: string;
+  username: string;
+  displayName: string;
+  profileImageUrl: string;
+  isPrivate: boolean;
+  isVerified: boolean;
+}
+
+export interface PostDto {
+  id: string;
+  authorId: string;
+  author: PostAuthorDto;
+  content: string;
+  type: PostType;
+  visibility: PostVisibility;
+  isEdited: boolean;
+  createdAt: string;
+  updatedAt: string;
+  parentPostId?: string | null;
+  rootPostId?: string | null;
+  repliesCount: number;
+  mediaAttachments: MediaAttachmentDto[];
+}
+
+export interface PostRevision {
+  id: string;
+  postId: string;
+  content: string;
+  createdAt: string;
+  replacedAt: string;
+}
+
+export type PostType = 0 | 1 | 2 | 3 | 4;
+
+export type PostVisibility = 0 | 1 | 2;
+
+export interface UpdateContentRequest {
+  authorId: string;
+  newContent?: string | null;
+  expectedUpdatedAt?: string | null;
+}
+
+export interface UpdateVisibilityRequest {
+  authorId: string;
+  visibility: PostVisibility;
+}
+
+export const postsApi = {
+  getById: <T = PostDto>(id: string, query?: { viewerId?: string }, config?: ApiRequestConfig<T>) =>
+    apiHelpers.get<T>(serviceUrl('posts', '/{id}', { id }), { ...config, params: query }),
+  deleteById: <T = void>(id: string, query?: { authorId?: string }, config?: ApiRequestConfig<T>) =>
+    apiHelpers.delete<T>(serviceUrl('posts', '/{id}', { id }), { ...config, params: query }),
+  postText: <T = PostDto>(body: CreateTextPostRequest, config?: ApiRequestConfig<T>) =>
+    apiHelpers.post<T>(serviceUrl('posts', '/text'), body, config),
+  getMedia: <T = PostDto[]>(query?: { viewerId?: string; limit?: number; offset?: number }, config?: ApiRequestConfig<T>) =>
+    apiHelpers.get<T>(serviceUrl('posts', '/media'), { ...config, params: query }),
+  postMedia: <T = PostDto>(body: CreateMediaPostRequest, config?: ApiRequestConfig<T>) =>
+    apiHelpers.post<T>(serviceUrl('posts', '/media'), body, config),
+  postReply: <T = PostDto>(body: CreateReplyRequest, config?: ApiRequestConfig<T>) =>
+    apiHelpers.post<T>(serviceUrl('posts', '/reply'), body, config),
+  putByIdContent: <T = PostDto>(id: string, body: UpdateContentRequest, config?: ApiRequestConfig<T>) =>
+    apiHelpers.put<T>(serviceUrl('posts', '/{id}/content', { id }), body, config),
+  putByIdVisibility: <T = PostDto>(id: string, body: UpdateVisibilityRequest, config?: ApiRequestConfig<T>) =>
+    apiHelpers.put<T>(serviceUrl('posts', '/{id}/visibility', { id }), body, config),
+  getByIdRevisions: <T = PostRevision[]>(id: string, query?: { viewerId?: string }, config?: ApiRequestConfig<T>) =>
+    apiHelpers.get<T>(serviceUrl('posts', '/{id}/revisions', { id }), { ...config, params: query }),
+  getAuthorByAuthorId: <T = PostDto[]>(authorId: string, query?: { viewerId?: string; limit?: number; offset?: number }, config?: ApiRequestConfig<T>) =>
+    apiHelpers.get<T>(serviceUrl('posts', '/author/{authorId}', { authorId }), { ...config, params: query }),
+  getFeedByUserId: <T = PostDto[]>(userId: string, query?: { limit?: number; offset?: number }, config?: ApiRequestConfig<T>) =>
+    apiHelpers.get<T>(serviceUrl('posts', '/feed/{userId}', { userId }), { ...config, params: query }),
+  getPublic: <T = PostDto[]>(query?: { limit?: number; offset?: number }, config?: ApiRequestConfig<T>) =>
+    apiHelpers.get<T>(serviceUrl('posts', '/public'), { ...config, params: query }),
+  getSearch: <T = PostDto[]>(query?: { searchTerm?: string; viewerId?: string; limit?: number }, config?: ApiRequestConfig<T>) =>
+    apiHelpers.get<T>(serviceUrl('posts', '/search'), { ...config, params: query }),
+  getByParentIdReplies: <T = PostDto[]>(parentId: string, query?: { viewerId?: string; limit?: number; offset?: number }, config?: ApiRequestConfig<T>) =>
+    apiHelpers.get<T>(serviceUrl('posts', '/{parentId}/replies', { parentId }), { ...config, params: query }),
+};
@@ -0,0 +1,39 @@
+import { broadcastAuthEvent, subscribeToAuthEvents } from '@/lib/authSync';
+
+export const DEFAULT_IDLE_TIMEOUT_MINUTES = 30;
+// Sessions without "Remember me" are the likeliest to be on a shared computer
+export const SESSION_ONLY_IDLE_TIMEOUT_MINUTES = 10;
+export const IDLE_TIMEOUT_OPTIONS_MINUTES = [5, 10, 15, 30, 60, 120];
+// How long the warning is shown before the timeout takes effect
+export const IDLE_WARNING_MS = 60 * 1000;
+
+// Input in one tab keeps every tab awake; share it at most this often
+const ACTIVITY_BROADCAST_INTERVAL_MS = 5 * 1000;
+
+let lastActivityAt = Date.now();
+let lastBroadcastAt = 0;
+
+export const getLastActivityAt = () => lastActivityAt;
+
+export const recordActivity = (at: number = Date.now()) => {
+  lastActivityAt = Math.max(lastActivityAt, at);
+
+  if (at - lastBroadcastAt >= ACTIVITY_BROADCAST_INTERVAL_MS) {
+    lastBroadcastAt = at;
+    broadcastAuthEvent({ type: 'activity', at });
+  }
+};
+
+subscribeToAuthEvents((message) => {
+  if (message.type === 'activity') {
+    lastActivityAt = Math.max(lastActivityAt, message.at);
+  }
+});
+
+// The preferred timeout, capped for sessions that aren't remembered
+export const getIdleTimeoutMs = (preferredMinutes: number, isPersistentSession: boolean) =>
+  (isPersistentSession
+    ? preferredMinutes
+    : Math.min(preferredMinutes, SESSION_ONLY_IDLE_TIMEOUT_MINUTES)) *
+  60 *
+  1000;
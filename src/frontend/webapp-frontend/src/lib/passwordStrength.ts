@@ -0,0 +1,231 @@
+// Offline password strength estimate, loosely modelled on zxcvbn: guessable patterns
+// (common words, keyboard runs, sequences, repeats, years, the user's own details)
+// count for only a few bits each, the remaining characters for their full charset.
+
+export type PasswordScore = 0 | 1 | 2 | 3 | 4;
+
+export interface PasswordStrength {
+  score: PasswordScore;
+  label: string;
+  warning?: string;
+  suggestions: string[];
+}
+
+type PatternKind = 'dictionary' | 'user-input' | 'keyboard' | 'sequence' | 'repeat' | 'year';
+
+interface PatternMatch {
+  kind: PatternKind;
+  start: number;
+  end: number;
+  bits: number;
+  leet?: boolean;
+}
+
+export const PASSWORD_SCORE_LABELS = ['Very weak', 'Weak', 'Fair', 'Good', 'Strong'] as const;
+
+// Score required by the password forms; override with NEXT_PUBLIC_MIN_PASSWORD_SCORE (0-4)
+export const MIN_PASSWORD_SCORE: PasswordScore = (() => {
+  const configured = Number(process.env.NEXT_PUBLIC_MIN_PASSWORD_SCORE);
+  return Number.isInteger(configured) && configured >= 0 && configured <= 4
+    ? (configured as PasswordScore)
+    : 2;
+})();
+
+// Most common passwords and password words, lowercase
+const COMMON_WORDS = [
+  'password', 'passwort', 'pass', 'qwerty', 'letmein', 'welcome', 'admin', 'administrator', 'login',
+  'dragon', 'monkey', 'football', 'baseball', 'soccer', 'hockey', 'iloveyou', 'love', 'sunshine',
+  'princess', 'master', 'hello', 'freedom', 'whatever', 'trustno', 'shadow', 'superman', 'batman',
+  'michael', 'jennifer', 'jordan', 'charlie', 'thomas', 'secret', 'summer', 'winter', 'spring',
+  'autumn', 'flower', 'starwars', 'pokemon', 'computer', 'internet', 'cheese', 'chocolate', 'cookie',
+  'banana', 'orange', 'purple', 'ginger', 'pepper', 'killer', 'hunter', 'ranger', 'buster', 'tigger',
+  'matrix', 'mustang', 'harley', 'maggie', 'ashley', 'bailey', 'daniel', 'jessica', 'andrew',
+  'joshua', 'access', 'default', 'changeme', 'test', 'guest', 'user', 'root', 'webapp', 'abc',
+  'angel', 'baby', 'family', 'friend', 'happy', 'lucky', 'money', 'music', 'nothing', 'samsung',
+  'apple', 'google', 'facebook', 'twitter', 'instagram', 'qazwsx', 'asdf',
+];
+
+const KEYBOARD_ROWS = ['`1234567890-=', 'qwertyuiop[]\\', "asdfghjkl;'", 'zxcvbnm,./', 'qwertzuiop', 'azertyuiop'];
+
+// Common character substitutions ("p@ssw0rd")
+const LEET_SUBSTITUTIONS: Record<string, string> = {
+  '@': 'a', '4': 'a', '3': 'e', '1': 'i', '!': 'i', '0': 'o', '5': 's', '$': 's', '7': 't', '+': 't',
+};
+
+const MIN_PATTERN_LENGTH = 3;
+
+const charsetSize = (password: string) =>
+  (/[a-z]/.test(password) ? 26 : 0) +
+  (/[A-Z]/.test(password) ? 26 : 0) +
+  (/\d/.test(password) ? 10 : 0) +
+  (/[^a-zA-Z\d]/.test(password) ? 33 : 0);
+
+const findAll = (haystack: string, needle: string) => {
+  const positions: number[] = [];
+  for (let index = haystack.indexOf(needle); index !== -1; index = haystack.indexOf(needle, index + 1)) {
+    positions.push(index);
+  }
+  return positions;
+};
+
+const findWordMatches = (password: string, userInputs: string[]): PatternMatch[] => {
+  const lower = password.toLowerCase();
+  const unleeted = lower.replace(/./g, (char) => LEET_SUBSTITUTIONS[char] ?? char);
+  const matches: PatternMatch[] = [];
+
+  const addMatches = (words: string[], kind: 'dictionary' | 'user-input', minLength: number) => {
+    words.forEach((word, rank) => {
+      if (word.length < minLength) return;
+      findAll(unleeted, word).forEach((start) => {
+        const end = start + word.length;
+        const original = password.slice(start, end);
+        const leet = original.toLowerCase() !== word;
+        const capitalised = original !== original.toLowerCase();
+        // Commoner words (earlier in the list) and the user's own details are cheaper to guess
+        const baseBits = kind === 'dictionary' ? Math.log2(rank + 2) + 6 : 2;
+        matches.push({ kind, start, end, bits: baseBits + (leet ? 1 : 0) + (capitalised ? 1 : 0), leet });
+      });
+    });
+  };
+
+  addMatches(COMMON_WORDS, 'dictionary', 4);
+  addMatches(
+    userInputs
+      .flatMap((input) => input.toLowerCase().split(/[^a-z0-9]+/))
+      .filter((part, index, parts) => parts.indexOf(part) === index),
+    'user-input',
+    MIN_PATTERN_LENGTH
+  );
+
+  return matches;
+};
+
+// Runs of adjacent keys ("qwerty", "asdf") or of consecutive characters ("abcd", "9876")
+const findRunMatches = (password: string): PatternMatch[] => {
+  const lower = password.toLowerCase();
+  const matches: PatternMatch[] = [];
+
+  const isKeyboardStep = (a: string, b: string) =>
+    KEYBOARD_ROWS.some((row) => row.includes(a + b) || row.includes(b + a));
+  const sequenceStep = (a: string, b: string) => {
+    const sameClass = /[a-z]/.test(a) === /[a-z]/.test(b) && /\d/.test(a) === /\d/.test(b);
+    const delta = b.charCodeAt(0) - a.charCodeAt(0);
+    return sameClass && /[a-z\d]/.test(a) && Math.abs(delta) === 1 ? delta : 0;
+  };
+
+  const collect = (kind: 'keyboard' | 'sequence', step: (i: number, direction: number) => number) => {
+    let start = 0;
+    while (start < lower.length - 1) {
+      const direction = step(start, 0);
+      let end = start + 1;
+      while (end < lower.length && direction && step(end - 1, direction) === direction) end++;
+
+      if (direction && end - start >= MIN_PATTERN_LENGTH) {
+        matches.push({ kind, start, end, bits: Math.log2(end - start) + (kind === 'keyboard' ? 5 : 4) });
+        start = end;
+      } else {
+        start++;
+      }
+    }
+  };
+
+  // Sequences must keep going in one direction; keyboard runs just need neighbouring keys
+  collect('sequence', (i) => sequenceStep(lower[i], lower[i + 1]));
+  collect('keyboard', (i) => (isKeyboardStep(lower[i], lower[i + 1]) ? 1 : 0));
+
+  return matches;
+};
+
+const findRepeatMatches = (password: string): PatternMatch[] =>
+  Array.from(password.matchAll(/(.+?)\1+/g))
+    .filter((match) => match[0].length >= MIN_PATTERN_LENGTH)
+    .map((match) => ({
+      kind: 'repeat' as const,
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length,
+      bits: match[1].length * Math.log2(Math.max(charsetSize(match[1]), 10)) + Math.log2(match[0].length / match[1].length),
+    }));
+
+const findYearMatches = (password: string): PatternMatch[] =>
+  Array.from(password.matchAll(/(?:19|20)\d\d/g)).map((match) => ({
+    kind: 'year' as const,
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+    bits: 7,
+  }));
+
+// Longest matches win; overlapping shorter ones are dropped
+const selectMatches = (matches: PatternMatch[]) =>
+  [...matches]
+    .sort((a, b) => b.end - b.start - (a.end - a.start) || a.bits - b.bits)
+    .reduce<PatternMatch[]>(
+      (selected, match) =>
+        selected.some((other) => match.start < other.end && other.start < match.end)
+          ? selected
+          : [...selected, match],
+      []
+    );
+
+const WARNINGS: Record<PatternKind, string> = {
+  dictionary: 'This is similar to a commonly used password.',
+  'user-input': 'Passwords containing your name, username or email are easy to guess.',
+  keyboard: 'Rows of neighbouring keys like "qwerty" are easy to guess.',
+  sequence: 'Sequences like "abc" or "6543" are easy to guess.',
+  repeat: 'Repeats like "aaa" or "abcabc" are easy to guess.',
+  year: 'Recent years are easy to guess.',
+};
+
+const SUGGESTIONS: Record<PatternKind, string> = {
+  dictionary: 'Avoid common words and passwords.',
+  'user-input': 'Leave out your name, username and email.',
+  keyboard: 'Avoid keyboard patterns.',
+  sequence: 'Avoid sequences of letters or numbers.',
+  repeat: 'Avoid repeated words and characters.',
+  year: 'Avoid years and dates that are associated with you.',
+};
+
+const scoreFromBits = (bits: number): PasswordScore => {
+  if (bits < 25) return 0;
+  if (bits < 40) return 1;
+  if (bits < 55) return 2;
+  if (bits < 70) return 3;
+  return 4;
+};
+
+export function estimatePasswordStrength(password: string, userInputs: string[] = []): PasswordStrength {
+  if (!password) {
+    return { score: 0, label: PASSWORD_SCORE_LABELS[0], suggestions: [] };
+  }
+
+  const matches = selectMatches([
+    ...findWordMatches(password, userInputs.filter(Boolean)),
+    ...findRunMatches(password),
+    ...findRepeatMatches(password),
+    ...findYearMatches(password),
+  ]);
+
+  const coveredLength = matches.reduce((total, match) => total + match.end - match.start, 0);
+  const bits =
+    matches.reduce((total, match) => total + match.bits, 0) +
+    (password.length - coveredLength) * Math.log2(charsetSize(password));
+  const score = scoreFromBits(bits);
+
+  if (score >= 3) {
+    return { score, label: PASSWORD_SCORE_LABELS[score], suggestions: [] };
+  }
+
+  // Explain the biggest guessable part first
+  const worst = matches[0];
+  const suggestions = [
+    ...(worst ? [SUGGESTIONS[worst.kind]] : []),
+    ...(worst?.leet ? ['Swapping letters for look-alike symbols, like "@" for "a", doesn\'t help much.'] : []),
+    'Add another word or two. Uncommon words are better.',
+  ];
+
+  return {
+    score,
+    label: PASSWORD_SCORE_LABELS[score],
+    warning: worst ? WARNINGS[worst.kind] : undefined,
+    suggestions,
+  };
+}
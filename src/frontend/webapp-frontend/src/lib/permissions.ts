@@ -0,0 +1,25 @@
+import { Permission, Role } from '@/types';
+
+// UI permissions granted by each role. Keep in step with the [Authorize(Roles = ...)]
+// attributes on the service endpoints these screens call.
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  Admin: ['admin:access', 'media-processing:view', 'notifications:bulk', 'maintenance:cleanup'],
+};
+
+// Routes that need a permission on top of being signed in; a route covers everything below it
+export const routePermissions: Record<string, Permission> = {
+  '/admin': 'admin:access',
+};
+
+const isRole = (role: string): role is Role => role in ROLE_PERMISSIONS;
+
+export function getPermissions(roles: string[]): Permission[] {
+  return Array.from(new Set(roles.filter(isRole).flatMap((role) => ROLE_PERMISSIONS[role])));
+}
+
+export function getRequiredPermission(pathname: string): Permission | undefined {
+  const route = Object.keys(routePermissions).find(
+    (prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`)
+  );
+  return route ? routePermissions[route] : undefined;
+}
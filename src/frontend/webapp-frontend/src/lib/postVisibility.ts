@@ -0,0 +1,64 @@
+import { POST_VISIBILITY, Post, PostVisibility, User } from '@/types';
+
+export const postVisibilityOptions: Record<PostVisibility, { label: string; description: string }> = {
+  [POST_VISIBILITY.PUBLIC]: { label: 'Public', description: 'Anyone can see this post' },
+  [POST_VISIBILITY.FOLLOWERS]: { label: 'Followers', description: 'Only your followers can see this post' },
+  [POST_VISIBILITY.PRIVATE]: { label: 'Only me', description: 'Only you can see this post' },
+};
+
+// New posts from a private account start out followers-only
+export function getDefaultVisibility(user: Pick<User, 'isPrivate'> | null | undefined): PostVisibility {
+  return user?.isPrivate ? POST_VISIBILITY.FOLLOWERS : POST_VISIBILITY.PUBLIC;
+}
+
+// Who can actually see a post: a private account's public posts only reach its followers
+export function getEffectiveVisibility(post: Pick<Post, 'visibility' | 'author'>): PostVisibility {
+  if (post.visibility === POST_VISIBILITY.PUBLIC && post.author?.isPrivate) return POST_VISIBILITY.FOLLOWERS;
+  return post.visibility;
+}
+
+export interface ShareAvailability {
+  canCopyLink: boolean;
+  canEmbed: boolean;
+  // Why an action is missing, or who the link will work for
+  note?: string;
+}
+
+// Links only work for people allowed to see the post, and embeds are shown to anyone, so only
+// public posts can be embedded and private ones have no link worth sharing
+export function getShareAvailability(post: Pick<Post, 'visibility' | 'author'>): ShareAvailability {
+  switch (getEffectiveVisibility(post)) {
+    case POST_VISIBILITY.PRIVATE:
+      return {
+        canCopyLink: false,
+        canEmbed: false,
+        note: 'Only the author can see this post, so it has no link to share.',
+      };
+    case POST_VISIBILITY.FOLLOWERS:
+      return {
+        canCopyLink: true,
+        canEmbed: false,
+        note: `Only people who follow @${post.author.username} can open this link. Only public posts can be embedded.`,
+      };
+    default:
+      return { canCopyLink: true, canEmbed: true };
+  }
+}
+
+export const getPostPath = (postId: string) => `/posts/${encodeURIComponent(postId)}`;
+
+export const getPostUrl = (postId: string, origin = window.location.origin) => `${origin}${getPostPath(postId)}`;
+
+// Markup for showing a public post on another site
+export const getEmbedCode = (post: Pick<Post, 'id' | 'content' | 'author'>, origin = window.location.origin) => {
+  const escape = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  const url = getPostUrl(post.id, origin);
+  return (
+    `<blockquote class="webapp-post" cite="${escape(url)}">` +
+    `<p>${escape(post.content)}</p>` +
+    `&mdash; ${escape(post.author.displayName)} (@${escape(post.author.username)}) ` +
+    `<a href="${escape(url)}">View post</a>` +
+    `</blockquote>`
+  );
+};
@@ -0,0 +1,43 @@
+// Route access rules shared by the middleware and the client-side AuthGuard
+export type RouteAccess = 'public' | 'guest' | 'protected';
+
+export const LOGIN_ROUTE = '/auth/login';
+export const DEFAULT_AUTHENTICATED_ROUTE = '/';
+export const RETURN_TO_PARAM = 'returnTo';
+
+// Anything not listed here requires a signed-in user
+export const routeAccess: Record<Exclude<RouteAccess, 'protected'>, string[]> = {
+  // Reachable whether or not the user is signed in
+  public: ['/auth/confirm-email', '/auth/reset-password', '/terms', '/privacy'],
+  // Only for signed-out users; signed-in users are sent on to their returnTo
+  guest: ['/auth/login', '/auth/register', '/auth/forgot-password'],
+};
+
+// Links in emails the auth service sent before its links pointed under /auth; they still work
+export const legacyEmailRoutes: Record<string, string> = {
+  '/reset-password': '/auth/reset-password',
+  '/confirm-email': '/auth/confirm-email',
+};
+
+// A route matches itself and everything below it
+const matches = (pathname: string, route: string) =>
+  pathname === route || pathname.startsWith(`${route}/`);
+
+export function getRouteAccess(pathname: string): RouteAccess {
+  if (routeAccess.public.some((route) => matches(pathname, route))) return 'public';
+  if (routeAccess.guest.some((route) => matches(pathname, route))) return 'guest';
+  return 'protected';
+}
+
+// Only same-origin paths are accepted, so returnTo can't be used as an open redirect
+export function getSafeReturnTo(returnTo: string | null | undefined): string {
+  if (!returnTo || !returnTo.startsWith('/') || returnTo.startsWith('//') || returnTo.includes('\\')) {
+    return DEFAULT_AUTHENTICATED_ROUTE;
+  }
+  return getRouteAccess(returnTo.split(/[?#]/)[0]) === 'guest' ? DEFAULT_AUTHENTICATED_ROUTE : returnTo;
+}
+
+export function buildLoginUrl(returnTo?: string): string {
+  if (!returnTo || returnTo === DEFAULT_AUTHENTICATED_ROUTE) return LOGIN_ROUTE;
+  return `${LOGIN_ROUTE}?${new URLSearchParams({ [RETURN_TO_PARAM]: returnTo })}`;
+}
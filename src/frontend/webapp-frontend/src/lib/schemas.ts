@@ -0,0 +1,259 @@
+import { z } from 'zod';
+import {
+  AuthErrorResponse,
+  AuthResponse,
+  AvailabilityResponse,
+  Comment,
+  EnableTwoFactorResponse,
+  LoginResponse,
+  MediaAttachment,
+  Notification,
+  NotificationCount,
+  NotificationStatus,
+  NotificationType,
+  Post,
+  PostAuthor,
+  PostEdit,
+  PostRevision,
+  PostVisibilityEdit,
+  ProcessingQueueStatus,
+  TwoFactorChallengeResponse,
+  TwoFactorRecoveryCodesResponse,
+  UploadMediaResponse,
+  User,
+  UserProfile,
+  UserSession,
+} from '@/types';
+
+// Runtime mirrors of the response types in types/index.ts, checked by apiHelpers (see
+// validateResponse in lib/api). `satisfies` keeps each schema in step with its interface.
+// Unknown keys are allowed: the services may add fields before the frontend knows about them.
+
+// ISO 8601 timestamp as serialized by System.Text.Json
+const dateTimeSchema = z.string().min(1);
+
+// Optional in the interface but sent as null by the services when unset
+const nullableString = z.string().nullish();
+const nullableNumber = z.number().nullish();
+
+export const userSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  username: z.string(),
+  displayName: z.string(),
+  bio: z.string().optional(),
+  avatarUrl: z.string().optional(),
+  isVerified: z.boolean(),
+  followersCount: z.number(),
+  followingCount: z.number(),
+  postsCount: z.number(),
+  isTwoFactorEnabled: z.boolean().optional(),
+  isEmailConfirmed: z.boolean().optional(),
+  isPrivate: z.boolean().optional(),
+  createdAt: dateTimeSchema,
+  updatedAt: dateTimeSchema,
+}) satisfies z.ZodType<User>;
+
+export const userProfileSchema = userSchema.extend({
+  isFollowing: z.boolean().optional(),
+  isOwnProfile: z.boolean().optional(),
+}) satisfies z.ZodType<UserProfile>;
+
+export const authResponseSchema = z.object({
+  user: userSchema,
+  accessToken: z.string().min(1),
+  refreshToken: z.string().min(1),
+}) satisfies z.ZodType<AuthResponse>;
+
+export const twoFactorChallengeResponseSchema = z.object({
+  requiresTwoFactor: z.literal(true),
+  twoFactorToken: z.string().min(1),
+}) satisfies z.ZodType<TwoFactorChallengeResponse>;
+
+export const loginResponseSchema = z.union([
+  twoFactorChallengeResponseSchema,
+  authResponseSchema,
+]) satisfies z.ZodType<LoginResponse>;
+
+export const enableTwoFactorResponseSchema = z.object({
+  secret: z.string().min(1),
+}) satisfies z.ZodType<EnableTwoFactorResponse>;
+
+export const twoFactorRecoveryCodesResponseSchema = z.object({
+  recoveryCodes: z.array(z.string()),
+}) satisfies z.ZodType<TwoFactorRecoveryCodesResponse>;
+
+export const userSessionSchema = z.object({
+  id: z.string(),
+  sessionId: z.string(),
+  createdAt: dateTimeSchema,
+  lastActivityAt: dateTimeSchema,
+  expiresAt: dateTimeSchema,
+  isActive: z.boolean(),
+  ipAddress: nullableString,
+  userAgent: nullableString,
+  deviceInfo: nullableString,
+  location: nullableString,
+}) satisfies z.ZodType<UserSession>;
+
+export const userSessionListSchema = z.array(userSessionSchema);
+
+export const mediaAttachmentSchema = z.object({
+  id: z.string(),
+  postId: z.string(),
+  url: z.string(),
+  fileName: z.string(),
+  contentType: z.string(),
+  fileSize: z.number(),
+  altText: nullableString,
+  width: nullableNumber,
+  height: nullableNumber,
+  duration: nullableNumber,
+  thumbnailUrl: nullableString,
+  createdAt: dateTimeSchema,
+  isImage: z.boolean(),
+  isVideo: z.boolean(),
+  isAudio: z.boolean(),
+}) satisfies z.ZodType<MediaAttachment>;
+
+export const uploadMediaResponseSchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  fileName: z.string(),
+  contentType: z.string(),
+  fileSize: z.number(),
+  fileSizeFormatted: z.string(),
+  width: nullableNumber,
+  height: nullableNumber,
+  duration: nullableNumber,
+  thumbnailUrl: nullableString,
+  isImage: z.boolean(),
+  isVideo: z.boolean(),
+  isAudio: z.boolean(),
+  uploadedAt: dateTimeSchema,
+  processingStatus: z.literal([0, 1, 2, 3, 4, 5]),
+}) satisfies z.ZodType<UploadMediaResponse>;
+
+export const postAuthorSchema = z.object({
+  id: z.string(),
+  username: z.string(),
+  displayName: z.string(),
+  profileImageUrl: z.string(),
+  isPrivate: z.boolean(),
+  isVerified: z.boolean(),
+}) satisfies z.ZodType<PostAuthor>;
+
+export const postSchema = z.object({
+  id: z.string(),
+  content: z.string(),
+  authorId: z.string(),
+  author: postAuthorSchema,
+  type: z.literal([0, 1, 2, 3, 4]),
+  visibility: z.literal([0, 1, 2]),
+  isEdited: z.boolean(),
+  repliesCount: z.number(),
+  mediaAttachments: z.array(mediaAttachmentSchema),
+  likesCount: z.number().optional(),
+  commentsCount: z.number().optional(),
+  isLiked: z.boolean().optional(),
+  parentPostId: nullableString,
+  rootPostId: nullableString,
+  createdAt: dateTimeSchema,
+  updatedAt: dateTimeSchema,
+}) satisfies z.ZodType<Post>;
+
+export const postListSchema = z.array(postSchema);
+
+// What an edit changes, read from the content endpoint's answer and merged into the cached post,
+// which keeps its counts
+export const postEditSchema = postSchema.pick({
+  content: true,
+  isEdited: true,
+  updatedAt: true,
+}) satisfies z.ZodType<PostEdit>;
+
+// The same for the visibility endpoint
+export const postVisibilityEditSchema = postSchema.pick({
+  visibility: true,
+  updatedAt: true,
+}) satisfies z.ZodType<PostVisibilityEdit>;
+
+export const postRevisionSchema = z.object({
+  id: z.string(),
+  postId: z.string(),
+  content: z.string(),
+  createdAt: dateTimeSchema,
+  replacedAt: dateTimeSchema,
+}) satisfies z.ZodType<PostRevision>;
+
+export const postRevisionListSchema = z.array(postRevisionSchema);
+
+export const commentSchema = z.object({
+  id: z.string(),
+  content: z.string(),
+  postId: z.string(),
+  authorId: z.string(),
+  author: userSchema,
+  likesCount: z.number(),
+  isLiked: z.boolean(),
+  createdAt: dateTimeSchema,
+  updatedAt: dateTimeSchema,
+}) satisfies z.ZodType<Comment>;
+
+export const notificationSchema = z.object({
+  id: z.string(),
+  type: z.enum(NotificationType),
+  status: z.enum(NotificationStatus),
+  title: z.string(),
+  message: z.string(),
+  actionUrl: z.string().optional(),
+  relatedUserId: z.string().optional(),
+  relatedUser: userSchema.optional(),
+  relatedPostId: z.string().optional(),
+  relatedPost: postSchema.optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+  createdAt: dateTimeSchema,
+  readAt: dateTimeSchema.optional(),
+  archivedAt: dateTimeSchema.optional(),
+}) satisfies z.ZodType<Notification>;
+
+export const notificationCountSchema = z.object({
+  total: z.number(),
+  unread: z.number(),
+}) satisfies z.ZodType<NotificationCount>;
+
+export const processingQueueStatusSchema = z.object({
+  queuedJobs: z.number(),
+  processingJobs: z.number(),
+  completedJobs: z.number(),
+  failedJobs: z.number(),
+  totalJobs: z.number(),
+  lastProcessedAt: dateTimeSchema,
+}) satisfies z.ZodType<ProcessingQueueStatus>;
+
+// PaginatedResponse<T> for a given item schema
+export const paginatedResponseSchema = <T extends z.ZodType>(item: T) =>
+  z.object({
+    data: z.array(item),
+    pagination: z.object({
+      page: z.number(),
+      limit: z.number(),
+      total: z.number(),
+      pages: z.number(),
+      hasNext: z.boolean(),
+      hasPrev: z.boolean(),
+    }),
+  });
+
+export const availabilityResponseSchema = z.object({
+  available: z.boolean(),
+}) satisfies z.ZodType<AvailabilityResponse>;
+
+export const authErrorResponseSchema = z.object({
+  error: z.string(),
+  errorDescription: z.string().optional(),
+  statusCode: z.number().optional(),
+  timestamp: dateTimeSchema.optional(),
+  attemptsRemaining: z.number().optional(),
+  retryAfterSeconds: z.number().optional(),
+}) satisfies z.ZodType<AuthErrorResponse>;
@@ -0,0 +1,146 @@
+// The backend services and how to reach them. By default every call goes through the API gateway
+// (NEXT_PUBLIC_API_URL). With NEXT_PUBLIC_API_MODE=direct, each service is called where
+// scripts/run-services-locally.sh starts it. NEXT_PUBLIC_<NAME>_SERVICE_URL points a single
+// service somewhere else in either mode.
+
+export type ServiceName =
+  | 'auth'
+  | 'users'
+  | 'posts'
+  | 'notifications'
+  | 'likes'
+  | 'comments'
+  | 'media'
+  | 'mediaProcessing';
+
+export type ApiMode = 'gateway' | 'direct';
+
+interface ServiceDefinition {
+  // Where the gateway routes requests for this service
+  gatewayPrefix: string;
+  // The service's own controller route
+  servicePrefix: string;
+  // Where scripts/run-services-locally.sh starts the service
+  localUrl: string;
+  timeoutMs: number;
+}
+
+export const DEFAULT_TIMEOUT_MS = 10 * 1000;
+
+export const services: Record<ServiceName, ServiceDefinition> = {
+  auth: {
+    gatewayPrefix: '/auth',
+    servicePrefix: '/api/Auth',
+    localUrl: 'http://localhost:7001',
+    timeoutMs: DEFAULT_TIMEOUT_MS,
+  },
+  users: {
+    gatewayPrefix: '/users',
+    servicePrefix: '/api/Users',
+    localUrl: 'http://localhost:7002',
+    timeoutMs: DEFAULT_TIMEOUT_MS,
+  },
+  posts: {
+    gatewayPrefix: '/posts',
+    servicePrefix: '/api/Posts',
+    localUrl: 'http://localhost:7003',
+    // Feeds and search fan out to other services
+    timeoutMs: 15 * 1000,
+  },
+  notifications: {
+    gatewayPrefix: '/notifications',
+    servicePrefix: '/api/Notifications',
+    localUrl: 'http://localhost:7004',
+    timeoutMs: DEFAULT_TIMEOUT_MS,
+  },
+  likes: {
+    gatewayPrefix: '/likes',
+    servicePrefix: '/api/Likes',
+    localUrl: 'http://localhost:7005',
+    timeoutMs: 5 * 1000,
+  },
+  comments: {
+    gatewayPrefix: '/comments',
+    servicePrefix: '/api/Comments',
+    localUrl: 'http://localhost:7006',
+    timeoutMs: DEFAULT_TIMEOUT_MS,
+  },
+  media: {
+    gatewayPrefix: '/media',
+    servicePrefix: '/api/MediaUpload',
+    localUrl: 'http://localhost:7007',
+    // Uploads of large videos
+    timeoutMs: 2 * 60 * 1000,
+  },
+  mediaProcessing: {
+    gatewayPrefix: '/media-processing',
+    servicePrefix: '/api/MediaProcessing',
+    localUrl: 'http://localhost:7008',
+    timeoutMs: 30 * 1000,
+  },
+};
+
+export interface ServiceConfig {
+  mode: ApiMode;
+  gatewayUrl: string;
+  // Origin of a service to use instead of the default; its /api route is appended
+  serviceUrls: Partial<Record<ServiceName, string>>;
+}
+
+// NEXT_PUBLIC_ variables are inlined at build time, so each one is read by its full name
+export const readServiceConfig = (): ServiceConfig => ({
+  mode: process.env.NEXT_PUBLIC_API_MODE === 'direct' ? 'direct' : 'gateway',
+  gatewayUrl: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:7009',
+  serviceUrls: {
+    auth: process.env.NEXT_PUBLIC_AUTH_SERVICE_URL,
+    users: process.env.NEXT_PUBLIC_USER_SERVICE_URL,
+    posts: process.env.NEXT_PUBLIC_POST_SERVICE_URL,
+    notifications: process.env.NEXT_PUBLIC_NOTIFICATION_SERVICE_URL,
+    likes: process.env.NEXT_PUBLIC_LIKE_SERVICE_URL,
+    comments: process.env.NEXT_PUBLIC_COMMENT_SERVICE_URL,
+    media: process.env.NEXT_PUBLIC_MEDIA_UPLOAD_SERVICE_URL,
+    mediaProcessing: process.env.NEXT_PUBLIC_MEDIA_PROCESSING_SERVICE_URL,
+  },
+});
+
+export const serviceConfig = readServiceConfig();
+
+// Through the gateway the base is relative, since apiClient's baseURL is the gateway
+export const getServiceBaseUrl = (
+  service: ServiceName,
+  { mode, serviceUrls }: ServiceConfig = serviceConfig
+): string => {
+  const { gatewayPrefix, servicePrefix, localUrl } = services[service];
+  const origin = serviceUrls[service] || (mode === 'direct' ? localUrl : undefined);
+  return origin ? `${origin.replace(/\/+$/, '')}${servicePrefix}` : gatewayPrefix;
+};
+
+type PathParamNames<Route extends string> = Route extends `${string}{${infer Name}}${infer Rest}`
+  ? Name | PathParamNames<Rest>
+  : never;
+
+export type PathParams<Route extends string> = Record<PathParamNames<Route>, string | number>;
+
+// A route on a service, with its {placeholders} filled in and encoded:
+// serviceUrl('posts', '/feed/{userId}', { userId }) is '/posts/feed/user-1' through the gateway
+export function serviceUrl<Route extends string>(
+  service: ServiceName,
+  route: Route,
+  ...[params]: [PathParamNames<Route>] extends [never] ? [] : [PathParams<Route>]
+): string {
+  const values: Record<string, string | number> = params ?? {};
+  const path = route.replace(/\{(\w+)\}/g, (_, name: string) => encodeURIComponent(String(values[name])));
+  return `${getServiceBaseUrl(service)}${path}`;
+}
+
+// The service a request URL belongs to, if any
+export const getServiceForUrl = (url = ''): ServiceName | undefined =>
+  (Object.keys(services) as ServiceName[]).find((service) => {
+    const base = getServiceBaseUrl(service);
+    return url === base || url.startsWith(`${base}/`) || url.startsWith(`${base}?`);
+  });
+
+export const getServiceTimeout = (url?: string): number => {
+  const service = getServiceForUrl(url);
+  return service ? services[service].timeoutMs : DEFAULT_TIMEOUT_MS;
+};
@@ -0,0 +1,5 @@
+// Cookie names for the auth tokens; kept apart from api.ts so the middleware can read them
+export const ACCESS_TOKEN_COOKIE = 'accessToken';
+export const REFRESH_TOKEN_COOKIE = 'refreshToken';
+// Present while the signed-in session should survive a browser restart ("Remember me")
+export const REMEMBER_ME_COOKIE = 'rememberMe';
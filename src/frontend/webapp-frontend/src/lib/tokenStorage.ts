@@ -0,0 +1,32 @@
+import Cookies from 'js-cookie';
+
+export interface TokenWriteOptions {
+  // Keep the value across browser restarts; otherwise only for the browser session
+  persistent: boolean;
+  // Lifetime of a persistent value
+  expiresInDays?: number;
+}
+
+// Where TokenManager keeps the auth tokens
+export interface TokenStorage {
+  get(name: string): string | null;
+  set(name: string, value: string, options: TokenWriteOptions): void;
+  remove(name: string): void;
+}
+
+// Default storage. Cookies let the middleware see the session before a page renders;
+// session-scoped ones simply have no expiry, so the browser drops them when it closes.
+export const cookieTokenStorage: TokenStorage = {
+  get: (name) => Cookies.get(name) ?? null,
+
+  set: (name, value, { persistent, expiresInDays }) => {
+    Cookies.set(name, value, {
+      secure: window.location.protocol === 'https:',
+      sameSite: 'strict',
+      ...(persistent && expiresInDays ? { expires: expiresInDays } : {}),
+    });
+  },
+
+  remove: (name) => Cookies.remove(name),
+};
+
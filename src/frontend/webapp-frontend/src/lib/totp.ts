@@ -0,0 +1,61 @@
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const encodeBase32 = (bytes: Uint8Array): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+// Authenticator apps expect base32 secrets; the auth service may hand out base64 ones
+export function toBase32Secret(secret: string): string {
+  const compact = secret.replace(/\s+/g, '');
+
+  if (/^[A-Z2-7]+=*$/.test(compact)) {
+    return compact.replace(/=+$/, '');
+  }
+
+  const binary = atob(compact);
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return encodeBase32(bytes);
+}
+
+interface OtpAuthUriOptions {
+  secret: string;
+  accountName: string;
+  issuer: string;
+}
+
+// Key URI understood by Google Authenticator, 1Password, Authy, etc.
+export function buildOtpAuthUri({ secret, accountName, issuer }: OtpAuthUriOptions): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret: toBase32Secret(secret),
+    issuer,
+    algorithm: 'SHA1',
+    digits: '6',
+    period: '30',
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// Groups a secret into blocks of four for manual entry
+export function formatSecretForDisplay(secret: string): string {
+  return toBase32Secret(secret).match(/.{1,4}/g)?.join(' ') ?? '';
+}
@@ -0,0 +1,223 @@
+// Client-side tracing. Every API request carries a W3C traceparent/tracestate pair and the
+// session's correlation ID, so backend logs for a request can be found from the browser. Spans
+// for navigations and API calls are batched and sent as OTLP/JSON to the collector at
+// NEXT_PUBLIC_OTEL_EXPORTER_OTLP_TRACES_ENDPOINT (e.g. http://localhost:4318/v1/traces).
+// Without an endpoint the headers are still sent but nothing is exported.
+
+export const TRACES_ENDPOINT = process.env.NEXT_PUBLIC_OTEL_EXPORTER_OTLP_TRACES_ENDPOINT;
+export const TRACING_SERVICE_NAME = 'webapp-frontend';
+
+export const CORRELATION_ID_HEADER = 'X-Correlation-ID';
+// Our entry in tracestate, carrying the correlation ID to services that only see the trace headers
+const TRACESTATE_KEY = 'webapp';
+const CORRELATION_ID_STORAGE_KEY = 'correlation-id';
+
+const EXPORT_INTERVAL_MS = 5 * 1000;
+// Oldest spans are dropped beyond this, e.g. while the collector is unreachable
+const MAX_QUEUED_SPANS = 500;
+
+export type SpanKind = 'internal' | 'client';
+export type SpanStatus = 'unset' | 'ok' | 'error';
+export type SpanAttributes = Record<string, string | number | boolean | undefined>;
+
+export interface SpanData {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  startTime: number;
+  endTime: number;
+  attributes: SpanAttributes;
+  status: SpanStatus;
+  statusMessage?: string;
+}
+
+export interface Span {
+  readonly traceId: string;
+  readonly spanId: string;
+  setAttributes(attributes: SpanAttributes): void;
+  end(status?: SpanStatus, statusMessage?: string): void;
+}
+
+interface StartSpanOptions {
+  kind?: SpanKind;
+  attributes?: SpanAttributes;
+  // Epoch ms; defaults to now
+  startTime?: number;
+}
+
+const randomHex = (bytes: number) =>
+  Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+let correlationId: string | null = null;
+
+// One ID per browser tab session, kept across reloads
+export const getCorrelationId = (): string => {
+  if (correlationId) return correlationId;
+
+  try {
+    correlationId = sessionStorage.getItem(CORRELATION_ID_STORAGE_KEY);
+  } catch {
+    // Storage can be unavailable (privacy modes); the ID then lasts until the page is reloaded
+  }
+  if (!correlationId) {
+    correlationId = randomHex(16);
+    try {
+      sessionStorage.setItem(CORRELATION_ID_STORAGE_KEY, correlationId);
+    } catch {
+      // As above
+    }
+  }
+  return correlationId;
+};
+
+const queuedSpans: SpanData[] = [];
+let exportTimer: ReturnType<typeof setTimeout> | null = null;
+
+const recordSpan = (span: SpanData) => {
+  queuedSpans.push(span);
+  if (queuedSpans.length > MAX_QUEUED_SPANS) queuedSpans.splice(0, queuedSpans.length - MAX_QUEUED_SPANS);
+
+  if (TRACES_ENDPOINT && !exportTimer) {
+    exportTimer = setTimeout(() => {
+      exportTimer = null;
+      flushSpans();
+    }, EXPORT_INTERVAL_MS);
+  }
+};
+
+// The navigation the user is on; API calls made from the page join its trace
+let currentNavigation: Span | null = null;
+
+export const startSpan = (
+  name: string,
+  { kind = 'internal', attributes = {}, startTime = Date.now() }: StartSpanOptions = {},
+  parent: Span | null = currentNavigation
+): Span => {
+  const data: Omit<SpanData, 'endTime'> = {
+    traceId: parent?.traceId ?? randomHex(16),
+    spanId: randomHex(8),
+    parentSpanId: parent?.spanId,
+    name,
+    kind,
+    startTime,
+    attributes: { ...attributes },
+    status: 'unset',
+  };
+  let ended = false;
+
+  return {
+    traceId: data.traceId,
+    spanId: data.spanId,
+    setAttributes: (more) => Object.assign(data.attributes, more),
+    end: (status = 'unset', statusMessage) => {
+      if (ended) return;
+      ended = true;
+      recordSpan({ ...data, endTime: Date.now(), status, statusMessage });
+    },
+  };
+};
+
+// Starts the trace for a page; the span ends once the page has rendered (see useNavigationTracing)
+export const startNavigation = (path: string, startTime?: number): Span => {
+  currentNavigation = startSpan('navigation', { attributes: { 'url.path': path }, startTime }, null);
+  return currentNavigation;
+};
+
+// Headers that tie a request to its span and to this session
+export const getTraceHeaders = (span: Span): Record<string, string> => ({
+  traceparent: `00-${span.traceId}-${span.spanId}-01`,
+  tracestate: `${TRACESTATE_KEY}=${getCorrelationId()}`,
+  [CORRELATION_ID_HEADER]: getCorrelationId(),
+});
+
+type OtlpAnyValue = { stringValue: string } | { intValue: number } | { doubleValue: number } | { boolValue: boolean };
+
+const toOtlpValue = (value: string | number | boolean): OtlpAnyValue => {
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (typeof value === 'number') return Number.isInteger(value) ? { intValue: value } : { doubleValue: value };
+  return { stringValue: value };
+};
+
+const toOtlpAttributes = (attributes: SpanAttributes) =>
+  Object.entries(attributes)
+    .filter((entry): entry is [string, string | number | boolean] => entry[1] !== undefined)
+    .map(([key, value]) => ({ key, value: toOtlpValue(value) }));
+
+// Epoch ms as the nanosecond string OTLP expects (too large for a JSON number)
+const toUnixNano = (ms: number) => `${Math.round(ms)}000000`;
+
+const OTLP_SPAN_KIND: Record<SpanKind, number> = { internal: 1, client: 3 };
+const OTLP_STATUS_CODE: Record<SpanStatus, number> = { unset: 0, ok: 1, error: 2 };
+
+// ExportTraceServiceRequest in the OTLP/JSON encoding
+export const toOtlpJson = (spans: SpanData[]) => ({
+  resourceSpans: [
+    {
+      resource: {
+        attributes: toOtlpAttributes({
+          'service.name': TRACING_SERVICE_NAME,
+          'session.id': getCorrelationId(),
+        }),
+      },
+      scopeSpans: [
+        {
+          scope: { name: TRACING_SERVICE_NAME },
+          spans: spans.map((span) => ({
+            traceId: span.traceId,
+            spanId: span.spanId,
+            parentSpanId: span.parentSpanId,
+            name: span.name,
+            kind: OTLP_SPAN_KIND[span.kind],
+            startTimeUnixNano: toUnixNano(span.startTime),
+            endTimeUnixNano: toUnixNano(span.endTime),
+            attributes: toOtlpAttributes(span.attributes),
+            status: { code: OTLP_STATUS_CODE[span.status], message: span.statusMessage },
+          })),
+        },
+      ],
+    },
+  ],
+});
+
+// Sends the queued spans. Uses fetch rather than apiClient so exporting isn't itself traced;
+// with `beacon`, hands them to the browser to send as the page goes away.
+export const flushSpans = async (
+  endpoint: string | undefined = TRACES_ENDPOINT,
+  { beacon = false } = {}
+): Promise<void> => {
+  if (!endpoint || !queuedSpans.length) return;
+
+  const spans = queuedSpans.splice(0);
+  const body = JSON.stringify(toOtlpJson(spans));
+
+  if (beacon && typeof navigator !== 'undefined' && navigator.sendBeacon) {
+    navigator.sendBeacon(endpoint, new Blob([body], { type: 'application/json' }));
+    return;
+  }
+
+  try {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+      keepalive: true,
+    });
+    if (!response.ok) throw new Error(`Collector responded with ${response.status}`);
+  } catch {
+    // Keep them for the next attempt; tracing must never get in the user's way
+    const room = MAX_QUEUED_SPANS - queuedSpans.length;
+    if (room > 0) queuedSpans.unshift(...spans.slice(Math.max(0, spans.length - room)));
+  }
+};
+
+// Spans still queued when the tab is hidden may never get another chance to be sent
+export const exportSpansOnPageHide = () => {
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') flushSpans(TRACES_ENDPOINT, { beacon: true });
+  };
+
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+};
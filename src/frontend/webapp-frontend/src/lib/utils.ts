@@ -0,0 +1,100 @@
+import { clsx, type ClassValue } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+
+// Merge Tailwind class names, letting later classes override conflicting earlier ones
+export function cn(...inputs: ClassValue[]) {
+  return twMerge(clsx(inputs));
+}
+
+// Usernames may only contain letters, numbers and underscores
+export function validateUsername(username: string): boolean {
+  return /^[a-zA-Z0-9_]+$/.test(username);
+}
+
+const USERNAME_MIN_LENGTH = 3;
+const USERNAME_MAX_LENGTH = 20;
+
+// Alternative usernames derived from a display name, e.g. "Jane Doe" -> janedoe, jane_doe, jdoe, ...
+export function buildUsernameCandidates(displayName: string, takenUsername: string): string[] {
+  const words = displayName
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+  const taken = takenUsername.toLowerCase();
+
+  const stems = words.length
+    ? [
+        words.join(''),
+        words.join('_'),
+        words.length > 1 ? `${words[0][0]}${words[words.length - 1]}` : '',
+        words.length > 1 ? `${words[0]}_${words[words.length - 1][0]}` : '',
+      ]
+    : [];
+  const base = stems[0] || taken;
+
+  return Array.from(
+    new Set(
+      [...stems, `${base}1`, `${base}_1`, `${base}123`, `the_${base}`]
+        .map((candidate) => candidate.slice(0, USERNAME_MAX_LENGTH))
+        .filter(
+          (candidate) =>
+            candidate.length >= USERNAME_MIN_LENGTH && candidate !== taken && validateUsername(candidate)
+        )
+    )
+  );
+}
+
+const RELATIVE_TIME_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 365 * 24 * 60 * 60],
+  ['month', 30 * 24 * 60 * 60],
+  ['week', 7 * 24 * 60 * 60],
+  ['day', 24 * 60 * 60],
+  ['hour', 60 * 60],
+  ['minute', 60],
+];
+
+// "5 minutes ago", "yesterday", "just now"
+export function formatRelativeTime(date: string | Date, now: Date = new Date()): string {
+  const seconds = Math.round((new Date(date).getTime() - now.getTime()) / 1000);
+
+  if (Math.abs(seconds) < 60) {
+    return 'just now';
+  }
+
+  const formatter = new Intl.RelativeTimeFormat('en', { numeric: 'auto' });
+  const [unit, unitSeconds] =
+    RELATIVE_TIME_UNITS.find(([, size]) => Math.abs(seconds) >= size) ?? RELATIVE_TIME_UNITS[5];
+
+  return formatter.format(Math.round(seconds / unitSeconds), unit);
+}
+
+// Countdown display, e.g. "29:05" or "0:42"
+export function formatCountdown(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.ceil(totalSeconds));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+// Short human description of a browser user agent, e.g. "Chrome on macOS"
+export function describeUserAgent(userAgent?: string | null): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    (/Edg\//.test(userAgent) && 'Edge') ||
+    (/OPR\//.test(userAgent) && 'Opera') ||
+    (/Firefox\//.test(userAgent) && 'Firefox') ||
+    (/Chrome\//.test(userAgent) && 'Chrome') ||
+    (/Safari\//.test(userAgent) && 'Safari') ||
+    'Unknown browser';
+
+  const os =
+    (/Windows/.test(userAgent) && 'Windows') ||
+    (/iPhone|iPad|iPod/.test(userAgent) && 'iOS') ||
+    (/Mac OS X/.test(userAgent) && 'macOS') ||
+    (/Android/.test(userAgent) && 'Android') ||
+    (/Linux/.test(userAgent) && 'Linux') ||
+    'Unknown OS';
+
+  return `${browser} on ${os}`;
+}
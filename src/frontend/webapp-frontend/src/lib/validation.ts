@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { FieldValues, Path, UseFormSetError } from 'react-hook-form';
+import { toApiError } from '@/lib/api';
+import { validateUsername } from '@/lib/utils';
+import { MIN_PASSWORD_SCORE, PasswordScore, estimatePasswordStrength } from '@/lib/passwordStrength';
+
+// Password rules shared by registration and password reset
+export const passwordSchema = z
+  .string()
+  .min(8, 'Password must be at least 8 characters')
+  .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
+  .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
+  .regex(/\d/, 'Password must contain at least one number')
+  .regex(/[!@#$%^&*(),.?":{}|<>]/, 'Password must contain at least one special character');
+
+// Also used on their own to decide when a value is worth an availability check
+export const usernameSchema = z
+  .string()
+  .min(3, 'Username must be at least 3 characters')
+  .max(20, 'Username must be no more than 20 characters')
+  .refine(validateUsername, 'Username can only contain letters, numbers, and underscores');
+
+export const emailSchema = z.string().email('Please enter a valid email address');
+
+// Object-level check that the password isn't too easy to guess. Runs after the rules above,
+// and counts the user's own details (username, email, name) as guessable.
+export const passwordStrengthRefinement =
+  <T extends { password: string }>(
+    getUserInputs: (data: T) => (string | undefined)[] = () => [],
+    minScore: PasswordScore = MIN_PASSWORD_SCORE
+  ) =>
+  (data: T, ctx: z.RefinementCtx) => {
+    const userInputs = getUserInputs(data).filter((input): input is string => !!input);
+    if (estimatePasswordStrength(data.password, userInputs).score < minScore) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['password'],
+        message: 'Password is too easy to guess. Try a longer or less predictable one.',
+      });
+    }
+  };
+
+// Puts the server's validation messages on the matching form fields. `renamed` maps request
+// fields the form calls something else (e.g. newPassword -> password). Returns whether any field
+// got an error, so the caller can fall back to a form-level message.
+export const setServerFieldErrors = <T extends FieldValues>(
+  error: unknown,
+  setError: UseFormSetError<T>,
+  fields: readonly Path<T>[],
+  renamed: Partial<Record<string, Path<T>>> = {}
+): boolean => {
+  const { details } = toApiError(error);
+  let applied = false;
+
+  for (const [name, messages] of Object.entries(details ?? {})) {
+    const field = renamed[name] ?? fields.find((candidate) => candidate === name);
+    if (field) {
+      setError(field, { type: 'server', message: messages.join(' ') });
+      applied = true;
+    }
+  }
+  return applied;
+};
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  RETURN_TO_PARAM,
+  buildLoginUrl,
+  getRouteAccess,
+  getSafeReturnTo,
+  legacyEmailRoutes,
+} from '@/lib/routes';
+import { ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE } from '@/lib/tokenCookies';
+
+// Redirects before a page renders, based on whether the request carries auth cookies.
+// Token validity is still checked by the API; an expired access token is refreshed client-side.
+// SameSite=strict cookies are not sent when arriving from another site (e.g. an email link),
+// so such visits land on the login page and AuthGuard forwards them once the cookies are visible.
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  // Keeps the token and email in the query, which the target page needs
+  const legacyTarget = legacyEmailRoutes[pathname];
+  if (legacyTarget) {
+    return NextResponse.redirect(new URL(`${legacyTarget}${search}`, request.url));
+  }
+
+  const access = getRouteAccess(pathname);
+  const hasSession =
+    request.cookies.has(ACCESS_TOKEN_COOKIE) || request.cookies.has(REFRESH_TOKEN_COOKIE);
+
+  if (access === 'protected' && !hasSession) {
+    return NextResponse.redirect(new URL(buildLoginUrl(`${pathname}${search}`), request.url));
+  }
+
+  if (access === 'guest' && hasSession) {
+    const returnTo = getSafeReturnTo(request.nextUrl.searchParams.get(RETURN_TO_PARAM));
+    return NextResponse.redirect(new URL(returnTo, request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  // Skip Next.js internals, the API proxy and static files
+  matcher: ['/((?!api|_next/static|_next/image|favicon.ico|.*\\..*).*)'],
+};
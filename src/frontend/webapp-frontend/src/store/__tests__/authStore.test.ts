@@ -1,6 +1,22 @@
 import { renderHook, act } from '@testing-library/react'
-import { useAuthStore } from '../authStore'
-import { TokenManager, apiHelpers } from '@/lib/api'
+import {
+  ACCOUNT_LOCKED_MESSAGE,
+  EMAIL_CONFIRMATION_REQUIRED,
+  IDLE_SIGN_OUT_NOTICE,
+  PASSWORD_CHANGED_NOTICE,
+  createAuthStateStorage,
+  useAuthStore,
+} from '../authStore'
+import { TokenManager, apiHelpers, onSessionExpired } from '@/lib/api'
+import { AuthSyncMessage, broadcastAuthEvent, subscribeToAuthEvents } from '@/lib/authSync'
+import {
+  authResponseSchema,
+  enableTwoFactorResponseSchema,
+  loginResponseSchema,
+  twoFactorRecoveryCodesResponseSchema,
+  userSchema,
+  userSessionListSchema,
+} from '@/lib/schemas'
 import { server } from '../../__mocks__/server'
 import { http, HttpResponse } from 'msw'
 
@@ -10,10 +26,14 @@ jest.mock('@/lib/api', () => ({
     setTokens: jest.fn(),
     removeTokens: jest.fn(),
     getAccessToken: jest.fn(),
+    getRefreshToken: jest.fn(),
+    getSessionId: jest.fn(),
+    isPersistent: jest.fn(),
   },
   apiHelpers: {
     post: jest.fn(),
     get: jest.fn(),
+    delete: jest.fn(),
   },
   endpoints: {
     auth: {
@@ -21,13 +41,43 @@ jest.mock('@/lib/api', () => ({
       register: '/auth/register',
       logout: '/auth/logout',
       profile: '/auth/profile',
+      logoutAll: '/auth/logout-all',
+      changePassword: '/auth/change-password',
+      sessions: '/auth/sessions',
+      session: (sessionId: string) => `/auth/sessions/${sessionId}`,
+      confirmEmail: '/auth/confirm-email',
+      resendConfirmation: '/auth/resend-confirmation',
+      twoFactor: {
+        login: '/auth/2fa/login',
+        enable: '/auth/2fa/enable',
+        verify: '/auth/2fa/verify',
+        disable: '/auth/2fa/disable',
+      },
     },
   },
+  getErrorMessage: (error: { response?: { data?: { message?: string } } }, fallback: string) =>
+    error?.response?.data?.message || fallback,
+  getAuthErrorResponse: (error: { response?: { data?: { error?: string } } }) =>
+    typeof error?.response?.data?.error === 'string' ? error.response.data : undefined,
+  onSessionExpired: jest.fn(),
+  toApiError: jest.requireActual('@/lib/api').toApiError,
+}))
+
+jest.mock('@/lib/authSync', () => ({
+  broadcastAuthEvent: jest.fn(),
+  subscribeToAuthEvents: jest.fn(),
 }))
 
 const mockTokenManager = TokenManager as jest.Mocked<typeof TokenManager>
+const mockBroadcastAuthEvent = broadcastAuthEvent as jest.Mock
 const mockApiHelpers = apiHelpers as jest.Mocked<typeof apiHelpers>
 
+// Captured before any test clears the mock's calls
+const sessionExpiredHandler = (onSessionExpired as jest.Mock).mock.calls[0][0] as () => void
+const authSyncHandler = (subscribeToAuthEvents as jest.Mock).mock.calls[0][0] as (
+  message: AuthSyncMessage
+) => void
+
 // Mock console.warn to avoid noise in tests
 const mockConsoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => {})
 
@@ -36,11 +86,8 @@ const mockUser = {
   id: 'user-1',
   username: 'testuser',
   email: 'test@example.com',
-  firstName: 'Test',
-  lastName: 'User',
   displayName: 'Test User',
   bio: 'Test user bio',
-  avatarUrl: null,
   isVerified: false,
   createdAt: '2024-01-01T00:00:00Z',
   updatedAt: '2024-01-01T00:00:00Z',
@@ -102,10 +149,15 @@ describe('AuthStore', () => {
       expect(result.current.isLoading).toBe(false)
       expect(result.current.error).toBeUndefined()
       
-      expect(mockApiHelpers.post).toHaveBeenCalledWith('/auth/login', credentials)
+      expect(mockApiHelpers.post).toHaveBeenCalledWith(
+        '/auth/login',
+        { ...credentials, rememberMe: false },
+        { schema: loginResponseSchema }
+      )
       expect(mockTokenManager.setTokens).toHaveBeenCalledWith(
         mockTokens.accessToken,
-        mockTokens.refreshToken
+        mockTokens.refreshToken,
+        { persistent: false }
       )
     })
 
@@ -128,68 +180,588 @@ describe('AuthStore', () => {
       }
 
       await act(async () => {
-        try {
-          await result.current.login(credentials)
-        } catch (error) {
-          // Expected to throw
-        }
+        try {
+          await result.current.login(credentials)
+        } catch (error) {
+          // Expected to throw
+        }
+      })
+
+      expect(result.current.user).toBeNull()
+      expect(result.current.isAuthenticated).toBe(false)
+      expect(result.current.isLoading).toBe(false)
+      expect(result.current.error).toBe('Invalid credentials')
+    })
+
+    it('should handle login failure with default error message', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      
+      mockApiHelpers.post.mockRejectedValue(new Error('Network error'))
+
+      const credentials = {
+        email: 'test@example.com',
+        password: 'password',
+      }
+
+      await act(async () => {
+        try {
+          await result.current.login(credentials)
+        } catch (error) {
+          // Expected to throw
+        }
+      })
+
+      expect(result.current.error).toBe('Login failed')
+    })
+
+    it('should keep the attempts remaining after a wrong password', async () => {
+      const { result } = renderHook(() => useAuthStore())
+
+      mockApiHelpers.post.mockRejectedValue({
+        response: {
+          status: 401,
+          data: {
+            error: 'invalid_grant',
+            errorDescription: 'Invalid email/username or password',
+            attemptsRemaining: 2,
+          },
+        },
+      })
+
+      await act(async () => {
+        await expect(
+          result.current.login({ emailOrUsername: 'test@example.com', password: 'wrong' })
+        ).rejects.toBeDefined()
+      })
+
+      expect(result.current.loginAttemptsRemaining).toBe(2)
+      expect(result.current.loginLockedUntil).toBeUndefined()
+    })
+
+    it('should record when a lockout ends', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1_000_000)
+
+      mockApiHelpers.post.mockRejectedValue({
+        response: {
+          status: 401,
+          data: {
+            error: 'account_locked',
+            errorDescription: 'Account is temporarily locked due to multiple failed attempts',
+            attemptsRemaining: 0,
+            retryAfterSeconds: 1800,
+          },
+        },
+      })
+
+      await act(async () => {
+        await expect(
+          result.current.login({ emailOrUsername: 'test@example.com', password: 'wrong' })
+        ).rejects.toBeDefined()
+      })
+
+      expect(result.current.error).toBe(ACCOUNT_LOCKED_MESSAGE)
+      expect(result.current.loginLockedUntil).toBe(1_000_000 + 1800 * 1000)
+      expect(result.current.loginAttemptsRemaining).toBeUndefined()
+
+      nowSpy.mockRestore()
+    })
+
+    it('should clear the lockout after signing in', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      act(() => {
+        useAuthStore.setState({ loginLockedUntil: Date.now() - 1000, loginAttemptsRemaining: 1 })
+      })
+
+      mockApiHelpers.post.mockResolvedValue({ user: mockUser, ...mockTokens })
+
+      await act(async () => {
+        await result.current.login({ emailOrUsername: 'test@example.com', password: 'password' })
+      })
+
+      expect(result.current.loginLockedUntil).toBeUndefined()
+      expect(result.current.loginAttemptsRemaining).toBeUndefined()
+    })
+
+    it('should set loading state during login', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      
+      let resolveLogin: (value: any) => void
+      const loginPromise = new Promise((resolve) => {
+        resolveLogin = resolve
+      })
+      
+      mockApiHelpers.post.mockReturnValue(loginPromise)
+
+      act(() => {
+        result.current.login({
+          email: 'test@example.com',
+          password: 'password',
+        })
+      })
+
+      expect(result.current.isLoading).toBe(true)
+
+      await act(async () => {
+        resolveLogin!({
+          user: mockUser,
+          ...mockTokens,
+        })
+        await loginPromise
+      })
+
+      expect(result.current.isLoading).toBe(false)
+    })
+
+    it('should keep the session across restarts when asked to remember the device', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      mockApiHelpers.post.mockResolvedValue({ user: mockUser, ...mockTokens })
+
+      await act(async () => {
+        await result.current.login({
+          emailOrUsername: 'test@example.com',
+          password: 'password',
+          rememberMe: true,
+        })
+      })
+
+      expect(mockTokenManager.setTokens).toHaveBeenCalledWith(
+        mockTokens.accessToken,
+        mockTokens.refreshToken,
+        { persistent: true }
+      )
+    })
+  })
+
+  describe('two-factor login', () => {
+    const credentials = {
+      emailOrUsername: 'test@example.com',
+      password: 'password',
+      rememberMe: true,
+    }
+
+    const startChallenge = async (result: { current: ReturnType<typeof useAuthStore.getState> }) => {
+      mockApiHelpers.post.mockResolvedValueOnce({
+        requiresTwoFactor: true,
+        twoFactorToken: 'challenge-token',
+      })
+
+      await act(async () => {
+        await result.current.login(credentials)
+      })
+    }
+
+    it('should hold a challenge instead of signing in when 2FA is required', async () => {
+      const { result } = renderHook(() => useAuthStore())
+
+      await startChallenge(result)
+
+      expect(result.current.isAuthenticated).toBe(false)
+      expect(result.current.isLoading).toBe(false)
+      expect(result.current.twoFactorChallenge).toEqual({
+        twoFactorToken: 'challenge-token',
+        rememberMe: true,
+      })
+      expect(mockTokenManager.setTokens).not.toHaveBeenCalled()
+    })
+
+    it('should sign in after a valid authenticator code', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      await startChallenge(result)
+
+      mockApiHelpers.post.mockResolvedValueOnce({ user: mockUser, ...mockTokens })
+
+      await act(async () => {
+        await result.current.verifyTwoFactor({ code: '123456' })
+      })
+
+      expect(mockApiHelpers.post).toHaveBeenLastCalledWith(
+        '/auth/2fa/login',
+        {
+          twoFactorToken: 'challenge-token',
+          rememberMe: true,
+          code: '123456',
+          recoveryCode: undefined,
+        },
+        { schema: authResponseSchema }
+      )
+      expect(mockTokenManager.setTokens).toHaveBeenCalledWith(
+        mockTokens.accessToken,
+        mockTokens.refreshToken,
+        { persistent: true }
+      )
+      expect(result.current.isAuthenticated).toBe(true)
+      expect(result.current.user).toEqual(mockUser)
+      expect(result.current.twoFactorChallenge).toBeNull()
+    })
+
+    it('should accept a recovery code', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      await startChallenge(result)
+
+      mockApiHelpers.post.mockResolvedValueOnce({ user: mockUser, ...mockTokens })
+
+      await act(async () => {
+        await result.current.verifyTwoFactor({ recoveryCode: 'abcd-efgh' })
+      })
+
+      expect(mockApiHelpers.post).toHaveBeenLastCalledWith(
+        '/auth/2fa/login',
+        expect.objectContaining({ recoveryCode: 'abcd-efgh', code: undefined }),
+        { schema: authResponseSchema }
+      )
+      expect(result.current.isAuthenticated).toBe(true)
+    })
+
+    it('should keep the challenge and report an invalid code', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      await startChallenge(result)
+
+      mockApiHelpers.post.mockRejectedValueOnce({ response: { data: { message: 'Invalid 2FA code' } } })
+
+      await act(async () => {
+        await expect(result.current.verifyTwoFactor({ code: '000000' })).rejects.toBeDefined()
+      })
+
+      expect(result.current.error).toBe('Invalid 2FA code')
+      expect(result.current.isAuthenticated).toBe(false)
+      expect(result.current.twoFactorChallenge).not.toBeNull()
+    })
+
+    it('should report the attempts left after a wrong code', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      await startChallenge(result)
+
+      mockApiHelpers.post.mockRejectedValueOnce({
+        response: { data: { error: 'invalid_code', message: 'Invalid 2FA code', attemptsRemaining: 2 } },
+      })
+
+      await act(async () => {
+        await expect(result.current.verifyTwoFactor({ code: '000000' })).rejects.toBeDefined()
+      })
+
+      expect(result.current.loginAttemptsRemaining).toBe(2)
+      expect(result.current.loginLockedUntil).toBeUndefined()
+    })
+
+    it('should record when a lockout during the challenge ends', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      await startChallenge(result)
+
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1_000_000)
+      mockApiHelpers.post.mockRejectedValueOnce({
+        response: { data: { error: 'account_locked', attemptsRemaining: 0, retryAfterSeconds: 300 } },
+      })
+
+      await act(async () => {
+        await expect(result.current.verifyTwoFactor({ code: '000000' })).rejects.toBeDefined()
+      })
+
+      expect(result.current.error).toBe(ACCOUNT_LOCKED_MESSAGE)
+      expect(result.current.loginLockedUntil).toBe(1_000_000 + 300 * 1000)
+      expect(result.current.twoFactorChallenge).not.toBeNull()
+
+      nowSpy.mockRestore()
+    })
+
+    it('should do nothing without a pending challenge', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      mockApiHelpers.post.mockClear()
+
+      await act(async () => {
+        await result.current.verifyTwoFactor({ code: '123456' })
+      })
+
+      expect(mockApiHelpers.post).not.toHaveBeenCalled()
+    })
+
+    it('should drop the challenge when cancelled', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      await startChallenge(result)
+
+      act(() => {
+        result.current.cancelTwoFactor()
+      })
+
+      expect(result.current.twoFactorChallenge).toBeNull()
+    })
+  })
+
+  describe('cross-tab sync', () => {
+    it('should broadcast sign-in to other tabs', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      mockApiHelpers.post.mockResolvedValue({ user: mockUser, ...mockTokens })
+
+      await act(async () => {
+        await result.current.login({ emailOrUsername: 'test@example.com', password: 'password' })
+      })
+
+      expect(mockBroadcastAuthEvent).toHaveBeenCalledWith({ type: 'login', user: mockUser })
+    })
+
+    it('should broadcast sign-out to other tabs', () => {
+      const { result } = renderHook(() => useAuthStore())
+      act(() => {
+        useAuthStore.setState({ user: mockUser, isAuthenticated: true })
+      })
+      mockBroadcastAuthEvent.mockClear()
+
+      act(() => {
+        result.current.logout()
+      })
+
+      expect(mockBroadcastAuthEvent).toHaveBeenCalledWith({ type: 'logout', notice: undefined })
+    })
+
+    it('should broadcast profile updates to other tabs', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      act(() => {
+        useAuthStore.setState({ user: mockUser, isAuthenticated: true })
+      })
+      const updatedUser = { ...mockUser, displayName: 'Renamed User' }
+      mockApiHelpers.get.mockResolvedValue(updatedUser)
+
+      await act(async () => {
+        await result.current.refreshUser()
+      })
+
+      expect(mockBroadcastAuthEvent).toHaveBeenCalledWith({ type: 'user-updated', user: updatedUser })
+    })
+
+    it('should apply a sign-in from another tab without echoing it', () => {
+      const { result } = renderHook(() => useAuthStore())
+      mockBroadcastAuthEvent.mockClear()
+
+      act(() => {
+        authSyncHandler({ type: 'login', user: mockUser })
+      })
+
+      expect(result.current.isAuthenticated).toBe(true)
+      expect(result.current.user).toEqual(mockUser)
+      expect(mockBroadcastAuthEvent).not.toHaveBeenCalled()
+    })
+
+    it('should apply a sign-out from another tab with its notice', () => {
+      const { result } = renderHook(() => useAuthStore())
+      act(() => {
+        useAuthStore.setState({ user: mockUser, isAuthenticated: true })
+      })
+      mockBroadcastAuthEvent.mockClear()
+
+      act(() => {
+        authSyncHandler({ type: 'logout', notice: 'Your session has expired. Please sign in again.' })
+      })
+
+      expect(result.current.isAuthenticated).toBe(false)
+      expect(result.current.user).toBeNull()
+      expect(result.current.sessionNotice).toBe('Your session has expired. Please sign in again.')
+      expect(mockBroadcastAuthEvent).not.toHaveBeenCalled()
+    })
+
+    it('should pick the session back up after another tab refreshes the tokens', async () => {
+      mockTokenManager.getAccessToken.mockReturnValue('mock-access-token')
+      mockApiHelpers.get.mockResolvedValue(mockUser)
+      const { result } = renderHook(() => useAuthStore())
+
+      await act(async () => {
+        authSyncHandler({ type: 'token-refreshed' })
+      })
+
+      expect(mockApiHelpers.get).toHaveBeenCalledWith('/auth/profile', { schema: userSchema })
+      expect(result.current.isAuthenticated).toBe(true)
+    })
+  })
+
+  describe('email confirmation', () => {
+    const unconfirmedUser = { ...mockUser, isEmailConfirmed: false }
+
+    beforeEach(() => {
+      act(() => {
+        useAuthStore.setState({
+          user: unconfirmedUser,
+          isAuthenticated: true,
+          confirmationEmailSentAt: undefined,
+        })
+      })
+      // Ignore the logout call from the outer beforeEach
+      mockApiHelpers.post.mockClear()
+    })
+
+    it('should mark a new account as unconfirmed after registration', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      mockApiHelpers.post.mockResolvedValue({ user: mockUser, ...mockTokens })
+
+      await act(async () => {
+        await result.current.register({
+          email: 'test@example.com',
+          username: 'testuser',
+          displayName: 'Test User',
+          password: 'Password1!',
+          confirmPassword: 'Password1!',
+        })
+      })
+
+      expect(result.current.user?.isEmailConfirmed).toBe(false)
+      expect(result.current.confirmationEmailSentAt).toEqual(expect.any(Number))
+    })
+
+    it('should confirm the email of the signed-in user', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      mockApiHelpers.post.mockResolvedValue(undefined)
+
+      await act(async () => {
+        await result.current.confirmEmail({ userId: 'user-1', token: 'confirm-token' })
+      })
+
+      expect(mockApiHelpers.post).toHaveBeenCalledWith('/auth/confirm-email', undefined, {
+        params: { userId: 'user-1', token: 'confirm-token' },
+      })
+      expect(result.current.user?.isEmailConfirmed).toBe(true)
+    })
+
+    it('should leave the signed-in user alone when confirming another account', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      mockApiHelpers.post.mockResolvedValue(undefined)
+
+      await act(async () => {
+        await result.current.confirmEmail({ userId: 'user-2', token: 'confirm-token' })
+      })
+
+      expect(result.current.user?.isEmailConfirmed).toBe(false)
+    })
+
+    it('should resend the confirmation email at most once per cooldown', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      mockApiHelpers.post.mockResolvedValue(undefined)
+
+      await act(async () => {
+        await result.current.resendConfirmationEmail()
+        await result.current.resendConfirmationEmail()
+      })
+
+      expect(mockApiHelpers.post).toHaveBeenCalledTimes(1)
+      expect(mockApiHelpers.post).toHaveBeenCalledWith(
+        '/auth/resend-confirmation',
+        { email: 'test@example.com' },
+        undefined
+      )
+    })
+
+    it('should allow resending once the cooldown has passed', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      mockApiHelpers.post.mockResolvedValue(undefined)
+      act(() => {
+        useAuthStore.setState({ confirmationEmailSentAt: Date.now() - 61 * 1000 })
+      })
+
+      await act(async () => {
+        await result.current.resendConfirmationEmail()
+      })
+
+      expect(mockApiHelpers.post).toHaveBeenCalledTimes(1)
+    })
+
+    it('should block gated actions until the email is confirmed', () => {
+      const { result } = renderHook(() => useAuthStore())
+
+      let allowed = true
+      act(() => {
+        allowed = result.current.requireConfirmedEmail()
+      })
+
+      expect(allowed).toBe(false)
+      expect(result.current.error).toBe(EMAIL_CONFIRMATION_REQUIRED)
+    })
+
+    it('should allow gated actions for confirmed and legacy accounts', () => {
+      const { result } = renderHook(() => useAuthStore())
+
+      act(() => {
+        useAuthStore.setState({ user: { ...mockUser, isEmailConfirmed: true } })
+      })
+      expect(result.current.requireConfirmedEmail()).toBe(true)
+
+      act(() => {
+        useAuthStore.setState({ user: mockUser })
+      })
+      expect(result.current.requireConfirmedEmail()).toBe(true)
+      expect(result.current.error).toBeUndefined()
+    })
+  })
+
+  describe('two-factor enrollment', () => {
+    beforeEach(() => {
+      act(() => {
+        useAuthStore.setState({ user: mockUser, isAuthenticated: true })
+      })
+    })
+
+    it('should return the secret when enabling', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      mockApiHelpers.post.mockResolvedValueOnce({ secret: 'JBSWY3DPEHPK3PXP' })
+
+      let secret: string | undefined
+      await act(async () => {
+        secret = await result.current.enableTwoFactor()
+      })
+
+      expect(secret).toBe('JBSWY3DPEHPK3PXP')
+      expect(mockApiHelpers.post).toHaveBeenLastCalledWith('/auth/2fa/enable', undefined, {
+        schema: enableTwoFactorResponseSchema,
+      })
+    })
+
+    it('should mark the user as enrolled once the first code is confirmed', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      mockApiHelpers.post.mockResolvedValueOnce({ recoveryCodes: ['a1b2c-3d4e5', 'f6a7b-8c9d0'] })
+
+      let recoveryCodes: string[] | undefined
+      await act(async () => {
+        recoveryCodes = await result.current.confirmTwoFactor('123456')
       })
 
-      expect(result.current.user).toBeNull()
-      expect(result.current.isAuthenticated).toBe(false)
-      expect(result.current.isLoading).toBe(false)
-      expect(result.current.error).toBe('Invalid credentials')
+      expect(mockApiHelpers.post).toHaveBeenLastCalledWith(
+        '/auth/2fa/verify',
+        { code: '123456' },
+        { schema: twoFactorRecoveryCodesResponseSchema }
+      )
+      expect(recoveryCodes).toEqual(['a1b2c-3d4e5', 'f6a7b-8c9d0'])
+      expect(result.current.user?.isTwoFactorEnabled).toBe(true)
     })
 
-    it('should handle login failure with default error message', async () => {
+    it('should not mark the user as enrolled when the code is rejected', async () => {
       const { result } = renderHook(() => useAuthStore())
-      
-      mockApiHelpers.post.mockRejectedValue(new Error('Network error'))
-
-      const credentials = {
-        email: 'test@example.com',
-        password: 'password',
-      }
+      mockApiHelpers.post.mockRejectedValueOnce({ response: { status: 401 } })
 
       await act(async () => {
-        try {
-          await result.current.login(credentials)
-        } catch (error) {
-          // Expected to throw
-        }
+        await expect(result.current.confirmTwoFactor('000000')).rejects.toBeDefined()
       })
 
-      expect(result.current.error).toBe('Login failed')
+      expect(result.current.user?.isTwoFactorEnabled).toBeUndefined()
     })
 
-    it('should set loading state during login', async () => {
+    it('should disable 2FA with a code', async () => {
       const { result } = renderHook(() => useAuthStore())
-      
-      let resolveLogin: (value: any) => void
-      const loginPromise = new Promise((resolve) => {
-        resolveLogin = resolve
-      })
-      
-      mockApiHelpers.post.mockReturnValue(loginPromise)
+      mockApiHelpers.post.mockResolvedValueOnce(null)
 
-      act(() => {
-        result.current.login({
-          email: 'test@example.com',
-          password: 'password',
-        })
+      await act(async () => {
+        await result.current.disableTwoFactor('123456')
       })
 
-      expect(result.current.isLoading).toBe(true)
+      expect(mockApiHelpers.post).toHaveBeenLastCalledWith('/auth/2fa/disable', { code: '123456' }, undefined)
+      expect(result.current.user?.isTwoFactorEnabled).toBe(false)
+    })
+
+    it('should cancel an unconfirmed setup without a code', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      mockApiHelpers.post.mockResolvedValueOnce(null)
 
       await act(async () => {
-        resolveLogin!({
-          user: mockUser,
-          ...mockTokens,
-        })
-        await loginPromise
+        await result.current.disableTwoFactor()
       })
 
-      expect(result.current.isLoading).toBe(false)
+      expect(mockApiHelpers.post).toHaveBeenLastCalledWith('/auth/2fa/disable', { code: '' }, undefined)
+      expect(result.current.user?.isTwoFactorEnabled).toBe(false)
     })
   })
 
@@ -214,15 +786,18 @@ describe('AuthStore', () => {
         await result.current.register(registrationData)
       })
 
-      expect(result.current.user).toEqual(mockUser)
+      expect(result.current.user).toEqual({ ...mockUser, isEmailConfirmed: false })
       expect(result.current.isAuthenticated).toBe(true)
       expect(result.current.isLoading).toBe(false)
       expect(result.current.error).toBeUndefined()
       
-      expect(mockApiHelpers.post).toHaveBeenCalledWith('/auth/register', registrationData)
+      expect(mockApiHelpers.post).toHaveBeenCalledWith('/auth/register', registrationData, {
+        schema: authResponseSchema,
+      })
       expect(mockTokenManager.setTokens).toHaveBeenCalledWith(
         mockTokens.accessToken,
-        mockTokens.refreshToken
+        mockTokens.refreshToken,
+        { persistent: false }
       )
     })
 
@@ -290,15 +865,21 @@ describe('AuthStore', () => {
     it('should logout successfully', async () => {
       const { result } = renderHook(() => useAuthStore())
       
+      mockApiHelpers.post.mockResolvedValue({
+        user: mockUser,
+        ...mockTokens,
+      })
+
       // Set authenticated state first
-      act(() => {
-        result.current.login({
+      await act(async () => {
+        await result.current.login({
           email: 'test@example.com',
           password: 'password',
         })
       })
 
       mockApiHelpers.post.mockResolvedValue(null)
+      mockTokenManager.getRefreshToken.mockReturnValueOnce('refresh-token')
 
       act(() => {
         result.current.logout()
@@ -309,11 +890,11 @@ describe('AuthStore', () => {
       expect(result.current.isLoading).toBe(false)
       expect(result.current.error).toBeUndefined()
       
-      expect(mockApiHelpers.post).toHaveBeenCalledWith('/auth/logout')
+      expect(mockApiHelpers.post).toHaveBeenCalledWith('/auth/logout', { refreshToken: 'refresh-token' }, undefined)
       expect(mockTokenManager.removeTokens).toHaveBeenCalled()
     })
 
-    it('should continue logout even if API call fails', () => {
+    it('should continue logout even if API call fails', async () => {
       const { result } = renderHook(() => useAuthStore())
       
       // Set authenticated state first
@@ -325,8 +906,10 @@ describe('AuthStore', () => {
       })
 
       mockApiHelpers.post.mockRejectedValue(new Error('Network error'))
+      mockTokenManager.getRefreshToken.mockReturnValueOnce('refresh-token')
 
-      act(() => {
+      // The logout request is not awaited, so let its rejection settle
+      await act(async () => {
         result.current.logout()
       })
 
@@ -359,7 +942,7 @@ describe('AuthStore', () => {
       expect(result.current.isLoading).toBe(false)
       expect(result.current.error).toBeUndefined()
       
-      expect(mockApiHelpers.get).toHaveBeenCalledWith('/auth/profile')
+      expect(mockApiHelpers.get).toHaveBeenCalledWith('/auth/profile', { schema: userSchema })
     })
 
     it('should not refresh user data when not authenticated', async () => {
@@ -427,6 +1010,272 @@ describe('AuthStore', () => {
     })
   })
 
+  describe('sessions', () => {
+    beforeEach(() => {
+      act(() => {
+        useAuthStore.setState({ user: mockUser, isAuthenticated: true })
+      })
+      mockTokenManager.getSessionId.mockReturnValue('session-1')
+    })
+
+    it('should stay signed in while the current session is active', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      mockApiHelpers.get.mockResolvedValue([
+        { sessionId: 'session-1', isActive: true },
+        { sessionId: 'session-2', isActive: true },
+      ])
+
+      await act(async () => {
+        await result.current.verifySession()
+      })
+
+      expect(mockApiHelpers.get).toHaveBeenCalledWith('/auth/sessions', { schema: userSessionListSchema })
+      expect(result.current.isAuthenticated).toBe(true)
+    })
+
+    it('should sign out when the current session was revoked elsewhere', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      mockApiHelpers.get.mockResolvedValue([{ sessionId: 'session-2', isActive: true }])
+
+      await act(async () => {
+        await result.current.verifySession()
+      })
+
+      expect(result.current.isAuthenticated).toBe(false)
+      expect(result.current.user).toBeNull()
+      expect(result.current.sessionNotice).toMatch(/another device/)
+      expect(mockTokenManager.removeTokens).toHaveBeenCalled()
+    })
+
+    it('should stay signed in when the session check fails', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      mockApiHelpers.get.mockRejectedValue(new Error('Network error'))
+
+      await act(async () => {
+        await result.current.verifySession()
+      })
+
+      expect(result.current.isAuthenticated).toBe(true)
+      expect(mockConsoleWarn).toHaveBeenCalledWith('Session check failed:', expect.any(Error))
+    })
+
+    it('should not check sessions when signed out', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      act(() => {
+        useAuthStore.setState({ isAuthenticated: false })
+      })
+
+      await act(async () => {
+        await result.current.verifySession()
+      })
+
+      expect(mockApiHelpers.get).not.toHaveBeenCalled()
+    })
+
+    it('should clear the notice after signing in again', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      act(() => {
+        useAuthStore.setState({ sessionNotice: 'Signed out elsewhere' })
+      })
+      mockApiHelpers.post.mockResolvedValue({ user: mockUser, ...mockTokens })
+
+      await act(async () => {
+        await result.current.login({ emailOrUsername: 'test@example.com', password: 'password' })
+      })
+
+      expect(result.current.sessionNotice).toBeUndefined()
+    })
+
+    it('should sign out of every device', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      mockApiHelpers.post.mockResolvedValue(null)
+
+      await act(async () => {
+        await result.current.logoutAllDevices()
+      })
+
+      expect(mockApiHelpers.post).toHaveBeenCalledWith('/auth/logout-all', undefined, undefined)
+      expect(mockTokenManager.removeTokens).toHaveBeenCalled()
+      expect(result.current.isAuthenticated).toBe(false)
+    })
+  })
+
+  describe('changePassword', () => {
+    const request = {
+      currentPassword: 'OldPassword1!',
+      newPassword: 'Granite-Orbit-42',
+      confirmPassword: 'Granite-Orbit-42',
+    }
+
+    beforeEach(() => {
+      act(() => {
+        useAuthStore.setState({ user: mockUser, isAuthenticated: true })
+      })
+    })
+
+    it('should sign out with a notice once the password is changed', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      mockApiHelpers.post.mockResolvedValue(undefined)
+
+      await act(async () => {
+        await result.current.changePassword(request)
+      })
+
+      expect(mockApiHelpers.post).toHaveBeenCalledWith('/auth/change-password', request, undefined)
+      expect(mockTokenManager.removeTokens).toHaveBeenCalled()
+      expect(result.current.isAuthenticated).toBe(false)
+      expect(result.current.sessionNotice).toBe(PASSWORD_CHANGED_NOTICE)
+    })
+
+    it('should stay signed in when the change is rejected', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      mockApiHelpers.post.mockRejectedValue({ response: { status: 401 } })
+
+      await act(async () => {
+        await expect(result.current.changePassword(request)).rejects.toEqual({ response: { status: 401 } })
+      })
+
+      expect(result.current.isAuthenticated).toBe(true)
+      expect(result.current.user).toEqual(mockUser)
+    })
+  })
+
+  describe('idle lock', () => {
+    beforeEach(() => {
+      act(() => {
+        useAuthStore.setState({ user: mockUser, isAuthenticated: true })
+      })
+      mockTokenManager.getSessionId.mockReturnValue('locked-session')
+      mockTokenManager.isPersistent.mockReturnValue(true)
+      mockApiHelpers.delete.mockResolvedValue(undefined)
+      mockBroadcastAuthEvent.mockClear()
+    })
+
+    it('should lock the session and tell other tabs', () => {
+      const { result } = renderHook(() => useAuthStore())
+
+      act(() => {
+        result.current.lock()
+      })
+
+      expect(result.current.isLocked).toBe(true)
+      expect(result.current.isAuthenticated).toBe(true)
+      expect(mockBroadcastAuthEvent).toHaveBeenCalledWith({ type: 'locked' })
+    })
+
+    it('should unlock with the password and end the locked session', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      act(() => {
+        result.current.lock()
+      })
+      mockApiHelpers.post.mockResolvedValue({ user: mockUser, ...mockTokens })
+
+      await act(async () => {
+        await result.current.unlock('password')
+      })
+
+      expect(mockApiHelpers.post).toHaveBeenCalledWith(
+        '/auth/login',
+        { emailOrUsername: mockUser.email, password: 'password', rememberMe: true },
+        { schema: loginResponseSchema }
+      )
+      expect(mockTokenManager.setTokens).toHaveBeenCalledWith(
+        mockTokens.accessToken,
+        mockTokens.refreshToken,
+        { persistent: true }
+      )
+      expect(mockApiHelpers.delete).toHaveBeenCalledWith('/auth/sessions/locked-session', undefined)
+      expect(result.current.isLocked).toBe(false)
+      expect(mockBroadcastAuthEvent).toHaveBeenCalledWith({ type: 'unlocked' })
+    })
+
+    it('should stay locked after a wrong password', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      act(() => {
+        result.current.lock()
+      })
+      mockApiHelpers.post.mockRejectedValue({ response: { status: 401, data: {} } })
+
+      await act(async () => {
+        await expect(result.current.unlock('wrong')).rejects.toBeDefined()
+      })
+
+      expect(result.current.isLocked).toBe(true)
+      expect(result.current.error).toBe('Incorrect password')
+      expect(mockTokenManager.setTokens).not.toHaveBeenCalled()
+    })
+
+    it('should finish unlocking two-factor accounts with a code', async () => {
+      const { result } = renderHook(() => useAuthStore())
+      act(() => {
+        result.current.lock()
+      })
+      mockApiHelpers.post.mockResolvedValueOnce({ requiresTwoFactor: true, twoFactorToken: 'challenge-token' })
+
+      await act(async () => {
+        await result.current.unlock('password')
+      })
+
+      expect(result.current.isLocked).toBe(true)
+      expect(result.current.twoFactorChallenge).toEqual({ twoFactorToken: 'challenge-token', rememberMe: true })
+
+      mockApiHelpers.post.mockResolvedValueOnce({ user: mockUser, ...mockTokens })
+      await act(async () => {
+        await result.current.verifyTwoFactor({ code: '123456' })
+      })
+
+      expect(result.current.isLocked).toBe(false)
+      expect(mockApiHelpers.delete).toHaveBeenCalledWith('/auth/sessions/locked-session', undefined)
+    })
+
+    it('should apply a lock from another tab', () => {
+      const { result } = renderHook(() => useAuthStore())
+
+      act(() => {
+        authSyncHandler({ type: 'locked' })
+      })
+      expect(result.current.isLocked).toBe(true)
+
+      act(() => {
+        authSyncHandler({ type: 'unlocked' })
+      })
+      expect(result.current.isLocked).toBe(false)
+      expect(mockBroadcastAuthEvent).not.toHaveBeenCalled()
+    })
+
+    it('should sign out with a notice for inactivity', () => {
+      const { result } = renderHook(() => useAuthStore())
+
+      act(() => {
+        result.current.logout(IDLE_SIGN_OUT_NOTICE)
+      })
+
+      expect(result.current.isAuthenticated).toBe(false)
+      expect(result.current.sessionNotice).toBe(IDLE_SIGN_OUT_NOTICE)
+    })
+  })
+
+  describe('session expiry', () => {
+    it('should clear the user when the API layer expires the session', () => {
+      const { result } = renderHook(() => useAuthStore())
+
+      act(() => {
+        useAuthStore.setState({ user: mockUser, isAuthenticated: true })
+      })
+
+      mockApiHelpers.post.mockClear()
+
+      act(() => {
+        sessionExpiredHandler()
+      })
+
+      expect(result.current.user).toBeNull()
+      expect(result.current.isAuthenticated).toBe(false)
+      expect(result.current.sessionNotice).toMatch(/expired/)
+      expect(mockApiHelpers.post).not.toHaveBeenCalled()
+    })
+  })
+
   describe('clearError', () => {
     it('should clear error state', () => {
       const { result } = renderHook(() => useAuthStore())
@@ -461,7 +1310,7 @@ describe('AuthStore', () => {
       expect(result.current.isLoading).toBe(false)
       expect(result.current.error).toBeUndefined()
       
-      expect(mockApiHelpers.get).toHaveBeenCalledWith('/auth/profile')
+      expect(mockApiHelpers.get).toHaveBeenCalledWith('/auth/profile', { schema: userSchema })
     })
 
     it('should set unauthenticated state when no token exists', async () => {
@@ -484,7 +1333,7 @@ describe('AuthStore', () => {
       const { result } = renderHook(() => useAuthStore())
       
       mockTokenManager.getAccessToken.mockReturnValue('invalid-token')
-      mockApiHelpers.get.mockRejectedValue(new Error('Unauthorized'))
+      mockApiHelpers.get.mockRejectedValue({ response: { status: 401 } })
 
       await act(async () => {
         await result.current.checkAuth()
@@ -498,6 +1347,30 @@ describe('AuthStore', () => {
       expect(mockTokenManager.removeTokens).toHaveBeenCalled()
     })
 
+    it.each([
+      ['the service is unavailable', { response: { status: 503 } }],
+      ['the network is down', new Error('Network Error')],
+    ])('should keep the session when %s', async (_, error) => {
+      act(() => {
+        useAuthStore.setState({ user: mockUser, isAuthenticated: true })
+      })
+      // Signed out by the reset in beforeEach
+      mockTokenManager.removeTokens.mockClear()
+      const { result } = renderHook(() => useAuthStore())
+      
+      mockTokenManager.getAccessToken.mockReturnValue('valid-token')
+      mockApiHelpers.get.mockRejectedValue(error)
+
+      await act(async () => {
+        await result.current.checkAuth()
+      })
+
+      expect(result.current.user).toEqual(mockUser)
+      expect(result.current.isAuthenticated).toBe(true)
+      expect(result.current.isLoading).toBe(false)
+      expect(mockTokenManager.removeTokens).not.toHaveBeenCalled()
+    })
+
     it('should set loading state during authentication check', async () => {
       const { result } = renderHook(() => useAuthStore())
       
@@ -525,6 +1398,48 @@ describe('AuthStore', () => {
     })
   })
 
+  describe('persisted state storage', () => {
+    const storage = createAuthStateStorage(localStorage, sessionStorage)
+
+    beforeEach(() => {
+      localStorage.clear()
+      sessionStorage.clear()
+    })
+
+    it('should keep the state for the browser session only by default', () => {
+      mockTokenManager.isPersistent.mockReturnValue(false)
+
+      storage.setItem('auth-store', 'state')
+
+      expect(sessionStorage.getItem('auth-store')).toBe('state')
+      expect(localStorage.getItem('auth-store')).toBeNull()
+      expect(storage.getItem('auth-store')).toBe('state')
+    })
+
+    it('should keep the state across restarts for remembered sessions', () => {
+      mockTokenManager.isPersistent.mockReturnValue(true)
+
+      storage.setItem('auth-store', 'state')
+
+      expect(localStorage.getItem('auth-store')).toBe('state')
+      expect(sessionStorage.getItem('auth-store')).toBeNull()
+    })
+
+    it('should move the state when the choice changes', () => {
+      mockTokenManager.isPersistent.mockReturnValue(true)
+      storage.setItem('auth-store', 'remembered')
+
+      mockTokenManager.isPersistent.mockReturnValue(false)
+      storage.setItem('auth-store', 'session')
+
+      expect(localStorage.getItem('auth-store')).toBeNull()
+      expect(storage.getItem('auth-store')).toBe('session')
+
+      storage.removeItem('auth-store')
+      expect(storage.getItem('auth-store')).toBeNull()
+    })
+  })
+
   describe('Store Persistence', () => {
     it('should persist user and authentication state', () => {
       const { result } = renderHook(() => useAuthStore())
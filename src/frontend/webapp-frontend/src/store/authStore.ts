@@ -1,18 +1,126 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
-import { AuthState, User, LoginRequest, RegisterRequest } from '@/types';
-import { TokenManager, apiHelpers, endpoints } from '@/lib/api';
+import { StateStorage, createJSONStorage, persist } from 'zustand/middleware';
+import {
+  AuthState,
+  User,
+  LoginRequest,
+  LoginResponse,
+  RegisterRequest,
+  TwoFactorChallengeResponse,
+  TwoFactorLoginRequest,
+  ConfirmEmailRequest,
+  ResendConfirmationRequest,
+  ChangePasswordRequest,
+} from '@/types';
+import {
+  TokenManager,
+  getAuthErrorResponse,
+  getErrorMessage,
+  onSessionExpired,
+  toApiError,
+} from '@/lib/api';
+import { broadcastAuthEvent, subscribeToAuthEvents } from '@/lib/authSync';
+import { authApi } from '@/lib/generated/auth';
+import {
+  authResponseSchema,
+  enableTwoFactorResponseSchema,
+  loginResponseSchema,
+  twoFactorRecoveryCodesResponseSchema,
+  userSchema,
+  userSessionListSchema,
+} from '@/lib/schemas';
 
 interface AuthStore extends AuthState {
   // Actions
   login: (credentials: LoginRequest) => Promise<void>;
+  verifyTwoFactor: (code: Pick<TwoFactorLoginRequest, 'code' | 'recoveryCode'>) => Promise<void>;
+  cancelTwoFactor: () => void;
   register: (data: RegisterRequest) => Promise<void>;
-  logout: () => void;
+  logout: (notice?: string) => void;
+  logoutAllDevices: () => Promise<void>;
+  changePassword: (request: ChangePasswordRequest) => Promise<void>;
+  verifySession: () => Promise<void>;
   refreshUser: () => Promise<void>;
   clearError: () => void;
   checkAuth: () => Promise<void>;
+  // Idle lock
+  lock: () => void;
+  unlock: (password: string) => Promise<void>;
+  // Email confirmation
+  confirmEmail: (request: ConfirmEmailRequest) => Promise<void>;
+  resendConfirmationEmail: () => Promise<void>;
+  requireConfirmedEmail: () => boolean;
+  // Two-factor enrollment
+  enableTwoFactor: () => Promise<string>;
+  confirmTwoFactor: (code: string) => Promise<string[]>;
+  // Without a code, cancels a setup that hasn't been confirmed
+  disableTwoFactor: (code?: string) => Promise<void>;
 }
 
+const SESSION_REVOKED_NOTICE = 'You were signed out because this session was ended from another device.';
+const SESSION_EXPIRED_NOTICE = 'Your session has expired. Please sign in again.';
+export const IDLE_SIGN_OUT_NOTICE = 'You were signed out after a period of inactivity.';
+export const PASSWORD_CHANGED_NOTICE = 'Your password was changed. Sign in with your new password.';
+
+export const EMAIL_CONFIRMATION_REQUIRED = 'Please confirm your email address to continue.';
+export const RESEND_CONFIRMATION_COOLDOWN_MS = 60 * 1000;
+
+// Profiles from before email confirmation existed have no flag; only an explicit false blocks
+export const needsEmailConfirmation = (user: User | null) => user?.isEmailConfirmed === false;
+
+export const ACCOUNT_LOCKED_MESSAGE = 'Too many failed sign-in attempts. Your account is temporarily locked.';
+
+// Attempts left and lockout end from a failed sign-in or two-factor code, as far as the response says
+const getLoginFailureState = (
+  error: unknown,
+  fallback = 'Login failed'
+): Pick<AuthState, 'error' | 'loginAttemptsRemaining' | 'loginLockedUntil'> => {
+  const authError = getAuthErrorResponse(error);
+
+  if (authError?.error === 'account_locked') {
+    return {
+      error: ACCOUNT_LOCKED_MESSAGE,
+      loginAttemptsRemaining: undefined,
+      loginLockedUntil: authError.retryAfterSeconds
+        ? Date.now() + authError.retryAfterSeconds * 1000
+        : undefined,
+    };
+  }
+
+  const isWrongSecret = authError?.error === 'invalid_grant' || authError?.error === 'invalid_code';
+  return {
+    error: getErrorMessage(error, fallback),
+    loginAttemptsRemaining: isWrongSecret ? authError.attemptsRemaining : undefined,
+    loginLockedUntil: undefined,
+  };
+};
+
+const isTwoFactorChallenge = (response: LoginResponse): response is TwoFactorChallengeResponse =>
+  'requiresTwoFactor' in response && response.requiresTwoFactor;
+
+// Unlocking signs in again, which starts a new session; end the one that was locked
+const endLockedSession = (sessionId: string | null) => {
+  if (!sessionId) return;
+  Promise.resolve(authApi.deleteSessionsBySessionId(sessionId)).catch((error) => {
+    console.warn('Could not end the locked session:', error);
+  });
+};
+
+// Keeps the persisted user alongside the tokens: in localStorage for "Remember me" sessions,
+// otherwise in sessionStorage so it doesn't outlive the session cookies
+export const createAuthStateStorage = (persistent: Storage, session: Storage): StateStorage => ({
+  getItem: (name) => persistent.getItem(name) ?? session.getItem(name),
+  setItem: (name, value) => {
+    const [target, stale] = TokenManager.isPersistent() ? [persistent, session] : [session, persistent];
+    target.setItem(name, value);
+    stale.removeItem(name);
+  },
+  removeItem: (name) => {
+    persistent.removeItem(name);
+    session.removeItem(name);
+  },
+});
+
 export const useAuthStore = create<AuthStore>()(
   persist(
     (set, get) => ({
@@ -21,79 +129,139 @@ export const useAuthStore = create<AuthStore>()(
       isAuthenticated: false,
       isLoading: false,
       error: undefined,
+      twoFactorChallenge: null,
+      sessionNotice: undefined,
+      isLocked: false,
 
       // Login action
       login: async (credentials: LoginRequest) => {
-        set({ isLoading: true, error: undefined });
+        set({ isLoading: true, error: undefined, loginAttemptsRemaining: undefined });
         
         try {
-          const response = await apiHelpers.post<{
-            user: User;
-            accessToken: string;
-            refreshToken: string;
-          }>(endpoints.auth.login, credentials);
+          const response = await authApi.postLogin(
+            { ...credentials, rememberMe: credentials.rememberMe ?? false },
+            { schema: loginResponseSchema }
+          );
+
+          // Accounts with 2FA get a challenge token instead of a session
+          if (isTwoFactorChallenge(response)) {
+            set({
+              isLoading: false,
+              loginLockedUntil: undefined,
+              twoFactorChallenge: {
+                twoFactorToken: response.twoFactorToken,
+                rememberMe: credentials.rememberMe ?? false,
+              },
+            });
+            return;
+          }
 
           const { user, accessToken, refreshToken } = response;
           
-          // Store tokens
-          TokenManager.setTokens(accessToken, refreshToken);
+          // Store tokens for the browser session only, unless asked to remember this device
+          TokenManager.setTokens(accessToken, refreshToken, {
+            persistent: credentials.rememberMe ?? false,
+          });
           
           set({
             user,
             isAuthenticated: true,
             isLoading: false,
             error: undefined,
+            sessionNotice: undefined,
+            isLocked: false,
+            loginLockedUntil: undefined,
+          });
+        } catch (error) {
+          set({
+            isLoading: false,
+            ...getLoginFailureState(error),
+          });
+          throw error;
+        }
+      },
+
+      // Complete a two-factor login challenge
+      verifyTwoFactor: async ({ code, recoveryCode }) => {
+        const challenge = get().twoFactorChallenge;
+        if (!challenge) return;
+
+        set({ isLoading: true, error: undefined, loginAttemptsRemaining: undefined });
+
+        try {
+          const { user, accessToken, refreshToken } = await authApi.post2faLogin(
+            { ...challenge, code, recoveryCode },
+            { schema: authResponseSchema }
+          );
+
+          const lockedSessionId = get().isLocked ? TokenManager.getSessionId() : null;
+          TokenManager.setTokens(accessToken, refreshToken, { persistent: challenge.rememberMe });
+
+          set({
+            user,
+            isAuthenticated: true,
+            isLoading: false,
+            error: undefined,
+            twoFactorChallenge: null,
+            sessionNotice: undefined,
+            isLocked: false,
+            loginAttemptsRemaining: undefined,
+            loginLockedUntil: undefined,
           });
-        } catch (error: any) {
-          const errorMessage = error.response?.data?.message || 'Login failed';
+          endLockedSession(lockedSessionId);
+        } catch (error) {
           set({
             isLoading: false,
-            error: errorMessage,
+            ...getLoginFailureState(error, 'Invalid verification code'),
           });
           throw error;
         }
       },
 
+      // Abandon a two-factor challenge and go back to the credentials step
+      cancelTwoFactor: () => {
+        set({ twoFactorChallenge: null, error: undefined, loginAttemptsRemaining: undefined });
+      },
+
       // Register action
       register: async (data: RegisterRequest) => {
         set({ isLoading: true, error: undefined });
         
         try {
-          const response = await apiHelpers.post<{
-            user: User;
-            accessToken: string;
-            refreshToken: string;
-          }>(endpoints.auth.register, data);
+          const response = await authApi.postRegister(data, { schema: authResponseSchema });
 
           const { user, accessToken, refreshToken } = response;
           
-          // Store tokens
-          TokenManager.setTokens(accessToken, refreshToken);
+          // Store tokens; registering has no "Remember me", so they last for the browser session
+          TokenManager.setTokens(accessToken, refreshToken, { persistent: false });
           
           set({
-            user,
+            // A new account is unconfirmed until the emailed link is opened
+            user: { ...user, isEmailConfirmed: user.isEmailConfirmed ?? false },
             isAuthenticated: true,
             isLoading: false,
             error: undefined,
+            // Registration already sent the first confirmation email
+            confirmationEmailSentAt: Date.now(),
+            isLocked: false,
           });
-        } catch (error: any) {
-          const errorMessage = error.response?.data?.message || 'Registration failed';
+        } catch (error) {
           set({
             isLoading: false,
-            error: errorMessage,
+            error: getErrorMessage(error, 'Registration failed'),
           });
           throw error;
         }
       },
 
-      // Logout action
-      logout: () => {
-        try {
-          // Call logout endpoint to invalidate refresh token
-          apiHelpers.post(endpoints.auth.logout);
-        } catch (error) {
-          // Continue with logout even if API call fails
-          console.warn('Logout API call failed:', error);
+      // Logout action; the notice explains a sign-out the user didn't ask for
+      logout: (notice?: string) => {
+        // Call logout endpoint to invalidate refresh token; continue with logout even if it fails
+        const refreshToken = TokenManager.getRefreshToken();
+        if (refreshToken) {
+          Promise.resolve(authApi.postLogout({ refreshToken })).catch((error) => {
+            console.warn('Logout API call failed:', error);
+          });
         }
         
         // Clear tokens and state
@@ -103,9 +271,67 @@ export const useAuthStore = create<AuthStore>()(
           isAuthenticated: false,
           isLoading: false,
           error: undefined,
+          twoFactorChallenge: null,
+          isLocked: false,
+          ...(notice ? { sessionNotice: notice } : {}),
         });
       },
 
+      // Sign out every session, including this one
+      logoutAllDevices: async () => {
+        await authApi.postLogoutAll();
+
+        TokenManager.removeTokens();
+        set({
+          user: null,
+          isAuthenticated: false,
+          isLoading: false,
+          error: undefined,
+          twoFactorChallenge: null,
+        });
+      },
+
+      // The auth service revokes every refresh token on a password change, so sign in again
+      changePassword: async (request: ChangePasswordRequest) => {
+        await authApi.postChangePassword(request);
+
+        TokenManager.removeTokens();
+        set({
+          user: null,
+          isAuthenticated: false,
+          isLoading: false,
+          error: undefined,
+          twoFactorChallenge: null,
+          sessionNotice: PASSWORD_CHANGED_NOTICE,
+        });
+      },
+
+      // Detect that this session was revoked from another device
+      verifySession: async () => {
+        const sessionId = TokenManager.getSessionId();
+        if (!get().isAuthenticated || !sessionId) return;
+
+        try {
+          const sessions = await authApi.getSessions({ schema: userSessionListSchema });
+          const isActive = sessions.some((session) => session.sessionId === sessionId && session.isActive);
+
+          if (!isActive) {
+            TokenManager.removeTokens();
+            set({
+              user: null,
+              isAuthenticated: false,
+              isLoading: false,
+              error: undefined,
+              sessionNotice: SESSION_REVOKED_NOTICE,
+            });
+          }
+        } catch (error) {
+          // A revoked refresh token ends the session through onSessionExpired;
+          // anything else (offline, server error) is not proof of revocation
+          console.warn('Session check failed:', error);
+        }
+      },
+
       // Refresh user data
       refreshUser: async () => {
         if (!get().isAuthenticated) return;
@@ -113,15 +339,15 @@ export const useAuthStore = create<AuthStore>()(
         set({ isLoading: true });
         
         try {
-          const user = await apiHelpers.get<User>(endpoints.auth.profile);
+          const user = await authApi.getProfile({ schema: userSchema });
           set({
             user,
             isLoading: false,
             error: undefined,
           });
-        } catch (error: any) {
-          // If refresh fails, user might need to re-authenticate
-          if (error.response?.status === 401) {
+        } catch (error) {
+          // A 401 here means the API layer could not refresh the access token either
+          if (toApiError(error).status === 401) {
             get().logout();
           } else {
             set({
@@ -134,14 +360,14 @@ export const useAuthStore = create<AuthStore>()(
 
       // Clear error
       clearError: () => {
-        set({ error: undefined });
+        // A lockout still applies, so its end time stays
+        set({ error: undefined, loginAttemptsRemaining: undefined });
       },
 
       // Check authentication status on app startup
       checkAuth: async () => {
-        const token = TokenManager.getAccessToken();
-        
-        if (!token) {
+        // A missing access token can still be recovered with the refresh token
+        if (!TokenManager.getAccessToken() && !TokenManager.getRefreshToken()) {
           set({
             user: null,
             isAuthenticated: false,
@@ -153,7 +379,7 @@ export const useAuthStore = create<AuthStore>()(
         set({ isLoading: true });
         
         try {
-          const user = await apiHelpers.get<User>(endpoints.auth.profile);
+          const user = await authApi.getProfile({ schema: userSchema });
           set({
             user,
             isAuthenticated: true,
@@ -161,7 +387,15 @@ export const useAuthStore = create<AuthStore>()(
             error: undefined,
           });
         } catch (error) {
-          // Token is invalid, clear everything
+          // A 401 here means the API layer could not refresh the access token either. Anything else
+          // (offline, timeout, server error) says nothing about the session, so it's kept; the
+          // tokens are shared with other tabs
+          if (toApiError(error).status !== 401) {
+            console.warn('Authentication check failed:', error);
+            set({ isLoading: false });
+            return;
+          }
+
           TokenManager.removeTokens();
           set({
             user: null,
@@ -171,14 +405,194 @@ export const useAuthStore = create<AuthStore>()(
           });
         }
       },
+
+      // Hide the app after inactivity; tokens are kept so background requests still work
+      lock: () => {
+        if (!get().isAuthenticated) return;
+        set({ isLocked: true, error: undefined, twoFactorChallenge: null });
+      },
+
+      // Re-enter the password to leave the lock screen
+      unlock: async (password: string) => {
+        const user = get().user;
+        if (!user) return;
+
+        set({ isLoading: true, error: undefined });
+
+        try {
+          const persistent = TokenManager.isPersistent();
+          const response = await authApi.postLogin(
+            { emailOrUsername: user.email, password, rememberMe: persistent },
+            { schema: loginResponseSchema }
+          );
+
+          // Accounts with 2FA finish unlocking through verifyTwoFactor
+          if (isTwoFactorChallenge(response)) {
+            set({
+              isLoading: false,
+              twoFactorChallenge: { twoFactorToken: response.twoFactorToken, rememberMe: persistent },
+            });
+            return;
+          }
+
+          const lockedSessionId = TokenManager.getSessionId();
+          TokenManager.setTokens(response.accessToken, response.refreshToken, { persistent });
+
+          set({
+            user: response.user,
+            isLoading: false,
+            error: undefined,
+            isLocked: false,
+          });
+          endLockedSession(lockedSessionId);
+        } catch (error) {
+          set({
+            isLoading: false,
+            error: getErrorMessage(error, 'Incorrect password'),
+          });
+          throw error;
+        }
+      },
+
+      // Confirm an email address from the link in the confirmation email
+      confirmEmail: async ({ userId, token }: ConfirmEmailRequest) => {
+        await authApi.postConfirmEmail({ userId, token });
+
+        // The link may be opened while signed in to a different account
+        const user = get().user;
+        if (user?.id === userId) {
+          set({ user: { ...user, isEmailConfirmed: true } });
+        }
+      },
+
+      // Send another confirmation email, at most once per cooldown period
+      resendConfirmationEmail: async () => {
+        const { user, confirmationEmailSentAt } = get();
+        if (!user || !needsEmailConfirmation(user)) return;
+
+        if (confirmationEmailSentAt && Date.now() - confirmationEmailSentAt < RESEND_CONFIRMATION_COOLDOWN_MS) {
+          return;
+        }
+
+        const request: ResendConfirmationRequest = { email: user.email };
+        await authApi.postResendConfirmation(request);
+        set({ confirmationEmailSentAt: Date.now() });
+      },
+
+      // Guard for actions that need a confirmed email; surfaces the reason through `error`
+      requireConfirmedEmail: () => {
+        if (!needsEmailConfirmation(get().user)) return true;
+
+        set({ error: EMAIL_CONFIRMATION_REQUIRED });
+        return false;
+      },
+
+      // Start 2FA enrollment; the returned secret is shown as a QR code until confirmed
+      enableTwoFactor: async () => {
+        const { secret } = await authApi.post2faEnable({ schema: enableTwoFactorResponseSchema });
+        return secret;
+      },
+
+      // Confirm enrollment with the first code from the authenticator app; resolves to the
+      // recovery codes, which the service only hands out this once
+      confirmTwoFactor: async (code: string) => {
+        const { recoveryCodes } = await authApi.post2faVerify({ code }, { schema: twoFactorRecoveryCodesResponseSchema });
+        const user = get().user;
+        set({ user: user && { ...user, isTwoFactorEnabled: true } });
+        return recoveryCodes;
+      },
+
+      disableTwoFactor: async (code = '') => {
+        await authApi.post2faDisable({ code });
+        const user = get().user;
+        set({ user: user && { ...user, isTwoFactorEnabled: false } });
+      },
     }),
     {
       name: 'auth-store',
-      // Only persist user data, not loading states
+      // Throws outside the browser, which turns persistence off during server rendering
+      storage: createJSONStorage(() => createAuthStateStorage(localStorage, sessionStorage)),
+      // Only persist user data, the resend cooldown and the lock, not loading states
       partialize: (state) => ({
         user: state.user,
         isAuthenticated: state.isAuthenticated,
+        confirmationEmailSentAt: state.confirmationEmailSentAt,
+        // A reload must not get past the lock screen
+        isLocked: state.isLocked,
       }),
     }
   )
 );
+
+// The API layer ends the session when a token refresh is rejected; drop the persisted user too
+onSessionExpired(() => {
+  useAuthStore.setState({
+    user: null,
+    isAuthenticated: false,
+    isLoading: false,
+    error: undefined,
+    sessionNotice: SESSION_EXPIRED_NOTICE,
+  });
+});
+
+// Tell other tabs about sign-in, sign-out and profile changes made in this one
+let isApplyingRemoteChange = false;
+
+useAuthStore.subscribe((state, previous) => {
+  if (isApplyingRemoteChange) return;
+
+  if (state.isAuthenticated !== previous.isAuthenticated) {
+    broadcastAuthEvent(
+      state.isAuthenticated && state.user
+        ? { type: 'login', user: state.user }
+        : { type: 'logout', notice: state.sessionNotice }
+    );
+  } else if (state.isAuthenticated) {
+    if (state.user && state.user !== previous.user) {
+      broadcastAuthEvent({ type: 'user-updated', user: state.user });
+    }
+    if (state.isLocked !== previous.isLocked) {
+      broadcastAuthEvent({ type: state.isLocked ? 'locked' : 'unlocked' });
+    }
+  }
+});
+
+// Apply changes from other tabs without echoing them back
+subscribeToAuthEvents((message) => {
+  isApplyingRemoteChange = true;
+  try {
+    switch (message.type) {
+      case 'login':
+      case 'user-updated':
+        useAuthStore.setState({
+          user: message.user,
+          isAuthenticated: true,
+          twoFactorChallenge: null,
+          sessionNotice: undefined,
+        });
+        break;
+      case 'logout':
+        useAuthStore.setState({
+          user: null,
+          isAuthenticated: false,
+          isLoading: false,
+          error: undefined,
+          twoFactorChallenge: null,
+          sessionNotice: message.notice,
+        });
+        break;
+      case 'locked':
+      case 'unlocked':
+        useAuthStore.setState({ isLocked: message.type === 'locked', twoFactorChallenge: null });
+        break;
+      case 'token-refreshed':
+        // Tokens are shared cookies; a tab that thought it was signed out can pick the session back up
+        if (!useAuthStore.getState().isAuthenticated) {
+          useAuthStore.getState().checkAuth();
+        }
+        break;
+    }
+  } finally {
+    isApplyingRemoteChange = false;
+  }
+});
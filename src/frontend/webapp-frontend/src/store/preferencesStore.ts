@@ -0,0 +1,41 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { IdlePreferences } from '@/types';
+import { DEFAULT_IDLE_TIMEOUT_MINUTES } from '@/lib/idleActivity';
+
+export const DEFAULT_IDLE_PREFERENCES: IdlePreferences = {
+  timeoutMinutes: DEFAULT_IDLE_TIMEOUT_MINUTES,
+  action: 'lock',
+};
+
+interface PreferencesStore {
+  // Keyed by user id, so people sharing a browser keep their own settings
+  idle: Record<string, IdlePreferences>;
+  setIdlePreferences: (userId: string, preferences: Partial<IdlePreferences>) => void;
+}
+
+// Per-device settings; kept in localStorage even for sessions without "Remember me"
+export const usePreferencesStore = create<PreferencesStore>()(
+  persist(
+    (set) => ({
+      idle: {},
+
+      setIdlePreferences: (userId, preferences) => {
+        set((state) => ({
+          idle: {
+            ...state.idle,
+            [userId]: { ...DEFAULT_IDLE_PREFERENCES, ...state.idle[userId], ...preferences },
+          },
+        }));
+      },
+    }),
+    {
+      name: 'preferences-store',
+    }
+  )
+);
+
+export const selectIdlePreferences =
+  (userId?: string) =>
+  (state: PreferencesStore): IdlePreferences =>
+    (userId && state.idle[userId]) || DEFAULT_IDLE_PREFERENCES;
@@ -1,3 +1,22 @@
+import type {
+  CreateMediaAttachmentRequest,
+  MediaAttachmentDto,
+  PostAuthorDto,
+  PostDto,
+  PostType,
+  PostVisibility,
+} from '@/lib/generated/posts';
+import type { MediaUploadResponse } from '@/lib/generated/media';
+
+export type { PostType, PostVisibility };
+
+// The post service's PostVisibility values
+export const POST_VISIBILITY = {
+  PUBLIC: 0,
+  FOLLOWERS: 1,
+  PRIVATE: 2,
+} as const satisfies Record<string, PostVisibility>;
+
 // User types
 export interface User {
   id: string;
@@ -10,6 +29,10 @@ export interface User {
   followersCount: number;
   followingCount: number;
   postsCount: number;
+  isTwoFactorEnabled?: boolean;
+  isEmailConfirmed?: boolean;
+  // Private accounts are only visible to their followers, whatever a post's own visibility
+  isPrivate?: boolean;
   createdAt: string;
   updatedAt: string;
 }
@@ -40,36 +63,175 @@ export interface AuthResponse {
   refreshToken: string;
 }
 
+// Access token claims (JwtClaims in the backend), decoded on the client
+export interface AccessTokenClaims {
+  userId: string;
+  username?: string;
+  email?: string;
+  displayName?: string;
+  roles: string[];
+  isVerified: boolean;
+  sessionId?: string;
+  // Epoch milliseconds
+  issuedAt?: number;
+  expiresAt?: number;
+}
+
+// Role names as issued by the auth service and checked by [Authorize(Roles = ...)]
+export type Role = 'Admin';
+
+// What a role allows in the UI; the services enforce the same rules on their endpoints
+export type Permission =
+  | 'admin:access'
+  | 'media-processing:view'
+  | 'notifications:bulk'
+  | 'maintenance:cleanup';
+
+// Returned by login instead of tokens when the account has two-factor authentication enabled
+export interface TwoFactorChallengeResponse {
+  requiresTwoFactor: true;
+  twoFactorToken: string;
+}
+
+export type LoginResponse = AuthResponse | TwoFactorChallengeResponse;
+
+// Completes a login challenge with either an authenticator code or a recovery code
+export interface TwoFactorLoginRequest {
+  twoFactorToken: string;
+  code?: string;
+  recoveryCode?: string;
+  rememberMe?: boolean;
+}
+
+export interface TwoFactorCodeRequest {
+  code: string;
+}
+
+export interface EnableTwoFactorResponse {
+  secret: string;
+}
+
+// One-time codes for signing in without the authenticator app, shown once when 2FA is turned on
+export interface TwoFactorRecoveryCodesResponse {
+  recoveryCodes: string[];
+}
+
+// Active sign-in session as returned by the auth service
+export interface UserSession {
+  id: string;
+  sessionId: string;
+  createdAt: string;
+  lastActivityAt: string;
+  expiresAt: string;
+  isActive: boolean;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  deviceInfo?: string | null;
+  location?: string | null;
+}
+
 export interface ForgotPasswordRequest {
   email: string;
 }
 
+export interface ConfirmEmailRequest {
+  userId: string;
+  token: string;
+}
+
+export interface ResendConfirmationRequest {
+  email: string;
+}
+
 export interface ResetPasswordRequest {
   token: string;
+  email: string;
   newPassword: string;
+  confirmPassword: string;
 }
 
-// Post types
-export interface Post {
-  id: string;
-  content: string;
-  authorId: string;
-  author: User;
-  mediaAttachments?: MediaAttachment[];
-  likesCount: number;
-  commentsCount: number;
-  isLiked: boolean;
-  createdAt: string;
-  updatedAt: string;
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+  confirmPassword: string;
+}
+
+// Post types come from the post service's OpenAPI document (see src/lib/generated)
+
+// The public part of the author's profile that comes with each post
+export type PostAuthor = PostAuthorDto;
+
+export interface Post
+  extends Pick<
+    PostDto,
+    | 'id'
+    | 'authorId'
+    | 'content'
+    | 'type'
+    | 'visibility'
+    | 'isEdited'
+    | 'createdAt'
+    | 'updatedAt'
+    // Set on replies: the post answered, and the post that started the thread
+    | 'parentPostId'
+    | 'rootPostId'
+    // Direct replies only
+    | 'repliesCount'
+    | 'author'
+    | 'mediaAttachments'
+  > {
+  // Not on the post service's PostDto; only shown when a service fills them in
+  likesCount?: number;
+  commentsCount?: number;
+  isLiked?: boolean;
 }
 
 export interface CreatePostRequest {
   content: string;
   mediaIds?: string[];
+  visibility?: PostVisibility;
+}
+
+// What the post service's /text and /media endpoints take: the author, and for media posts the
+// uploaded files' details
+export interface CreatePostPayload extends CreatePostRequest {
+  authorId: string;
+  mediaAttachments?: CreateMediaAttachmentRequest[];
+}
+
+export interface CreateReplyRequest {
+  parentPostId: string;
+  content: string;
+  visibility?: PostVisibility;
 }
 
 export interface UpdatePostRequest {
   content: string;
+  visibility?: PostVisibility;
+}
+
+// What the post service's PUT {id}/content takes. expectedUpdatedAt is the version being edited:
+// the service answers 409 with the current post if it has changed since.
+export interface UpdatePostContentPayload {
+  authorId: string;
+  newContent: string;
+  expectedUpdatedAt?: string;
+}
+
+// The fields an edit changes, as the content endpoint returns them
+export type PostEdit = Pick<Post, 'content' | 'isEdited' | 'updatedAt'>;
+
+// The fields a visibility change touches, as the visibility endpoint returns them
+export type PostVisibilityEdit = Pick<Post, 'visibility' | 'updatedAt'>;
+
+// An earlier version of an edited post
+export interface PostRevision {
+  id: string;
+  postId: string;
+  content: string;
+  // When this version was written, and when an edit replaced it
+  createdAt: string;
+  replacedAt: string;
 }
 
 // Comment types
@@ -90,22 +252,10 @@ export interface CreateCommentRequest {
   postId: string;
 }
 
-// Media types
-export interface MediaAttachment {
-  id: string;
-  type: 'image' | 'video';
-  url: string;
-  thumbnailUrl?: string;
-  altText?: string;
-  width?: number;
-  height?: number;
-  size: number;
-  createdAt: string;
-}
+// Media types come from the services' OpenAPI documents (see src/lib/generated)
+export type MediaAttachment = MediaAttachmentDto;
 
-export interface UploadMediaResponse {
-  media: MediaAttachment;
-}
+export type UploadMediaResponse = MediaUploadResponse;
 
 // Notification types
 export enum NotificationType {
@@ -144,6 +294,25 @@ export interface NotificationCount {
   unread: number;
 }
 
+// Admin types
+export interface ProcessingQueueStatus {
+  queuedJobs: number;
+  processingJobs: number;
+  completedJobs: number;
+  failedJobs: number;
+  totalJobs: number;
+  lastProcessedAt: string;
+}
+
+// Body of the notification service's POST bulk; `type` is the service's numeric NotificationType
+export interface BulkNotificationRequest {
+  userIds: string[];
+  type: number;
+  title: string;
+  message: string;
+  actionUrl?: string;
+}
+
 // API Response types
 export interface PaginatedResponse<T> {
   data: T[];
@@ -157,11 +326,57 @@ export interface PaginatedResponse<T> {
   };
 }
 
+export interface AvailabilityResponse {
+  available: boolean;
+}
+
+// Error body returned by the auth service
+export interface AuthErrorResponse {
+  error: string;
+  errorDescription?: string;
+  statusCode?: number;
+  timestamp?: string;
+  // Failed sign-ins: attempts left before the account is locked
+  attemptsRemaining?: number;
+  // Locked accounts: seconds until sign-in is allowed again
+  retryAfterSeconds?: number;
+}
+
+// Error codes the auth service returns in AuthErrorResponse.error
+export type AuthErrorCode = 'invalid_request' | 'invalid_grant' | 'account_locked' | 'server_error';
+
+// Envelope some services wrap their payload in. apiClient unwraps it, so callers only see `data`.
+export interface ApiEnvelope<T> {
+  data: T;
+  success: boolean;
+  message?: string;
+}
+
+// What kind of failure a request ended in, for the UI to branch on
+export type ApiErrorCode =
+  | 'network'
+  | 'timeout'
+  | 'cancelled'
+  | 'validation'
+  | 'bad_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'rate_limited'
+  | 'server'
+  | 'invalid_response'
+  | 'unknown';
+
+// Server validation messages, keyed by camelCase field name
+export type FieldErrors = Record<string, string[]>;
+
+// Every failed request rejects with one of these (see toApiError in lib/api)
 export interface ApiError {
   message: string;
-  code?: string;
+  code: ApiErrorCode;
   status?: number;
-  details?: any;
+  details?: FieldErrors;
 }
 
 // Form types
@@ -179,6 +394,10 @@ export interface RegisterFormData {
   confirmPassword: string;
 }
 
+export interface TwoFactorFormData {
+  code: string;
+}
+
 export interface ForgotPasswordFormData {
   email: string;
 }
@@ -188,6 +407,16 @@ export interface ResetPasswordFormData {
   confirmPassword: string;
 }
 
+export interface UnlockFormData {
+  password: string;
+}
+
+export interface ChangePasswordFormData {
+  currentPassword: string;
+  password: string;
+  confirmPassword: string;
+}
+
 export interface ProfileUpdateFormData {
   displayName: string;
   bio: string;
@@ -214,6 +443,24 @@ export interface AuthState {
   isAuthenticated: boolean;
   isLoading: boolean;
   error?: string;
+  twoFactorChallenge: { twoFactorToken: string; rememberMe: boolean } | null;
+  // Explains why the user was signed out when it wasn't their own doing
+  sessionNotice?: string;
+  // When the last confirmation email was requested, for the resend cooldown
+  confirmationEmailSentAt?: number;
+  // Screen locked after inactivity; the password unlocks it again
+  isLocked: boolean;
+  // Feedback from the last failed sign-in
+  loginAttemptsRemaining?: number;
+  loginLockedUntil?: number;
+}
+
+// What happens when a signed-in user has been idle for too long
+export type IdleAction = 'lock' | 'logout';
+
+export interface IdlePreferences {
+  timeoutMinutes: number;
+  action: IdleAction;
 }
 
 export interface PostsState {